@@ -0,0 +1,77 @@
+import { jsx as _jsx, Fragment as _Fragment, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback, useId, useState } from "react";
+import clsx from "clsx";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { loadExportBlob } from "../lib/sessionStore";
+import { logExportResult, useActivityLog } from "../state/activityLog";
+const ActivityEntryActions = ({ entry }) => {
+    const inputId = useId();
+    const markDownloadUnavailable = useActivityLog((state) => state.markDownloadUnavailable);
+    const [isRunning, setRunning] = useState(false);
+    const [message, setMessage] = useState(null);
+    const [error, setError] = useState(null);
+    const handleDownload = useCallback(async () => {
+        if (!entry.download) {
+            return;
+        }
+        setError(null);
+        setMessage(null);
+        try {
+            const blob = await loadExportBlob(entry.id);
+            if (!blob) {
+                markDownloadUnavailable(entry.id);
+                setError("This export is no longer stored on this device.");
+                return;
+            }
+            triggerBlobDownload(blob, entry.download.name);
+        }
+        catch (downloadProblem) {
+            console.error("Failed to read stored export", downloadProblem);
+            setError(getFriendlyPdfError(downloadProblem));
+        }
+    }, [entry.download, entry.id, markDownloadUnavailable]);
+    const handleRerun = useCallback(async (event) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file || !entry.replay) {
+            return;
+        }
+        setRunning(true);
+        setError(null);
+        setMessage(null);
+        try {
+            // pdf.js and pdf-lib stay out of the landing page bundle until a re-run needs them.
+            const [{ configurePdfWorker }, { loadPdfFromFile }, { replayExport }] = await Promise.all([
+                import("../lib/pdfWorker"),
+                import("../lib/pdfLoader"),
+                import("../lib/activityReplay"),
+            ]);
+            configurePdfWorker();
+            const pdf = await loadPdfFromFile(file);
+            try {
+                const result = await replayExport(entry.replay, pdf);
+                triggerBlobDownload(result.blob, result.downloadName);
+                logExportResult(result);
+                setMessage(`Saved as ${result.downloadName}`);
+            }
+            finally {
+                pdf.doc.destroy();
+            }
+        }
+        catch (rerunProblem) {
+            console.error("Failed to re-run export", rerunProblem);
+            setError(getFriendlyPdfError(rerunProblem));
+        }
+        finally {
+            setRunning(false);
+        }
+    }, [entry.replay]);
+    if (!entry.download?.stored && !entry.replay) {
+        return null;
+    }
+    return (_jsxs("div", { className: "mt-3 space-y-2", children: [_jsxs("div", { className: "flex flex-wrap items-center gap-2", children: [entry.download?.stored ? (_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 dark:border-white/10 dark:text-slate-200 dark:hover:bg-slate-800", onClick: () => void handleDownload(), children: "Download again" })) : null, entry.replay ? (_jsxs(_Fragment, { children: [_jsx("label", { htmlFor: inputId, className: clsx("rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold dark:border-white/10", isRunning
+                                    ? "cursor-wait text-slate-400"
+                                    : "cursor-pointer text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 dark:text-slate-200 dark:hover:bg-slate-800"), children: isRunning ? "Running…" : "Run on another file" }), _jsx("input", { id: inputId, type: "file", accept: "application/pdf", className: "sr-only", onChange: (event) => void handleRerun(event), disabled: isRunning })] })) : null] }), message ? _jsx("p", { className: "text-xs text-emerald-700 dark:text-emerald-300", children: message }) : null, error ? _jsx("p", { className: "text-xs text-red-700 dark:text-red-300", children: error }) : null] }));
+};
+export default ActivityEntryActions;
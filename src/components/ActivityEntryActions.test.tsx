@@ -0,0 +1,106 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+vi.mock("../lib/pdfLoader", () => ({
+  loadPdfFromFile: vi.fn(),
+}));
+
+vi.mock("../lib/activityReplay", () => ({
+  replayExport: vi.fn(),
+}));
+
+vi.mock("../lib/downloads", () => ({
+  triggerBlobDownload: vi.fn(),
+}));
+
+vi.mock("../lib/sessionStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/sessionStore")>()),
+  loadExportBlob: vi.fn(),
+}));
+
+import ActivityEntryActions from "./ActivityEntryActions";
+import { replayExport } from "../lib/activityReplay";
+import type { ExportResult } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import { loadPdfFromFile, type LoadedPdf } from "../lib/pdfLoader";
+import { loadExportBlob } from "../lib/sessionStore";
+import { useActivityLog } from "../state/activityLog";
+
+const addStoredEntry = () =>
+  useActivityLog.getState().addEntry({
+    type: "split-selection",
+    label: "Extracted 2 pages",
+    download: { name: "report-pages-1-2.pdf", size: 5, stored: true },
+    replay: { tool: "split", pages: [1, 2] },
+  });
+
+describe("ActivityEntryActions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useActivityLog.getState().reset();
+  });
+
+  it("renders nothing for entries without a stored export or replay", () => {
+    const entry = useActivityLog.getState().addEntry({ type: "viewer", label: "Opened a PDF" });
+    const { container } = render(<ActivityEntryActions entry={entry} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("downloads the stored export again", async () => {
+    const entry = addStoredEntry();
+    const blob = new Blob(["split"], { type: "application/pdf" });
+    vi.mocked(loadExportBlob).mockResolvedValue(blob);
+    render(<ActivityEntryActions entry={entry} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Download again" }));
+
+    await waitFor(() =>
+      expect(triggerBlobDownload).toHaveBeenCalledWith(blob, "report-pages-1-2.pdf"),
+    );
+    expect(loadExportBlob).toHaveBeenCalledWith(entry.id);
+  });
+
+  it("flags the entry when its stored export is gone", async () => {
+    const entry = addStoredEntry();
+    vi.mocked(loadExportBlob).mockResolvedValue(null);
+    render(<ActivityEntryActions entry={entry} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Download again" }));
+
+    expect(
+      await screen.findByText("This export is no longer stored on this device."),
+    ).toBeInTheDocument();
+    expect(triggerBlobDownload).toHaveBeenCalledTimes(0);
+    expect(useActivityLog.getState().entries[0]?.download?.stored).toBe(false);
+  });
+
+  it("re-runs the export on another file and logs the result", async () => {
+    const entry = addStoredEntry();
+    const destroy = vi.fn();
+    const pdf = { name: "next.pdf", doc: { destroy } } as unknown as LoadedPdf;
+    const result: ExportResult = {
+      blob: new Blob(["next"], { type: "application/pdf" }),
+      size: 4,
+      downloadName: "next-pages-1-2.pdf",
+      durationMs: 3,
+      activity: { tool: "split", operation: "split-selection-2-pages", sourceCount: 1 },
+    };
+    vi.mocked(loadPdfFromFile).mockResolvedValue(pdf);
+    vi.mocked(replayExport).mockResolvedValue(result);
+    render(<ActivityEntryActions entry={entry} />);
+
+    const file = new File(["%PDF"], "next.pdf", { type: "application/pdf" });
+    fireEvent.change(screen.getByLabelText("Run on another file"), { target: { files: [file] } });
+
+    expect(await screen.findByText("Saved as next-pages-1-2.pdf")).toBeInTheDocument();
+    expect(replayExport).toHaveBeenCalledWith({ tool: "split", pages: [1, 2] }, pdf);
+    expect(triggerBlobDownload).toHaveBeenCalledWith(result.blob, "next-pages-1-2.pdf");
+    expect(destroy).toHaveBeenCalled();
+    expect(useActivityLog.getState().entries).toHaveLength(2);
+  });
+});
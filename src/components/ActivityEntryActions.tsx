@@ -0,0 +1,125 @@
+import { useCallback, useId, useState, type ChangeEvent } from "react";
+import clsx from "clsx";
+
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { loadExportBlob } from "../lib/sessionStore";
+import { logExportResult, useActivityLog, type ActivityEntry } from "../state/activityLog";
+
+type ActivityEntryActionsProps = {
+  entry: ActivityEntry;
+};
+
+const ActivityEntryActions = ({ entry }: ActivityEntryActionsProps) => {
+  const inputId = useId();
+  const markDownloadUnavailable = useActivityLog((state) => state.markDownloadUnavailable);
+  const [isRunning, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = useCallback(async () => {
+    if (!entry.download) {
+      return;
+    }
+
+    setError(null);
+    setMessage(null);
+    try {
+      const blob = await loadExportBlob(entry.id);
+      if (!blob) {
+        markDownloadUnavailable(entry.id);
+        setError("This export is no longer stored on this device.");
+        return;
+      }
+      triggerBlobDownload(blob, entry.download.name);
+    } catch (downloadProblem) {
+      console.error("Failed to read stored export", downloadProblem);
+      setError(getFriendlyPdfError(downloadProblem));
+    }
+  }, [entry.download, entry.id, markDownloadUnavailable]);
+
+  const handleRerun = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file || !entry.replay) {
+        return;
+      }
+
+      setRunning(true);
+      setError(null);
+      setMessage(null);
+      try {
+        // pdf.js and pdf-lib stay out of the landing page bundle until a re-run needs them.
+        const [{ configurePdfWorker }, { loadPdfFromFile }, { replayExport }] = await Promise.all([
+          import("../lib/pdfWorker"),
+          import("../lib/pdfLoader"),
+          import("../lib/activityReplay"),
+        ]);
+        configurePdfWorker();
+        const pdf = await loadPdfFromFile(file);
+        try {
+          const result = await replayExport(entry.replay, pdf);
+          triggerBlobDownload(result.blob, result.downloadName);
+          logExportResult(result);
+          setMessage(`Saved as ${result.downloadName}`);
+        } finally {
+          pdf.doc.destroy();
+        }
+      } catch (rerunProblem) {
+        console.error("Failed to re-run export", rerunProblem);
+        setError(getFriendlyPdfError(rerunProblem));
+      } finally {
+        setRunning(false);
+      }
+    },
+    [entry.replay],
+  );
+
+  if (!entry.download?.stored && !entry.replay) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {entry.download?.stored ? (
+          <button
+            type="button"
+            className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 dark:border-white/10 dark:text-slate-200 dark:hover:bg-slate-800"
+            onClick={() => void handleDownload()}
+          >
+            Download again
+          </button>
+        ) : null}
+        {entry.replay ? (
+          <>
+            <label
+              htmlFor={inputId}
+              className={clsx(
+                "rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold dark:border-white/10",
+                isRunning
+                  ? "cursor-wait text-slate-400"
+                  : "cursor-pointer text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 dark:text-slate-200 dark:hover:bg-slate-800",
+              )}
+            >
+              {isRunning ? "Running…" : "Run on another file"}
+            </label>
+            <input
+              id={inputId}
+              type="file"
+              accept="application/pdf"
+              className="sr-only"
+              onChange={(event) => void handleRerun(event)}
+              disabled={isRunning}
+            />
+          </>
+        ) : null}
+      </div>
+      {message ? <p className="text-xs text-emerald-700 dark:text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-xs text-red-700 dark:text-red-300">{error}</p> : null}
+    </div>
+  );
+};
+
+export default ActivityEntryActions;
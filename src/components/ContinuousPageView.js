@@ -0,0 +1,191 @@
+import { jsx as _jsx, Fragment as _Fragment, jsxs as _jsxs } from "react/jsx-runtime";
+import { memo, useCallback, useEffect, useRef, useState } from "react";
+import { renderTextLayer } from "../lib/pdfTextLayer";
+// US Letter in points; only used until the first page reports its real size.
+const FALLBACK_PAGE_SIZE = { width: 612, height: 792 };
+// Pages within a viewport's height above or below the visible area get rendered.
+const NEAR_ROOT_MARGIN = "100% 0px";
+const VISIBILITY_THRESHOLDS = [0, 0.25, 0.5, 0.75, 1];
+const SLOT_GAP_PX = 16;
+const PageSlot = memo(({ doc, pageNumber, zoom, size, isNear, onMeasured, renderOverlay }) => {
+    const canvasRef = useRef(null);
+    const textLayerRef = useRef(null);
+    const [rendered, setRendered] = useState(null);
+    useEffect(() => {
+        if (!isNear) {
+            setRendered(null);
+            return;
+        }
+        let isCancelled = false;
+        let activePage = null;
+        let renderTask = null;
+        let textLayer = null;
+        const draw = async () => {
+            const page = await doc.getPage(pageNumber);
+            if (isCancelled) {
+                page.cleanup();
+                return;
+            }
+            activePage = page;
+            const canvas = canvasRef.current;
+            const context = canvas?.getContext("2d");
+            if (isCancelled || !canvas || !context) {
+                return;
+            }
+            const pageViewport = page.getViewport({ scale: zoom });
+            onMeasured(pageNumber, {
+                width: pageViewport.width / zoom,
+                height: pageViewport.height / zoom,
+            });
+            const outputScale = window.devicePixelRatio || 1;
+            canvas.width = Math.floor(pageViewport.width * outputScale);
+            canvas.height = Math.floor(pageViewport.height * outputScale);
+            canvas.style.width = `${pageViewport.width}px`;
+            canvas.style.height = `${pageViewport.height}px`;
+            renderTask = page.render({
+                canvas,
+                canvasContext: context,
+                transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+                viewport: pageViewport,
+            });
+            const [, textContent, annotations] = await Promise.all([
+                renderTask.promise,
+                page.getTextContent(),
+                page.getAnnotations(),
+            ]);
+            if (isCancelled || !textLayerRef.current) {
+                return;
+            }
+            setRendered({ page, viewport: pageViewport, annotations });
+            textLayer = renderTextLayer(textLayerRef.current, textContent, pageViewport);
+            await textLayer.rendered;
+        };
+        draw().catch((renderError) => {
+            // Scrolling a page out of range cancels its render task, which rejects on purpose.
+            if (!isCancelled) {
+                console.error(renderError);
+            }
+        });
+        return () => {
+            isCancelled = true;
+            renderTask?.cancel();
+            textLayer?.cancel();
+            // Drops the operator list and decoded images so scrolled-past pages don't pile up.
+            activePage?.cleanup();
+        };
+    }, [doc, isNear, onMeasured, pageNumber, zoom]);
+    return (_jsx("div", { className: "relative mx-auto bg-white shadow-2xl shadow-slate-900/10", style: { width: size.width * zoom, height: size.height * zoom }, children: isNear ? (_jsxs(_Fragment, { children: [_jsx("canvas", { ref: canvasRef, className: "block" }), _jsx("div", { ref: textLayerRef, className: "textLayer" }), rendered && renderOverlay
+                    ? renderOverlay(pageNumber, rendered.viewport, rendered.annotations, rendered.page)
+                    : null] })) : null }));
+});
+PageSlot.displayName = "PageSlot";
+/**
+ * Vertical scroll view over every page of a document. Each page gets a correctly sized
+ * slot, but only slots near the viewport hold a canvas; the rest are empty boxes so long
+ * documents stay cheap to scroll. Reports the most visible page back to the parent and
+ * scrolls to `currentPage` whenever it changes from outside (thumbnails, search hits).
+ */
+const ContinuousPageView = ({ doc, pageCount, zoom, currentPage, onVisiblePageChange, renderOverlay, }) => {
+    const containerRef = useRef(null);
+    const slotRefs = useRef(new Map());
+    const visibleRatiosRef = useRef(new Map());
+    const reportedPageRef = useRef(null);
+    const [nearPages, setNearPages] = useState(() => new Set());
+    const [pageSizes, setPageSizes] = useState(() => new Map());
+    const [defaultSize, setDefaultSize] = useState(FALLBACK_PAGE_SIZE);
+    useEffect(() => {
+        let isCancelled = false;
+        setPageSizes(new Map());
+        doc
+            .getPage(1)
+            .then((page) => {
+            if (!isCancelled) {
+                const viewport = page.getViewport({ scale: 1 });
+                setDefaultSize({ width: viewport.width, height: viewport.height });
+            }
+        })
+            .catch((sizeError) => console.error(sizeError));
+        return () => {
+            isCancelled = true;
+        };
+    }, [doc]);
+    const handleMeasured = useCallback((pageNumber, size) => {
+        setPageSizes((previous) => {
+            const known = previous.get(pageNumber);
+            if (known && known.width === size.width && known.height === size.height) {
+                return previous;
+            }
+            const next = new Map(previous);
+            next.set(pageNumber, size);
+            return next;
+        });
+    }, []);
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || typeof IntersectionObserver === "undefined") {
+            return;
+        }
+        const ratios = visibleRatiosRef.current;
+        const readPageNumber = (entry) => Number(entry.target.dataset.pageNumber);
+        const nearObserver = new IntersectionObserver((entries) => {
+            setNearPages((previous) => {
+                const next = new Set(previous);
+                entries.forEach((entry) => {
+                    if (entry.isIntersecting) {
+                        next.add(readPageNumber(entry));
+                    }
+                    else {
+                        next.delete(readPageNumber(entry));
+                    }
+                });
+                return next;
+            });
+        }, { root: container, rootMargin: NEAR_ROOT_MARGIN });
+        const visibleObserver = new IntersectionObserver((entries) => {
+            entries.forEach((entry) => {
+                ratios.set(readPageNumber(entry), entry.intersectionRatio);
+            });
+            let mostVisible = null;
+            let bestRatio = 0;
+            for (const [pageNumber, ratio] of ratios) {
+                if (ratio > bestRatio) {
+                    bestRatio = ratio;
+                    mostVisible = pageNumber;
+                }
+            }
+            if (mostVisible !== null && mostVisible !== reportedPageRef.current) {
+                reportedPageRef.current = mostVisible;
+                onVisiblePageChange(mostVisible);
+            }
+        }, { root: container, threshold: VISIBILITY_THRESHOLDS });
+        slotRefs.current.forEach((slot) => {
+            nearObserver.observe(slot);
+            visibleObserver.observe(slot);
+        });
+        return () => {
+            nearObserver.disconnect();
+            visibleObserver.disconnect();
+            ratios.clear();
+        };
+    }, [onVisiblePageChange, pageCount]);
+    useEffect(() => {
+        if (currentPage === reportedPageRef.current) {
+            return;
+        }
+        reportedPageRef.current = currentPage;
+        slotRefs.current.get(currentPage)?.scrollIntoView?.({ block: "start" });
+    }, [currentPage]);
+    const registerSlot = useCallback((pageNumber) => (element) => {
+        if (element) {
+            slotRefs.current.set(pageNumber, element);
+        }
+        else {
+            slotRefs.current.delete(pageNumber);
+        }
+    }, []);
+    return (_jsx("div", { ref: containerRef, className: "max-h-[75vh] overflow-y-auto", children: _jsx("div", { className: "flex flex-col", style: { gap: SLOT_GAP_PX }, children: Array.from({ length: pageCount }, (_, index) => {
+                const pageNumber = index + 1;
+                return (_jsx("div", { ref: registerSlot(pageNumber), "data-page-number": pageNumber, children: _jsx(PageSlot, { doc: doc, pageNumber: pageNumber, zoom: zoom, size: pageSizes.get(pageNumber) ?? defaultSize, isNear: nearPages.has(pageNumber), onMeasured: handleMeasured, renderOverlay: renderOverlay }) }, pageNumber));
+            }) }) }));
+};
+export default ContinuousPageView;
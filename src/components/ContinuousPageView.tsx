@@ -0,0 +1,311 @@
+import { memo, useCallback, useEffect, useRef, useState, type ReactNode } from "react";
+
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from "pdfjs-dist/types/src/display/api";
+import type { PageViewport } from "pdfjs-dist/types/src/display/display_utils";
+
+import type { PdfJsAnnotation } from "../lib/pdfAnnotations";
+import { renderTextLayer, type TextLayerHandle } from "../lib/pdfTextLayer";
+
+type PageSize = {
+  width: number;
+  height: number;
+};
+
+type RenderedSlot = {
+  page: PDFPageProxy;
+  viewport: PageViewport;
+  annotations: PdfJsAnnotation[];
+};
+
+type ContinuousPageViewProps = {
+  doc: PDFDocumentProxy;
+  pageCount: number;
+  zoom: number;
+  currentPage: number;
+  onVisiblePageChange: (pageNumber: number) => void;
+  renderOverlay?: (
+    pageNumber: number,
+    viewport: PageViewport,
+    annotations: PdfJsAnnotation[],
+    page: PDFPageProxy,
+  ) => ReactNode;
+};
+
+type PageSlotProps = {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  zoom: number;
+  size: PageSize;
+  isNear: boolean;
+  onMeasured: (pageNumber: number, size: PageSize) => void;
+  renderOverlay?: (
+    pageNumber: number,
+    viewport: PageViewport,
+    annotations: PdfJsAnnotation[],
+    page: PDFPageProxy,
+  ) => ReactNode;
+};
+
+// US Letter in points; only used until the first page reports its real size.
+const FALLBACK_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+// Pages within a viewport's height above or below the visible area get rendered.
+const NEAR_ROOT_MARGIN = "100% 0px";
+const VISIBILITY_THRESHOLDS = [0, 0.25, 0.5, 0.75, 1];
+const SLOT_GAP_PX = 16;
+
+const PageSlot = memo(
+  ({ doc, pageNumber, zoom, size, isNear, onMeasured, renderOverlay }: PageSlotProps) => {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const textLayerRef = useRef<HTMLDivElement | null>(null);
+    const [rendered, setRendered] = useState<RenderedSlot | null>(null);
+
+    useEffect(() => {
+      if (!isNear) {
+        setRendered(null);
+        return;
+      }
+
+      let isCancelled = false;
+      let activePage: PDFPageProxy | null = null;
+      let renderTask: RenderTask | null = null;
+      let textLayer: TextLayerHandle | null = null;
+
+      const draw = async () => {
+        const page = await doc.getPage(pageNumber);
+        if (isCancelled) {
+          page.cleanup();
+          return;
+        }
+        activePage = page;
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (isCancelled || !canvas || !context) {
+          return;
+        }
+
+        const pageViewport = page.getViewport({ scale: zoom });
+        onMeasured(pageNumber, {
+          width: pageViewport.width / zoom,
+          height: pageViewport.height / zoom,
+        });
+
+        const outputScale = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(pageViewport.width * outputScale);
+        canvas.height = Math.floor(pageViewport.height * outputScale);
+        canvas.style.width = `${pageViewport.width}px`;
+        canvas.style.height = `${pageViewport.height}px`;
+
+        renderTask = page.render({
+          canvas,
+          canvasContext: context,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+          viewport: pageViewport,
+        });
+        const [, textContent, annotations] = await Promise.all([
+          renderTask.promise,
+          page.getTextContent(),
+          page.getAnnotations(),
+        ]);
+        if (isCancelled || !textLayerRef.current) {
+          return;
+        }
+
+        setRendered({ page, viewport: pageViewport, annotations });
+        textLayer = renderTextLayer(textLayerRef.current, textContent, pageViewport);
+        await textLayer.rendered;
+      };
+
+      draw().catch((renderError) => {
+        // Scrolling a page out of range cancels its render task, which rejects on purpose.
+        if (!isCancelled) {
+          console.error(renderError);
+        }
+      });
+
+      return () => {
+        isCancelled = true;
+        renderTask?.cancel();
+        textLayer?.cancel();
+        // Drops the operator list and decoded images so scrolled-past pages don't pile up.
+        activePage?.cleanup();
+      };
+    }, [doc, isNear, onMeasured, pageNumber, zoom]);
+
+    return (
+      <div
+        className="relative mx-auto bg-white shadow-2xl shadow-slate-900/10"
+        style={{ width: size.width * zoom, height: size.height * zoom }}
+      >
+        {isNear ? (
+          <>
+            <canvas ref={canvasRef} className="block" />
+            <div ref={textLayerRef} className="textLayer" />
+            {rendered && renderOverlay
+              ? renderOverlay(pageNumber, rendered.viewport, rendered.annotations, rendered.page)
+              : null}
+          </>
+        ) : null}
+      </div>
+    );
+  },
+);
+
+PageSlot.displayName = "PageSlot";
+
+/**
+ * Vertical scroll view over every page of a document. Each page gets a correctly sized
+ * slot, but only slots near the viewport hold a canvas; the rest are empty boxes so long
+ * documents stay cheap to scroll. Reports the most visible page back to the parent and
+ * scrolls to `currentPage` whenever it changes from outside (thumbnails, search hits).
+ */
+const ContinuousPageView = ({
+  doc,
+  pageCount,
+  zoom,
+  currentPage,
+  onVisiblePageChange,
+  renderOverlay,
+}: ContinuousPageViewProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const slotRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const visibleRatiosRef = useRef<Map<number, number>>(new Map());
+  const reportedPageRef = useRef<number | null>(null);
+  const [nearPages, setNearPages] = useState<Set<number>>(() => new Set());
+  const [pageSizes, setPageSizes] = useState<Map<number, PageSize>>(() => new Map());
+  const [defaultSize, setDefaultSize] = useState<PageSize>(FALLBACK_PAGE_SIZE);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setPageSizes(new Map());
+    doc
+      .getPage(1)
+      .then((page) => {
+        if (!isCancelled) {
+          const viewport = page.getViewport({ scale: 1 });
+          setDefaultSize({ width: viewport.width, height: viewport.height });
+        }
+      })
+      .catch((sizeError) => console.error(sizeError));
+    return () => {
+      isCancelled = true;
+    };
+  }, [doc]);
+
+  const handleMeasured = useCallback((pageNumber: number, size: PageSize) => {
+    setPageSizes((previous) => {
+      const known = previous.get(pageNumber);
+      if (known && known.width === size.width && known.height === size.height) {
+        return previous;
+      }
+      const next = new Map(previous);
+      next.set(pageNumber, size);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    const ratios = visibleRatiosRef.current;
+    const readPageNumber = (entry: IntersectionObserverEntry) =>
+      Number((entry.target as HTMLElement).dataset.pageNumber);
+
+    const nearObserver = new IntersectionObserver(
+      (entries) => {
+        setNearPages((previous) => {
+          const next = new Set(previous);
+          entries.forEach((entry) => {
+            if (entry.isIntersecting) {
+              next.add(readPageNumber(entry));
+            } else {
+              next.delete(readPageNumber(entry));
+            }
+          });
+          return next;
+        });
+      },
+      { root: container, rootMargin: NEAR_ROOT_MARGIN },
+    );
+
+    const visibleObserver = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          ratios.set(readPageNumber(entry), entry.intersectionRatio);
+        });
+
+        let mostVisible: number | null = null;
+        let bestRatio = 0;
+        for (const [pageNumber, ratio] of ratios) {
+          if (ratio > bestRatio) {
+            bestRatio = ratio;
+            mostVisible = pageNumber;
+          }
+        }
+
+        if (mostVisible !== null && mostVisible !== reportedPageRef.current) {
+          reportedPageRef.current = mostVisible;
+          onVisiblePageChange(mostVisible);
+        }
+      },
+      { root: container, threshold: VISIBILITY_THRESHOLDS },
+    );
+
+    slotRefs.current.forEach((slot) => {
+      nearObserver.observe(slot);
+      visibleObserver.observe(slot);
+    });
+
+    return () => {
+      nearObserver.disconnect();
+      visibleObserver.disconnect();
+      ratios.clear();
+    };
+  }, [onVisiblePageChange, pageCount]);
+
+  useEffect(() => {
+    if (currentPage === reportedPageRef.current) {
+      return;
+    }
+    reportedPageRef.current = currentPage;
+    slotRefs.current.get(currentPage)?.scrollIntoView?.({ block: "start" });
+  }, [currentPage]);
+
+  const registerSlot = useCallback(
+    (pageNumber: number) => (element: HTMLDivElement | null) => {
+      if (element) {
+        slotRefs.current.set(pageNumber, element);
+      } else {
+        slotRefs.current.delete(pageNumber);
+      }
+    },
+    [],
+  );
+
+  return (
+    <div ref={containerRef} className="max-h-[75vh] overflow-y-auto">
+      <div className="flex flex-col" style={{ gap: SLOT_GAP_PX }}>
+        {Array.from({ length: pageCount }, (_, index) => {
+          const pageNumber = index + 1;
+          return (
+            <div key={pageNumber} ref={registerSlot(pageNumber)} data-page-number={pageNumber}>
+              <PageSlot
+                doc={doc}
+                pageNumber={pageNumber}
+                zoom={zoom}
+                size={pageSizes.get(pageNumber) ?? defaultSize}
+                isNear={nearPages.has(pageNumber)}
+                onMeasured={handleMeasured}
+                renderOverlay={renderOverlay}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ContinuousPageView;
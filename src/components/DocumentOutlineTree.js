@@ -0,0 +1,13 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useState } from "react";
+import clsx from "clsx";
+const OutlineRow = ({ item, currentPage, onNavigate }) => {
+    const [isOpen, setOpen] = useState(item.isOpen);
+    const hasChildren = item.children.length > 0;
+    const { pageNumber } = item;
+    return (_jsxs("li", { children: [_jsxs("div", { className: "flex items-start gap-1", children: [hasChildren ? (_jsx("button", { type: "button", className: "mt-1 w-4 shrink-0 text-[10px] text-slate-400 hover:text-slate-700 dark:hover:text-white", "aria-expanded": isOpen, "aria-label": `${isOpen ? "Collapse" : "Expand"} ${item.title}`, onClick: () => setOpen((previous) => !previous), children: isOpen ? "▾" : "▸" })) : (_jsx("span", { className: "w-4 shrink-0" })), _jsx("button", { type: "button", disabled: pageNumber === null, onClick: () => pageNumber !== null && onNavigate(pageNumber), className: clsx("flex-1 rounded-lg px-2 py-1 text-left text-xs transition disabled:cursor-default disabled:opacity-50", pageNumber === currentPage
+                            ? "bg-emerald-50 font-semibold text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-100"
+                            : "text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800/60"), children: item.title })] }), hasChildren && isOpen ? (_jsx("ul", { className: "ml-3 border-l border-slate-200 pl-1 dark:border-white/10", children: item.children.map((child) => (_jsx(OutlineRow, { item: child, currentPage: currentPage, onNavigate: onNavigate }, child.id))) })) : null] }));
+};
+const DocumentOutlineTree = ({ items, currentPage, onNavigate }) => (_jsx("ul", { className: "space-y-0.5", children: items.map((item) => (_jsx(OutlineRow, { item: item, currentPage: currentPage, onNavigate: onNavigate }, item.id))) }));
+export default DocumentOutlineTree;
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import clsx from "clsx";
+
+import type { ViewerOutlineItem } from "../lib/pdfNavigation";
+
+type DocumentOutlineTreeProps = {
+  items: ViewerOutlineItem[];
+  currentPage: number;
+  onNavigate: (pageNumber: number) => void;
+};
+
+type OutlineRowProps = {
+  item: ViewerOutlineItem;
+  currentPage: number;
+  onNavigate: (pageNumber: number) => void;
+};
+
+const OutlineRow = ({ item, currentPage, onNavigate }: OutlineRowProps) => {
+  const [isOpen, setOpen] = useState(item.isOpen);
+  const hasChildren = item.children.length > 0;
+  const { pageNumber } = item;
+
+  return (
+    <li>
+      <div className="flex items-start gap-1">
+        {hasChildren ? (
+          <button
+            type="button"
+            className="mt-1 w-4 shrink-0 text-[10px] text-slate-400 hover:text-slate-700 dark:hover:text-white"
+            aria-expanded={isOpen}
+            aria-label={`${isOpen ? "Collapse" : "Expand"} ${item.title}`}
+            onClick={() => setOpen((previous) => !previous)}
+          >
+            {isOpen ? "▾" : "▸"}
+          </button>
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <button
+          type="button"
+          disabled={pageNumber === null}
+          onClick={() => pageNumber !== null && onNavigate(pageNumber)}
+          className={clsx(
+            "flex-1 rounded-lg px-2 py-1 text-left text-xs transition disabled:cursor-default disabled:opacity-50",
+            pageNumber === currentPage
+              ? "bg-emerald-50 font-semibold text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-100"
+              : "text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800/60",
+          )}
+        >
+          {item.title}
+        </button>
+      </div>
+      {hasChildren && isOpen ? (
+        <ul className="ml-3 border-l border-slate-200 pl-1 dark:border-white/10">
+          {item.children.map((child) => (
+            <OutlineRow
+              key={child.id}
+              item={child}
+              currentPage={currentPage}
+              onNavigate={onNavigate}
+            />
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  );
+};
+
+const DocumentOutlineTree = ({ items, currentPage, onNavigate }: DocumentOutlineTreeProps) => (
+  <ul className="space-y-0.5">
+    {items.map((item) => (
+      <OutlineRow key={item.id} item={item} currentPage={currentPage} onNavigate={onNavigate} />
+    ))}
+  </ul>
+);
+
+export default DocumentOutlineTree;
@@ -0,0 +1,58 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+import { createPdfSourceFromUrl, formatFetchProgress, } from "../lib/documentPipeline";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+const OpenFromUrlForm = ({ onSource, disabled = false }) => {
+    const inputId = useId();
+    const [open, setOpen] = useState(false);
+    const [url, setUrl] = useState("");
+    const [progress, setProgress] = useState(null);
+    const [error, setError] = useState(null);
+    const controllerRef = useRef(null);
+    useEffect(() => {
+        return () => controllerRef.current?.abort();
+    }, []);
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setProgress(null);
+        setError(null);
+        setOpen(false);
+    }, []);
+    const handleSubmit = useCallback(async (event) => {
+        event.preventDefault();
+        if (!url.trim() || controllerRef.current) {
+            return;
+        }
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setError(null);
+        setProgress({ loaded: 0, total: null });
+        try {
+            const source = await createPdfSourceFromUrl(url, {
+                signal: controller.signal,
+                onProgress: setProgress,
+            });
+            await onSource(source);
+            setUrl("");
+            setOpen(false);
+        }
+        catch (fetchError) {
+            if (!controller.signal.aborted) {
+                console.error("Failed to open PDF from URL", fetchError);
+                setError(getFriendlyPdfError(fetchError));
+            }
+        }
+        finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setProgress(null);
+            }
+        }
+    }, [onSource, url]);
+    if (!open) {
+        return (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline disabled:cursor-not-allowed disabled:opacity-40 dark:text-slate-300", onClick: () => setOpen(true), disabled: disabled, children: "Open from URL" }));
+    }
+    return (_jsxs("form", { onSubmit: handleSubmit, className: "flex w-full max-w-md flex-col gap-2 text-left", children: [_jsx("label", { htmlFor: inputId, className: "text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "PDF link" }), _jsxs("div", { className: "flex gap-2", children: [_jsx("input", { id: inputId, type: "url", inputMode: "url", placeholder: "https://example.com/report.pdf", value: url, onChange: (event) => setUrl(event.target.value), disabled: Boolean(progress), className: "min-w-0 flex-1 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white" }), _jsx("button", { type: "submit", className: "rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !url.trim() || Boolean(progress) || disabled, children: "Open" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: cancel, children: "Cancel" })] }), progress ? (_jsxs("p", { className: "text-xs text-slate-500 dark:text-slate-400", "aria-live": "polite", children: ["Downloading\u2026 ", formatFetchProgress(progress)] })) : null, error ? _jsx("p", { className: "text-xs text-red-700 dark:text-red-300", children: error }) : null, _jsx("p", { className: "text-xs text-slate-400", children: "The site has to allow cross-origin downloads. The file is fetched straight into your browser." })] }));
+};
+export default OpenFromUrlForm;
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useId, useRef, useState, type FormEvent } from "react";
+
+import {
+  createPdfSourceFromUrl,
+  formatFetchProgress,
+  type FetchProgress,
+  type PdfSource,
+} from "../lib/documentPipeline";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+
+type OpenFromUrlFormProps = {
+  /** Receives the downloaded source; the form closes once this settles. */
+  onSource: (source: PdfSource) => void | Promise<void>;
+  disabled?: boolean;
+};
+
+const OpenFromUrlForm = ({ onSource, disabled = false }: OpenFromUrlFormProps) => {
+  const inputId = useId();
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [progress, setProgress] = useState<FetchProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(null);
+    setError(null);
+    setOpen(false);
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!url.trim() || controllerRef.current) {
+        return;
+      }
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setError(null);
+      setProgress({ loaded: 0, total: null });
+
+      try {
+        const source = await createPdfSourceFromUrl(url, {
+          signal: controller.signal,
+          onProgress: setProgress,
+        });
+        await onSource(source);
+        setUrl("");
+        setOpen(false);
+      } catch (fetchError) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to open PDF from URL", fetchError);
+          setError(getFriendlyPdfError(fetchError));
+        }
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setProgress(null);
+        }
+      }
+    },
+    [onSource, url],
+  );
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline disabled:cursor-not-allowed disabled:opacity-40 dark:text-slate-300"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+      >
+        Open from URL
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex w-full max-w-md flex-col gap-2 text-left">
+      <label
+        htmlFor={inputId}
+        className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300"
+      >
+        PDF link
+      </label>
+      <div className="flex gap-2">
+        <input
+          id={inputId}
+          type="url"
+          inputMode="url"
+          placeholder="https://example.com/report.pdf"
+          value={url}
+          onChange={(event) => setUrl(event.target.value)}
+          disabled={Boolean(progress)}
+          className="min-w-0 flex-1 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white"
+        />
+        <button
+          type="submit"
+          className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900"
+          disabled={!url.trim() || Boolean(progress) || disabled}
+        >
+          Open
+        </button>
+        <button
+          type="button"
+          className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200"
+          onClick={cancel}
+        >
+          Cancel
+        </button>
+      </div>
+      {progress ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400" aria-live="polite">
+          Downloading… {formatFetchProgress(progress)}
+        </p>
+      ) : null}
+      {error ? <p className="text-xs text-red-700 dark:text-red-300">{error}</p> : null}
+      <p className="text-xs text-slate-400">
+        The site has to allow cross-origin downloads. The file is fetched straight into your
+        browser.
+      </p>
+    </form>
+  );
+};
+
+export default OpenFromUrlForm;
@@ -0,0 +1,29 @@
+import { jsx as _jsx } from "react/jsx-runtime";
+import { useEffect, useRef } from "react";
+import { renderAnnotationLayer } from "../lib/pdfAnnotationLayer";
+/**
+ * Mounts pdf.js's annotation layer over a rendered page. The wrapper ignores the pointer so
+ * text selection still reaches the text layer; pdf.js re-enables it on each annotation.
+ */
+const PageAnnotationLayer = ({ page, viewport, annotations, linkService, }) => {
+    const containerRef = useRef(null);
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || annotations.length === 0) {
+            return;
+        }
+        let isCancelled = false;
+        const layer = renderAnnotationLayer(container, { page, annotations, viewport, linkService });
+        layer.rendered.catch((layerError) => {
+            if (!isCancelled) {
+                console.error(layerError);
+            }
+        });
+        return () => {
+            isCancelled = true;
+            layer.cancel();
+        };
+    }, [annotations, linkService, page, viewport]);
+    return _jsx("div", { ref: containerRef, className: "pointer-events-none absolute inset-0 z-[1]" });
+};
+export default PageAnnotationLayer;
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from "react";
+
+import type { PDFPageProxy } from "pdfjs-dist/types/src/display/api";
+import type { PageViewport } from "pdfjs-dist/types/src/display/display_utils";
+import type { IPDFLinkService } from "pdfjs-dist/types/web/interfaces";
+
+import { renderAnnotationLayer } from "../lib/pdfAnnotationLayer";
+import type { PdfJsAnnotation } from "../lib/pdfAnnotations";
+
+type PageAnnotationLayerProps = {
+  page: PDFPageProxy;
+  viewport: PageViewport;
+  annotations: PdfJsAnnotation[];
+  linkService: IPDFLinkService;
+};
+
+/**
+ * Mounts pdf.js's annotation layer over a rendered page. The wrapper ignores the pointer so
+ * text selection still reaches the text layer; pdf.js re-enables it on each annotation.
+ */
+const PageAnnotationLayer = ({
+  page,
+  viewport,
+  annotations,
+  linkService,
+}: PageAnnotationLayerProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || annotations.length === 0) {
+      return;
+    }
+
+    let isCancelled = false;
+    const layer = renderAnnotationLayer(container, { page, annotations, viewport, linkService });
+    layer.rendered.catch((layerError) => {
+      if (!isCancelled) {
+        console.error(layerError);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+      layer.cancel();
+    };
+  }, [annotations, linkService, page, viewport]);
+
+  return <div ref={containerRef} className="pointer-events-none absolute inset-0 z-[1]" />;
+};
+
+export default PageAnnotationLayer;
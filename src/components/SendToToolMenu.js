@@ -0,0 +1,27 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { toolRoutes } from "../data/toolRoutes";
+import { usePdfAssets } from "../state/pdfAssets";
+const TARGETS = [
+    { tool: "viewer", label: "Viewer" },
+    { tool: "split", label: "Split" },
+    { tool: "editor", label: "Editor" },
+    { tool: "compression", label: "Compress" },
+];
+const SendToToolMenu = ({ from, documentId, label = "Send to" }) => {
+    const navigate = useNavigate();
+    const sendToTool = usePdfAssets((state) => state.sendToTool);
+    const handleSend = useCallback((tool) => {
+        const path = toolRoutes.find((route) => route.id === tool)?.path;
+        if (!documentId || !path || !sendToTool(documentId, tool)) {
+            return;
+        }
+        navigate(`/${path}`);
+    }, [documentId, navigate, sendToTool]);
+    if (!documentId) {
+        return null;
+    }
+    return (_jsxs("div", { className: "flex flex-wrap items-center gap-2", role: "group", "aria-label": label, children: [_jsx("span", { className: "text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400", children: label }), TARGETS.filter((target) => target.tool !== from).map((target) => (_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 dark:border-white/10 dark:text-slate-200 dark:hover:bg-slate-800", onClick: () => handleSend(target.tool), children: target.label }, target.tool)))] }));
+};
+export default SendToToolMenu;
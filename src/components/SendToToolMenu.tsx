@@ -0,0 +1,60 @@
+import { useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+
+import { toolRoutes } from "../data/toolRoutes";
+import { usePdfAssets, type HandoffTool } from "../state/pdfAssets";
+
+const TARGETS: { tool: HandoffTool; label: string }[] = [
+  { tool: "viewer", label: "Viewer" },
+  { tool: "split", label: "Split" },
+  { tool: "editor", label: "Editor" },
+  { tool: "compression", label: "Compress" },
+];
+
+type SendToToolMenuProps = {
+  /** The tool rendering the menu; it is left out of the targets. */
+  from: HandoffTool;
+  /** An id from `usePdfAssets().openDocuments`; the menu hides while it is null. */
+  documentId: string | null | undefined;
+  label?: string;
+};
+
+const SendToToolMenu = ({ from, documentId, label = "Send to" }: SendToToolMenuProps) => {
+  const navigate = useNavigate();
+  const sendToTool = usePdfAssets((state) => state.sendToTool);
+
+  const handleSend = useCallback(
+    (tool: HandoffTool) => {
+      const path = toolRoutes.find((route) => route.id === tool)?.path;
+      if (!documentId || !path || !sendToTool(documentId, tool)) {
+        return;
+      }
+      navigate(`/${path}`);
+    },
+    [documentId, navigate, sendToTool],
+  );
+
+  if (!documentId) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label={label}>
+      <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+        {label}
+      </span>
+      {TARGETS.filter((target) => target.tool !== from).map((target) => (
+        <button
+          key={target.tool}
+          type="button"
+          className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 dark:border-white/10 dark:text-slate-200 dark:hover:bg-slate-800"
+          onClick={() => handleSend(target.tool)}
+        >
+          {target.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SendToToolMenu;
@@ -0,0 +1,423 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type PointerEvent,
+} from "react";
+import clsx from "clsx";
+
+import { hasPngSignature, isPngBytesComplete } from "../lib/pngIntegrity";
+import type { SignatureImage, SignatureMode } from "../lib/signatures";
+
+type SignatureCaptureProps = {
+  onCapture: (signature: SignatureImage) => void;
+};
+
+const MODES: { id: SignatureMode; label: string }[] = [
+  { id: "draw", label: "Draw" },
+  { id: "type", label: "Type" },
+  { id: "upload", label: "Upload" },
+];
+
+const SCRIPT_FONTS = [
+  { id: "brush", label: "Brush", family: '"Brush Script MT", "Segoe Script", cursive' },
+  { id: "hand", label: "Handwritten", family: '"Segoe Print", "Bradley Hand", cursive' },
+  { id: "serif", label: "Formal", family: '"Times New Roman", Georgia, serif' },
+] as const;
+
+const PAD_WIDTH = 560;
+const PAD_HEIGHT = 180;
+const TYPED_FONT_SIZE = 72;
+const INK_COLOR = "#0f172a";
+
+const dataUrlToBytes = (dataUrl: string) => {
+  const base64 = dataUrl.split(",")[1] ?? "";
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+
+const loadImageElement = (dataUrl: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load image"));
+    image.src = dataUrl;
+  });
+
+/**
+ * Crops a canvas to the bounding box of its non-transparent pixels so placed
+ * signatures are not padded with empty space.
+ */
+const trimCanvas = (source: HTMLCanvasElement): HTMLCanvasElement | null => {
+  const context = source.getContext("2d");
+  if (!context) {
+    return null;
+  }
+
+  const { width, height } = source;
+  const { data } = context.getImageData(0, 0, width, height);
+  let top = height;
+  let left = width;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const alpha = data[(y * width + x) * 4 + 3] ?? 0;
+      if (alpha > 0) {
+        top = Math.min(top, y);
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+
+  if (right < 0) {
+    return null;
+  }
+
+  const padding = 4;
+  const cropX = Math.max(0, left - padding);
+  const cropY = Math.max(0, top - padding);
+  const cropWidth = Math.min(width, right + padding + 1) - cropX;
+  const cropHeight = Math.min(height, bottom + padding + 1) - cropY;
+  const trimmed = document.createElement("canvas");
+  trimmed.width = cropWidth;
+  trimmed.height = cropHeight;
+  trimmed
+    .getContext("2d")
+    ?.drawImage(source, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+  return trimmed;
+};
+
+const canvasToSignature = (canvas: HTMLCanvasElement, mode: SignatureMode): SignatureImage => {
+  const dataUrl = canvas.toDataURL("image/png");
+  return {
+    mode,
+    mimeType: "image/png",
+    bytes: dataUrlToBytes(dataUrl),
+    dataUrl,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+const renderTypedSignature = (text: string, fontFamily: string): SignatureImage | null => {
+  const measureCanvas = document.createElement("canvas");
+  const measureContext = measureCanvas.getContext("2d");
+  if (!measureContext) {
+    return null;
+  }
+
+  const font = `${TYPED_FONT_SIZE}px ${fontFamily}`;
+  measureContext.font = font;
+  const textWidth = Math.ceil(measureContext.measureText(text).width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, textWidth + TYPED_FONT_SIZE / 2);
+  canvas.height = Math.round(TYPED_FONT_SIZE * 1.6);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return null;
+  }
+
+  context.font = font;
+  context.fillStyle = INK_COLOR;
+  context.textBaseline = "middle";
+  context.fillText(text, TYPED_FONT_SIZE / 4, canvas.height / 2);
+  return canvasToSignature(trimCanvas(canvas) ?? canvas, "type");
+};
+
+const buildUploadedSignature = async (file: File): Promise<SignatureImage> => {
+  const dataUrl = await readFileAsDataUrl(file);
+  const image = await loadImageElement(dataUrl);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  const type = file.type.toLowerCase();
+
+  if ((type === "image/png" || hasPngSignature(bytes)) && isPngBytesComplete(bytes)) {
+    return { mode: "upload", mimeType: "image/png", bytes, dataUrl, width, height };
+  }
+
+  if (type === "image/jpeg" || type === "image/jpg") {
+    return { mode: "upload", mimeType: "image/jpeg", bytes, dataUrl, width, height };
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas rendering context unavailable.");
+  }
+  context.drawImage(image, 0, 0, width, height);
+  return canvasToSignature(canvas, "upload");
+};
+
+const pointFromEvent = (event: PointerEvent<HTMLCanvasElement>) => {
+  const canvas = event.currentTarget;
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = rect.width > 0 ? canvas.width / rect.width : 1;
+  const scaleY = rect.height > 0 ? canvas.height / rect.height : 1;
+  return {
+    x: (event.clientX - rect.left) * scaleX,
+    y: (event.clientY - rect.top) * scaleY,
+  };
+};
+
+const SignatureCapture = ({ onCapture }: SignatureCaptureProps) => {
+  const [mode, setMode] = useState<SignatureMode>("draw");
+  const [typedName, setTypedName] = useState("");
+  const [fontId, setFontId] = useState<(typeof SCRIPT_FONTS)[number]["id"]>("brush");
+  const [hasInk, setHasInk] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const padRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    setError(null);
+  }, [mode]);
+
+  const handlePointerDown = useCallback((event: PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = pointFromEvent(event);
+  }, []);
+
+  const handlePointerMove = useCallback((event: PointerEvent<HTMLCanvasElement>) => {
+    const last = lastPointRef.current;
+    const context = event.currentTarget.getContext("2d");
+    if (!last || !context) {
+      return;
+    }
+
+    const next = pointFromEvent(event);
+    context.strokeStyle = INK_COLOR;
+    context.lineWidth = 3;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.beginPath();
+    context.moveTo(last.x, last.y);
+    context.lineTo(next.x, next.y);
+    context.stroke();
+    lastPointRef.current = next;
+    setHasInk(true);
+  }, []);
+
+  const handlePointerUp = useCallback((event: PointerEvent<HTMLCanvasElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    lastPointRef.current = null;
+  }, []);
+
+  const clearPad = useCallback(() => {
+    const canvas = padRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+  }, []);
+
+  const applyDrawing = useCallback(() => {
+    const canvas = padRef.current;
+    if (!canvas) {
+      return;
+    }
+
+    const trimmed = trimCanvas(canvas);
+    if (!trimmed) {
+      setError("Draw your signature before using it.");
+      return;
+    }
+
+    onCapture(canvasToSignature(trimmed, "draw"));
+  }, [onCapture]);
+
+  const applyTyped = useCallback(() => {
+    const text = typedName.trim();
+    if (!text) {
+      return;
+    }
+
+    const font = SCRIPT_FONTS.find((option) => option.id === fontId) ?? SCRIPT_FONTS[0];
+    const signature = renderTypedSignature(text, font.family);
+    if (!signature) {
+      setError("Your browser could not render the typed signature.");
+      return;
+    }
+
+    onCapture(signature);
+  }, [fontId, onCapture, typedName]);
+
+  const handleUpload = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) {
+        return;
+      }
+
+      if (!file.type.startsWith("image/")) {
+        setError("Upload a PNG or JPG image of your signature.");
+        return;
+      }
+
+      try {
+        onCapture(await buildUploadedSignature(file));
+        setError(null);
+      } catch (uploadError) {
+        console.error("Failed to read signature image", uploadError);
+        setError("We couldn't read that image. Try a PNG with a transparent background.");
+      }
+    },
+    [onCapture],
+  );
+
+  const selectedFont = SCRIPT_FONTS.find((option) => option.id === fontId) ?? SCRIPT_FONTS[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2" role="tablist" aria-label="Signature input mode">
+        {MODES.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            role="tab"
+            aria-selected={mode === option.id}
+            className={clsx(
+              "flex-1 rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition",
+              mode === option.id
+                ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-900"
+                : "border-slate-200 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-300",
+            )}
+            onClick={() => setMode(option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "draw" ? (
+        <div className="space-y-2">
+          <canvas
+            ref={padRef}
+            width={PAD_WIDTH}
+            height={PAD_HEIGHT}
+            aria-label="Signature drawing pad"
+            className="w-full touch-none rounded-2xl border border-dashed border-slate-300 bg-white dark:border-white/20"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+          <div className="flex justify-between gap-2 text-sm">
+            <button
+              type="button"
+              className="rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200"
+              onClick={clearPad}
+            >
+              Clear
+            </button>
+            <button
+              type="button"
+              className="rounded-full bg-slate-900 px-4 py-1 font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900"
+              onClick={applyDrawing}
+              disabled={!hasInk}
+            >
+              Use drawing
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {mode === "type" ? (
+        <div className="space-y-2 text-sm">
+          <label
+            htmlFor="signature-typed-name"
+            className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300"
+          >
+            Full name
+          </label>
+          <input
+            id="signature-typed-name"
+            type="text"
+            value={typedName}
+            onChange={(event) => setTypedName(event.target.value)}
+            className="w-full rounded-2xl border border-slate-300/70 bg-transparent px-3 py-2 dark:border-white/20"
+            placeholder="Jordan Example"
+          />
+          <div className="flex flex-wrap gap-2">
+            {SCRIPT_FONTS.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                aria-pressed={fontId === option.id}
+                className={clsx(
+                  "rounded-full border px-3 py-1 text-xs transition",
+                  fontId === option.id
+                    ? "border-slate-900 text-slate-900 dark:border-white dark:text-white"
+                    : "border-slate-200 text-slate-500 dark:border-white/10 dark:text-slate-300",
+                )}
+                onClick={() => setFontId(option.id)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p
+            className="min-h-[3rem] truncate rounded-2xl border border-slate-200/80 bg-white px-3 py-2 text-3xl text-slate-900 dark:border-white/10"
+            style={{ fontFamily: selectedFont.family }}
+          >
+            {typedName || "Preview"}
+          </p>
+          <button
+            type="button"
+            className="w-full rounded-full bg-slate-900 px-4 py-1 font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900"
+            onClick={applyTyped}
+            disabled={!typedName.trim()}
+          >
+            Use typed signature
+          </button>
+        </div>
+      ) : null}
+
+      {mode === "upload" ? (
+        <div className="space-y-2 text-sm">
+          <label
+            htmlFor="signature-upload"
+            className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-slate-300 px-4 py-1 text-slate-600 transition hover:border-slate-400 dark:border-white/20 dark:text-slate-200"
+          >
+            Choose signature image
+          </label>
+          <input
+            id="signature-upload"
+            type="file"
+            accept="image/png,image/jpeg"
+            className="sr-only"
+            onChange={(event) => void handleUpload(event)}
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Transparent PNGs blend best with the page underneath.
+          </p>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-sm text-rose-600 dark:text-rose-300">{error}</p> : null}
+    </div>
+  );
+};
+
+export default SignatureCapture;
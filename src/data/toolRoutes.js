@@ -56,10 +56,73 @@ export const toolRoutes = [
     {
         id: "signatures",
         label: "Signatures",
-        summary: "Draw, type, and place signatures with precise coordinate mapping.",
+        summary: "Draw, type, or upload a signature, then drag and resize it onto any page.",
         version: "0.7.x",
-        eta: "Signatures · Later",
+        eta: "Signatures · Live",
         path: "signatures",
-        status: "upcoming",
+        status: "live",
+    },
+    {
+        id: "metadata",
+        label: "Metadata",
+        summary: "Edit or clear title, author, keywords, and dates, sync them to XMP, or strip every trace before sharing.",
+        version: "0.8.x",
+        eta: "Metadata · Live",
+        path: "metadata",
+        status: "live",
+    },
+    {
+        id: "forms",
+        label: "Forms",
+        summary: "Fill text, checkbox, radio, and dropdown fields, flatten the result, and save values as JSON to refill later.",
+        version: "0.9.x",
+        eta: "Forms · Live",
+        path: "forms",
+        status: "live",
+    },
+    {
+        id: "watermark",
+        label: "Watermark",
+        summary: "Stamp text or an image on every page or a range, with rotation, opacity, and tiling previewed live.",
+        version: "0.10.x",
+        eta: "Watermark · Live",
+        path: "watermark",
+        status: "live",
+    },
+    {
+        id: "stamps",
+        label: "Bates & Page Numbers",
+        summary: "Stamp Bates numbers or Page X of Y labels at any corner, continuing the sequence across every queued PDF.",
+        version: "0.11.x",
+        eta: "Page stamps · Live",
+        path: "stamps",
+        status: "live",
+    },
+    {
+        id: "header-footer",
+        label: "Headers & Footers",
+        summary: "Write header and footer templates with {page}, {pages}, {date}, and {title} tokens, with separate odd and even layouts.",
+        version: "0.12.x",
+        eta: "Headers & footers · Live",
+        path: "header-footer",
+        status: "live",
+    },
+    {
+        id: "encrypt",
+        label: "Encrypt",
+        summary: "Lock a PDF with user and owner passwords using AES-256, AES-128, or RC4, and choose whether printing, copying, or edits are allowed.",
+        version: "0.13.x",
+        eta: "Encryption · Live",
+        path: "encrypt",
+        status: "live",
+    },
+    {
+        id: "recipes",
+        label: "Recipes",
+        summary: "Chain merge, page picks, rotation, page numbers, and compression into a saved recipe, then run it on new files in one go.",
+        version: "0.14.x",
+        eta: "Recipes · Live",
+        path: "recipes",
+        status: "live",
     },
 ];
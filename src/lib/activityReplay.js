@@ -0,0 +1,23 @@
+import { compressPdfWithPreset, } from "./pdfCompression";
+import { addHeaderFooter } from "./pdfHeaderFooter";
+import { exportPdfMetadata } from "./pdfMetadata";
+import { stampPageNumbers } from "./pdfPageStamps";
+import { exportPageSelection } from "./pdfSplit";
+import { watermarkPdf } from "./pdfWatermark";
+export const replayExport = (replay, pdf) => {
+    const startedAt = Date.now();
+    switch (replay.tool) {
+        case "compression":
+            return compressPdfWithPreset(pdf, replay.presetId, { startedAt, mode: replay.mode });
+        case "split":
+            return exportPageSelection(pdf, replay.pages, { startedAt });
+        case "watermark":
+            return watermarkPdf(pdf, replay.settings, replay.pages, { startedAt });
+        case "header-footer":
+            return addHeaderFooter(pdf, replay.settings, { startedAt });
+        case "stamps":
+            return stampPageNumbers([pdf], replay.settings, { startedAt });
+        case "metadata":
+            return exportPdfMetadata(pdf, replay.draft, { startedAt, mode: replay.mode });
+    }
+};
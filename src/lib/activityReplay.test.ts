@@ -0,0 +1,72 @@
+import { describe, expect as vitestExpect, it, vi, type Mock } from "vitest";
+
+import type { ExportResult } from "./documentPipeline";
+import type { LoadedPdf } from "./pdfLoader";
+
+vi.mock("./pdfCompression", () => ({ compressPdfWithPreset: vi.fn() }));
+vi.mock("./pdfSplit", () => ({ exportPageSelection: vi.fn() }));
+vi.mock("./pdfWatermark", () => ({ watermarkPdf: vi.fn() }));
+vi.mock("./pdfHeaderFooter", () => ({ addHeaderFooter: vi.fn() }));
+vi.mock("./pdfPageStamps", () => ({ stampPageNumbers: vi.fn() }));
+vi.mock("./pdfMetadata", () => ({ exportPdfMetadata: vi.fn() }));
+
+import { replayExport, type ActivityReplay } from "./activityReplay";
+import { compressPdfWithPreset } from "./pdfCompression";
+import { addHeaderFooter, type HeaderFooterSettings } from "./pdfHeaderFooter";
+import { exportPdfMetadata, type MetadataDraft } from "./pdfMetadata";
+import { stampPageNumbers, type PageStampSettings } from "./pdfPageStamps";
+import { exportPageSelection } from "./pdfSplit";
+import { watermarkPdf, type TextWatermark } from "./pdfWatermark";
+
+const pdf = { id: "pdf", name: "next.pdf" } as LoadedPdf;
+const result = { downloadName: "next-replayed.pdf" } as ExportResult;
+const options = vitestExpect.objectContaining({ startedAt: vitestExpect.any(Number) });
+
+const watermark = { text: "DRAFT" } as TextWatermark;
+const headerFooter = { header: { left: "{title}" } } as unknown as HeaderFooterSettings;
+const stamps = { format: "bates", prefix: "ACME" } as PageStampSettings;
+const draft = { title: "Quarterly" } as MetadataDraft;
+
+const cases: { replay: ActivityReplay; exporter: Mock; args: unknown[] }[] = [
+  {
+    replay: { tool: "compression", presetId: "balanced", mode: "images" },
+    exporter: compressPdfWithPreset as unknown as Mock,
+    args: [pdf, "balanced", vitestExpect.objectContaining({ mode: "images" })],
+  },
+  {
+    replay: { tool: "split", pages: [1, 3] },
+    exporter: exportPageSelection as unknown as Mock,
+    args: [pdf, [1, 3], options],
+  },
+  {
+    replay: { tool: "watermark", settings: watermark, pages: [2] },
+    exporter: watermarkPdf as unknown as Mock,
+    args: [pdf, watermark, [2], options],
+  },
+  {
+    replay: { tool: "header-footer", settings: headerFooter },
+    exporter: addHeaderFooter as unknown as Mock,
+    args: [pdf, headerFooter, options],
+  },
+  {
+    replay: { tool: "stamps", settings: stamps },
+    exporter: stampPageNumbers as unknown as Mock,
+    args: [[pdf], stamps, options],
+  },
+  {
+    replay: { tool: "metadata", draft, mode: "strip" },
+    exporter: exportPdfMetadata as unknown as Mock,
+    args: [pdf, draft, vitestExpect.objectContaining({ mode: "strip" })],
+  },
+];
+
+describe("replayExport", () => {
+  it.each(cases)("re-runs $replay.tool exports with the logged settings", async (testCase) => {
+    const { exporter } = testCase;
+    exporter.mockResolvedValue(result);
+
+    vitestExpect(await replayExport(testCase.replay, pdf)).toBe(result);
+    vitestExpect(exporter).toHaveBeenCalledTimes(1);
+    vitestExpect(exporter).toHaveBeenCalledWith(...testCase.args);
+  });
+});
@@ -0,0 +1,43 @@
+import type { ExportResult } from "./documentPipeline";
+import {
+  compressPdfWithPreset,
+  type CompressionMode,
+  type CompressionPresetId,
+} from "./pdfCompression";
+import { addHeaderFooter, type HeaderFooterSettings } from "./pdfHeaderFooter";
+import type { LoadedPdf } from "./pdfLoader";
+import { exportPdfMetadata, type MetadataDraft, type MetadataExportMode } from "./pdfMetadata";
+import { stampPageNumbers, type PageStampSettings } from "./pdfPageStamps";
+import { exportPageSelection } from "./pdfSplit";
+import { watermarkPdf, type TextWatermark } from "./pdfWatermark";
+
+/**
+ * What it takes to run a single-file export again on another PDF. Everything here must survive
+ * JSON, since the activity log keeps it in localStorage; exports that depend on passwords,
+ * images, or several inputs are not replayable.
+ */
+export type ActivityReplay =
+  | { tool: "compression"; presetId: CompressionPresetId; mode: CompressionMode }
+  | { tool: "split"; pages: number[] }
+  | { tool: "watermark"; settings: TextWatermark; pages: number[] }
+  | { tool: "header-footer"; settings: HeaderFooterSettings }
+  | { tool: "stamps"; settings: PageStampSettings }
+  | { tool: "metadata"; draft: MetadataDraft; mode: MetadataExportMode };
+
+export const replayExport = (replay: ActivityReplay, pdf: LoadedPdf): Promise<ExportResult> => {
+  const startedAt = Date.now();
+  switch (replay.tool) {
+    case "compression":
+      return compressPdfWithPreset(pdf, replay.presetId, { startedAt, mode: replay.mode });
+    case "split":
+      return exportPageSelection(pdf, replay.pages, { startedAt });
+    case "watermark":
+      return watermarkPdf(pdf, replay.settings, replay.pages, { startedAt });
+    case "header-footer":
+      return addHeaderFooter(pdf, replay.settings, { startedAt });
+    case "stamps":
+      return stampPageNumbers([pdf], replay.settings, { startedAt });
+    case "metadata":
+      return exportPdfMetadata(pdf, replay.draft, { startedAt, mode: replay.mode });
+  }
+};
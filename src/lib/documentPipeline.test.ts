@@ -0,0 +1,77 @@
+import { afterEach, describe, expect as vitestExpect, it, vi } from "vitest";
+
+import { createPdfSourceFromUrl, type FetchProgress } from "./documentPipeline";
+import { PdfLoadError } from "./pdfErrors";
+
+const PDF_BYTES = new TextEncoder().encode("%PDF-1.7\n%%EOF\n");
+
+const stubFetch = (implementation: () => Promise<Response>) => {
+  const fetchMock = vi.fn(implementation);
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+describe("createPdfSourceFromUrl", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("downloads the bytes with progress and names the source from the response", async () => {
+    stubFetch(
+      async () =>
+        new Response(PDF_BYTES, {
+          headers: {
+            "content-length": String(PDF_BYTES.byteLength),
+            "content-disposition": 'attachment; filename="Annual Report.pdf"',
+          },
+        }),
+    );
+    const progress: FetchProgress[] = [];
+
+    const source = await createPdfSourceFromUrl("https://example.com/download?id=7", {
+      onProgress: (update) => progress.push(update),
+    });
+
+    vitestExpect(source).toMatchObject({
+      origin: "url",
+      name: "Annual Report.pdf",
+      size: PDF_BYTES.byteLength,
+    });
+    vitestExpect(Array.from(source.bytes)).toEqual(Array.from(PDF_BYTES));
+    vitestExpect(progress.at(-1)).toEqual({
+      loaded: PDF_BYTES.byteLength,
+      total: PDF_BYTES.byteLength,
+    });
+  });
+
+  it("maps HTTP and network failures onto PDF error codes", async () => {
+    stubFetch(async () => new Response("missing", { status: 404 }));
+    await vitestExpect(createPdfSourceFromUrl("https://example.com/a.pdf")).rejects.toMatchObject({
+      code: "not-found",
+    });
+
+    stubFetch(async () => new Response("nope", { status: 403 }));
+    await vitestExpect(createPdfSourceFromUrl("https://example.com/a.pdf")).rejects.toMatchObject({
+      code: "missing-data",
+    });
+
+    stubFetch(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    await vitestExpect(createPdfSourceFromUrl("https://example.com/a.pdf")).rejects.toMatchObject({
+      code: "missing-data",
+    });
+
+    await vitestExpect(createPdfSourceFromUrl("ftp://example.com/a.pdf")).rejects.toBeInstanceOf(
+      PdfLoadError,
+    );
+  });
+
+  it("refuses files over the size cap", async () => {
+    stubFetch(async () => new Response(PDF_BYTES));
+
+    await vitestExpect(
+      createPdfSourceFromUrl("https://example.com/files/big.pdf", { maxBytes: 4 }),
+    ).rejects.toMatchObject({ code: "unsupported" });
+  });
+});
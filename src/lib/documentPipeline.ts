@@ -1,4 +1,6 @@
+import type { ActivityReplay } from "./activityReplay";
 import { sanitizeFileStem } from "./fileNames";
+import { PdfLoadError } from "./pdfErrors";
 
 const createId = () => {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
@@ -29,7 +31,14 @@ export type ToolId =
   | "editor"
   | "images"
   | "compression"
-  | "signatures";
+  | "signatures"
+  | "metadata"
+  | "forms"
+  | "watermark"
+  | "stamps"
+  | "header-footer"
+  | "encrypt"
+  | "recipes";
 
 export type ExportResult = {
   blob: Blob;
@@ -42,6 +51,8 @@ export type ExportResult = {
     operation: string;
     sourceCount: number;
     detail?: string;
+    /** Set when the same operation can be run again on another file. */
+    replay?: ActivityReplay;
   };
 };
 
@@ -61,6 +72,178 @@ export const createPdfSourceFromFile = async (
   };
 };
 
+export const createPdfSourceFromBytes = (
+  bytes: Uint8Array,
+  name: string,
+  origin: PdfSourceOrigin = "generated",
+  password: string | null = null,
+): PdfSource => ({
+  id: createId(),
+  origin,
+  name,
+  size: bytes.byteLength,
+  lastModified: Date.now(),
+  bytes,
+  password,
+});
+
+/** Links larger than this are refused; the bytes are held in memory alongside pdf.js's copy. */
+export const MAX_URL_PDF_BYTES = 100 * 1024 * 1024;
+
+export type FetchProgress = {
+  loaded: number;
+  /** From `Content-Length`; null when the server doesn't send one. */
+  total: number | null;
+};
+
+export type UrlSourceOptions = {
+  maxBytes?: number;
+  onProgress?: (progress: FetchProgress) => void;
+  signal?: AbortSignal;
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const formatFetchProgress = ({ loaded, total }: FetchProgress) =>
+  total
+    ? `${formatMegabytes(loaded)} of ${formatMegabytes(total)}`
+    : `${formatMegabytes(loaded)} so far`;
+
+const fileNameFromResponse = (response: Response, url: URL) => {
+  const disposition = response.headers.get("content-disposition") ?? "";
+  const encoded = /filename\*\s*=\s*(?:UTF-8'')?([^;]+)/i.exec(disposition)?.[1];
+  const plain = /filename\s*=\s*"?([^";]+)"?/i.exec(disposition)?.[1];
+  let name = "";
+  try {
+    name = encoded ? decodeURIComponent(encoded.trim()) : (plain?.trim() ?? "");
+    if (!name) {
+      name = decodeURIComponent(url.pathname.split("/").filter(Boolean).pop() ?? "");
+    }
+  } catch {
+    name = "";
+  }
+
+  if (!name) {
+    return `${url.hostname || "document"}.pdf`;
+  }
+  return /\.pdf$/i.test(name) ? name : `${name}.pdf`;
+};
+
+const tooLargeError = (size: number, maxBytes: number) =>
+  new PdfLoadError(
+    "unsupported",
+    `That PDF is ${formatMegabytes(size)}, over the ${formatMegabytes(maxBytes)} limit for opening from a link. Download it and choose the file instead.`,
+  );
+
+const readResponseBytes = async (
+  response: Response,
+  maxBytes: number,
+  onProgress?: (progress: FetchProgress) => void,
+) => {
+  const declared = Number(response.headers.get("content-length"));
+  const total = Number.isFinite(declared) && declared > 0 ? declared : null;
+  if (total !== null && total > maxBytes) {
+    throw tooLargeError(total, maxBytes);
+  }
+
+  onProgress?.({ loaded: 0, total });
+  const reader = response.body?.getReader();
+  if (!reader) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.byteLength > maxBytes) {
+      throw tooLargeError(bytes.byteLength, maxBytes);
+    }
+    onProgress?.({ loaded: bytes.byteLength, total });
+    return bytes;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    loaded += value.byteLength;
+    // Servers can omit or understate Content-Length, so keep checking while streaming.
+    if (loaded > maxBytes) {
+      await reader.cancel();
+      throw tooLargeError(loaded, maxBytes);
+    }
+    chunks.push(value);
+    onProgress?.({ loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes;
+};
+
+/**
+ * Downloads a PDF over HTTP(S). Network and CORS failures surface as `missing-data`, missing
+ * files as `not-found`; an aborted `signal` rethrows the `AbortError` untouched so callers can
+ * ignore it.
+ */
+export const createPdfSourceFromUrl = async (
+  url: string,
+  options?: UrlSourceOptions,
+): Promise<PdfSource> => {
+  const maxBytes = options?.maxBytes ?? MAX_URL_PDF_BYTES;
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new PdfLoadError("not-found", "Enter a full link that starts with https://.");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new PdfLoadError("not-found", "Only http:// and https:// links can be opened.");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(parsed.href, { signal: options?.signal, credentials: "omit" });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw error;
+    }
+    // Browsers report CORS rejections as a bare network error, so the two can't be told apart.
+    throw new PdfLoadError(
+      "missing-data",
+      "We couldn't download that PDF. The site may not allow other pages to fetch its files (CORS), or you may be offline. Download it and choose the file instead.",
+    );
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    throw new PdfLoadError("not-found", `No PDF was found at that link (HTTP ${response.status}).`);
+  }
+  if (!response.ok) {
+    throw new PdfLoadError(
+      "missing-data",
+      `The server refused the download (HTTP ${response.status}). Download it and choose the file instead.`,
+    );
+  }
+  if (/text\/html/i.test(response.headers.get("content-type") ?? "")) {
+    throw new PdfLoadError("corrupt", "That link opens a web page rather than a PDF file.");
+  }
+
+  const bytes = await readResponseBytes(response, maxBytes, options?.onProgress);
+  const lastModified = Date.parse(response.headers.get("last-modified") ?? "");
+
+  return {
+    id: createId(),
+    origin: "url",
+    name: fileNameFromResponse(response, parsed),
+    size: bytes.byteLength,
+    lastModified: Number.isFinite(lastModified) ? lastModified : null,
+    bytes,
+    password: null,
+  };
+};
+
 const normalizeExtension = (extension: string) => {
   if (!extension) {
     return "pdf";
@@ -26,6 +26,11 @@ export const buildSplitSliceFileName = (sourceName, startPage, endPage, index) =
     const safeEnd = Math.max(safeStart, Math.max(startPage, endPage));
     return `${stem}-part-${index + 1}-${safeStart}to${safeEnd}.pdf`;
 };
+export const buildSplitOutlineFileName = (sourceName, title, index) => {
+    const stem = sanitizeFileStem(sourceName, "split");
+    const titleStem = sanitizeFileStem(title, "section");
+    return `${stem}-${String(index + 1).padStart(2, "0")}-${titleStem}.pdf`;
+};
 export const buildSplitZipFileName = (sourceName) => {
     const stem = sanitizeFileStem(sourceName, "split");
     return `${stem}-bundle-${timestampToken()}.zip`;
@@ -40,3 +45,8 @@ export const buildImagesPdfFileName = (primaryName, imageCount) => {
         : fallbackStem("images-to-pdf");
     return `${stem}-${Math.max(1, imageCount)}images-${timestampToken()}.pdf`;
 };
+export const buildStampedFileName = (sourceName, firstLabel, lastLabel) => {
+    const stem = sanitizeFileStem(sourceName, "stamped");
+    const rangeStem = sanitizeFileStem(`${firstLabel}-${lastLabel}`, "range");
+    return `${stem}-${rangeStem}.pdf`;
+};
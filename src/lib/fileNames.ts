@@ -43,6 +43,12 @@ export const buildSplitSliceFileName = (
   return `${stem}-part-${index + 1}-${safeStart}to${safeEnd}.pdf`;
 };
 
+export const buildSplitOutlineFileName = (sourceName: string, title: string, index: number) => {
+  const stem = sanitizeFileStem(sourceName, "split");
+  const titleStem = sanitizeFileStem(title, "section");
+  return `${stem}-${String(index + 1).padStart(2, "0")}-${titleStem}.pdf`;
+};
+
 export const buildSplitZipFileName = (sourceName: string) => {
   const stem = sanitizeFileStem(sourceName, "split");
   return `${stem}-bundle-${timestampToken()}.zip`;
@@ -59,3 +65,9 @@ export const buildImagesPdfFileName = (primaryName: string | null, imageCount: n
     : fallbackStem("images-to-pdf");
   return `${stem}-${Math.max(1, imageCount)}images-${timestampToken()}.pdf`;
 };
+
+export const buildStampedFileName = (sourceName: string, firstLabel: string, lastLabel: string) => {
+  const stem = sanitizeFileStem(sourceName, "stamped");
+  const rangeStem = sanitizeFileStem(`${firstLabel}-${lastLabel}`, "range");
+  return `${stem}-${rangeStem}.pdf`;
+};
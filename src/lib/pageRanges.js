@@ -0,0 +1,89 @@
+import { PdfLoadError } from "./pdfErrors";
+const PAGE_REF = String.raw `\d+|end|last(?:\s*-\s*\d+)?`;
+const TOKEN_PATTERN = new RegExp(`^(${PAGE_REF})(\\s*-\\s*(${PAGE_REF})?)?$`);
+const resolvePageRef = (ref, pageCount) => {
+    const value = ref.replace(/\s+/g, "");
+    if (value === "end" || value === "last") {
+        return pageCount;
+    }
+    if (value.startsWith("last-")) {
+        return pageCount - Number(value.slice("last-".length));
+    }
+    return Number(value);
+};
+const assertInRange = (page, token, pageCount) => {
+    if (page < 1) {
+        throw new PdfLoadError("unsupported", `"${token}" points before the first page.`);
+    }
+    if (page > pageCount) {
+        throw new PdfLoadError("unsupported", `"${token}" goes past the end of this ${pageCount}-page PDF.`);
+    }
+};
+const expandToken = (token, pageCount) => {
+    const allPages = Array.from({ length: pageCount }, (_, index) => index + 1);
+    switch (token) {
+        case "all":
+            return allPages;
+        case "odd":
+            return allPages.filter((page) => page % 2 === 1);
+        case "even":
+            return allPages.filter((page) => page % 2 === 0);
+        default:
+            break;
+    }
+    const match = TOKEN_PATTERN.exec(token);
+    if (!match) {
+        throw new PdfLoadError("unsupported", `"${token}" isn't a page number or range.`);
+    }
+    const [, startRef, rangeSuffix, endRef] = match;
+    const start = resolvePageRef(startRef ?? "", pageCount);
+    assertInRange(start, token, pageCount);
+    if (!rangeSuffix) {
+        return [start];
+    }
+    // "5-" is shorthand for "5-end".
+    const end = endRef ? resolvePageRef(endRef, pageCount) : pageCount;
+    assertInRange(end, token, pageCount);
+    if (end < start) {
+        throw new PdfLoadError("unsupported", `"${token}" runs backwards; write it as low-high.`);
+    }
+    return allPages.slice(start - 1, end);
+};
+/**
+ * Parses a comma-separated page expression such as `1-3, 7, 10-end, odd, last-2` into
+ * sorted, unique 1-based page numbers. `end`/`last` name the final page and `last-N`
+ * counts back from it. Invalid input throws `PdfLoadError("unsupported")`.
+ */
+export const parsePageRanges = (expression, pageCount) => {
+    const tokens = expression
+        .toLowerCase()
+        .split(/[,;]/)
+        .map((token) => token.trim())
+        .filter(Boolean);
+    if (tokens.length === 0) {
+        throw new PdfLoadError("unsupported", "Enter at least one page or range.");
+    }
+    const pages = new Set();
+    tokens.forEach((token) => {
+        expandToken(token, pageCount).forEach((page) => pages.add(page));
+    });
+    return Array.from(pages).sort((a, b) => a - b);
+};
+/**
+ * Collapses page numbers back into the shortest expression, e.g. `[1, 2, 3, 7]` → `1-3, 7`.
+ */
+export const formatPageRanges = (pageNumbers) => {
+    const sorted = Array.from(new Set(pageNumbers)).sort((a, b) => a - b);
+    const runs = [];
+    sorted.forEach((page) => {
+        const last = runs[runs.length - 1];
+        if (last && last[1] === page - 1) {
+            last[1] = page;
+        }
+        else {
+            runs.push([page, page]);
+        }
+    });
+    const parts = runs.map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`));
+    return parts.join(", ");
+};
@@ -0,0 +1,48 @@
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import { formatPageRanges, parsePageRanges } from "./pageRanges";
+import { PdfLoadError } from "./pdfErrors";
+
+describe("pageRanges", () => {
+  it("parses single pages, ranges, and end-relative references", () => {
+    vitestExpect(parsePageRanges("1-3, 7, 10-end", 12)).toEqual([1, 2, 3, 7, 10, 11, 12]);
+    vitestExpect(parsePageRanges("last-2", 12)).toEqual([10]);
+    vitestExpect(parsePageRanges("last-3 - last", 12)).toEqual([9, 10, 11, 12]);
+    vitestExpect(parsePageRanges("5-", 7)).toEqual([5, 6, 7]);
+  });
+
+  it("expands odd, even, and all keywords case-insensitively", () => {
+    vitestExpect(parsePageRanges("ODD", 5)).toEqual([1, 3, 5]);
+    vitestExpect(parsePageRanges("even", 5)).toEqual([2, 4]);
+    vitestExpect(parsePageRanges("all", 3)).toEqual([1, 2, 3]);
+  });
+
+  it("deduplicates overlapping tokens and sorts the result", () => {
+    vitestExpect(parsePageRanges("4, 1-3; 2, odd", 5)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("rejects malformed, backwards, and out-of-range expressions", () => {
+    vitestExpect(() => parsePageRanges("", 5)).toThrow(PdfLoadError);
+    vitestExpect(() => parsePageRanges("abc", 5)).toThrow(/isn't a page number/);
+    vitestExpect(() => parsePageRanges("5-2", 5)).toThrow(/runs backwards/);
+    vitestExpect(() => parsePageRanges("3-9", 5)).toThrow(/past the end of this 5-page PDF/);
+    vitestExpect(() => parsePageRanges("0", 5)).toThrow(/before the first page/);
+    vitestExpect(() => parsePageRanges("last-5", 5)).toThrow(/before the first page/);
+  });
+
+  it("surfaces validation failures as unsupported PdfLoadErrors", () => {
+    try {
+      parsePageRanges("1-x", 5);
+    } catch (error) {
+      vitestExpect(error).toBeInstanceOf(PdfLoadError);
+      vitestExpect((error as PdfLoadError).code).toBe("unsupported");
+      return;
+    }
+    throw new Error("Expected parsePageRanges to throw");
+  });
+
+  it("collapses page numbers back into a compact expression", () => {
+    vitestExpect(formatPageRanges([7, 1, 2, 3, 3, 10, 11])).toBe("1-3, 7, 10-11");
+    vitestExpect(formatPageRanges([])).toBe("");
+  });
+});
@@ -0,0 +1,60 @@
+import { AnnotationLayer } from "pdfjs-dist";
+import type { PDFPageProxy } from "pdfjs-dist/types/src/display/api";
+import type { PageViewport } from "pdfjs-dist/types/src/display/display_utils";
+import type { IPDFLinkService } from "pdfjs-dist/types/web/interfaces";
+
+import type { PdfJsAnnotation } from "./pdfAnnotations";
+
+export type AnnotationLayerHandle = {
+  rendered: Promise<void>;
+  cancel: () => void;
+};
+
+type AnnotationLayerOptions = {
+  page: PDFPageProxy;
+  annotations: PdfJsAnnotation[];
+  viewport: PageViewport;
+  linkService: IPDFLinkService;
+};
+
+/**
+ * Renders pdf.js's annotation layer for a page into a fresh `.annotationLayer` div inside
+ * `container`, sized to match a canvas rendered with the same viewport. Links go through
+ * `linkService` and markup with comments gets pdf.js's popups. Form fields stay read-only:
+ * the canvas already paints their appearance.
+ */
+export const renderAnnotationLayer = (
+  container: HTMLElement,
+  { page, annotations, viewport, linkService }: AnnotationLayerOptions,
+): AnnotationLayerHandle => {
+  const div = document.createElement("div");
+  div.className = "annotationLayer";
+  div.style.setProperty("--total-scale-factor", String(viewport.scale));
+  container.replaceChildren(div);
+
+  const layerViewport = viewport.clone({ dontFlip: true });
+  const layer = new AnnotationLayer({
+    div,
+    accessibilityManager: null,
+    annotationCanvasMap: null,
+    annotationEditorUIManager: null,
+    page,
+    viewport: layerViewport,
+    structTreeLayer: null,
+    commentManager: null,
+    linkService,
+    annotationStorage: null,
+  });
+
+  // pdf.js can't abort a layer mid-render, so cancelling detaches the div it's filling.
+  const rendered = layer.render({
+    annotations,
+    div,
+    page,
+    viewport: layerViewport,
+    linkService,
+    renderForms: false,
+  });
+
+  return { rendered, cancel: () => div.remove() };
+};
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect as vitestExpect, it, vi } from "vitest";
+
+import { createViewerLinkService, resolvePageAction } from "./pdfAnnotations";
+
+const createLinkService = () => {
+  const handlers = {
+    onNavigateToDest: vi.fn(),
+    onGoToPage: vi.fn(),
+    onPageAction: vi.fn(),
+  };
+  return { handlers, linkService: createViewerLinkService({ pageCount: 5, ...handlers }) };
+};
+
+describe("pdfAnnotations", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("routes internal links and named actions back to the viewer", async () => {
+    const { handlers, linkService } = createLinkService();
+
+    await linkService.goToDestination("chapter-2");
+    linkService.executeNamedAction("NextPage");
+    linkService.executeNamedAction("Print");
+    linkService.goToPage(3);
+    linkService.goToPage(9);
+
+    vitestExpect(handlers.onNavigateToDest).toHaveBeenCalledWith("chapter-2");
+    vitestExpect(handlers.onPageAction).toHaveBeenCalledTimes(1);
+    vitestExpect(handlers.onPageAction).toHaveBeenCalledWith("NextPage");
+    vitestExpect(handlers.onGoToPage).toHaveBeenCalledTimes(1);
+    vitestExpect(handlers.onGoToPage).toHaveBeenCalledWith(3);
+    vitestExpect(linkService.getDestinationHash("chapter-2")).toBe("#");
+  });
+
+  it("asks before following external links and disables unsafe ones", () => {
+    const { linkService } = createLinkService();
+    const confirm = vi.spyOn(window, "confirm").mockReturnValue(false);
+
+    const link = document.createElement("a");
+    linkService.addLinkAttributes(link, "https://example.com/spec", true);
+    vitestExpect(link.href).toBe("https://example.com/spec");
+    vitestExpect(link.target).toBe("_blank");
+    vitestExpect(link.rel).toBe("noopener noreferrer");
+    vitestExpect(link.dispatchEvent(new MouseEvent("click", { cancelable: true }))).toBe(false);
+    vitestExpect(confirm).toHaveBeenCalledWith(
+      vitestExpect.stringContaining("https://example.com/spec"),
+    );
+
+    const unsafe = document.createElement("a");
+    linkService.addLinkAttributes(unsafe, "javascript:alert(1)", true);
+    vitestExpect(unsafe.hasAttribute("href")).toBe(false);
+    vitestExpect(unsafe.title).toBe("Link disabled: javascript:alert(1)");
+  });
+
+  it("clamps named page actions to the document", () => {
+    vitestExpect(resolvePageAction("NextPage", 5, 5)).toBe(5);
+    vitestExpect(resolvePageAction("PrevPage", 1, 5)).toBe(1);
+    vitestExpect(resolvePageAction("LastPage", 2, 5)).toBe(5);
+    vitestExpect(resolvePageAction("FirstPage", 4, 5)).toBe(1);
+  });
+});
@@ -0,0 +1,100 @@
+import type { IPDFLinkService } from "pdfjs-dist/types/web/interfaces";
+
+import type { OutlineNode } from "./pdfNavigation";
+
+/** The subset of pdf.js `getAnnotations()` data the viewer passes to the annotation layer. */
+export type PdfJsAnnotation = {
+  id: string;
+  subtype: string;
+  rect: number[];
+  url?: string;
+  dest?: OutlineNode["dest"];
+  action?: string;
+};
+
+export type NamedPageAction = "FirstPage" | "LastPage" | "NextPage" | "PrevPage";
+
+type ViewerLinkServiceOptions = {
+  pageCount: number;
+  onNavigateToDest: (dest: OutlineNode["dest"]) => void;
+  onGoToPage: (pageNumber: number) => void;
+  onPageAction: (action: NamedPageAction) => void;
+};
+
+const NAMED_PAGE_ACTIONS = new Set<string>(["FirstPage", "LastPage", "NextPage", "PrevPage"]);
+const SAFE_URL_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+const isSafeUrl = (url: string) => {
+  try {
+    return SAFE_URL_PROTOCOLS.has(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const confirmExternalLink = (url: string) =>
+  window.confirm(`This link leaves PDF Workbench and opens:\n\n${url}\n\nContinue?`);
+
+/**
+ * The link service pdf.js's annotation layer calls when a link is clicked. Links into the
+ * document are handed back to the viewer; links out of it only get an href for http(s) and
+ * mailto URLs, and ask before leaving. Optional content toggles and hash navigation are not
+ * supported, so those links do nothing.
+ */
+export const createViewerLinkService = ({
+  pageCount,
+  onNavigateToDest,
+  onGoToPage,
+  onPageAction,
+}: ViewerLinkServiceOptions): IPDFLinkService => ({
+  pagesCount: pageCount,
+  page: 1,
+  rotation: 0,
+  isInPresentationMode: false,
+  externalLinkEnabled: true,
+  goToDestination: async (dest) => onNavigateToDest(dest),
+  goToPage: (value) => {
+    const pageNumber = Number(value);
+    if (Number.isInteger(pageNumber) && pageNumber >= 1 && pageNumber <= pageCount) {
+      onGoToPage(pageNumber);
+    }
+  },
+  goToXY: (pageNumber) => onGoToPage(pageNumber),
+  addLinkAttributes: (link, url) => {
+    if (!isSafeUrl(url)) {
+      link.title = `Link disabled: ${url}`;
+      return;
+    }
+    link.href = url;
+    link.target = "_blank";
+    link.rel = "noopener noreferrer";
+    link.title = url;
+    link.onclick = () => confirmExternalLink(url);
+  },
+  getDestinationHash: () => "#",
+  getAnchorUrl: () => "#",
+  setHash: () => {},
+  executeNamedAction: (action) => {
+    if (NAMED_PAGE_ACTIONS.has(action)) {
+      onPageAction(action as NamedPageAction);
+    }
+  },
+  executeSetOCGState: () => {},
+});
+
+export const resolvePageAction = (
+  action: NamedPageAction,
+  currentPage: number,
+  pageCount: number,
+): number => {
+  switch (action) {
+    case "FirstPage":
+      return 1;
+    case "LastPage":
+      return pageCount;
+    case "NextPage":
+      return Math.min(pageCount, currentPage + 1);
+    case "PrevPage":
+      return Math.max(1, currentPage - 1);
+  }
+};
@@ -1,12 +1,91 @@
+import { PDFDocument, PDFName, PDFNumber, PDFRawStream } from "pdf-lib";
 import { describe, expect as vitestExpect, it, vi, beforeEach, afterEach } from "vitest";
 
 import {
   COMPRESSION_PRESETS,
+  compressPdfWithPreset,
+  computeImageTargetDimensions,
   computeScaledDimensions,
   estimateCompressedSize,
+  estimateImageDpi,
   getCompressionPreset,
   type CompressionPresetId,
 } from "./pdfCompression";
+import type { LoadedPdf } from "./pdfLoader";
+
+const createPdfWithImage = async (
+  image: { width: number; height: number; colorSpace: string },
+  pageSize: [number, number] = [612, 792],
+): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage(pageSize);
+  const stream = doc.context.stream(new Uint8Array(64), {
+    Type: "XObject",
+    Subtype: "Image",
+    Width: image.width,
+    Height: image.height,
+    ColorSpace: image.colorSpace,
+    BitsPerComponent: 8,
+    Filter: "DCTDecode",
+  });
+  page.node.setXObject(PDFName.of("Im1"), doc.context.register(stream));
+
+  const data = await doc.save();
+  return {
+    id: "test",
+    name: "scan.pdf",
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount: 1,
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+/** A 400×300 Flate-compressed ICC RGB image on a one-inch page, i.e. 400 DPI. */
+const createPdfWithFlateIccImage = async (): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([72, 72]);
+  const profile = doc.context.register(doc.context.stream(new Uint8Array(16), { N: 3 }));
+  // Noise keeps Flate from shrinking the pixels below the stubbed JPEG.
+  let seed = 7;
+  const pixels = Uint8Array.from({ length: 400 * 300 * 3 }, () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed & 0xff;
+  });
+  const stream = doc.context.flateStream(pixels, {
+    Type: "XObject",
+    Subtype: "Image",
+    Width: 400,
+    Height: 300,
+    ColorSpace: [PDFName.of("ICCBased"), profile],
+    BitsPerComponent: 8,
+  });
+  page.node.setXObject(PDFName.of("Im1"), doc.context.register(stream));
+
+  const data = await doc.save();
+  return {
+    id: "flate",
+    name: "photo.pdf",
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount: 1,
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
 
 describe("pdfCompression", () => {
   describe("COMPRESSION_PRESETS", () => {
@@ -83,6 +162,10 @@ describe("pdfCompression", () => {
       const result = estimateCompressedSize(-1000, "balanced");
       vitestExpect(result).toBe(1024);
     });
+
+    it("does not project savings for image-only mode", () => {
+      vitestExpect(estimateCompressedSize(1000000, "balanced", "images")).toBeNull();
+    });
   });
 
   describe("computeScaledDimensions", () => {
@@ -124,6 +207,147 @@ describe("pdfCompression", () => {
     });
   });
 
+  describe("image-only helpers", () => {
+    it("estimates DPI against the longest page side", () => {
+      // 11in letter page, 3300px tall image => 300 DPI
+      vitestExpect(estimateImageDpi(2550, 3300, 612, 792)).toBeCloseTo(300);
+      vitestExpect(estimateImageDpi(100, 100, 0, 0)).toBe(0);
+    });
+
+    it("caps target dimensions at the preset DPI", () => {
+      const result = computeImageTargetDimensions(2550, 3300, 612, 792, 150);
+      vitestExpect(result.height).toBe(1650);
+      vitestExpect(result.width).toBe(1275);
+    });
+
+    it("leaves images already under the DPI ceiling untouched", () => {
+      const result = computeImageTargetDimensions(800, 600, 612, 792, 150);
+      vitestExpect(result).toEqual({ width: 800, height: 600, scale: 1 });
+    });
+
+    it("gives smaller presets lower DPI ceilings", () => {
+      const [high, balanced, smallest] = COMPRESSION_PRESETS;
+      vitestExpect(high?.imageDpi).toBeGreaterThan(balanced?.imageDpi ?? 0);
+      vitestExpect(balanced?.imageDpi).toBeGreaterThan(smallest?.imageDpi ?? 0);
+    });
+  });
+
+  describe("compressPdfWithPreset (images mode)", () => {
+    it("reports low-resolution images as kept", async () => {
+      const pdf = await createPdfWithImage({ width: 300, height: 200, colorSpace: "DeviceRGB" });
+      const result = await compressPdfWithPreset(pdf, "balanced", { mode: "images" });
+
+      vitestExpect(result.mode).toBe("images");
+      vitestExpect(result.images).toHaveLength(1);
+      vitestExpect(result.images?.[0]).toMatchObject({
+        status: "kept",
+        pageNumbers: [1],
+        width: 300,
+        height: 200,
+        savings: 0,
+      });
+      vitestExpect(result.activity.operation).toBe("compress-images-balanced");
+      vitestExpect(result.downloadName).toContain("compress-images-balanced");
+    });
+
+    it("re-encodes oversized Flate RGB images as smaller DeviceRGB JPEGs", async () => {
+      const jpegBytes = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 4, 0xff, 0xd9]);
+      const context = {
+        createImageData: (width: number, height: number) => ({
+          data: new Uint8ClampedArray(width * height * 4),
+        }),
+        putImageData: vi.fn(),
+        drawImage: vi.fn(),
+      };
+      const originalCreateElement = document.createElement.bind(document);
+      vi.spyOn(document, "createElement").mockImplementation((tagName: string) =>
+        tagName === "canvas"
+          ? ({
+              width: 0,
+              height: 0,
+              getContext: () => context,
+              toBlob: (callback: BlobCallback) =>
+                callback(
+                  Object.assign(new Blob([jpegBytes]), {
+                    arrayBuffer: async () => jpegBytes.slice().buffer,
+                  }),
+                ),
+            } as unknown as HTMLCanvasElement)
+          : originalCreateElement(tagName),
+      );
+
+      try {
+        const result = await compressPdfWithPreset(await createPdfWithFlateIccImage(), "balanced", {
+          mode: "images",
+        });
+
+        vitestExpect(result.images?.[0]).toMatchObject({
+          status: "recompressed",
+          width: 150,
+          height: 113,
+          compressedSize: jpegBytes.length,
+        });
+        vitestExpect(context.drawImage).toHaveBeenCalledWith(
+          vitestExpect.anything(),
+          0,
+          0,
+          150,
+          113,
+        );
+
+        const output = await PDFDocument.load(await readBlob(result.blob));
+        const image = output.context
+          .enumerateIndirectObjects()
+          .map(([, object]) => object)
+          .find(
+            (object): object is PDFRawStream =>
+              object instanceof PDFRawStream &&
+              object.dict.get(PDFName.of("Subtype")) === PDFName.of("Image"),
+          );
+        vitestExpect(image?.dict.get(PDFName.of("Filter"))).toBe(PDFName.of("DCTDecode"));
+        vitestExpect(image?.dict.get(PDFName.of("ColorSpace"))).toBe(PDFName.of("DeviceRGB"));
+        vitestExpect(image?.dict.get(PDFName.of("Width"))).toEqual(PDFNumber.of(150));
+        vitestExpect(image?.dict.get(PDFName.of("Height"))).toEqual(PDFNumber.of(113));
+        vitestExpect(image?.dict.get(PDFName.of("Length"))).toEqual(PDFNumber.of(jpegBytes.length));
+        vitestExpect(image?.contents).toEqual(jpegBytes);
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+
+    it("skips oversized images in color spaces it cannot re-encode", async () => {
+      const pdf = await createPdfWithImage({ width: 4000, height: 4000, colorSpace: "DeviceCMYK" });
+      const result = await compressPdfWithPreset(pdf, "smallest", { mode: "images" });
+
+      vitestExpect(result.images?.[0]?.status).toBe("skipped");
+      vitestExpect(result.warnings?.[0]).toMatch(/1 image\(s\)/);
+    });
+
+    it("warns when the document has no embedded images", async () => {
+      const doc = await PDFDocument.create();
+      doc.addPage();
+      const data = await doc.save();
+      const result = await compressPdfWithPreset(
+        {
+          id: "blank",
+          name: "blank.pdf",
+          size: data.length,
+          lastModified: Date.now(),
+          pageCount: 1,
+          pdfVersion: "test",
+          data,
+          metadata: {},
+          doc: null as unknown as LoadedPdf["doc"],
+        },
+        "high",
+        { mode: "images" },
+      );
+
+      vitestExpect(result.images).toEqual([]);
+      vitestExpect(result.warnings?.[0]).toMatch(/No embedded images/);
+    });
+  });
+
   describe("compressPdfWithPreset (integration)", () => {
     let mockCanvas: HTMLCanvasElement;
     let mockContext: CanvasRenderingContext2D;
@@ -1,4 +1,14 @@
-import { PDFDocument } from "pdf-lib";
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  decodePDFRawStream,
+} from "pdf-lib";
 
 import { buildDownloadName } from "./documentPipeline";
 import type { ExportResult } from "./documentPipeline";
@@ -6,6 +16,14 @@ import type { LoadedPdf } from "./pdfLoader";
 
 export type CompressionPresetId = "high" | "balanced" | "smallest";
 
+export type CompressionMode = "rasterize" | "images";
+
+export type CompressionModeOption = {
+  id: CompressionMode;
+  label: string;
+  description: string;
+};
+
 export type CompressionPresetOption = {
   id: CompressionPresetId;
   label: string;
@@ -13,6 +31,7 @@ export type CompressionPresetOption = {
   targetRatio: number;
   maxDimension: number;
   jpegQuality: number;
+  imageDpi: number;
 };
 
 const PRESET_OPTIONS: CompressionPresetOption[] = [
@@ -23,6 +42,7 @@ const PRESET_OPTIONS: CompressionPresetOption[] = [
     targetRatio: 0.85,
     maxDimension: 2200,
     jpegQuality: 0.85,
+    imageDpi: 220,
   },
   {
     id: "balanced",
@@ -31,6 +51,7 @@ const PRESET_OPTIONS: CompressionPresetOption[] = [
     targetRatio: 0.7,
     maxDimension: 1800,
     jpegQuality: 0.75,
+    imageDpi: 150,
   },
   {
     id: "smallest",
@@ -39,6 +60,20 @@ const PRESET_OPTIONS: CompressionPresetOption[] = [
     targetRatio: 0.55,
     maxDimension: 1400,
     jpegQuality: 0.65,
+    imageDpi: 110,
+  },
+];
+
+const MODE_OPTIONS: CompressionModeOption[] = [
+  {
+    id: "images",
+    label: "Images only",
+    description: "Downsamples embedded photos and scans; text and vector content stay selectable.",
+  },
+  {
+    id: "rasterize",
+    label: "Rasterize pages",
+    description: "Flattens every page to JPEG for maximum savings on scanned documents.",
   },
 ];
 
@@ -179,6 +214,357 @@ const buildCompressedPdf = async (
   return { pdfBytes, warnings };
 };
 
+export type ImageCompressionStatus = "recompressed" | "kept" | "skipped";
+
+export type ImageCompressionEntry = {
+  objectId: string;
+  pageNumbers: number[];
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  effectiveDpi: number;
+  originalSize: number;
+  compressedSize: number;
+  savings: number;
+  status: ImageCompressionStatus;
+  reason?: string;
+};
+
+/**
+ * Lower bound on an embedded image's rendered resolution. Content streams are left
+ * unparsed, so we assume the image spans the page's longest side; real placements are
+ * usually smaller, which means downsampling to this bound never drops below the target.
+ */
+export const estimateImageDpi = (
+  pixelWidth: number,
+  pixelHeight: number,
+  pageWidthPt: number,
+  pageHeightPt: number,
+): number => {
+  const pageInches = Math.max(pageWidthPt, pageHeightPt) / 72;
+  if (!Number.isFinite(pageInches) || pageInches <= 0) {
+    return 0;
+  }
+
+  return Math.max(pixelWidth, pixelHeight) / pageInches;
+};
+
+export const computeImageTargetDimensions = (
+  pixelWidth: number,
+  pixelHeight: number,
+  pageWidthPt: number,
+  pageHeightPt: number,
+  targetDpi: number,
+): { width: number; height: number; scale: number } => {
+  const maxDimension = Math.round((Math.max(pageWidthPt, pageHeightPt) / 72) * targetDpi);
+  return computeScaledDimensions(pixelWidth, pixelHeight, Math.max(1, maxDimension));
+};
+
+type PageImage = {
+  ref: PDFRef;
+  stream: PDFRawStream;
+  pageNumbers: number[];
+  pageWidth: number;
+  pageHeight: number;
+};
+
+type ImageFormat =
+  | { kind: "jpeg" | "raw"; components: 1 | 3 }
+  | { kind: "unsupported"; reason: string };
+
+const collectPageImages = (doc: PDFDocument): PageImage[] => {
+  const images = new Map<string, PageImage>();
+
+  doc.getPages().forEach((page, index) => {
+    const xObjects = page.node.Resources()?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    if (!xObjects) {
+      return;
+    }
+
+    const { width, height } = page.getSize();
+    xObjects.entries().forEach(([, value]) => {
+      if (!(value instanceof PDFRef)) {
+        return;
+      }
+
+      const stream = doc.context.lookup(value);
+      if (!(stream instanceof PDFRawStream)) {
+        return;
+      }
+
+      if (stream.dict.get(PDFName.of("Subtype")) !== PDFName.of("Image")) {
+        return;
+      }
+
+      const existing = images.get(value.toString());
+      if (existing) {
+        existing.pageNumbers.push(index + 1);
+        // Shared images are sized for the largest page that shows them.
+        if (Math.max(width, height) > Math.max(existing.pageWidth, existing.pageHeight)) {
+          existing.pageWidth = width;
+          existing.pageHeight = height;
+        }
+        return;
+      }
+
+      images.set(value.toString(), {
+        ref: value,
+        stream,
+        pageNumbers: [index + 1],
+        pageWidth: width,
+        pageHeight: height,
+      });
+    });
+  });
+
+  return Array.from(images.values());
+};
+
+const readComponentCount = (colorSpace: unknown): 1 | 3 | null => {
+  if (colorSpace === PDFName.of("DeviceRGB")) {
+    return 3;
+  }
+
+  if (colorSpace === PDFName.of("DeviceGray")) {
+    return 1;
+  }
+
+  if (colorSpace instanceof PDFArray && colorSpace.get(0) === PDFName.of("ICCBased")) {
+    const profile = colorSpace.lookup(1);
+    const components =
+      profile instanceof PDFRawStream ? profile.dict.lookup(PDFName.of("N")) : undefined;
+    if (components instanceof PDFNumber) {
+      const count = components.asNumber();
+      return count === 1 || count === 3 ? count : null;
+    }
+  }
+
+  return null;
+};
+
+const resolveImageFormat = ({ dict }: PDFRawStream): ImageFormat => {
+  const imageMask = dict.lookup(PDFName.of("ImageMask"));
+  if (imageMask instanceof PDFBool && imageMask.asBoolean()) {
+    return { kind: "unsupported", reason: "Stencil masks are left untouched." };
+  }
+
+  if (dict.has(PDFName.of("Decode")) || dict.lookup(PDFName.of("Mask")) instanceof PDFArray) {
+    return { kind: "unsupported", reason: "Custom decode ranges or color-key masks." };
+  }
+
+  const bits = dict.lookup(PDFName.of("BitsPerComponent"));
+  if (!(bits instanceof PDFNumber) || bits.asNumber() !== 8) {
+    return { kind: "unsupported", reason: "Only 8-bit images can be re-encoded." };
+  }
+
+  const components = readComponentCount(dict.lookup(PDFName.of("ColorSpace")));
+  if (!components) {
+    return { kind: "unsupported", reason: "Only RGB and grayscale images can be re-encoded." };
+  }
+
+  const filter = dict.lookup(PDFName.of("Filter"));
+  const filters = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+  if (filters.length !== 1) {
+    return { kind: "unsupported", reason: "Uncompressed or multi-filter image streams." };
+  }
+
+  if (filters[0] === PDFName.of("DCTDecode")) {
+    return { kind: "jpeg", components };
+  }
+
+  if (filters[0] === PDFName.of("FlateDecode")) {
+    const params = dict.lookup(PDFName.of("DecodeParms"));
+    const predictor = params instanceof PDFDict ? params.lookup(PDFName.of("Predictor")) : null;
+    if (predictor instanceof PDFNumber && predictor.asNumber() > 1) {
+      return { kind: "unsupported", reason: "PNG-predicted image streams." };
+    }
+    return { kind: "raw", components };
+  }
+
+  return { kind: "unsupported", reason: "Image filter is not supported for re-encoding." };
+};
+
+const decodeImageSource = async (
+  stream: PDFRawStream,
+  format: { kind: "jpeg" | "raw"; components: 1 | 3 },
+  width: number,
+  height: number,
+): Promise<CanvasImageSource> => {
+  if (format.kind === "jpeg") {
+    return createImageBitmap(new Blob([new Uint8Array(stream.contents)], { type: "image/jpeg" }));
+  }
+
+  const pixels = decodePDFRawStream(stream).decode();
+  if (pixels.length < width * height * format.components) {
+    throw new Error("Decoded image data is shorter than expected.");
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context unavailable.");
+  }
+
+  const imageData = context.createImageData(width, height);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const offset = pixel * format.components;
+    const target = pixel * 4;
+    imageData.data[target] = pixels[offset] ?? 0;
+    imageData.data[target + 1] = pixels[offset + (format.components === 3 ? 1 : 0)] ?? 0;
+    imageData.data[target + 2] = pixels[offset + (format.components === 3 ? 2 : 0)] ?? 0;
+    imageData.data[target + 3] = 255;
+  }
+  context.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+const reencodeImage = async (
+  stream: PDFRawStream,
+  format: { kind: "jpeg" | "raw"; components: 1 | 3 },
+  source: { width: number; height: number },
+  target: { width: number; height: number },
+  quality: number,
+): Promise<Uint8Array> => {
+  const image = await decodeImageSource(stream, format, source.width, source.height);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = target.width;
+  canvas.height = target.height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context unavailable.");
+  }
+
+  context.drawImage(image, 0, 0, target.width, target.height);
+  if ("close" in image && typeof image.close === "function") {
+    image.close();
+  }
+
+  return canvasToJpegBytes(canvas, quality);
+};
+
+const replaceImageStream = (
+  doc: PDFDocument,
+  image: PageImage,
+  jpegBytes: Uint8Array,
+  size: { width: number; height: number },
+) => {
+  const dict = image.stream.dict.clone(doc.context);
+  dict.set(PDFName.of("Width"), PDFNumber.of(size.width));
+  dict.set(PDFName.of("Height"), PDFNumber.of(size.height));
+  dict.set(PDFName.of("ColorSpace"), PDFName.of("DeviceRGB"));
+  dict.set(PDFName.of("BitsPerComponent"), PDFNumber.of(8));
+  dict.set(PDFName.of("Filter"), PDFName.of("DCTDecode"));
+  dict.delete(PDFName.of("DecodeParms"));
+  doc.context.assign(image.ref, PDFRawStream.of(dict, jpegBytes));
+};
+
+const readImageSize = ({ dict }: PDFRawStream) => {
+  const width = dict.lookup(PDFName.of("Width"));
+  const height = dict.lookup(PDFName.of("Height"));
+  return {
+    width: width instanceof PDFNumber ? width.asNumber() : 0,
+    height: height instanceof PDFNumber ? height.asNumber() : 0,
+  };
+};
+
+const buildImageCompressedPdf = async (
+  pdf: LoadedPdf,
+  preset: CompressionPresetOption,
+): Promise<{ pdfBytes: Uint8Array; warnings: string[]; images: ImageCompressionEntry[] }> => {
+  const warnings: string[] = [];
+  const output = await PDFDocument.load(pdf.data);
+  const images: ImageCompressionEntry[] = [];
+
+  for (const image of collectPageImages(output)) {
+    const original = readImageSize(image.stream);
+    const originalSize = image.stream.contents.length;
+    const effectiveDpi = estimateImageDpi(
+      original.width,
+      original.height,
+      image.pageWidth,
+      image.pageHeight,
+    );
+    const entry: ImageCompressionEntry = {
+      objectId: image.ref.toString(),
+      pageNumbers: image.pageNumbers,
+      originalWidth: original.width,
+      originalHeight: original.height,
+      width: original.width,
+      height: original.height,
+      effectiveDpi,
+      originalSize,
+      compressedSize: originalSize,
+      savings: 0,
+      status: "kept",
+    };
+    images.push(entry);
+
+    if (effectiveDpi <= preset.imageDpi) {
+      entry.reason = `Already at or below ${preset.imageDpi} DPI.`;
+      continue;
+    }
+
+    const format = resolveImageFormat(image.stream);
+    if (format.kind === "unsupported") {
+      entry.status = "skipped";
+      entry.reason = format.reason;
+      continue;
+    }
+
+    const target = computeImageTargetDimensions(
+      original.width,
+      original.height,
+      image.pageWidth,
+      image.pageHeight,
+      preset.imageDpi,
+    );
+
+    try {
+      const jpegBytes = await reencodeImage(
+        image.stream,
+        format,
+        original,
+        target,
+        preset.jpegQuality,
+      );
+
+      if (jpegBytes.length >= originalSize) {
+        entry.reason = "Re-encoding did not reduce the image size.";
+        continue;
+      }
+
+      replaceImageStream(output, image, jpegBytes, target);
+      Object.assign(entry, {
+        width: target.width,
+        height: target.height,
+        compressedSize: jpegBytes.length,
+        savings: originalSize - jpegBytes.length,
+        status: "recompressed",
+      });
+    } catch (imageError) {
+      console.warn(`Failed to re-encode image ${entry.objectId}`, imageError);
+      entry.status = "skipped";
+      entry.reason = "Image could not be decoded in this browser.";
+    }
+  }
+
+  if (images.length === 0) {
+    warnings.push("No embedded images were found, so the document was left as-is.");
+  }
+
+  const skipped = images.filter((entry) => entry.status === "skipped").length;
+  if (skipped > 0) {
+    warnings.push(`${skipped} image(s) use formats that can't be re-encoded and were kept.`);
+  }
+
+  const pdfBytes = await output.save();
+  return { pdfBytes, warnings, images };
+};
+
 const formatBytes = (size: number) => {
   if (!Number.isFinite(size) || size <= 0) {
     return "0 B";
@@ -192,20 +578,32 @@ const formatBytes = (size: number) => {
 
 export const COMPRESSION_PRESETS = PRESET_OPTIONS;
 
+export const COMPRESSION_MODES = MODE_OPTIONS;
+
 export const getCompressionPreset = (presetId: CompressionPresetId): CompressionPresetOption => {
   return PRESET_LOOKUP[presetId] ?? PRESET_LOOKUP.balanced;
 };
 
+/**
+ * Projected output size for full-page mode. Image-only savings depend entirely on what is
+ * embedded, so there is nothing honest to project and this returns null.
+ */
 export const estimateCompressedSize = (
   originalSize: number,
   presetId: CompressionPresetId,
-): number => {
+  mode: CompressionMode = "rasterize",
+): number | null => {
+  if (mode === "images") {
+    return null;
+  }
+
   const preset = getCompressionPreset(presetId);
   return clampBytes(originalSize * preset.targetRatio);
 };
 
 type CompressionOptions = {
   startedAt?: number;
+  mode?: CompressionMode;
 };
 
 export type CompressionResult = ExportResult & {
@@ -213,6 +611,8 @@ export type CompressionResult = ExportResult & {
   compressedSize: number;
   savings: number;
   savingsPercent: number;
+  mode: CompressionMode;
+  images?: ImageCompressionEntry[];
 };
 
 export const compressPdfWithPreset = async (
@@ -222,20 +622,28 @@ export const compressPdfWithPreset = async (
 ): Promise<CompressionResult> => {
   const preset = getCompressionPreset(presetId);
   const startedAt = options?.startedAt ?? Date.now();
+  const mode = options?.mode ?? "rasterize";
   const originalSize = pdf.size;
 
-  const { pdfBytes, warnings } = await buildCompressedPdf(pdf, preset);
+  const { pdfBytes, warnings, images } =
+    mode === "images"
+      ? await buildImageCompressedPdf(pdf, preset)
+      : { ...(await buildCompressedPdf(pdf, preset)), images: undefined };
   const blob = new Blob([new Uint8Array(pdfBytes)], { type: "application/pdf" });
   const compressedSize = blob.size;
   const savings = Math.max(0, originalSize - compressedSize);
   const savingsPercent = originalSize > 0 ? (savings / originalSize) * 100 : 0;
 
-  const downloadName = buildDownloadName(pdf.name, `compress-${preset.id}`);
+  const operation = mode === "images" ? `compress-images-${preset.id}` : `compress-${preset.id}`;
+  const downloadName = buildDownloadName(pdf.name, operation);
 
   const savingsNote =
     savings > 0
       ? `${formatBytes(savings)} saved (${Math.round(savingsPercent)}% reduction)`
       : "No size reduction achieved";
+  const imageNote = images
+    ? ` · ${images.filter((entry) => entry.status === "recompressed").length} of ${images.length} images downsampled`
+    : "";
 
   return {
     blob,
@@ -247,11 +655,14 @@ export const compressPdfWithPreset = async (
     compressedSize,
     savings,
     savingsPercent,
+    mode,
+    images,
     activity: {
       tool: "compression",
-      operation: `compress-${preset.id}`,
+      operation,
       sourceCount: 1,
-      detail: `${pdf.name} · ${preset.label} preset · ${savingsNote}`,
+      detail: `${pdf.name} · ${preset.label} preset${imageNote} · ${savingsNote}`,
+      replay: { tool: "compression", presetId, mode },
     },
   };
 };
@@ -0,0 +1,109 @@
+/**
+ * Byte-level primitives for the PDF standard security handler. AES and SHA-2 go through Web
+ * Crypto; MD5 and RC4 are written out here because browsers don't expose them.
+ */
+const MD5_SHIFTS = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+    20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+    10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 0x100000000) | 0);
+export const concatBytes = (...parts) => {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach((part) => {
+        output.set(part, offset);
+        offset += part.length;
+    });
+    return output;
+};
+export const md5 = (input) => {
+    const paddedLength = (((input.length + 8) >> 6) + 1) << 6;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(input);
+    padded[input.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, (input.length << 3) >>> 0, true);
+    view.setUint32(paddedLength - 4, Math.floor(input.length / 0x20000000), true);
+    let a0 = 0x67452301;
+    let b0 = 0xefcdab89 | 0;
+    let c0 = 0x98badcfe | 0;
+    let d0 = 0x10325476;
+    for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+        let a = a0;
+        let b = b0;
+        let c = c0;
+        let d = d0;
+        for (let step = 0; step < 64; step += 1) {
+            let f;
+            let word;
+            if (step < 16) {
+                f = (b & c) | (~b & d);
+                word = step;
+            }
+            else if (step < 32) {
+                f = (d & b) | (~d & c);
+                word = (5 * step + 1) % 16;
+            }
+            else if (step < 48) {
+                f = b ^ c ^ d;
+                word = (3 * step + 5) % 16;
+            }
+            else {
+                f = c ^ (b | ~d);
+                word = (7 * step) % 16;
+            }
+            const sum = (a + f + (MD5_CONSTANTS[step] ?? 0) + view.getUint32(chunk + word * 4, true)) | 0;
+            const shift = MD5_SHIFTS[step] ?? 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+        }
+        a0 = (a0 + a) | 0;
+        b0 = (b0 + b) | 0;
+        c0 = (c0 + c) | 0;
+        d0 = (d0 + d) | 0;
+    }
+    const digest = new Uint8Array(16);
+    const digestView = new DataView(digest.buffer);
+    [a0, b0, c0, d0].forEach((word, index) => digestView.setUint32(index * 4, word >>> 0, true));
+    return digest;
+};
+export const rc4 = (key, input) => {
+    const state = new Uint8Array(256);
+    for (let index = 0; index < 256; index += 1) {
+        state[index] = index;
+    }
+    let j = 0;
+    for (let index = 0; index < 256; index += 1) {
+        j = (j + (state[index] ?? 0) + (key[index % key.length] ?? 0)) & 0xff;
+        [state[index], state[j]] = [state[j] ?? 0, state[index] ?? 0];
+    }
+    const output = new Uint8Array(input.length);
+    let i = 0;
+    j = 0;
+    for (let index = 0; index < input.length; index += 1) {
+        i = (i + 1) & 0xff;
+        j = (j + (state[i] ?? 0)) & 0xff;
+        [state[i], state[j]] = [state[j] ?? 0, state[i] ?? 0];
+        const keystream = state[((state[i] ?? 0) + (state[j] ?? 0)) & 0xff] ?? 0;
+        output[index] = (input[index] ?? 0) ^ keystream;
+    }
+    return output;
+};
+export const randomBytes = (length) => crypto.getRandomValues(new Uint8Array(length));
+/** AES-CBC with PKCS#5 padding, as PDF strings and streams expect. */
+export const aesCbcEncrypt = async (key, iv, input) => {
+    const cryptoKey = await crypto.subtle.importKey("raw", key, "AES-CBC", false, ["encrypt"]);
+    return new Uint8Array(await crypto.subtle.encrypt({ name: "AES-CBC", iv }, cryptoKey, input));
+};
+/**
+ * AES-CBC for input that is already block-aligned. Web Crypto always pads, and for aligned
+ * input the padding is one whole trailing block, so dropping it leaves the unpadded result.
+ */
+export const aesCbcEncryptUnpadded = async (key, iv, input) => {
+    const encrypted = await aesCbcEncrypt(key, iv, input);
+    return encrypted.slice(0, input.length);
+};
+export const sha = async (algorithm, input) => new Uint8Array(await crypto.subtle.digest(algorithm, input));
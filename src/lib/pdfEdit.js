@@ -1,5 +1,6 @@
 import { PDFDocument, degrees } from "pdf-lib";
 import { PdfLoadError } from "./pdfErrors";
+import { copyPagesWithInteractivity } from "./pdfPageCopy";
 const clampRotation = (value) => {
     const normalized = ((value % 360) + 360) % 360;
     return normalized === 360 ? 0 : normalized;
@@ -11,6 +12,13 @@ export const buildEditablePages = (pdf) => Array.from({ length: pdf.pageCount },
     rotation: 0,
     isDeleted: false,
 }));
+/**
+ * Re-keys pages saved against an earlier load of the same file, since page ids carry the
+ * per-load document id. Pages past the end of `pdf` are dropped.
+ */
+export const rebaseEditablePages = (pages, pdf) => pages
+    .filter((page) => page.originalIndex >= 0 && page.originalIndex < pdf.pageCount)
+    .map((page) => ({ ...page, id: buildEditablePageId(pdf.id, page.originalIndex) }));
 export const applyPageEdits = async (pdf, pages) => {
     const keptPages = pages.filter((page) => !page.isDeleted);
     if (keptPages.length === 0) {
@@ -19,19 +27,20 @@ export const applyPageEdits = async (pdf, pages) => {
     try {
         const source = await PDFDocument.load(pdf.data);
         const output = await PDFDocument.create();
-        for (const pageState of keptPages) {
-            const copied = await output.copyPages(source, [pageState.originalIndex]);
-            const [page] = copied;
+        // Copy in one pass so links between kept pages can be re-pointed at their new order.
+        const { pages: copied, warnings } = await copyPagesWithInteractivity(output, source, keptPages.map((pageState) => pageState.originalIndex));
+        keptPages.forEach((pageState, index) => {
+            const page = copied[index];
             if (!page) {
-                continue;
+                return;
             }
             const rotation = clampRotation(pageState.rotation);
             if (rotation !== 0) {
                 page.setRotation(degrees(rotation));
             }
             output.addPage(page);
-        }
-        return output.save();
+        });
+        return { bytes: await output.save(), warnings };
     }
     catch (error) {
         throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
@@ -3,7 +3,7 @@ import { describe, expect as vitestExpect, it } from "vitest";
 
 import { PdfLoadError } from "./pdfErrors";
 import type { LoadedPdf } from "./pdfLoader";
-import { applyPageEdits, buildEditablePages } from "./pdfEdit";
+import { applyPageEdits, buildEditablePages, rebaseEditablePages } from "./pdfEdit";
 
 const widthForIndex = (index: number) => 400 + index * 25;
 
@@ -35,6 +35,18 @@ describe("pdfEdit", () => {
     vitestExpect(pages[0]).toMatchObject({ originalIndex: 0, rotation: 0, isDeleted: false });
   });
 
+  it("re-keys saved pages for a fresh load and drops pages that no longer exist", async () => {
+    const saved = buildEditablePages(await createLoadedPdf(3)).map((page) => ({
+      ...page,
+      rotation: page.originalIndex === 1 ? 90 : 0,
+    }));
+    const reloaded = { ...(await createLoadedPdf(2)), id: "reloaded" };
+
+    const pages = rebaseEditablePages([saved[2]!, saved[1]!, saved[0]!], reloaded);
+    vitestExpect(pages.map((page) => page.id)).toEqual(["reloaded-page-2", "reloaded-page-1"]);
+    vitestExpect(pages[0]).toMatchObject({ originalIndex: 1, rotation: 90 });
+  });
+
   it("applies reordered, rotated, and pruned pages when exporting", async () => {
     const loaded = await createLoadedPdf(3);
     const pages = buildEditablePages(loaded);
@@ -42,7 +54,7 @@ describe("pdfEdit", () => {
     const first = pages[0]!;
     const edited: typeof pages = [{ ...third }, { ...first, rotation: 90 }];
 
-    const bytes = await applyPageEdits(loaded, edited);
+    const { bytes } = await applyPageEdits(loaded, edited);
     const parsed = await PDFDocument.load(bytes);
 
     vitestExpect(parsed.getPageCount()).toBe(2);
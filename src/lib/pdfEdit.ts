@@ -2,6 +2,7 @@ import { PDFDocument, degrees } from "pdf-lib";
 
 import { PdfLoadError } from "./pdfErrors";
 import type { LoadedPdf } from "./pdfLoader";
+import { copyPagesWithInteractivity } from "./pdfPageCopy";
 
 export type EditablePage = {
   id: string;
@@ -26,10 +27,24 @@ export const buildEditablePages = (pdf: LoadedPdf): EditablePage[] =>
     isDeleted: false,
   }));
 
+/**
+ * Re-keys pages saved against an earlier load of the same file, since page ids carry the
+ * per-load document id. Pages past the end of `pdf` are dropped.
+ */
+export const rebaseEditablePages = (pages: EditablePage[], pdf: LoadedPdf): EditablePage[] =>
+  pages
+    .filter((page) => page.originalIndex >= 0 && page.originalIndex < pdf.pageCount)
+    .map((page) => ({ ...page, id: buildEditablePageId(pdf.id, page.originalIndex) }));
+
+export type PageEditResult = {
+  bytes: Uint8Array;
+  warnings: string[];
+};
+
 export const applyPageEdits = async (
   pdf: LoadedPdf,
   pages: EditablePage[],
-): Promise<Uint8Array> => {
+): Promise<PageEditResult> => {
   const keptPages = pages.filter((page) => !page.isDeleted);
 
   if (keptPages.length === 0) {
@@ -40,20 +55,26 @@ export const applyPageEdits = async (
     const source = await PDFDocument.load(pdf.data);
     const output = await PDFDocument.create();
 
-    for (const pageState of keptPages) {
-      const copied = await output.copyPages(source, [pageState.originalIndex]);
-      const [page] = copied;
+    // Copy in one pass so links between kept pages can be re-pointed at their new order.
+    const { pages: copied, warnings } = await copyPagesWithInteractivity(
+      output,
+      source,
+      keptPages.map((pageState) => pageState.originalIndex),
+    );
+
+    keptPages.forEach((pageState, index) => {
+      const page = copied[index];
       if (!page) {
-        continue;
+        return;
       }
       const rotation = clampRotation(pageState.rotation);
       if (rotation !== 0) {
         page.setRotation(degrees(rotation));
       }
       output.addPage(page);
-    }
+    });
 
-    return output.save();
+    return { bytes: await output.save(), warnings };
   } catch (error) {
     throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
   }
@@ -0,0 +1,142 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, StandardFonts } from "pdf-lib";
+import { describe, expect as vitestExpect, it, vi } from "vitest";
+
+// The default pdf.js build needs browser globals that jsdom lacks.
+vi.mock("pdfjs-dist", () => import("pdfjs-dist/legacy/build/pdf.mjs"));
+
+import { createPdfSourceFromBytes } from "./documentPipeline";
+import { buildPermissionFlags, encryptPdf, type EncryptionSettings } from "./pdfEncryption";
+import { loadPdfFromSource, type LoadedPdf } from "./pdfLoader";
+
+const createLoadedPdf = async (name: string, pageCount: number): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  doc.setTitle("Salary review");
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.addPage([612, 792]).drawText(`Page ${index + 1}`, { x: 72, y: 720, font, size: 18 });
+  }
+
+  const data = await doc.save();
+  return {
+    id: `test-${name}`,
+    name,
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount,
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const reopen = async (bytes: Uint8Array, password: string | null) => {
+  const loaded = await loadPdfFromSource(
+    createPdfSourceFromBytes(bytes, "check.pdf", "generated", password),
+  );
+  const page = await loaded.doc.getPage(1);
+  const text = await page.getTextContent();
+  const result = {
+    pageCount: loaded.pageCount,
+    title: loaded.metadata.title,
+    permissions: loaded.metadata.permissions,
+    text: text.items.map((item) => ("str" in item ? item.str : "")).join(""),
+  };
+  await loaded.doc.destroy();
+  return result;
+};
+
+const readOwnerEntry = async (bytes: Uint8Array) => {
+  const doc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const encrypt = doc.context.lookup(doc.context.trailerInfo.Encrypt, PDFDict);
+  return encrypt.lookup(PDFName.of("O"), PDFHexString).asString();
+};
+
+describe("pdfEncryption", () => {
+  it("keeps reserved bits set and only grants the chosen permissions", () => {
+    const flags = buildPermissionFlags(["print"]);
+
+    vitestExpect(flags).toBeLessThan(0);
+    vitestExpect(flags & 0x04).toBe(0x04);
+    vitestExpect(flags & 0x10).toBe(0);
+    vitestExpect(flags & 0x08).toBe(0);
+  });
+
+  it.each(["rc4-128", "aes-128", "aes-256"] as const)(
+    "round-trips %s through pdf.js with the user password",
+    async (algorithm) => {
+      const pdf = await createLoadedPdf("review.pdf", 2);
+      const settings: EncryptionSettings = {
+        algorithm,
+        userPassword: "open sesame",
+        ownerPassword: "owner-secret",
+        permissions: ["print"],
+      };
+      const result = await encryptPdf(pdf, settings);
+      const bytes = await readBlob(result.blob);
+
+      await vitestExpect(reopen(bytes, null)).rejects.toMatchObject({ code: "password-required" });
+      const reopened = await reopen(bytes, "open sesame");
+      vitestExpect(reopened).toMatchObject({
+        pageCount: 2,
+        title: "Salary review",
+        text: "Page 1",
+      });
+      vitestExpect(reopened.permissions).toContain(0x04);
+      vitestExpect(reopened.permissions?.includes(0x10)).toBe(false);
+      vitestExpect(result.activity).toMatchObject({
+        tool: "encrypt",
+        operation: `encrypt-${algorithm}`,
+      });
+    },
+  );
+
+  it("opens without a prompt when only an owner password is set", async () => {
+    const pdf = await createLoadedPdf("open.pdf", 1);
+    const result = await encryptPdf(pdf, {
+      algorithm: "aes-256",
+      userPassword: "",
+      ownerPassword: "owner-secret",
+      permissions: ["copy"],
+    });
+    const reopened = await reopen(await readBlob(result.blob), null);
+
+    vitestExpect(reopened.text).toBe("Page 1");
+    vitestExpect(reopened.permissions).toContain(0x10);
+    vitestExpect(result.activity.detail).toBe("open.pdf · AES-256 · Copy allowed");
+  });
+
+  it("locks permissions behind a random owner password when none is given", async () => {
+    const pdf = await createLoadedPdf("locked.pdf", 1);
+    const encrypt = async (ownerPassword: string) => {
+      const result = await encryptPdf(pdf, {
+        algorithm: "rc4-128",
+        userPassword: "open sesame",
+        ownerPassword,
+        permissions: [],
+      });
+      return readBlob(result.blob);
+    };
+
+    const first = await encrypt("");
+    const second = await encrypt("");
+    const sharedPassword = await encrypt("open sesame");
+
+    // RC4's /O entry depends only on the two passwords, so equal entries mean equal owners.
+    const owners = new Set([
+      await readOwnerEntry(first),
+      await readOwnerEntry(second),
+      await readOwnerEntry(sharedPassword),
+    ]);
+    vitestExpect(owners.size).toBe(3);
+    vitestExpect((await reopen(first, "open sesame")).text).toBe("Page 1");
+  });
+});
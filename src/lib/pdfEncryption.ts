@@ -0,0 +1,446 @@
+import {
+  EncryptedPDFError,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  type PDFContext,
+  type PDFObject,
+} from "pdf-lib";
+
+import { buildDownloadName, createPdfSourceFromBytes, type ExportResult } from "./documentPipeline";
+import {
+  aesCbcEncrypt,
+  aesCbcEncryptUnpadded,
+  concatBytes,
+  md5,
+  randomBytes,
+  rc4,
+  sha,
+} from "./pdfCrypto";
+import { PdfLoadError } from "./pdfErrors";
+import { loadPdfFromSource, type LoadedPdf } from "./pdfLoader";
+
+export type EncryptionAlgorithm = "rc4-128" | "aes-128" | "aes-256";
+
+export type PdfPermission = "print" | "copy" | "modify";
+
+export type EncryptionSettings = {
+  algorithm: EncryptionAlgorithm;
+  /** Needed to open the file. Leave empty to open freely while still applying permissions. */
+  userPassword: string;
+  /** Lifts the permission limits. When empty, a random one is used so nobody can lift them. */
+  ownerPassword: string;
+  permissions: PdfPermission[];
+};
+
+/** User access permission bits (ISO 32000 table 22), as pdf.js reports them. */
+export const PERMISSION_LABELS: Record<number, string> = {
+  0x04: "Print",
+  0x08: "Modify",
+  0x10: "Copy",
+  0x20: "Edit annotations",
+  0x100: "Fill forms",
+  0x200: "Copy for accessibility",
+  0x400: "Assemble",
+  0x800: "High-quality print",
+};
+
+export const ENCRYPTION_ALGORITHMS: {
+  id: EncryptionAlgorithm;
+  label: string;
+  hint: string;
+}[] = [
+  { id: "aes-256", label: "AES-256", hint: "Strongest. Needs Acrobat X or a reader from 2011 on." },
+  { id: "aes-128", label: "AES-128", hint: "Opens in Acrobat 7 and later." },
+  { id: "rc4-128", label: "RC4-128", hint: "Legacy. Only for very old readers." },
+];
+
+/** Each toggle grants the matching `PERMISSION_LABELS` bit plus the finer-grained ones it implies. */
+export const ENCRYPTION_PERMISSIONS: { id: PdfPermission; flags: number[] }[] = [
+  { id: "print", flags: [0x04, 0x800] },
+  { id: "copy", flags: [0x10] },
+  { id: "modify", flags: [0x08, 0x20, 0x100, 0x400] },
+];
+
+// Screen readers keep working regardless of the other restrictions.
+const ALWAYS_GRANTED = 0x200;
+// Bits 7-8 and 13-32 are reserved and must be set.
+const RESERVED_BITS = 0xfffff0c0;
+
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const LEGACY_KEY_LENGTH = 16;
+
+export const permissionLabel = (permission: PdfPermission) => {
+  const flag = ENCRYPTION_PERMISSIONS.find((entry) => entry.id === permission)?.flags[0];
+  return (flag && PERMISSION_LABELS[flag]) ?? permission;
+};
+
+export const buildPermissionFlags = (permissions: PdfPermission[]) => {
+  const granted = ENCRYPTION_PERMISSIONS.filter((entry) => permissions.includes(entry.id)).reduce(
+    (bits, entry) => entry.flags.reduce((acc, flag) => acc | flag, bits),
+    ALWAYS_GRANTED,
+  );
+  // /P is a signed 32-bit integer.
+  return RESERVED_BITS | granted | 0;
+};
+
+const hexString = (bytes: Uint8Array) =>
+  PDFHexString.of(Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(""));
+
+const int32LittleEndian = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value, true);
+  return bytes;
+};
+
+/** Revisions 2-4 take passwords in PDFDocEncoding, which covers Latin-1 for our purposes. */
+const encodeLegacyPassword = (password: string) => {
+  if (Array.from(password).some((character) => character.charCodeAt(0) > 0xff)) {
+    throw new PdfLoadError(
+      "unsupported",
+      "RC4 and AES-128 passwords can only use Latin characters. Pick AES-256 for other scripts.",
+    );
+  }
+  const bytes = Uint8Array.from(password.slice(0, 32), (character) => character.charCodeAt(0));
+  return concatBytes(bytes, PASSWORD_PADDING).slice(0, 32);
+};
+
+const encodeUnicodePassword = (password: string) =>
+  new TextEncoder().encode(password.normalize("NFKC")).slice(0, 127);
+
+/**
+ * Falling back to the user password would let anyone who can open the file lift its
+ * restrictions, so an empty owner password becomes 128 random bits that are never shown.
+ */
+const resolveOwnerPassword = (settings: EncryptionSettings) =>
+  settings.ownerPassword ||
+  Array.from(randomBytes(16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+type SecurityHandler = {
+  encryptDict: Record<string, PDFObject>;
+  encryptBytes: (
+    objectNumber: number,
+    generation: number,
+    bytes: Uint8Array,
+  ) => Promise<Uint8Array>;
+};
+
+/** Algorithms 2, 3, and 5 from ISO 32000-1 §7.6.3, revisions 3 (RC4) and 4 (AES-128). */
+const createLegacyHandler = (
+  settings: EncryptionSettings,
+  permissionFlags: number,
+  documentId: Uint8Array,
+  context: PDFContext,
+): SecurityHandler => {
+  const useAes = settings.algorithm === "aes-128";
+  const userPadded = encodeLegacyPassword(settings.userPassword);
+  const ownerPadded = encodeLegacyPassword(resolveOwnerPassword(settings));
+
+  let ownerHash = md5(ownerPadded);
+  for (let round = 0; round < 50; round += 1) {
+    ownerHash = md5(ownerHash);
+  }
+  let ownerEntry = rc4(ownerHash, userPadded);
+  for (let round = 1; round <= 19; round += 1) {
+    ownerEntry = rc4(
+      ownerHash.map((byte) => byte ^ round),
+      ownerEntry,
+    );
+  }
+
+  let fileKey = md5(
+    concatBytes(userPadded, ownerEntry, int32LittleEndian(permissionFlags), documentId),
+  );
+  for (let round = 0; round < 50; round += 1) {
+    fileKey = md5(fileKey.slice(0, LEGACY_KEY_LENGTH));
+  }
+  fileKey = fileKey.slice(0, LEGACY_KEY_LENGTH);
+
+  let userEntry = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, documentId)));
+  for (let round = 1; round <= 19; round += 1) {
+    userEntry = rc4(
+      fileKey.map((byte) => byte ^ round),
+      userEntry,
+    );
+  }
+
+  const encryptDict: Record<string, PDFObject> = {
+    Filter: PDFName.of("Standard"),
+    V: PDFNumber.of(useAes ? 4 : 2),
+    R: PDFNumber.of(useAes ? 4 : 3),
+    Length: PDFNumber.of(LEGACY_KEY_LENGTH * 8),
+    O: hexString(ownerEntry),
+    U: hexString(concatBytes(userEntry, new Uint8Array(16))),
+    P: PDFNumber.of(permissionFlags),
+  };
+  if (useAes) {
+    encryptDict.CF = context.obj({
+      StdCF: { CFM: "AESV2", AuthEvent: "DocOpen", Length: LEGACY_KEY_LENGTH },
+    });
+    encryptDict.StmF = PDFName.of("StdCF");
+    encryptDict.StrF = PDFName.of("StdCF");
+  }
+
+  return {
+    encryptDict,
+    encryptBytes: async (objectNumber, generation, bytes) => {
+      const objectKey = md5(
+        concatBytes(
+          fileKey,
+          new Uint8Array([
+            objectNumber & 0xff,
+            (objectNumber >> 8) & 0xff,
+            (objectNumber >> 16) & 0xff,
+            generation & 0xff,
+            (generation >> 8) & 0xff,
+          ]),
+          useAes ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(),
+        ),
+      ).slice(0, Math.min(LEGACY_KEY_LENGTH + 5, 16));
+
+      if (!useAes) {
+        return rc4(objectKey, bytes);
+      }
+      const iv = randomBytes(16);
+      return concatBytes(iv, await aesCbcEncrypt(objectKey, iv, bytes));
+    },
+  };
+};
+
+/** Algorithm 2.B from ISO 32000-2 §7.6.4.3.4. */
+const hardenedHash = async (password: Uint8Array, salt: Uint8Array, userEntry: Uint8Array) => {
+  let key = await sha("SHA-256", concatBytes(password, salt, userEntry));
+  let encrypted = new Uint8Array();
+
+  for (let round = 0; round < 64 || (encrypted[encrypted.length - 1] ?? 0) > round - 32; ) {
+    const block = concatBytes(password, key, userEntry);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let index = 0; index < 64; index += 1) {
+      repeated.set(block, index * block.length);
+    }
+    encrypted = await aesCbcEncryptUnpadded(key.slice(0, 16), key.slice(16, 32), repeated);
+
+    const remainder = encrypted.slice(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    key = await sha(
+      remainder === 0 ? "SHA-256" : remainder === 1 ? "SHA-384" : "SHA-512",
+      encrypted,
+    );
+    round += 1;
+  }
+
+  return key.slice(0, 32);
+};
+
+/** Revision 6 (AES-256, PDF 2.0). */
+const createAes256Handler = async (
+  settings: EncryptionSettings,
+  permissionFlags: number,
+  context: PDFContext,
+): Promise<SecurityHandler> => {
+  const fileKey = randomBytes(32);
+  const zeroIv = new Uint8Array(16);
+  const userPassword = encodeUnicodePassword(settings.userPassword);
+  const ownerPassword = encodeUnicodePassword(resolveOwnerPassword(settings));
+
+  const userValidationSalt = randomBytes(8);
+  const userKeySalt = randomBytes(8);
+  const userEntry = concatBytes(
+    await hardenedHash(userPassword, userValidationSalt, new Uint8Array()),
+    userValidationSalt,
+    userKeySalt,
+  );
+  const userKeyEntry = await aesCbcEncryptUnpadded(
+    await hardenedHash(userPassword, userKeySalt, new Uint8Array()),
+    zeroIv,
+    fileKey,
+  );
+
+  const ownerValidationSalt = randomBytes(8);
+  const ownerKeySalt = randomBytes(8);
+  const ownerEntry = concatBytes(
+    await hardenedHash(ownerPassword, ownerValidationSalt, userEntry),
+    ownerValidationSalt,
+    ownerKeySalt,
+  );
+  const ownerKeyEntry = await aesCbcEncryptUnpadded(
+    await hardenedHash(ownerPassword, ownerKeySalt, userEntry),
+    zeroIv,
+    fileKey,
+  );
+
+  // A single block with a zero IV is the same as the ECB encryption the spec asks for.
+  const perms = await aesCbcEncryptUnpadded(
+    fileKey,
+    zeroIv,
+    concatBytes(
+      int32LittleEndian(permissionFlags),
+      new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]),
+      randomBytes(4),
+    ),
+  );
+
+  return {
+    encryptDict: {
+      Filter: PDFName.of("Standard"),
+      V: PDFNumber.of(5),
+      R: PDFNumber.of(6),
+      Length: PDFNumber.of(256),
+      CF: context.obj({ StdCF: { CFM: "AESV3", AuthEvent: "DocOpen", Length: 32 } }),
+      StmF: PDFName.of("StdCF"),
+      StrF: PDFName.of("StdCF"),
+      O: hexString(ownerEntry),
+      U: hexString(userEntry),
+      OE: hexString(ownerKeyEntry),
+      UE: hexString(userKeyEntry),
+      P: PDFNumber.of(permissionFlags),
+      Perms: hexString(perms),
+    },
+    encryptBytes: async (_objectNumber, _generation, bytes) => {
+      const iv = randomBytes(16);
+      return concatBytes(iv, await aesCbcEncrypt(fileKey, iv, bytes));
+    },
+  };
+};
+
+type EncryptString = (bytes: Uint8Array) => Promise<Uint8Array>;
+
+/** Returns the encrypted replacement for `value`, or the value itself when it holds no strings. */
+const encryptObject = async (value: PDFObject, encrypt: EncryptString): Promise<PDFObject> => {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    return hexString(await encrypt(value.asBytes()));
+  }
+  if (value instanceof PDFDict) {
+    for (const [key, entry] of value.entries()) {
+      value.set(key, await encryptObject(entry, encrypt));
+    }
+    return value;
+  }
+  if (value instanceof PDFArray) {
+    for (let index = 0; index < value.size(); index += 1) {
+      value.set(index, await encryptObject(value.get(index), encrypt));
+    }
+    return value;
+  }
+  if (value instanceof PDFStream) {
+    await encryptObject(value.dict, encrypt);
+    return PDFRawStream.of(value.dict, await encrypt(value.getContents()));
+  }
+  return value;
+};
+
+const ALGORITHM_HEADERS: Record<EncryptionAlgorithm, [number, number]> = {
+  "rc4-128": [1, 4],
+  "aes-128": [1, 6],
+  "aes-256": [2, 0],
+};
+
+type EncryptionOptions = {
+  startedAt?: number;
+};
+
+/**
+ * Writes a password-protected copy using the standard security handler, then reopens it
+ * through pdf.js with the user password so a file that won't open is never handed back.
+ */
+export const encryptPdf = async (
+  pdf: LoadedPdf,
+  settings: EncryptionSettings,
+  options?: EncryptionOptions,
+): Promise<ExportResult> => {
+  const startedAt = options?.startedAt ?? Date.now();
+
+  if (!settings.userPassword && !settings.ownerPassword) {
+    throw new PdfLoadError("unsupported", "Set a user or owner password before encrypting.");
+  }
+
+  let output: PDFDocument;
+  try {
+    output = await PDFDocument.load(pdf.data);
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new PdfLoadError(
+        "unsupported",
+        "This PDF is already password-protected. Save an unlocked copy before encrypting it again.",
+      );
+    }
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  let bytes: Uint8Array;
+  try {
+    const { context } = output;
+    const permissionFlags = buildPermissionFlags(settings.permissions);
+    const documentId = randomBytes(16);
+    const handler =
+      settings.algorithm === "aes-256"
+        ? await createAes256Handler(settings, permissionFlags, context)
+        : createLegacyHandler(settings, permissionFlags, documentId, context);
+
+    // Encrypt before registering /Encrypt so its own strings stay readable.
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      const encrypted = await encryptObject(object, (value) =>
+        handler.encryptBytes(ref.objectNumber, ref.generationNumber, value),
+      );
+      if (encrypted !== object) {
+        context.assign(ref, encrypted);
+      }
+    }
+
+    context.trailerInfo.Encrypt = context.register(context.obj(handler.encryptDict));
+    context.trailerInfo.ID = context.obj([hexString(documentId), hexString(documentId)]);
+    const [major, minor] = ALGORITHM_HEADERS[settings.algorithm];
+    context.header = PDFHeader.forVersion(major, minor);
+
+    // Object streams would be encrypted as a whole, so write a classic xref table instead.
+    bytes = await output.save({ useObjectStreams: false, updateFieldAppearances: false });
+  } catch (error) {
+    if (error instanceof PdfLoadError) {
+      throw error;
+    }
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  const check = await loadPdfFromSource(
+    createPdfSourceFromBytes(bytes, pdf.name, "generated", settings.userPassword || null),
+  ).catch((error: unknown) => {
+    console.error("Encrypted PDF failed to reopen", error);
+    throw new PdfLoadError("unknown", "The encrypted copy didn't reopen, so it wasn't saved.");
+  });
+  const reopenedPages = check.pageCount;
+  check.doc.destroy();
+  if (reopenedPages !== pdf.pageCount) {
+    throw new PdfLoadError("unknown", "The encrypted copy lost pages, so it wasn't saved.");
+  }
+
+  const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+  const algorithmLabel =
+    ENCRYPTION_ALGORITHMS.find((entry) => entry.id === settings.algorithm)?.label ??
+    settings.algorithm;
+  const allowed = settings.permissions.map(permissionLabel);
+
+  return {
+    blob,
+    size: blob.size,
+    downloadName: buildDownloadName(pdf.name, "protected"),
+    durationMs: Math.max(0, Date.now() - startedAt),
+    activity: {
+      tool: "encrypt",
+      operation: `encrypt-${settings.algorithm}`,
+      sourceCount: 1,
+      detail: `${pdf.name} · ${algorithmLabel} · ${
+        allowed.length > 0 ? `${allowed.join(", ")} allowed` : "No permissions"
+      }`,
+    },
+  };
+};
@@ -0,0 +1,262 @@
+import { PDFCheckBox, PDFDocument, PDFDropdown, PDFOptionList, PDFRadioGroup, PDFRef, PDFTextField, } from "pdf-lib";
+import { buildDownloadName } from "./documentPipeline";
+import { PdfLoadError } from "./pdfErrors";
+const FORM_VALUES_VERSION = 1;
+const loadFormDocument = async (pdf) => {
+    try {
+        return await PDFDocument.load(pdf.data);
+    }
+    catch (error) {
+        throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+    }
+};
+const isSingleSelectList = (field) => field instanceof PDFOptionList && !field.isMultiselect();
+const describeField = (field, pageNumbers) => {
+    const base = {
+        name: field.getName(),
+        options: [],
+        allowsCustomValue: false,
+        multiline: false,
+        maxLength: null,
+        readOnly: field.isReadOnly(),
+        required: field.isRequired(),
+        pageNumbers,
+    };
+    if (field instanceof PDFTextField) {
+        return {
+            info: {
+                ...base,
+                kind: "text",
+                multiline: field.isMultiline(),
+                maxLength: field.getMaxLength() ?? null,
+            },
+            value: field.getText() ?? "",
+        };
+    }
+    if (field instanceof PDFCheckBox) {
+        return { info: { ...base, kind: "checkbox" }, value: field.isChecked() };
+    }
+    if (field instanceof PDFRadioGroup) {
+        return {
+            info: { ...base, kind: "radio", options: field.getOptions() },
+            value: field.getSelected() ?? "",
+        };
+    }
+    if (field instanceof PDFDropdown || isSingleSelectList(field)) {
+        return {
+            info: {
+                ...base,
+                kind: "dropdown",
+                options: field.getOptions(),
+                allowsCustomValue: field instanceof PDFDropdown && field.isEditable(),
+            },
+            value: field.getSelected()[0] ?? "",
+        };
+    }
+    return null;
+};
+/** Maps every annotation reference to the one-based page whose `/Annots` lists it. */
+const buildAnnotationPageMap = (doc) => {
+    const pageByAnnotation = new Map();
+    doc.getPages().forEach((page, index) => {
+        page.node
+            .Annots()
+            ?.asArray()
+            .forEach((entry) => {
+            if (entry instanceof PDFRef) {
+                pageByAnnotation.set(entry.toString(), index + 1);
+            }
+        });
+    });
+    return pageByAnnotation;
+};
+const findFieldPages = (doc, field, pageByAnnotation, pageByRef) => {
+    const pages = new Set();
+    field.acroField.getWidgets().forEach((widget) => {
+        const ref = doc.context.getObjectRef(widget.dict);
+        const listed = ref ? pageByAnnotation.get(ref.toString()) : undefined;
+        const declared = widget.P();
+        const page = listed ?? (declared ? pageByRef.get(declared.toString()) : undefined);
+        if (page !== undefined) {
+            pages.add(page);
+        }
+    });
+    return Array.from(pages).sort((a, b) => a - b);
+};
+/**
+ * Lists the document's fillable AcroForm fields with their current values, ordered by
+ * the first page they appear on so the inputs follow the document rather than the order
+ * the author happened to create the fields in.
+ */
+export const inspectPdfForm = async (pdf) => {
+    const doc = await loadFormDocument(pdf);
+    const form = doc.getForm();
+    const pageByAnnotation = buildAnnotationPageMap(doc);
+    const pageByRef = new Map(doc.getPages().map((page, index) => [page.ref.toString(), index + 1]));
+    const fields = [];
+    const values = {};
+    const unsupported = [];
+    form.getFields().forEach((field) => {
+        const described = describeField(field, findFieldPages(doc, field, pageByAnnotation, pageByRef));
+        if (!described) {
+            unsupported.push(field.getName());
+            return;
+        }
+        fields.push(described.info);
+        values[described.info.name] = described.value;
+    });
+    fields.sort((a, b) => (a.pageNumbers[0] ?? Infinity) - (b.pageNumbers[0] ?? Infinity));
+    return { fields, values, unsupported };
+};
+const applyFieldValue = (field, value) => {
+    if (field instanceof PDFTextField) {
+        field.setText(String(value) || undefined);
+    }
+    else if (field instanceof PDFCheckBox) {
+        if (value === true) {
+            field.check();
+        }
+        else {
+            field.uncheck();
+        }
+    }
+    else if (field instanceof PDFRadioGroup) {
+        if (typeof value === "string" && value) {
+            field.select(value);
+        }
+        else {
+            field.clear();
+        }
+    }
+    else if (field instanceof PDFDropdown || isSingleSelectList(field)) {
+        if (typeof value === "string" && value) {
+            field.select(value);
+        }
+        else {
+            field.clear();
+        }
+    }
+};
+/**
+ * Writes `values` into the form and saves a copy. In "flatten" mode the filled fields
+ * are burned into the page content and the form is removed, so the result can't be
+ * edited further. Read-only fields keep their existing values.
+ */
+export const exportFilledForm = async (pdf, values, options) => {
+    const startedAt = options?.startedAt ?? Date.now();
+    const mode = options?.mode ?? "fill";
+    const doc = await loadFormDocument(pdf);
+    const form = doc.getForm();
+    const warnings = [];
+    let filled = 0;
+    form.getFields().forEach((field) => {
+        const name = field.getName();
+        const value = values[name];
+        if (value === undefined || field.isReadOnly()) {
+            return;
+        }
+        try {
+            applyFieldValue(field, value);
+            filled += 1;
+        }
+        catch (error) {
+            warnings.push(`Skipped "${name}": ${error instanceof Error ? error.message : "the value was rejected."}`);
+        }
+    });
+    try {
+        if (mode === "flatten") {
+            form.flatten();
+        }
+        const bytes = await doc.save();
+        const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+        return {
+            blob,
+            size: blob.size,
+            downloadName: buildDownloadName(pdf.name, mode === "flatten" ? "flattened" : "filled"),
+            durationMs: Math.max(0, Date.now() - startedAt),
+            warnings: warnings.length > 0 ? warnings : undefined,
+            activity: {
+                tool: "forms",
+                operation: `forms-${mode}`,
+                sourceCount: 1,
+                detail: `${pdf.name} · ${filled} field${filled === 1 ? "" : "s"} ${mode === "flatten" ? "filled and flattened" : "filled"}`,
+            },
+        };
+    }
+    catch (error) {
+        const message = error instanceof Error ? error.message : undefined;
+        // pdf-lib draws field appearances with a WinAnsi font, which can't encode every script.
+        if (message && /cannot encode/i.test(message)) {
+            throw new PdfLoadError("unsupported", "Some values use characters this form's font can't display. Remove them or fill the form in a desktop PDF editor.");
+        }
+        throw new PdfLoadError("unknown", message);
+    }
+};
+export const serializeFormValues = (values, documentName) => JSON.stringify({ version: FORM_VALUES_VERSION, document: documentName, fields: values }, null, 2);
+const coerceImportedValue = (field, raw) => {
+    if (field.kind === "checkbox") {
+        if (typeof raw === "boolean") {
+            return { value: raw };
+        }
+        if (raw === "true" || raw === "false") {
+            return { value: raw === "true" };
+        }
+        return { problem: "expected true or false" };
+    }
+    if (typeof raw !== "string" && typeof raw !== "number") {
+        return { problem: "expected text" };
+    }
+    const value = String(raw);
+    if (field.kind === "text") {
+        return field.maxLength !== null && value.length > field.maxLength
+            ? { problem: `longer than ${field.maxLength} characters` }
+            : { value };
+    }
+    if (value && !field.options.includes(value) && !field.allowsCustomValue) {
+        return { problem: `"${value}" isn't one of the options` };
+    }
+    return { value };
+};
+/**
+ * Reads values saved by `serializeFormValues` (or a bare `{ name: value }` object) and
+ * keeps the ones that fit this document's fields. Everything else becomes a warning so
+ * a packet from a slightly different form version still fills what it can.
+ */
+export const parseFormValues = (json, fields) => {
+    let parsed;
+    try {
+        parsed = JSON.parse(json);
+    }
+    catch {
+        throw new Error("That file isn't valid JSON.");
+    }
+    const container = parsed && typeof parsed === "object" && "fields" in parsed ? parsed.fields : parsed;
+    if (!container || typeof container !== "object" || Array.isArray(container)) {
+        throw new Error("Expected an object mapping field names to values.");
+    }
+    const fieldsByName = new Map(fields.map((field) => [field.name, field]));
+    const values = {};
+    const warnings = [];
+    const unknown = [];
+    Object.entries(container).forEach(([name, raw]) => {
+        const field = fieldsByName.get(name);
+        if (!field) {
+            unknown.push(name);
+            return;
+        }
+        if (field.readOnly) {
+            warnings.push(`"${name}" is read-only and was left unchanged.`);
+            return;
+        }
+        const coerced = coerceImportedValue(field, raw);
+        if ("problem" in coerced) {
+            warnings.push(`Skipped "${name}": ${coerced.problem}.`);
+            return;
+        }
+        values[name] = coerced.value;
+    });
+    if (unknown.length > 0) {
+        warnings.push(`Ignored ${unknown.length} value${unknown.length === 1 ? "" : "s"} for fields this PDF doesn't have: ${unknown.join(", ")}.`);
+    }
+    return { values, warnings };
+};
@@ -0,0 +1,122 @@
+import { PDFDocument } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import { exportFilledForm, inspectPdfForm, parseFormValues, serializeFormValues } from "./pdfForms";
+import type { LoadedPdf } from "./pdfLoader";
+
+const createLoadedPdf = async (): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  const first = doc.addPage();
+  const second = doc.addPage();
+  const form = doc.getForm();
+
+  // Created out of page order so the inspection has to sort them.
+  const agree = form.createCheckBox("agree");
+  agree.addToPage(second, { x: 50, y: 700, width: 16, height: 16 });
+
+  const name = form.createTextField("name");
+  name.setMaxLength(20);
+  name.addToPage(first, { x: 50, y: 700, width: 200, height: 24 });
+
+  const plan = form.createRadioGroup("plan");
+  plan.addOptionToPage("basic", first, { x: 50, y: 650, width: 16, height: 16 });
+  plan.addOptionToPage("pro", first, { x: 80, y: 650, width: 16, height: 16 });
+
+  const country = form.createDropdown("country");
+  country.addOptions(["Canada", "Mexico"]);
+  country.select("Canada");
+  country.addToPage(first, { x: 50, y: 600, width: 120, height: 24 });
+
+  const id = form.createTextField("id");
+  id.setText("A-1");
+  id.enableReadOnly();
+  id.addToPage(second, { x: 50, y: 650, width: 120, height: 24 });
+
+  const data = await doc.save();
+  return {
+    id: "test-forms",
+    name: "application.pdf",
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount: 2,
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe("pdfForms", () => {
+  it("lists fields in page order with their current values", async () => {
+    const inspection = await inspectPdfForm(await createLoadedPdf());
+
+    vitestExpect(inspection.fields.map((field) => [field.name, field.kind])).toEqual([
+      ["name", "text"],
+      ["plan", "radio"],
+      ["country", "dropdown"],
+      ["agree", "checkbox"],
+      ["id", "text"],
+    ]);
+    vitestExpect(inspection.fields[0]).toMatchObject({ maxLength: 20, pageNumbers: [1] });
+    vitestExpect(inspection.fields[1]!.options).toEqual(["basic", "pro"]);
+    vitestExpect(inspection.fields[4]).toMatchObject({ readOnly: true, pageNumbers: [2] });
+    vitestExpect(inspection.values).toEqual({
+      name: "",
+      plan: "",
+      country: "Canada",
+      agree: false,
+      id: "A-1",
+    });
+    vitestExpect(inspection.unsupported).toEqual([]);
+  });
+
+  it("fills fields, leaves read-only ones alone, and flattens on request", async () => {
+    const pdf = await createLoadedPdf();
+    const values = { name: "Ada", plan: "pro", country: "Mexico", agree: true, id: "B-2" };
+
+    const filled = await exportFilledForm(pdf, values, { mode: "fill" });
+    const filledForm = (await PDFDocument.load(await readBlob(filled.blob))).getForm();
+    vitestExpect(filled.downloadName).toMatch(/^application\.filled\..*\.pdf$/);
+    vitestExpect(filled.activity.operation).toBe("forms-fill");
+    vitestExpect(filledForm.getTextField("name").getText()).toBe("Ada");
+    vitestExpect(filledForm.getRadioGroup("plan").getSelected()).toBe("pro");
+    vitestExpect(filledForm.getDropdown("country").getSelected()).toEqual(["Mexico"]);
+    vitestExpect(filledForm.getCheckBox("agree").isChecked()).toBe(true);
+    vitestExpect(filledForm.getTextField("id").getText()).toBe("A-1");
+
+    const flattened = await exportFilledForm(pdf, values, { mode: "flatten" });
+    const flattenedForm = (await PDFDocument.load(await readBlob(flattened.blob))).getForm();
+    vitestExpect(flattened.downloadName).toMatch(/^application\.flattened\..*\.pdf$/);
+    vitestExpect(flattenedForm.getFields()).toHaveLength(0);
+  });
+
+  it("round-trips saved values and warns about ones that don't fit", async () => {
+    const { fields } = await inspectPdfForm(await createLoadedPdf());
+    const saved = serializeFormValues({ name: "Ada", agree: true }, "application.pdf");
+
+    vitestExpect(parseFormValues(saved, fields)).toEqual({
+      values: { name: "Ada", agree: true },
+      warnings: [],
+    });
+
+    const imported = parseFormValues(
+      JSON.stringify({ plan: "enterprise", agree: "yes", id: "C-3", country: "Mexico", extra: 1 }),
+      fields,
+    );
+    vitestExpect(imported.values).toEqual({ country: "Mexico" });
+    vitestExpect(imported.warnings).toEqual([
+      'Skipped "plan": "enterprise" isn\'t one of the options.',
+      'Skipped "agree": expected true or false.',
+      '"id" is read-only and was left unchanged.',
+      "Ignored 1 value for fields this PDF doesn't have: extra.",
+    ]);
+  });
+});
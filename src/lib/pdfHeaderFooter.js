@@ -0,0 +1,109 @@
+import { PDFDocument } from "pdf-lib";
+import { buildDownloadName } from "./documentPipeline";
+import { PdfLoadError } from "./pdfErrors";
+import { drawAnchoredText } from "./pdfPageStamps";
+import { parseHexColor, resolveStandardFont } from "./pdfWatermark";
+export const HEADER_FOOTER_TOKENS = [
+    { token: "page", description: "Current page number" },
+    { token: "pages", description: "Total page count" },
+    { token: "filename", description: "File name" },
+    { token: "date", description: "Today's date" },
+    { token: "title", description: "Document title, or the file name when there isn't one" },
+];
+export const HEADER_FOOTER_SLOTS = ["left", "center", "right"];
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+export const createEmptyLayout = () => ({
+    header: { left: "", center: "", right: "" },
+    footer: { left: "", center: "", right: "" },
+});
+/** Replaces known `{token}`s; anything else is left as typed so mistakes stay visible. */
+export const expandTemplate = (template, context) => template
+    .replace(/\s*\n\s*/g, " ")
+    .replace(TOKEN_PATTERN, (match, token) => Object.prototype.hasOwnProperty.call(context, token)
+    ? String(context[token])
+    : match);
+export const buildTemplateContext = (pdf, pageNumber, now) => ({
+    page: pageNumber,
+    pages: pdf.pageCount,
+    filename: pdf.name,
+    date: new Intl.DateTimeFormat(undefined, { dateStyle: "medium" }).format(now),
+    title: pdf.metadata.title?.trim() || pdf.name.replace(/\.pdf$/i, ""),
+});
+export const resolvePageLayout = (settings, pageNumber) => {
+    if (settings.skipFirstPage && pageNumber === 1) {
+        return null;
+    }
+    return pageNumber % 2 === 0 && settings.even ? settings.even : settings.odd;
+};
+const hasContent = (layout) => Boolean(layout &&
+    HEADER_FOOTER_SLOTS.some((slot) => layout.header[slot].trim() || layout.footer[slot].trim()));
+export const addHeaderFooter = async (pdf, settings, options) => {
+    const startedAt = options?.startedAt ?? Date.now();
+    const now = options?.now ?? new Date();
+    if (!hasContent(settings.odd) && !hasContent(settings.even)) {
+        throw new PdfLoadError("unsupported", "Type a header or footer before exporting.");
+    }
+    let output;
+    try {
+        output = await PDFDocument.load(pdf.data);
+    }
+    catch (error) {
+        throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+    }
+    try {
+        const font = await output.embedFont(resolveStandardFont(settings.font));
+        const style = {
+            marginX: settings.marginX,
+            marginY: settings.marginY,
+            fontSize: settings.fontSize,
+            color: parseHexColor(settings.color),
+        };
+        let stampedPages = 0;
+        output.getPages().forEach((page, index) => {
+            const pageNumber = index + 1;
+            const layout = resolvePageLayout(settings, pageNumber);
+            if (!layout) {
+                return;
+            }
+            const context = buildTemplateContext(pdf, pageNumber, now);
+            let drewText = false;
+            ["header", "footer"].forEach((band) => {
+                HEADER_FOOTER_SLOTS.forEach((slot) => {
+                    const text = expandTemplate(layout[band][slot], context).trim();
+                    if (!text) {
+                        return;
+                    }
+                    const anchor = `${band === "header" ? "top" : "bottom"}-${slot}`;
+                    drawAnchoredText(page, text, font, { ...style, anchor });
+                    drewText = true;
+                });
+            });
+            if (drewText) {
+                stampedPages += 1;
+            }
+        });
+        const bytes = await output.save();
+        const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+        return {
+            blob,
+            size: blob.size,
+            downloadName: buildDownloadName(pdf.name, "header-footer"),
+            durationMs: Math.max(0, Date.now() - startedAt),
+            activity: {
+                tool: "header-footer",
+                operation: settings.even ? "header-footer-odd-even" : "header-footer",
+                sourceCount: 1,
+                detail: `${pdf.name} · ${stampedPages} of ${pdf.pageCount} page${pdf.pageCount === 1 ? "" : "s"}${settings.skipFirstPage ? " · first page skipped" : ""}`,
+                replay: { tool: "header-footer", settings },
+            },
+        };
+    }
+    catch (error) {
+        const message = error instanceof Error ? error.message : undefined;
+        // Standard fonts only cover WinAnsi, so titles or templates outside Latin-1 can't be drawn.
+        if (message && /cannot encode/i.test(message)) {
+            throw new PdfLoadError("unsupported", "The header or footer uses characters the built-in fonts can't draw, possibly from the document title.");
+        }
+        throw new PdfLoadError("unknown", message);
+    }
+};
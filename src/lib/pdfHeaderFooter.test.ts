@@ -0,0 +1,97 @@
+import { PDFDocument, degrees } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import {
+  addHeaderFooter,
+  buildTemplateContext,
+  createEmptyLayout,
+  expandTemplate,
+  resolvePageLayout,
+  type HeaderFooterSettings,
+} from "./pdfHeaderFooter";
+import type { LoadedPdf } from "./pdfLoader";
+
+const createLoadedPdf = async (name: string, pageCount: number): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.addPage([612, 792]).setRotation(degrees(index === 1 ? 90 : 0));
+  }
+
+  const data = await doc.save();
+  return {
+    id: `test-${name}`,
+    name,
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount,
+    pdfVersion: "test",
+    data,
+    metadata: { title: "Quarterly Report" },
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const createSettings = (): HeaderFooterSettings => {
+  const odd = createEmptyLayout();
+  odd.header.left = "{title}";
+  odd.footer.right = "Page {page} of {pages}";
+  const even = createEmptyLayout();
+  even.footer.left = "Page {page} of {pages}";
+  return {
+    odd,
+    even,
+    skipFirstPage: true,
+    font: "helvetica",
+    fontSize: 9,
+    color: "#334155",
+    marginX: 48,
+    marginY: 28,
+  };
+};
+
+describe("pdfHeaderFooter", () => {
+  it("expands known tokens and leaves unknown ones as typed", async () => {
+    const pdf = await createLoadedPdf("report.pdf", 3);
+    const context = buildTemplateContext(pdf, 2, new Date(2024, 0, 15));
+
+    vitestExpect(expandTemplate("{title} · {page}/{pages} · {filename}", context)).toBe(
+      "Quarterly Report · 2/3 · report.pdf",
+    );
+    vitestExpect(expandTemplate("{chapter}\n{page}", context)).toBe("{chapter} 2");
+    vitestExpect(buildTemplateContext({ ...pdf, metadata: {} }, 1, new Date()).title).toBe(
+      "report",
+    );
+  });
+
+  it("picks odd, even, or no layout per page", () => {
+    const settings = createSettings();
+
+    vitestExpect(resolvePageLayout(settings, 1)).toBeNull();
+    vitestExpect(resolvePageLayout(settings, 2)).toBe(settings.even);
+    vitestExpect(resolvePageLayout(settings, 3)).toBe(settings.odd);
+    vitestExpect(resolvePageLayout({ ...settings, even: null }, 2)).toBe(settings.odd);
+  });
+
+  it("draws on every page, including rotated ones, and reports the pages it touched", async () => {
+    const pdf = await createLoadedPdf("report.pdf", 3);
+    const result = await addHeaderFooter(pdf, createSettings());
+    const output = await PDFDocument.load(await readBlob(result.blob));
+
+    vitestExpect(output.getPageCount()).toBe(3);
+    vitestExpect(output.getPage(1).getRotation().angle).toBe(90);
+    vitestExpect(result.downloadName).toMatch(/\.pdf$/);
+    vitestExpect(result.activity).toMatchObject({
+      tool: "header-footer",
+      operation: "header-footer-odd-even",
+      detail: "report.pdf · 2 of 3 pages · first page skipped",
+    });
+  });
+});
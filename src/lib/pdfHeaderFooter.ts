@@ -0,0 +1,185 @@
+import { PDFDocument } from "pdf-lib";
+
+import { buildDownloadName, type ExportResult } from "./documentPipeline";
+import { PdfLoadError } from "./pdfErrors";
+import type { LoadedPdf } from "./pdfLoader";
+import { drawAnchoredText, type PageStampAnchor } from "./pdfPageStamps";
+import { parseHexColor, resolveStandardFont, type WatermarkFont } from "./pdfWatermark";
+
+export type HeaderFooterSlot = "left" | "center" | "right";
+
+export type HeaderFooterBand = Record<HeaderFooterSlot, string>;
+
+export type HeaderFooterLayout = {
+  header: HeaderFooterBand;
+  footer: HeaderFooterBand;
+};
+
+export type HeaderFooterSettings = {
+  /** Used on every page, or only on odd pages when `even` is set. */
+  odd: HeaderFooterLayout;
+  /** Separate layout for even pages, e.g. mirrored page numbers for duplex printing. */
+  even: HeaderFooterLayout | null;
+  /** Leave the cover page clean; page numbers still count it. */
+  skipFirstPage: boolean;
+  font: WatermarkFont;
+  fontSize: number;
+  /** `#rrggbb` */
+  color: string;
+  marginX: number;
+  marginY: number;
+};
+
+export type TemplateContext = {
+  page: number;
+  pages: number;
+  filename: string;
+  date: string;
+  title: string;
+};
+
+export const HEADER_FOOTER_TOKENS: { token: keyof TemplateContext; description: string }[] = [
+  { token: "page", description: "Current page number" },
+  { token: "pages", description: "Total page count" },
+  { token: "filename", description: "File name" },
+  { token: "date", description: "Today's date" },
+  { token: "title", description: "Document title, or the file name when there isn't one" },
+];
+
+export const HEADER_FOOTER_SLOTS: HeaderFooterSlot[] = ["left", "center", "right"];
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+
+export const createEmptyLayout = (): HeaderFooterLayout => ({
+  header: { left: "", center: "", right: "" },
+  footer: { left: "", center: "", right: "" },
+});
+
+/** Replaces known `{token}`s; anything else is left as typed so mistakes stay visible. */
+export const expandTemplate = (template: string, context: TemplateContext) =>
+  template
+    .replace(/\s*\n\s*/g, " ")
+    .replace(TOKEN_PATTERN, (match, token: string) =>
+      Object.prototype.hasOwnProperty.call(context, token)
+        ? String(context[token as keyof TemplateContext])
+        : match,
+    );
+
+export const buildTemplateContext = (
+  pdf: Pick<LoadedPdf, "name" | "pageCount" | "metadata">,
+  pageNumber: number,
+  now: Date,
+): TemplateContext => ({
+  page: pageNumber,
+  pages: pdf.pageCount,
+  filename: pdf.name,
+  date: new Intl.DateTimeFormat(undefined, { dateStyle: "medium" }).format(now),
+  title: pdf.metadata.title?.trim() || pdf.name.replace(/\.pdf$/i, ""),
+});
+
+export const resolvePageLayout = (
+  settings: Pick<HeaderFooterSettings, "odd" | "even" | "skipFirstPage">,
+  pageNumber: number,
+): HeaderFooterLayout | null => {
+  if (settings.skipFirstPage && pageNumber === 1) {
+    return null;
+  }
+  return pageNumber % 2 === 0 && settings.even ? settings.even : settings.odd;
+};
+
+const hasContent = (layout: HeaderFooterLayout | null) =>
+  Boolean(
+    layout &&
+    HEADER_FOOTER_SLOTS.some((slot) => layout.header[slot].trim() || layout.footer[slot].trim()),
+  );
+
+type HeaderFooterOptions = {
+  startedAt?: number;
+  /** Fixes `{date}`; defaults to the time of export. */
+  now?: Date;
+};
+
+export const addHeaderFooter = async (
+  pdf: LoadedPdf,
+  settings: HeaderFooterSettings,
+  options?: HeaderFooterOptions,
+): Promise<ExportResult> => {
+  const startedAt = options?.startedAt ?? Date.now();
+  const now = options?.now ?? new Date();
+
+  if (!hasContent(settings.odd) && !hasContent(settings.even)) {
+    throw new PdfLoadError("unsupported", "Type a header or footer before exporting.");
+  }
+
+  let output: PDFDocument;
+  try {
+    output = await PDFDocument.load(pdf.data);
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  try {
+    const font = await output.embedFont(resolveStandardFont(settings.font));
+    const style = {
+      marginX: settings.marginX,
+      marginY: settings.marginY,
+      fontSize: settings.fontSize,
+      color: parseHexColor(settings.color),
+    };
+    let stampedPages = 0;
+
+    output.getPages().forEach((page, index) => {
+      const pageNumber = index + 1;
+      const layout = resolvePageLayout(settings, pageNumber);
+      if (!layout) {
+        return;
+      }
+
+      const context = buildTemplateContext(pdf, pageNumber, now);
+      let drewText = false;
+      (["header", "footer"] as const).forEach((band) => {
+        HEADER_FOOTER_SLOTS.forEach((slot) => {
+          const text = expandTemplate(layout[band][slot], context).trim();
+          if (!text) {
+            return;
+          }
+          const anchor = `${band === "header" ? "top" : "bottom"}-${slot}` as PageStampAnchor;
+          drawAnchoredText(page, text, font, { ...style, anchor });
+          drewText = true;
+        });
+      });
+      if (drewText) {
+        stampedPages += 1;
+      }
+    });
+
+    const bytes = await output.save();
+    const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+
+    return {
+      blob,
+      size: blob.size,
+      downloadName: buildDownloadName(pdf.name, "header-footer"),
+      durationMs: Math.max(0, Date.now() - startedAt),
+      activity: {
+        tool: "header-footer",
+        operation: settings.even ? "header-footer-odd-even" : "header-footer",
+        sourceCount: 1,
+        detail: `${pdf.name} · ${stampedPages} of ${pdf.pageCount} page${
+          pdf.pageCount === 1 ? "" : "s"
+        }${settings.skipFirstPage ? " · first page skipped" : ""}`,
+        replay: { tool: "header-footer", settings },
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : undefined;
+    // Standard fonts only cover WinAnsi, so titles or templates outside Latin-1 can't be drawn.
+    if (message && /cannot encode/i.test(message)) {
+      throw new PdfLoadError(
+        "unsupported",
+        "The header or footer uses characters the built-in fonts can't draw, possibly from the document title.",
+      );
+    }
+    throw new PdfLoadError("unknown", message);
+  }
+};
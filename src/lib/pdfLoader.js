@@ -134,3 +134,5 @@ export const loadPdfFromFile = async (file, options) => {
     const source = await createPdfSourceFromFile(file);
     return loadPdfFromSource(source, options);
 };
+/** Loads a picked file, or a source fetched ahead of time such as one opened from a URL. */
+export const loadPdfFromInput = (input, options) => input instanceof File ? loadPdfFromFile(input, options) : loadPdfFromSource(input, options);
@@ -197,3 +197,10 @@ export const loadPdfFromFile = async (file: File, options?: LoadPdfOptions): Pro
   const source = await createPdfSourceFromFile(file);
   return loadPdfFromSource(source, options);
 };
+
+/** Loads a picked file, or a source fetched ahead of time such as one opened from a URL. */
+export const loadPdfFromInput = (
+  input: File | PdfSource,
+  options?: LoadPdfOptions,
+): Promise<LoadedPdf> =>
+  input instanceof File ? loadPdfFromFile(input, options) : loadPdfFromSource(input, options);
@@ -1,37 +1,62 @@
 import { PDFDocument } from "pdf-lib";
 import { buildDownloadNameFromSources, } from "./documentPipeline";
 import { PdfLoadError } from "./pdfErrors";
-export const mergeLoadedPdfs = async (documents) => {
+import { copyPagesWithInteractivity } from "./pdfPageCopy";
+import { readPdfOutline, rebaseOutlineItems, writePdfOutline, } from "./pdfOutline";
+export const mergeLoadedPdfs = async (documents, options) => {
     if (documents.length < 2) {
         throw new PdfLoadError("unsupported", "Need at least two PDFs to merge.");
     }
     try {
         const output = await PDFDocument.create();
-        for (const document of documents) {
+        const bookmarks = [];
+        const warnings = [];
+        for (const [index, document] of documents.entries()) {
             const source = await PDFDocument.load(document.data);
-            const copiedPages = await output.copyPages(source, source.getPageIndices());
+            const selection = options?.pageSelections?.[index]
+                ?.filter((page) => page >= 1 && page <= source.getPageCount())
+                .map((page) => page - 1);
+            const copiedIndices = selection && selection.length > 0 ? selection : source.getPageIndices();
+            const copied = await copyPagesWithInteractivity(output, source, copiedIndices);
+            const copiedPages = copied.pages;
             copiedPages.forEach((page) => output.addPage(page));
+            warnings.push(...copied.warnings.map((warning) => `${document.name}: ${warning}`));
+            const firstPage = copiedPages[0];
+            if (options?.bookmarks && firstPage) {
+                const outputRefBySourceIndex = new Map(copiedIndices.map((sourceIndex, position) => [sourceIndex, copiedPages[position]?.ref]));
+                bookmarks.push({
+                    title: options.bookmarks.titles[index] || document.name,
+                    pageRef: firstPage.ref,
+                    children: options.bookmarks.includeSourceOutlines
+                        ? rebaseOutlineItems(readPdfOutline(source), (pageIndex) => outputRefBySourceIndex.get(pageIndex))
+                        : [],
+                });
+            }
         }
-        return output.save();
+        writePdfOutline(output, bookmarks);
+        return { bytes: await output.save(), warnings };
     }
     catch (error) {
         throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
     }
 };
-export const mergeLoadedPdfsToBlob = async (documents) => {
-    const mergedBytes = await mergeLoadedPdfs(documents);
-    return new Blob([mergedBytes], { type: "application/pdf" });
+export const mergeLoadedPdfsToBlob = async (documents, options) => {
+    const { bytes, warnings } = await mergeLoadedPdfs(documents, options);
+    return { blob: new Blob([bytes], { type: "application/pdf" }), warnings };
 };
 export const mergeLoadedPdfsToExportResult = async (documents, options) => {
     const startedAt = options.startedAt ?? Date.now();
-    const blob = await mergeLoadedPdfsToBlob(documents);
+    const { blob, warnings } = await mergeLoadedPdfsToBlob(documents, {
+        pageSelections: options.pageSelections,
+        bookmarks: options.bookmarks,
+    });
     const downloadName = buildDownloadNameFromSources(options.sources, "merge");
     return {
         blob,
         size: blob.size,
         downloadName,
         durationMs: Math.max(0, Date.now() - startedAt),
-        warnings: undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
         activity: {
             tool: "merge",
             operation: `merge-${documents.length}-files`,
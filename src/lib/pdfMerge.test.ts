@@ -5,6 +5,7 @@ import { PdfLoadError } from "./pdfErrors";
 import type { LoadedPdf } from "./pdfLoader";
 import type { PdfSource } from "./documentPipeline";
 import { mergeLoadedPdfs, mergeLoadedPdfsToExportResult } from "./pdfMerge";
+import { readPdfOutline, writePdfOutline } from "./pdfOutline";
 
 const createLoadedPdf = async (pageCount: number, name: string): Promise<LoadedPdf> => {
   const doc = await PDFDocument.create();
@@ -41,12 +42,53 @@ describe("pdfMerge", () => {
     const first = await createLoadedPdf(2, "alpha");
     const second = await createLoadedPdf(3, "beta");
 
-    const mergedBytes = await mergeLoadedPdfs([first, second]);
-    const parsed = await PDFDocument.load(mergedBytes);
+    const merged = await mergeLoadedPdfs([first, second]);
+    const parsed = await PDFDocument.load(merged.bytes);
 
     vitestExpect(parsed.getPageCount()).toBe(5);
   });
 
+  it("copies only the selected pages for documents with a page selection", async () => {
+    const first = await createLoadedPdf(4, "alpha");
+    const second = await createLoadedPdf(3, "beta");
+
+    const merged = await mergeLoadedPdfs([first, second], {
+      pageSelections: [[2, 4], undefined],
+    });
+    const parsed = await PDFDocument.load(merged.bytes);
+
+    vitestExpect(parsed.getPageCount()).toBe(5);
+  });
+
+  it("writes one bookmark per document and re-bases source outlines", async () => {
+    const first = await createLoadedPdf(2, "alpha");
+    const chaptered = await PDFDocument.create();
+    chaptered.addPage();
+    chaptered.addPage();
+    chaptered.addPage();
+    writePdfOutline(chaptered, [
+      { title: "Intro", pageRef: chaptered.getPage(0).ref, children: [] },
+      { title: "Results", pageRef: chaptered.getPage(2).ref, children: [] },
+    ]);
+    const second = { ...(await createLoadedPdf(3, "beta")), data: await chaptered.save() };
+
+    const merged = await mergeLoadedPdfs([first, second], {
+      pageSelections: [undefined, [2, 3]],
+      bookmarks: { titles: ["Alpha report", ""], includeSourceOutlines: true },
+    });
+    const outline = readPdfOutline(await PDFDocument.load(merged.bytes));
+
+    vitestExpect(outline).toEqual([
+      { title: "Alpha report", pageIndex: 0, children: [] },
+      {
+        title: "beta.pdf",
+        pageIndex: 2,
+        // "Intro" pointed at a page that was trimmed away, so only "Results" survives.
+        children: [{ title: "Results", pageIndex: 3, children: [] }],
+      },
+    ]);
+  });
+
   it("requires at least two PDFs", async () => {
     const only = await createLoadedPdf(1, "solo");
     await vitestExpect(mergeLoadedPdfs([only])).rejects.toThrow(PdfLoadError);
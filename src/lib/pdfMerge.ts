@@ -7,35 +7,96 @@ import {
 } from "./documentPipeline";
 import { PdfLoadError } from "./pdfErrors";
 import type { LoadedPdf } from "./pdfLoader";
+import { copyPagesWithInteractivity } from "./pdfPageCopy";
+import {
+  readPdfOutline,
+  rebaseOutlineItems,
+  writePdfOutline,
+  type OutlineEntry,
+} from "./pdfOutline";
+
+/** Optional 1-based page lists aligned with the merged documents; gaps copy every page. */
+export type MergePageSelections = Array<number[] | undefined>;
+
+export type MergeBookmarkOptions = {
+  /** One label per merged document, e.g. the asset file name or metadata title. */
+  titles: string[];
+  /** Nest each source's own outline under its entry, re-pointed at the merged pages. */
+  includeSourceOutlines?: boolean;
+};
+
+export type MergeOptions = {
+  pageSelections?: MergePageSelections;
+  bookmarks?: MergeBookmarkOptions;
+};
 
-export const mergeLoadedPdfs = async (documents: LoadedPdf[]): Promise<Uint8Array> => {
+export type MergeResult = {
+  bytes: Uint8Array;
+  /** Copy problems, prefixed with the name of the document they came from. */
+  warnings: string[];
+};
+
+export const mergeLoadedPdfs = async (
+  documents: LoadedPdf[],
+  options?: MergeOptions,
+): Promise<MergeResult> => {
   if (documents.length < 2) {
     throw new PdfLoadError("unsupported", "Need at least two PDFs to merge.");
   }
 
   try {
     const output = await PDFDocument.create();
+    const bookmarks: OutlineEntry[] = [];
+    const warnings: string[] = [];
 
-    for (const document of documents) {
+    for (const [index, document] of documents.entries()) {
       const source = await PDFDocument.load(document.data);
-      const copiedPages = await output.copyPages(source, source.getPageIndices());
+      const selection = options?.pageSelections?.[index]
+        ?.filter((page) => page >= 1 && page <= source.getPageCount())
+        .map((page) => page - 1);
+      const copiedIndices = selection && selection.length > 0 ? selection : source.getPageIndices();
+      const copied = await copyPagesWithInteractivity(output, source, copiedIndices);
+      const copiedPages = copied.pages;
       copiedPages.forEach((page) => output.addPage(page));
+      warnings.push(...copied.warnings.map((warning) => `${document.name}: ${warning}`));
+
+      const firstPage = copiedPages[0];
+      if (options?.bookmarks && firstPage) {
+        const outputRefBySourceIndex = new Map(
+          copiedIndices.map((sourceIndex, position) => [sourceIndex, copiedPages[position]?.ref]),
+        );
+        bookmarks.push({
+          title: options.bookmarks.titles[index] || document.name,
+          pageRef: firstPage.ref,
+          children: options.bookmarks.includeSourceOutlines
+            ? rebaseOutlineItems(readPdfOutline(source), (pageIndex) =>
+                outputRefBySourceIndex.get(pageIndex),
+              )
+            : [],
+        });
+      }
     }
 
-    return output.save();
+    writePdfOutline(output, bookmarks);
+    return { bytes: await output.save(), warnings };
   } catch (error) {
     throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
   }
 };
 
-export const mergeLoadedPdfsToBlob = async (documents: LoadedPdf[]): Promise<Blob> => {
-  const mergedBytes = await mergeLoadedPdfs(documents);
-  return new Blob([mergedBytes], { type: "application/pdf" });
+export const mergeLoadedPdfsToBlob = async (
+  documents: LoadedPdf[],
+  options?: MergeOptions,
+): Promise<{ blob: Blob; warnings: string[] }> => {
+  const { bytes, warnings } = await mergeLoadedPdfs(documents, options);
+  return { blob: new Blob([bytes], { type: "application/pdf" }), warnings };
 };
 
 type MergeExportOptions = {
   sources: PdfSource[];
   startedAt?: number;
+  pageSelections?: MergePageSelections;
+  bookmarks?: MergeBookmarkOptions;
 };
 
 export const mergeLoadedPdfsToExportResult = async (
@@ -43,7 +104,10 @@ export const mergeLoadedPdfsToExportResult = async (
   options: MergeExportOptions,
 ): Promise<ExportResult> => {
   const startedAt = options.startedAt ?? Date.now();
-  const blob = await mergeLoadedPdfsToBlob(documents);
+  const { blob, warnings } = await mergeLoadedPdfsToBlob(documents, {
+    pageSelections: options.pageSelections,
+    bookmarks: options.bookmarks,
+  });
   const downloadName = buildDownloadNameFromSources(options.sources, "merge");
 
   return {
@@ -51,7 +115,7 @@ export const mergeLoadedPdfsToExportResult = async (
     size: blob.size,
     downloadName,
     durationMs: Math.max(0, Date.now() - startedAt),
-    warnings: undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
     activity: {
       tool: "merge",
       operation: `merge-${documents.length}-files`,
@@ -0,0 +1,92 @@
+import { PDFDocument, PDFName, PDFRawStream } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import type { LoadedPdf } from "./pdfLoader";
+import { buildXmpPacket, createMetadataDraft, exportPdfMetadata } from "./pdfMetadata";
+
+const createLoadedPdf = async (): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  doc.addPage();
+  doc.setTitle("Quarterly report");
+  doc.setAuthor("Finance team");
+  doc.setKeywords(["budget", "q3"]);
+
+  const data = await doc.save();
+  return {
+    id: "test-metadata",
+    name: "report.pdf",
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount: 1,
+    pdfVersion: "test",
+    data,
+    metadata: { title: "Quarterly report", author: "Finance team", keywords: "budget q3" },
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const loadResult = async (blob: Blob) =>
+  PDFDocument.load(await readBlob(blob), { updateMetadata: false });
+
+describe("pdfMetadata", () => {
+  it("writes edited fields to the Info dictionary and an XMP packet", async () => {
+    const pdf = await createLoadedPdf();
+    const draft = {
+      ...createMetadataDraft(pdf.metadata),
+      title: "Q3 <final>",
+      author: "",
+      producer: "PDF Workbench",
+      creationDate: "2026-01-02T03:04:05.000Z",
+    };
+
+    const result = await exportPdfMetadata(pdf, draft, { mode: "edit" });
+    const parsed = await loadResult(result.blob);
+
+    vitestExpect(parsed.getTitle()).toBe("Q3 <final>");
+    vitestExpect(parsed.getAuthor()).toBeUndefined();
+    vitestExpect(parsed.getProducer()).toBe("PDF Workbench");
+    vitestExpect(parsed.getCreationDate()?.toISOString()).toBe("2026-01-02T03:04:05.000Z");
+
+    const xmp = parsed.context.lookup(parsed.catalog.get(PDFName.of("Metadata")));
+    if (!(xmp instanceof PDFRawStream)) {
+      throw new Error("Expected an XMP metadata stream");
+    }
+    const packet = new TextDecoder().decode(xmp.getContents());
+    vitestExpect(packet).toContain("Q3 &lt;final&gt;");
+    vitestExpect(packet.includes("<dc:creator>")).toBe(false);
+    vitestExpect(result.activity).toMatchObject({ tool: "metadata", operation: "metadata-edit" });
+  });
+
+  it("strips the Info dictionary and XMP without leaving orphaned objects behind", async () => {
+    const pdf = await createLoadedPdf();
+    const result = await exportPdfMetadata(pdf, createMetadataDraft(pdf.metadata), {
+      mode: "strip",
+    });
+    const parsed = await loadResult(result.blob);
+
+    vitestExpect(parsed.context.trailerInfo.Info).toBeUndefined();
+    vitestExpect(parsed.catalog.get(PDFName.of("Metadata"))).toBeUndefined();
+    vitestExpect(parsed.getTitle()).toBeUndefined();
+    vitestExpect(result.downloadName).toMatch(/clean/);
+  });
+
+  it("splits keywords into an XMP bag and omits empty properties", () => {
+    const packet = buildXmpPacket({
+      ...createMetadataDraft({}),
+      keywords: "tax; 2026, draft",
+    });
+
+    vitestExpect(packet).toContain(
+      "<dc:subject><rdf:Bag><rdf:li>tax</rdf:li><rdf:li>2026</rdf:li><rdf:li>draft</rdf:li></rdf:Bag></dc:subject>",
+    );
+    vitestExpect(packet.includes("<dc:title>")).toBe(false);
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFString,
+  utf8Encode,
+} from "pdf-lib";
+
+import { buildDownloadName, type ExportResult } from "./documentPipeline";
+import { PdfLoadError } from "./pdfErrors";
+import type { LoadedPdf, PdfDocumentMetadata } from "./pdfLoader";
+
+export type MetadataTextField =
+  | "title"
+  | "author"
+  | "subject"
+  | "keywords"
+  | "creator"
+  | "producer";
+
+export type MetadataDraft = Record<MetadataTextField, string> & {
+  /** ISO timestamps; null leaves the date out of the exported file. */
+  creationDate: string | null;
+  modificationDate: string | null;
+};
+
+export type MetadataExportMode = "edit" | "strip";
+
+export const METADATA_TEXT_FIELDS: Array<{
+  id: MetadataTextField;
+  label: string;
+  infoKey: string;
+}> = [
+  { id: "title", label: "Title", infoKey: "Title" },
+  { id: "author", label: "Author", infoKey: "Author" },
+  { id: "subject", label: "Subject", infoKey: "Subject" },
+  { id: "keywords", label: "Keywords", infoKey: "Keywords" },
+  { id: "creator", label: "Creator tool", infoKey: "Creator" },
+  { id: "producer", label: "Producer", infoKey: "Producer" },
+];
+
+export const createMetadataDraft = (metadata: PdfDocumentMetadata): MetadataDraft => ({
+  title: metadata.title ?? "",
+  author: metadata.author ?? "",
+  subject: metadata.subject ?? "",
+  keywords: metadata.keywords ?? "",
+  creator: metadata.creator ?? "",
+  producer: metadata.producer ?? "",
+  creationDate: metadata.creationDate ?? null,
+  modificationDate: metadata.modificationDate ?? null,
+});
+
+export const createEmptyMetadataDraft = (): MetadataDraft => createMetadataDraft({});
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const splitKeywords = (keywords: string) =>
+  keywords
+    .split(/[,;]/)
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+
+const toValidDate = (value: string | null) => {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Serializes the draft as an XMP packet mirroring the Info dictionary, so readers that
+ * prefer XMP (Acrobat, most DAMs) show the same values.
+ */
+export const buildXmpPacket = (draft: MetadataDraft): string => {
+  const title = draft.title.trim();
+  const author = draft.author.trim();
+  const subject = draft.subject.trim();
+  const keywords = draft.keywords.trim();
+  const creator = draft.creator.trim();
+  const producer = draft.producer.trim();
+  const created = toValidDate(draft.creationDate);
+  const modified = toValidDate(draft.modificationDate);
+
+  const alt = (value: string) =>
+    `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+
+  const properties = [
+    "<dc:format>application/pdf</dc:format>",
+    title ? `<dc:title>${alt(title)}</dc:title>` : null,
+    author
+      ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>`
+      : null,
+    subject ? `<dc:description>${alt(subject)}</dc:description>` : null,
+    keywords
+      ? `<dc:subject><rdf:Bag>${splitKeywords(keywords)
+          .map((keyword) => `<rdf:li>${escapeXml(keyword)}</rdf:li>`)
+          .join("")}</rdf:Bag></dc:subject>`
+      : null,
+    keywords ? `<pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>` : null,
+    producer ? `<pdf:Producer>${escapeXml(producer)}</pdf:Producer>` : null,
+    creator ? `<xmp:CreatorTool>${escapeXml(creator)}</xmp:CreatorTool>` : null,
+    created ? `<xmp:CreateDate>${created.toISOString()}</xmp:CreateDate>` : null,
+    modified ? `<xmp:ModifyDate>${modified.toISOString()}</xmp:ModifyDate>` : null,
+    modified ? `<xmp:MetadataDate>${modified.toISOString()}</xmp:MetadataDate>` : null,
+  ].filter(Boolean);
+
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:pdf="http://ns.adobe.com/pdf/1.3/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    ...properties,
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+};
+
+/**
+ * Removes `key` from `dict` and, when it pointed at an indirect object, deletes that
+ * object too. pdf-lib writes every object in the context, so an unreferenced Info
+ * dictionary or XMP stream would otherwise still end up in the saved file.
+ */
+const dropEntry = (doc: PDFDocument, dict: PDFDict, key: PDFName) => {
+  const value = dict.get(key);
+  dict.delete(key);
+  if (value instanceof PDFRef) {
+    doc.context.delete(value);
+  }
+};
+
+const dropInfoDict = (doc: PDFDocument) => {
+  const info = doc.context.trailerInfo.Info;
+  doc.context.trailerInfo.Info = undefined;
+  if (info instanceof PDFRef) {
+    doc.context.delete(info);
+  }
+};
+
+const getOrCreateInfoDict = (doc: PDFDocument): PDFDict => {
+  const existing = doc.context.lookupMaybe(doc.context.trailerInfo.Info, PDFDict);
+  if (existing) {
+    return existing;
+  }
+  const info = doc.context.obj({});
+  doc.context.trailerInfo.Info = doc.context.register(info);
+  return info;
+};
+
+const writeInfoDict = (doc: PDFDocument, draft: MetadataDraft) => {
+  const info = getOrCreateInfoDict(doc);
+
+  METADATA_TEXT_FIELDS.forEach(({ id, infoKey }) => {
+    const value = draft[id].trim();
+    if (value) {
+      info.set(PDFName.of(infoKey), PDFHexString.fromText(value));
+    } else {
+      info.delete(PDFName.of(infoKey));
+    }
+  });
+
+  const dates = [
+    ["CreationDate", toValidDate(draft.creationDate)],
+    ["ModDate", toValidDate(draft.modificationDate)],
+  ] as const;
+  dates.forEach(([key, date]) => {
+    if (date) {
+      info.set(PDFName.of(key), PDFString.fromDate(date));
+    } else {
+      info.delete(PDFName.of(key));
+    }
+  });
+};
+
+const writeXmpStream = (doc: PDFDocument, draft: MetadataDraft) => {
+  dropEntry(doc, doc.catalog, PDFName.of("Metadata"));
+  const stream = doc.context.stream(utf8Encode(buildXmpPacket(draft), false), {
+    Type: "Metadata",
+    Subtype: "XML",
+  });
+  doc.catalog.set(PDFName.of("Metadata"), doc.context.register(stream));
+};
+
+/** Removes the Info dictionary, every XMP stream, and private application data. */
+const stripAllMetadata = (doc: PDFDocument) => {
+  dropInfoDict(doc);
+  dropEntry(doc, doc.catalog, PDFName.of("Metadata"));
+  dropEntry(doc, doc.catalog, PDFName.of("PieceInfo"));
+  doc.getPages().forEach((page) => {
+    dropEntry(doc, page.node, PDFName.of("Metadata"));
+    dropEntry(doc, page.node, PDFName.of("PieceInfo"));
+  });
+};
+
+export const exportPdfMetadata = async (
+  pdf: LoadedPdf,
+  draft: MetadataDraft,
+  options?: { mode?: MetadataExportMode; startedAt?: number },
+): Promise<ExportResult> => {
+  const startedAt = options?.startedAt ?? Date.now();
+  const mode = options?.mode ?? "edit";
+
+  let output: PDFDocument;
+  try {
+    // Keep pdf-lib from stamping its own Producer/ModDate over the values being edited.
+    output = await PDFDocument.load(pdf.data, { updateMetadata: false });
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  try {
+    if (mode === "strip") {
+      stripAllMetadata(output);
+    } else {
+      writeInfoDict(output, draft);
+      writeXmpStream(output, draft);
+    }
+
+    const bytes = await output.save();
+    const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+    const filled = METADATA_TEXT_FIELDS.filter(({ id }) => draft[id].trim()).length;
+
+    return {
+      blob,
+      size: blob.size,
+      downloadName: buildDownloadName(pdf.name, mode === "strip" ? "clean" : "metadata"),
+      durationMs: Math.max(0, Date.now() - startedAt),
+      warnings: undefined,
+      activity: {
+        tool: "metadata",
+        operation: `metadata-${mode}`,
+        sourceCount: 1,
+        detail:
+          mode === "strip"
+            ? `${pdf.name} · Info dictionary and XMP removed`
+            : `${pdf.name} · ${filled} field${filled === 1 ? "" : "s"} set · XMP synced`,
+        replay: { tool: "metadata", draft, mode },
+      },
+    };
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+};
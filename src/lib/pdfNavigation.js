@@ -0,0 +1,64 @@
+const MAX_OUTLINE_DEPTH = 32;
+const isRefProxy = (value) => typeof value === "object" && value !== null && "num" in value && "gen" in value;
+export const resolveDestinationPage = async (doc, dest) => {
+    const explicit = typeof dest === "string" ? await doc.getDestination(dest) : dest;
+    const target = Array.isArray(explicit) ? explicit[0] : null;
+    if (isRefProxy(target)) {
+        return (await doc.getPageIndex(target)) + 1;
+    }
+    // Some producers write a zero-based page index instead of a page reference.
+    return typeof target === "number" ? target + 1 : null;
+};
+/**
+ * Reads the outline into a tree the viewer sidebar can render. Bookmarks that fail to
+ * resolve stay in the tree (their children may still be useful) but can't be clicked.
+ */
+export const loadViewerOutline = async (doc) => {
+    const outline = await doc.getOutline();
+    const convert = async (nodes, path, depth) => {
+        const items = [];
+        for (const [index, node] of nodes.entries()) {
+            const id = `${path}${index}`;
+            items.push({
+                id,
+                title: node.title.trim() || "Untitled",
+                pageNumber: await resolveDestinationPage(doc, node.dest).catch(() => null),
+                isOpen: (node.count ?? 0) > 0,
+                children: depth < MAX_OUTLINE_DEPTH && node.items
+                    ? await convert(node.items, `${id}.`, depth + 1)
+                    : [],
+            });
+        }
+        return items;
+    };
+    return outline ? convert(outline, "", 0) : [];
+};
+/**
+ * Loads the document's page labels, or null when there are none worth showing, i.e. the
+ * labels would just repeat the physical page numbers.
+ */
+export const loadPageLabels = async (doc) => {
+    const labels = await doc.getPageLabels();
+    if (!labels || labels.every((label, index) => label === String(index + 1))) {
+        return null;
+    }
+    return labels;
+};
+export const formatPageLabel = (labels, pageNumber) => labels?.[pageNumber - 1] || String(pageNumber);
+/**
+ * Resolves what a user typed into the jump box. A matching page label wins (so "1" lands
+ * on the page labelled 1, after any roman-numbered front matter); otherwise a number is
+ * taken as the physical page.
+ */
+export const findPageByLabel = (labels, input, pageCount) => {
+    const query = input.trim().toLowerCase();
+    if (!query) {
+        return null;
+    }
+    const labelIndex = labels?.findIndex((label) => label.toLowerCase() === query) ?? -1;
+    if (labelIndex !== -1) {
+        return labelIndex + 1;
+    }
+    const pageNumber = /^\d+$/.test(query) ? Number(query) : NaN;
+    return pageNumber >= 1 && pageNumber <= pageCount ? pageNumber : null;
+};
@@ -0,0 +1,70 @@
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import type { LoadedPdf } from "./pdfLoader";
+import {
+  findPageByLabel,
+  formatPageLabel,
+  loadPageLabels,
+  loadViewerOutline,
+  type OutlineNode,
+} from "./pdfNavigation";
+
+const createDoc = (options: { outline?: OutlineNode[] | null; labels?: string[] | null }) =>
+  ({
+    getOutline: async () => options.outline ?? null,
+    getPageLabels: async () => options.labels ?? null,
+    getDestination: async (name: string) => (name === "appendix" ? [{ num: 40, gen: 0 }] : null),
+    getPageIndex: async (ref: { num: number }) => ref.num / 10,
+  }) as unknown as LoadedPdf["doc"];
+
+describe("pdfNavigation", () => {
+  it("converts the pdf.js outline into a navigable tree", async () => {
+    const doc = createDoc({
+      outline: [
+        {
+          title: "Introduction",
+          dest: [{ num: 0, gen: 0 }, { name: "Fit" }],
+          count: 1,
+          items: [{ title: "  ", dest: [2, { name: "XYZ" }] }],
+        },
+        { title: "Appendix", dest: "appendix" },
+        { title: "Broken", dest: "missing" },
+      ],
+    });
+
+    const outline = await loadViewerOutline(doc);
+
+    vitestExpect(outline).toEqual([
+      {
+        id: "0",
+        title: "Introduction",
+        pageNumber: 1,
+        isOpen: true,
+        children: [{ id: "0.0", title: "Untitled", pageNumber: 3, isOpen: false, children: [] }],
+      },
+      { id: "1", title: "Appendix", pageNumber: 5, isOpen: false, children: [] },
+      { id: "2", title: "Broken", pageNumber: null, isOpen: false, children: [] },
+    ]);
+  });
+
+  it("ignores page labels that only repeat the page numbers", async () => {
+    vitestExpect(await loadPageLabels(createDoc({ labels: ["1", "2", "3"] }))).toBeNull();
+    vitestExpect(await loadPageLabels(createDoc({ labels: ["i", "ii", "1"] }))).toEqual([
+      "i",
+      "ii",
+      "1",
+    ]);
+  });
+
+  it("resolves jump box input by label first, then by page number", () => {
+    const labels = ["i", "ii", "iii", "1", "2", "A-1"];
+
+    vitestExpect(formatPageLabel(labels, 6)).toBe("A-1");
+    vitestExpect(formatPageLabel(null, 6)).toBe("6");
+    vitestExpect(findPageByLabel(labels, "1", 6)).toBe(4);
+    vitestExpect(findPageByLabel(labels, " a-1 ", 6)).toBe(6);
+    vitestExpect(findPageByLabel(labels, "6", 6)).toBe(6);
+    vitestExpect(findPageByLabel(labels, "7", 6)).toBeNull();
+    vitestExpect(findPageByLabel(null, "iv", 6)).toBeNull();
+  });
+});
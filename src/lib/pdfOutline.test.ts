@@ -0,0 +1,76 @@
+import { PDFDocument, PDFHexString, PDFName, PDFRef } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import { readPdfOutline, rebaseOutlineItems, writePdfOutline } from "./pdfOutline";
+
+const createDoc = async (pageCount: number) => {
+  const doc = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.addPage();
+  }
+  return doc;
+};
+
+describe("pdfOutline", () => {
+  it("round-trips a nested outline through write and read", async () => {
+    const doc = await createDoc(4);
+    const [first, , third, fourth] = doc.getPages();
+    writePdfOutline(doc, [
+      {
+        title: "Chapter 1",
+        pageRef: first!.ref,
+        children: [{ title: "Section 1.1", pageRef: third!.ref, children: [] }],
+      },
+      { title: "Appendix · ü", pageRef: fourth!.ref, children: [] },
+    ]);
+
+    const reloaded = await PDFDocument.load(await doc.save());
+    vitestExpect(readPdfOutline(reloaded)).toEqual([
+      {
+        title: "Chapter 1",
+        pageIndex: 0,
+        children: [{ title: "Section 1.1", pageIndex: 2, children: [] }],
+      },
+      { title: "Appendix · ü", pageIndex: 3, children: [] },
+    ]);
+  });
+
+  it("resolves named destinations from the catalog name tree", async () => {
+    const doc = await createDoc(3);
+    const target = doc.getPage(2);
+    const { context } = doc;
+
+    const item = context.obj({
+      Title: PDFHexString.fromText("Named"),
+      Dest: PDFHexString.fromText("results"),
+    });
+    const itemRef = context.register(item);
+    const outlines = context.obj({ Type: "Outlines", First: itemRef, Last: itemRef, Count: 1 });
+    item.set(PDFName.of("Parent"), context.register(outlines));
+    doc.catalog.set(PDFName.of("Outlines"), item.get(PDFName.of("Parent"))!);
+    doc.catalog.set(
+      PDFName.of("Names"),
+      context.obj({
+        Dests: context.obj({ Names: [PDFHexString.fromText("results"), [target.ref, "Fit"]] }),
+      }),
+    );
+
+    vitestExpect(readPdfOutline(doc)).toEqual([{ title: "Named", pageIndex: 2, children: [] }]);
+  });
+
+  it("promotes children of bookmarks whose page was not carried over", () => {
+    const keptPage = PDFRef.of(7);
+    const rebased = rebaseOutlineItems(
+      [
+        {
+          title: "Dropped",
+          pageIndex: 0,
+          children: [{ title: "Kept", pageIndex: 1, children: [] }],
+        },
+      ],
+      (pageIndex) => (pageIndex === 1 ? keptPage : undefined),
+    );
+
+    vitestExpect(rebased).toEqual([{ title: "Kept", pageRef: keptPage, children: [] }]);
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+
+export type PdfOutlineItem = {
+  title: string;
+  /** Zero-based page index in the document the outline was read from, or null if unresolved. */
+  pageIndex: number | null;
+  children: PdfOutlineItem[];
+};
+
+export type OutlineEntry = {
+  title: string;
+  pageRef: PDFRef;
+  children: OutlineEntry[];
+};
+
+const MAX_OUTLINE_ITEMS = 5000;
+
+const decodeTextObject = (value: unknown): string | null =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : null;
+
+const lookupNameTree = (node: PDFDict | undefined, name: string, depth = 0): unknown => {
+  if (!node || depth > 32) {
+    return undefined;
+  }
+
+  const names = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+  if (names) {
+    for (let index = 0; index + 1 < names.size(); index += 2) {
+      if (decodeTextObject(names.lookup(index)) === name) {
+        return names.lookup(index + 1);
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+  if (kids) {
+    for (let index = 0; index < kids.size(); index += 1) {
+      const match = lookupNameTree(kids.lookupMaybe(index, PDFDict), name, depth + 1);
+      if (match !== undefined) {
+        return match;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+const lookupNamedDestination = (doc: PDFDocument, name: string): unknown => {
+  const legacy = doc.catalog.lookupMaybe(PDFName.of("Dests"), PDFDict);
+  const legacyMatch = legacy?.lookup(PDFName.of(name));
+  if (legacyMatch) {
+    return legacyMatch;
+  }
+
+  const names = doc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  return lookupNameTree(names?.lookupMaybe(PDFName.of("Dests"), PDFDict), name);
+};
+
+/**
+ * Resolves an explicit, named, or string destination (or a `/D` wrapper dict) to the
+ * explicit `[page /View ...]` array it stands for inside `doc`.
+ */
+export const resolveDestinationArray = (doc: PDFDocument, dest: unknown): PDFArray | null => {
+  let target = dest instanceof PDFRef ? doc.context.lookup(dest) : dest;
+
+  const name = target instanceof PDFName ? target.decodeText() : decodeTextObject(target);
+  if (name !== null) {
+    target = lookupNamedDestination(doc, name);
+  }
+
+  if (target instanceof PDFDict) {
+    target = target.lookup(PDFName.of("D"));
+  }
+
+  return target instanceof PDFArray ? target : null;
+};
+
+/** Resolves any destination form to the page reference it targets inside `doc`. */
+export const resolveDestinationPageRef = (doc: PDFDocument, dest: unknown): PDFRef | null => {
+  const page = resolveDestinationArray(doc, dest)?.get(0);
+  return page instanceof PDFRef ? page : null;
+};
+
+const readItemDestination = (doc: PDFDocument, item: PDFDict): PDFRef | null => {
+  const dest = item.get(PDFName.of("Dest"));
+  if (dest) {
+    return resolveDestinationPageRef(doc, dest);
+  }
+
+  const action = item.lookupMaybe(PDFName.of("A"), PDFDict);
+  if (action?.get(PDFName.of("S")) === PDFName.of("GoTo")) {
+    return resolveDestinationPageRef(doc, action.get(PDFName.of("D")));
+  }
+
+  return null;
+};
+
+/**
+ * Reads the document outline into a plain tree. Guards against cyclic `/Next` chains,
+ * which show up in damaged files.
+ */
+export const readPdfOutline = (doc: PDFDocument): PdfOutlineItem[] => {
+  const outlines = doc.catalog.lookupMaybe(PDFName.of("Outlines"), PDFDict);
+  if (!outlines) {
+    return [];
+  }
+
+  const pageIndexByRef = new Map(
+    doc.getPages().map((page, index) => [page.ref.toString(), index] as const),
+  );
+  const visited = new Set<PDFDict>();
+
+  const readSiblings = (first: PDFDict | undefined): PdfOutlineItem[] => {
+    const items: PdfOutlineItem[] = [];
+    let current = first;
+
+    while (current && !visited.has(current) && visited.size < MAX_OUTLINE_ITEMS) {
+      visited.add(current);
+      const pageRef = readItemDestination(doc, current);
+      items.push({
+        title: decodeTextObject(current.lookup(PDFName.of("Title"))) ?? "Untitled",
+        pageIndex: pageRef ? (pageIndexByRef.get(pageRef.toString()) ?? null) : null,
+        children: readSiblings(current.lookupMaybe(PDFName.of("First"), PDFDict)),
+      });
+      current = current.lookupMaybe(PDFName.of("Next"), PDFDict);
+    }
+
+    return items;
+  };
+
+  return readSiblings(outlines.lookupMaybe(PDFName.of("First"), PDFDict));
+};
+
+/**
+ * Maps outline items onto pages of another document. Items whose page was not carried
+ * over are dropped, but their children are promoted so deeper bookmarks survive.
+ */
+export const rebaseOutlineItems = (
+  items: PdfOutlineItem[],
+  resolvePageRef: (pageIndex: number) => PDFRef | undefined,
+): OutlineEntry[] =>
+  items.flatMap((item) => {
+    const children = rebaseOutlineItems(item.children, resolvePageRef);
+    const pageRef = item.pageIndex === null ? undefined : resolvePageRef(item.pageIndex);
+    return pageRef ? [{ title: item.title, pageRef, children }] : children;
+  });
+
+/**
+ * Writes `entries` as the document outline, replacing any existing one. Entries with
+ * children start collapsed so long outlines stay compact in the viewer sidebar.
+ */
+export const writePdfOutline = (doc: PDFDocument, entries: OutlineEntry[]) => {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const { context } = doc;
+  const rootRef = context.nextRef();
+
+  const writeLevel = (levelEntries: OutlineEntry[], parentRef: PDFRef): PDFRef[] => {
+    const refs = levelEntries.map(() => context.nextRef());
+
+    levelEntries.forEach((entry, index) => {
+      const ref = refs[index];
+      if (!ref) {
+        return;
+      }
+
+      const item = context.obj({
+        Title: PDFHexString.fromText(entry.title),
+        Parent: parentRef,
+        Dest: [entry.pageRef, "Fit"],
+      });
+
+      const previous = refs[index - 1];
+      const next = refs[index + 1];
+      if (previous) {
+        item.set(PDFName.of("Prev"), previous);
+      }
+      if (next) {
+        item.set(PDFName.of("Next"), next);
+      }
+
+      const childRefs = writeLevel(entry.children, ref);
+      const firstChild = childRefs[0];
+      const lastChild = childRefs[childRefs.length - 1];
+      if (firstChild && lastChild) {
+        item.set(PDFName.of("First"), firstChild);
+        item.set(PDFName.of("Last"), lastChild);
+        item.set(PDFName.of("Count"), PDFNumber.of(-childRefs.length));
+      }
+
+      context.assign(ref, item);
+    });
+
+    return refs;
+  };
+
+  const topRefs = writeLevel(entries, rootRef);
+  const root = context.obj({ Type: "Outlines", Count: topRefs.length });
+  const first = topRefs[0];
+  const last = topRefs[topRefs.length - 1];
+  if (first && last) {
+    root.set(PDFName.of("First"), first);
+    root.set(PDFName.of("Last"), last);
+  }
+
+  context.assign(rootRef, root);
+  doc.catalog.set(PDFName.of("Outlines"), rootRef);
+  doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+};
@@ -0,0 +1,96 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRef } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import { copyPagesWithInteractivity } from "./pdfPageCopy";
+
+const addLink = (doc: PDFDocument, fromIndex: number, toIndex: number) => {
+  const page = doc.getPage(fromIndex);
+  const link = doc.context.register(
+    doc.context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: [0, 0, 50, 50],
+      Dest: [doc.getPage(toIndex).ref, "XYZ", 0, 700, null],
+    }),
+  );
+  page.node.addAnnot(link);
+};
+
+const createSource = async () => {
+  const doc = await PDFDocument.create();
+  doc.addPage();
+  doc.addPage();
+  doc.addPage();
+  doc.getForm().createTextField("name").addToPage(doc.getPage(0));
+  addLink(doc, 0, 2);
+  addLink(doc, 0, 1);
+  return doc;
+};
+
+const readLinkDests = (doc: PDFDocument, pageIndex: number) => {
+  const annots = doc.getPage(pageIndex).node.Annots();
+  return (annots?.asArray() ?? [])
+    .map((entry) => doc.context.lookupMaybe(entry, PDFDict))
+    .filter((annot) => annot?.get(PDFName.of("Subtype")) === PDFName.of("Link"))
+    .map((annot) => annot?.lookupMaybe(PDFName.of("Dest"), PDFArray));
+};
+
+const countPageObjects = (doc: PDFDocument) =>
+  doc.context
+    .enumerateIndirectObjects()
+    .filter(
+      ([, object]) =>
+        object instanceof PDFDict && object.get(PDFName.of("Type")) === PDFName.of("Page"),
+    ).length;
+
+describe("pdfPageCopy", () => {
+  it("re-points kept links, drops dangling ones, and registers form fields", async () => {
+    const source = await createSource();
+    const output = await PDFDocument.create();
+
+    const { pages, warnings } = await copyPagesWithInteractivity(output, source, [2, 0]);
+    pages.forEach((page) => output.addPage(page));
+
+    const [dest] = readLinkDests(output, 1);
+    vitestExpect(readLinkDests(output, 1)).toHaveLength(1);
+    vitestExpect(dest?.get(0)).toBe(output.getPage(0).ref);
+    vitestExpect(dest?.get(1)).toBe(PDFName.of("XYZ"));
+    vitestExpect(warnings).toEqual([
+      "Removed 1 internal link pointing at pages that weren't included.",
+    ]);
+    vitestExpect(
+      output
+        .getForm()
+        .getFields()
+        .map((field) => field.getName()),
+    ).toEqual(["name"]);
+    // Annotation back-references must not smuggle detached copies of source pages along.
+    vitestExpect(countPageObjects(output)).toBe(2);
+
+    const reloaded = await PDFDocument.load(await output.save());
+    vitestExpect(reloaded.getForm().getTextField("name")).toBeDefined();
+  });
+
+  it("renames colliding top-level fields and leaves the source untouched", async () => {
+    const source = await createSource();
+    const output = await PDFDocument.create();
+
+    const first = await copyPagesWithInteractivity(output, source, [0]);
+    const second = await copyPagesWithInteractivity(output, source, [0]);
+    [...first.pages, ...second.pages].forEach((page) => output.addPage(page));
+
+    vitestExpect(second.warnings).toContain(
+      'Renamed form field "name" to "name_2" to avoid a name clash.',
+    );
+    vitestExpect(
+      output
+        .getForm()
+        .getFields()
+        .map((field) => field.getName()),
+    ).toEqual(["name", "name_2"]);
+
+    const [sourceDest] = readLinkDests(source, 0);
+    vitestExpect(sourceDest?.get(0)).toBeInstanceOf(PDFRef);
+    vitestExpect(readLinkDests(source, 0)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,344 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObjectCopier,
+  PDFRef,
+  PDFString,
+  type PDFObject,
+  type PDFPage,
+} from "pdf-lib";
+
+import { resolveDestinationArray } from "./pdfOutline";
+
+export type PageCopyResult = {
+  /** Copied pages in the order of the requested indices; not yet added to the output. */
+  pages: PDFPage[];
+  warnings: string[];
+};
+
+type LinkTarget = {
+  pageIndex: number;
+  view: PDFObject[];
+};
+
+const MAX_FIELD_DEPTH = 32;
+const FORM_DEFAULT_KEYS = ["DA", "Q", "NeedAppearances"] as const;
+
+const KEY = {
+  annots: PDFName.of("Annots"),
+  subtype: PDFName.of("Subtype"),
+  link: PDFName.of("Link"),
+  widget: PDFName.of("Widget"),
+  dest: PDFName.of("Dest"),
+  action: PDFName.of("A"),
+  actionType: PDFName.of("S"),
+  goTo: PDFName.of("GoTo"),
+  destination: PDFName.of("D"),
+  page: PDFName.of("P"),
+  parent: PDFName.of("Parent"),
+  kids: PDFName.of("Kids"),
+  title: PDFName.of("T"),
+  fieldType: PDFName.of("FT"),
+  resources: PDFName.of("DR"),
+  font: PDFName.of("Font"),
+  xfa: PDFName.of("XFA"),
+  // Private marker that survives `copyPages` so links can be re-pointed afterwards.
+  linkMarker: PDFName.of("PDFWorkbenchLinkTarget"),
+};
+
+/**
+ * Sets (or deletes, when `value` is omitted) a dictionary entry and queues the undo.
+ * Sources are patched only for the duration of a copy, so the same `PDFDocument` can be
+ * copied from repeatedly, e.g. once per split slice.
+ */
+const patchEntry = (undo: Array<() => void>, dict: PDFDict, key: PDFName, value?: PDFObject) => {
+  const original = dict.get(key);
+  undo.push(() => (original ? dict.set(key, original) : dict.delete(key)));
+  if (value) {
+    dict.set(key, value);
+  } else {
+    dict.delete(key);
+  }
+};
+
+const readLinkDestination = (annot: PDFDict): PDFObject | undefined => {
+  const dest = annot.get(KEY.dest);
+  if (dest) {
+    return dest;
+  }
+
+  const action = annot.lookupMaybe(KEY.action, PDFDict);
+  return action?.get(KEY.actionType) === KEY.goTo ? action.get(KEY.destination) : undefined;
+};
+
+const collectFieldAncestors = (widget: PDFDict, into: Set<PDFDict>) => {
+  let current: PDFDict | undefined = widget;
+  for (let depth = 0; current && depth < MAX_FIELD_DEPTH; depth += 1) {
+    into.add(current);
+    current = current.lookupMaybe(KEY.parent, PDFDict);
+  }
+};
+
+const findFieldRoot = (doc: PDFDocument, widgetRef: PDFRef): PDFRef | undefined => {
+  let currentRef = widgetRef;
+  for (let depth = 0; depth < MAX_FIELD_DEPTH; depth += 1) {
+    const node = doc.context.lookupMaybe(currentRef, PDFDict);
+    if (!node) {
+      return undefined;
+    }
+    const parent = node.get(KEY.parent);
+    if (!(parent instanceof PDFRef)) {
+      return node.has(KEY.title) || node.has(KEY.fieldType) ? currentRef : undefined;
+    }
+    currentRef = parent;
+  }
+  return undefined;
+};
+
+const readFieldName = (field: PDFDict): string | undefined => {
+  const title = field.lookup(KEY.title);
+  return title instanceof PDFString || title instanceof PDFHexString
+    ? title.decodeText()
+    : undefined;
+};
+
+const buildUniqueFieldName = (name: string, taken: Set<string>) => {
+  let suffix = 2;
+  while (taken.has(`${name}_${suffix}`)) {
+    suffix += 1;
+  }
+  return `${name}_${suffix}`;
+};
+
+/**
+ * Copies form-level defaults (appearance string, default resources) the copied widgets
+ * rely on. Fonts are merged by resource name so earlier documents keep theirs.
+ */
+const copyFormDefaults = (source: PDFDocument, output: PDFDocument, target: PDFDict) => {
+  const sourceForm = source.catalog.AcroForm();
+  if (!sourceForm) {
+    return;
+  }
+
+  const copier = PDFObjectCopier.for(source.context, output.context);
+  for (const key of FORM_DEFAULT_KEYS) {
+    const value = sourceForm.get(PDFName.of(key));
+    if (value && !target.has(PDFName.of(key))) {
+      target.set(PDFName.of(key), copier.copy(value));
+    }
+  }
+
+  const sourceResources = sourceForm.lookupMaybe(KEY.resources, PDFDict);
+  if (!sourceResources) {
+    return;
+  }
+  const targetResources = target.lookupMaybe(KEY.resources, PDFDict);
+  if (!targetResources) {
+    target.set(KEY.resources, copier.copy(sourceResources));
+    return;
+  }
+
+  const sourceFonts = sourceResources.lookupMaybe(KEY.font, PDFDict);
+  if (!sourceFonts) {
+    return;
+  }
+  let targetFonts = targetResources.lookupMaybe(KEY.font, PDFDict);
+  if (!targetFonts) {
+    targetFonts = output.context.obj({});
+    targetResources.set(KEY.font, targetFonts);
+  }
+  for (const [name, font] of sourceFonts.entries()) {
+    if (!targetFonts.has(name)) {
+      targetFonts.set(name, copier.copy(font));
+    }
+  }
+};
+
+/**
+ * Drop-in replacement for `output.copyPages(source, indices)` that keeps the parts of a
+ * page `copyPages` loses on its own: AcroForm fields are registered with the output form
+ * (renaming top-level fields whose names are already taken) and internal links are
+ * re-pointed at the copied pages. Links to pages outside `indices` are removed and
+ * reported in `warnings`.
+ */
+export const copyPagesWithInteractivity = async (
+  output: PDFDocument,
+  source: PDFDocument,
+  indices: number[],
+): Promise<PageCopyResult> => {
+  const sourcePages = source.getPages();
+  const pageIndexByRef = new Map(sourcePages.map((page, index) => [page.ref.toString(), index]));
+  const selected = new Set(indices);
+  const undo: Array<() => void> = [];
+  const linkTargets: LinkTarget[] = [];
+  const keptFieldNodes = new Set<PDFDict>();
+  const warnings: string[] = [];
+  let droppedLinks = 0;
+
+  let pages: PDFPage[];
+  try {
+    for (const index of selected) {
+      const annots = sourcePages[index]?.node.Annots();
+      if (!annots) {
+        continue;
+      }
+
+      const keptAnnots: PDFObject[] = [];
+      for (let position = 0; position < annots.size(); position += 1) {
+        const entry = annots.get(position);
+        const annot = annots.lookupMaybe(position, PDFDict);
+        if (!annot) {
+          keptAnnots.push(entry);
+          continue;
+        }
+
+        // `/P` points back at the source page; copying it would drag in a detached duplicate.
+        patchEntry(undo, annot, KEY.page);
+
+        const subtype = annot.get(KEY.subtype);
+        if (subtype === KEY.widget) {
+          collectFieldAncestors(annot, keptFieldNodes);
+        }
+
+        const dest = subtype === KEY.link ? readLinkDestination(annot) : undefined;
+        if (dest) {
+          const destination = resolveDestinationArray(source, dest);
+          const targetRef = destination?.get(0);
+          const targetIndex =
+            targetRef instanceof PDFRef ? pageIndexByRef.get(targetRef.toString()) : undefined;
+          if (!destination || targetIndex === undefined || !selected.has(targetIndex)) {
+            droppedLinks += 1;
+            continue;
+          }
+
+          const view = destination.asArray().slice(1);
+          linkTargets.push({
+            pageIndex: targetIndex,
+            view:
+              view.length > 0 && view.every((item) => !(item instanceof PDFRef))
+                ? view
+                : [PDFName.of("Fit")],
+          });
+          patchEntry(undo, annot, KEY.dest);
+          patchEntry(undo, annot, KEY.action);
+          patchEntry(undo, annot, KEY.linkMarker, PDFNumber.of(linkTargets.length - 1));
+        }
+
+        keptAnnots.push(entry);
+      }
+
+      if (keptAnnots.length !== annots.size()) {
+        const node = sourcePages[index]?.node;
+        if (node) {
+          patchEntry(undo, node, KEY.annots, source.context.obj(keptAnnots));
+        }
+      }
+    }
+
+    // Prune field kids that live on pages we are not copying so their pages stay behind.
+    for (const node of keptFieldNodes) {
+      const kids = node.lookupMaybe(KEY.kids, PDFArray);
+      if (!kids) {
+        continue;
+      }
+      const keptKids = kids.asArray().filter((_, position) => {
+        const kid = kids.lookupMaybe(position, PDFDict);
+        return kid !== undefined && keptFieldNodes.has(kid);
+      });
+      if (keptKids.length !== kids.size()) {
+        patchEntry(undo, node, KEY.kids, source.context.obj(keptKids));
+      }
+    }
+
+    pages = await output.copyPages(source, indices);
+  } finally {
+    undo.reverse().forEach((restore) => restore());
+  }
+
+  const outputRefBySourceIndex = new Map<number, PDFRef>();
+  indices.forEach((sourceIndex, position) => {
+    const page = pages[position];
+    if (page && !outputRefBySourceIndex.has(sourceIndex)) {
+      outputRefBySourceIndex.set(sourceIndex, page.ref);
+    }
+  });
+
+  const fieldRoots = new Map<string, PDFRef>();
+  for (const page of pages) {
+    const annots = page.node.Annots();
+    if (!annots) {
+      continue;
+    }
+
+    for (let position = 0; position < annots.size(); position += 1) {
+      const annot = annots.lookupMaybe(position, PDFDict);
+      if (!annot) {
+        continue;
+      }
+      annot.set(KEY.page, page.ref);
+
+      const marker = annot.lookupMaybe(KEY.linkMarker, PDFNumber);
+      if (marker) {
+        annot.delete(KEY.linkMarker);
+        const target = linkTargets[marker.asNumber()];
+        const targetRef = target ? outputRefBySourceIndex.get(target.pageIndex) : undefined;
+        if (target && targetRef) {
+          annot.set(KEY.dest, output.context.obj([targetRef, ...target.view]));
+        }
+      }
+
+      const entry = annots.get(position);
+      if (annot.get(KEY.subtype) === KEY.widget && entry instanceof PDFRef) {
+        const rootRef = findFieldRoot(output, entry);
+        if (rootRef) {
+          fieldRoots.set(rootRef.toString(), rootRef);
+        }
+      }
+    }
+  }
+
+  if (fieldRoots.size > 0) {
+    const form = output.catalog.getOrCreateAcroForm();
+    const taken = new Set(
+      form
+        .getFields()
+        .map(([field]) => field.getPartialName())
+        .filter((name): name is string => Boolean(name)),
+    );
+
+    for (const rootRef of fieldRoots.values()) {
+      const root = output.context.lookupMaybe(rootRef, PDFDict);
+      const name = root ? readFieldName(root) : undefined;
+      if (root && name) {
+        if (taken.has(name)) {
+          const renamed = buildUniqueFieldName(name, taken);
+          root.set(KEY.title, PDFHexString.fromText(renamed));
+          warnings.push(`Renamed form field "${name}" to "${renamed}" to avoid a name clash.`);
+          taken.add(renamed);
+        } else {
+          taken.add(name);
+        }
+      }
+      form.addField(rootRef);
+    }
+
+    copyFormDefaults(source, output, form.dict);
+    if (source.catalog.AcroForm()?.has(KEY.xfa)) {
+      warnings.push("XFA form data was dropped; the AcroForm fields were kept.");
+    }
+  }
+
+  if (droppedLinks > 0) {
+    warnings.push(
+      `Removed ${droppedLinks} internal link${
+        droppedLinks === 1 ? "" : "s"
+      } pointing at pages that weren't included.`,
+    );
+  }
+
+  return { pages, warnings };
+};
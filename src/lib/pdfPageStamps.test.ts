@@ -0,0 +1,116 @@
+import JSZip from "jszip";
+import { PDFDocument, degrees } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import type { LoadedPdf } from "./pdfLoader";
+import {
+  formatPageStamp,
+  planPageStamps,
+  stampPageNumbers,
+  type PageStampSettings,
+} from "./pdfPageStamps";
+
+const createLoadedPdf = async (name: string, pageCount: number): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.addPage([612, 792]).setRotation(degrees(index === 1 ? 90 : 0));
+  }
+
+  const data = await doc.save();
+  return {
+    id: `test-${name}`,
+    name,
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount,
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const BATES: PageStampSettings = {
+  format: "bates",
+  prefix: "ACME",
+  startNumber: 98,
+  padding: 6,
+  anchor: "bottom-right",
+  marginX: 36,
+  marginY: 24,
+  font: "helvetica",
+  fontSize: 10,
+  color: "#000000",
+};
+
+describe("pdfPageStamps", () => {
+  it("formats Bates and page-of-total labels and plans ranges across documents", () => {
+    vitestExpect(formatPageStamp(BATES, 98, 5)).toBe("ACME000098");
+    vitestExpect(formatPageStamp({ ...BATES, format: "page-of-total", startNumber: 1 }, 2, 5)).toBe(
+      "Page 2 of 5",
+    );
+
+    vitestExpect(
+      planPageStamps(
+        [
+          { name: "a.pdf", pageCount: 3 },
+          { name: "b.pdf", pageCount: 2 },
+        ],
+        BATES,
+      ),
+    ).toEqual([
+      {
+        name: "a.pdf",
+        firstNumber: 98,
+        lastNumber: 100,
+        firstLabel: "ACME000098",
+        lastLabel: "ACME000100",
+      },
+      {
+        name: "b.pdf",
+        firstNumber: 101,
+        lastNumber: 102,
+        firstLabel: "ACME000101",
+        lastLabel: "ACME000102",
+      },
+    ]);
+  });
+
+  it("stamps a single document and reports the range", async () => {
+    const pdf = await createLoadedPdf("exhibit.pdf", 2);
+    const result = await stampPageNumbers([pdf], BATES);
+    const output = await PDFDocument.load(await readBlob(result.blob));
+
+    vitestExpect(result.downloadName).toMatch(/\.pdf$/);
+    vitestExpect(output.getPageCount()).toBe(2);
+    vitestExpect(result.activity.detail).toBe("exhibit.pdf · ACME000098 – ACME000099");
+    vitestExpect(result.activity.replay).toEqual({ tool: "stamps", settings: BATES });
+  });
+
+  it("bundles several documents into a ZIP named by their ranges", async () => {
+    const documents = [await createLoadedPdf("a.pdf", 3), await createLoadedPdf("b.pdf", 2)];
+    const result = await stampPageNumbers(documents, BATES);
+    const zip = await JSZip.loadAsync(await readBlob(result.blob));
+
+    vitestExpect(result.downloadName).toMatch(/\.zip$/);
+    vitestExpect(Object.keys(zip.files).sort()).toEqual([
+      "a-acme000098-acme000100.pdf",
+      "b-acme000101-acme000102.pdf",
+    ]);
+    vitestExpect(result.activity).toMatchObject({
+      tool: "stamps",
+      operation: "stamp-bates",
+      sourceCount: 2,
+      detail: "2 documents · ACME000098 – ACME000102",
+    });
+    vitestExpect(result.activity.replay).toBeUndefined();
+  });
+});
@@ -0,0 +1,261 @@
+import { PDFDocument, degrees, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+
+import { buildDownloadName, type ExportResult } from "./documentPipeline";
+import { buildStampedFileName } from "./fileNames";
+import { PdfLoadError } from "./pdfErrors";
+import type { LoadedPdf } from "./pdfLoader";
+import { buildZipFromEntries } from "./pdfSplit";
+import {
+  mapDisplayPointToPdf,
+  normalizeRotation,
+  parseHexColor,
+  resolveStandardFont,
+  type WatermarkFont,
+} from "./pdfWatermark";
+
+export type PageStampFormat = "bates" | "page-of-total";
+
+export type PageStampAnchor =
+  | "top-left"
+  | "top-center"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-center"
+  | "bottom-right";
+
+export type PageStampSettings = {
+  format: PageStampFormat;
+  /** Bates only, e.g. `ACME-`. */
+  prefix: string;
+  /** First number in the sequence; "Page X of Y" counts from here too. */
+  startNumber: number;
+  /** Bates only: minimum digit count, padded with zeros. */
+  padding: number;
+  anchor: PageStampAnchor;
+  /** Distance from the nearest horizontal edge, in points. Ignored for centered anchors. */
+  marginX: number;
+  /** Distance from the top or bottom edge, in points. */
+  marginY: number;
+  font: WatermarkFont;
+  fontSize: number;
+  /** `#rrggbb` */
+  color: string;
+};
+
+export type PageStampPlan = {
+  name: string;
+  firstNumber: number;
+  lastNumber: number;
+  firstLabel: string;
+  lastLabel: string;
+};
+
+export const PAGE_STAMP_ANCHORS: { id: PageStampAnchor; label: string }[] = [
+  { id: "top-left", label: "Top left" },
+  { id: "top-center", label: "Top center" },
+  { id: "top-right", label: "Top right" },
+  { id: "bottom-left", label: "Bottom left" },
+  { id: "bottom-center", label: "Bottom center" },
+  { id: "bottom-right", label: "Bottom right" },
+];
+
+export const formatPageStamp = (
+  settings: Pick<PageStampSettings, "format" | "prefix" | "padding" | "startNumber">,
+  sequenceNumber: number,
+  totalPages: number,
+) => {
+  if (settings.format === "page-of-total") {
+    return `Page ${sequenceNumber} of ${settings.startNumber + totalPages - 1}`;
+  }
+  const digits = String(sequenceNumber).padStart(Math.max(0, Math.floor(settings.padding)), "0");
+  return `${settings.prefix}${digits}`;
+};
+
+/**
+ * Works out which numbers each document receives when the sequence runs through them in
+ * order. Every page is numbered, including pages a merge range would leave out, because
+ * the stamped files are produced as-is rather than merged.
+ */
+export const planPageStamps = (
+  documents: Array<Pick<LoadedPdf, "name" | "pageCount">>,
+  settings: Pick<PageStampSettings, "format" | "prefix" | "padding" | "startNumber">,
+): PageStampPlan[] => {
+  const totalPages = documents.reduce((sum, document) => sum + document.pageCount, 0);
+  let next = settings.startNumber;
+
+  return documents.map((document) => {
+    const firstNumber = next;
+    const lastNumber = next + Math.max(0, document.pageCount - 1);
+    next = lastNumber + 1;
+    return {
+      name: document.name,
+      firstNumber,
+      lastNumber,
+      firstLabel: formatPageStamp(settings, firstNumber, totalPages),
+      lastLabel: formatPageStamp(settings, lastNumber, totalPages),
+    };
+  });
+};
+
+/** Top-left corner of the label box in on-screen page space. */
+const anchorLabelBox = (
+  page: { width: number; height: number },
+  label: { width: number; height: number },
+  settings: Pick<PageStampSettings, "anchor" | "marginX" | "marginY">,
+) => {
+  const [vertical, horizontal] = settings.anchor.split("-") as ["top" | "bottom", string];
+  const x =
+    horizontal === "left"
+      ? settings.marginX
+      : horizontal === "right"
+        ? page.width - settings.marginX - label.width
+        : (page.width - label.width) / 2;
+  const y = vertical === "top" ? settings.marginY : page.height - settings.marginY - label.height;
+  return { x, y };
+};
+
+/**
+ * Draws one line of text at an anchor on the page as it appears on screen. Pages with a
+ * `/Rotate` get the text turned with them, so a bottom anchor always lands at the visual
+ * bottom and reads left to right.
+ */
+export const drawAnchoredText = (
+  page: PDFPage,
+  text: string,
+  font: PDFFont,
+  style: Pick<PageStampSettings, "anchor" | "marginX" | "marginY" | "fontSize"> & { color: RGB },
+) => {
+  const pageSize = page.getSize();
+  const pageRotation = normalizeRotation(page.getRotation().angle);
+  const isQuarterTurn = pageRotation === 90 || pageRotation === 270;
+  const visual = isQuarterTurn ? { width: pageSize.height, height: pageSize.width } : pageSize;
+  const label = {
+    width: font.widthOfTextAtSize(text, style.fontSize),
+    height: font.heightAtSize(style.fontSize, { descender: false }),
+  };
+  const box = anchorLabelBox(visual, label, style);
+  // Draw from the baseline at the box's bottom-left.
+  const origin = mapDisplayPointToPdf(
+    { x: box.x, y: box.y + label.height },
+    pageSize,
+    pageRotation,
+  );
+
+  page.drawText(text, {
+    x: origin.x,
+    y: origin.y,
+    size: style.fontSize,
+    font,
+    color: style.color,
+    rotate: degrees(pageRotation),
+  });
+};
+
+const stampDocument = async (
+  document: LoadedPdf,
+  plan: PageStampPlan,
+  settings: PageStampSettings,
+  totalPages: number,
+) => {
+  const output = await PDFDocument.load(document.data);
+  const font: PDFFont = await output.embedFont(resolveStandardFont(settings.font));
+  const color = parseHexColor(settings.color);
+
+  output.getPages().forEach((page, index) => {
+    const text = formatPageStamp(settings, plan.firstNumber + index, totalPages);
+    drawAnchoredText(page, text, font, { ...settings, color });
+  });
+
+  return output.save();
+};
+
+type PageStampOptions = {
+  startedAt?: number;
+};
+
+/**
+ * Stamps Bates numbers or "Page X of Y" labels on every page, continuing the sequence
+ * through `documents` in order. One document downloads as a PDF; several download as a
+ * ZIP with each file named after its number range.
+ */
+export const stampPageNumbers = async (
+  documents: LoadedPdf[],
+  settings: PageStampSettings,
+  options?: PageStampOptions,
+): Promise<ExportResult> => {
+  const startedAt = options?.startedAt ?? Date.now();
+  const first = documents[0];
+
+  if (!first) {
+    throw new PdfLoadError("unsupported", "Add at least one PDF to number.");
+  }
+  if (!Number.isInteger(settings.startNumber) || settings.startNumber < 0) {
+    throw new PdfLoadError("unsupported", "The starting number must be a whole number.");
+  }
+
+  const plans = planPageStamps(documents, settings);
+  const totalPages = documents.reduce((sum, document) => sum + document.pageCount, 0);
+
+  try {
+    const stamped = [];
+    for (const [index, document] of documents.entries()) {
+      const plan = plans[index];
+      if (plan) {
+        stamped.push({
+          document,
+          plan,
+          bytes: await stampDocument(document, plan, settings, totalPages),
+        });
+      }
+    }
+
+    const isBundle = stamped.length > 1;
+    const blob = isBundle
+      ? new Blob(
+          [
+            await buildZipFromEntries(
+              stamped.map(({ document, plan, bytes }) => ({
+                fileName: buildStampedFileName(document.name, plan.firstLabel, plan.lastLabel),
+                bytes,
+              })),
+            ),
+          ],
+          { type: "application/zip" },
+        )
+      : new Blob([new Uint8Array(stamped[0]?.bytes ?? [])], { type: "application/pdf" });
+
+    const firstLabel = plans[0]?.firstLabel ?? "";
+    const lastLabel = plans[plans.length - 1]?.lastLabel ?? "";
+    const operation = settings.format === "bates" ? "bates" : "page-numbers";
+
+    return {
+      blob,
+      size: blob.size,
+      downloadName: buildDownloadName(first.name, operation, isBundle ? "zip" : "pdf"),
+      durationMs: Math.max(0, Date.now() - startedAt),
+      activity: {
+        tool: "stamps",
+        operation: `stamp-${operation}`,
+        sourceCount: documents.length,
+        detail: `${
+          isBundle ? `${documents.length} documents` : first.name
+        } · ${firstLabel} – ${lastLabel}`,
+        // A bundle's numbering runs across its files, which a one-file re-run can't repeat.
+        replay: documents.length === 1 ? { tool: "stamps", settings } : undefined,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : undefined;
+    // Standard fonts only cover WinAnsi, so prefixes outside Latin-1 can't be drawn.
+    if (message && /cannot encode/i.test(message)) {
+      throw new PdfLoadError(
+        "unsupported",
+        "The prefix uses characters the built-in fonts can't draw. Stick to Latin letters, digits, and punctuation.",
+      );
+    }
+    if (error instanceof PdfLoadError) {
+      throw error;
+    }
+    throw new PdfLoadError("unknown", message);
+  }
+};
@@ -0,0 +1,169 @@
+import { buildDownloadName, createPdfSourceFromBytes } from "./documentPipeline";
+import { compressPdfWithPreset, getCompressionPreset, } from "./pdfCompression";
+import { applyPageEdits, buildEditablePages } from "./pdfEdit";
+import { PdfLoadError } from "./pdfErrors";
+import { loadPdfFromSource } from "./pdfLoader";
+import { mergeLoadedPdfs } from "./pdfMerge";
+import { stampPageNumbers } from "./pdfPageStamps";
+import { parsePageRanges } from "./pageRanges";
+import { extractPagesFromLoadedPdf } from "./pdfSplit";
+export const RECIPE_STEP_OPTIONS = [
+    { kind: "merge", label: "Merge", hint: "Combine every queued PDF in order. Must come first." },
+    { kind: "extract", label: "Keep pages", hint: "Extract a page range, e.g. 1-3, last." },
+    { kind: "edit", label: "Rotate & delete", hint: "Turn every page and drop unwanted ones." },
+    { kind: "page-numbers", label: "Page numbers", hint: "Stamp Bates or Page X of Y labels." },
+    { kind: "compress", label: "Compress", hint: "Shrink the result with a compression preset." },
+];
+export const createRecipeStep = (kind) => {
+    switch (kind) {
+        case "merge":
+            return { kind };
+        case "extract":
+            return { kind, pages: "1-end" };
+        case "edit":
+            return { kind, rotation: 0, deletePages: "" };
+        case "page-numbers":
+            return {
+                kind,
+                settings: {
+                    format: "page-of-total",
+                    prefix: "",
+                    startNumber: 1,
+                    padding: 6,
+                    anchor: "bottom-center",
+                    marginX: 36,
+                    marginY: 24,
+                    font: "helvetica",
+                    fontSize: 10,
+                    color: "#000000",
+                },
+            };
+        case "compress":
+            return { kind, presetId: "balanced", mode: "images" };
+    }
+};
+export const describeRecipeStep = (step) => {
+    switch (step.kind) {
+        case "merge":
+            return "Merge";
+        case "extract":
+            return `Keep pages ${step.pages.trim() || "(none)"}`;
+        case "edit": {
+            const parts = [
+                step.rotation ? `Rotate ${step.rotation}°` : null,
+                step.deletePages.trim() ? `delete ${step.deletePages.trim()}` : null,
+            ].filter(Boolean);
+            return parts.length > 0 ? parts.join(", ") : "Rotate & delete (no changes)";
+        }
+        case "page-numbers":
+            return step.settings.format === "bates" ? "Bates numbers" : "Page numbers";
+        case "compress":
+            return `Compress (${getCompressionPreset(step.presetId).label})`;
+    }
+};
+/** Returns why `steps` can't run on `documentCount` PDFs, or null when they can. */
+export const findRecipeProblem = (steps, documentCount) => {
+    if (steps.length === 0) {
+        return "Add at least one step to the recipe.";
+    }
+    if (steps.some((step, index) => step.kind === "merge" && index > 0)) {
+        return "Merge can only be the first step.";
+    }
+    if (documentCount === 0) {
+        return "Add at least one PDF to run the recipe on.";
+    }
+    if (documentCount > 1 && steps[0]?.kind !== "merge") {
+        return "Start the recipe with a Merge step to run it on several PDFs.";
+    }
+    return null;
+};
+const runStep = async (step, documents, pageSelections) => {
+    const [pdf] = documents;
+    if (!pdf) {
+        throw new PdfLoadError("unsupported", "Add at least one PDF to run the recipe on.");
+    }
+    switch (step.kind) {
+        case "merge": {
+            if (documents.length > 1) {
+                return mergeLoadedPdfs(documents, { pageSelections });
+            }
+            // A lone file has nothing to merge with, so only its page range applies.
+            const selection = pageSelections?.[0];
+            return selection?.length
+                ? extractPagesFromLoadedPdf(pdf, selection)
+                : { bytes: pdf.data, warnings: [] };
+        }
+        case "extract":
+            return extractPagesFromLoadedPdf(pdf, parsePageRanges(step.pages, pdf.pageCount));
+        case "edit": {
+            const deleted = new Set(step.deletePages.trim() ? parsePageRanges(step.deletePages, pdf.pageCount) : []);
+            const pages = buildEditablePages(pdf).map((page) => ({
+                ...page,
+                rotation: step.rotation,
+                isDeleted: deleted.has(page.originalIndex + 1),
+            }));
+            return applyPageEdits(pdf, pages);
+        }
+        case "page-numbers": {
+            const result = await stampPageNumbers([pdf], step.settings);
+            return { bytes: new Uint8Array(await result.blob.arrayBuffer()), warnings: [] };
+        }
+        case "compress": {
+            const result = await compressPdfWithPreset(pdf, step.presetId, { mode: step.mode });
+            return {
+                bytes: new Uint8Array(await result.blob.arrayBuffer()),
+                warnings: result.warnings ?? [],
+            };
+        }
+    }
+};
+/**
+ * Runs each step on the output of the one before and returns a single export for the whole
+ * recipe. Intermediate PDFs are loaded with pdf.js, since compression renders pages, and are
+ * destroyed once the run finishes; the input documents are left open.
+ */
+export const runRecipe = async (recipe, documents, options) => {
+    const startedAt = options?.startedAt ?? Date.now();
+    const problem = findRecipeProblem(recipe.steps, documents.length);
+    const first = documents[0];
+    if (problem || !first) {
+        throw new PdfLoadError("unsupported", problem ?? undefined);
+    }
+    const intermediates = [];
+    const warnings = [];
+    let current = documents;
+    let bytes = first.data;
+    try {
+        for (const [stepIndex, step] of recipe.steps.entries()) {
+            const label = describeRecipeStep(step);
+            options?.onProgress?.({ stepIndex, stepCount: recipe.steps.length, label });
+            // Merge can only come first, so the queue's page ranges always meet the original inputs.
+            const output = await runStep(step, current, options?.pageSelections);
+            bytes = output.bytes;
+            warnings.push(...output.warnings.map((warning) => `${label}: ${warning}`));
+            if (stepIndex < recipe.steps.length - 1) {
+                const next = await loadPdfFromSource(createPdfSourceFromBytes(bytes, first.name));
+                intermediates.push(next);
+                current = [next];
+            }
+        }
+    }
+    finally {
+        intermediates.forEach((pdf) => pdf.doc.destroy());
+    }
+    const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+    const names = documents.length > 1 ? `${documents.length} documents` : first.name;
+    return {
+        blob,
+        size: blob.size,
+        downloadName: buildDownloadName(first.name, "recipe"),
+        durationMs: Math.max(0, Date.now() - startedAt),
+        warnings: warnings.length > 0 ? warnings : undefined,
+        activity: {
+            tool: "recipes",
+            operation: `recipe-${recipe.steps.length}-steps`,
+            sourceCount: documents.length,
+            detail: `${recipe.name} · ${names} · ${recipe.steps.map(describeRecipeStep).join(" → ")}`,
+        },
+    };
+};
@@ -0,0 +1,181 @@
+import { PDFDocument } from "pdf-lib";
+import { afterEach, beforeAll, describe, expect as vitestExpect, it, vi } from "vitest";
+
+import type { PdfSource } from "./documentPipeline";
+import type { LoadedPdf } from "./pdfLoader";
+
+// Stands in for pdf.js rendering a page, which is all the rasterizing compressor asks of it.
+const renderPage = vi.fn(() => ({ promise: Promise.resolve() }));
+
+const createLoadedPdf = async (name: string, data: Uint8Array): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.load(data);
+  const getPage = async (pageNumber: number) => {
+    const { width, height } = doc.getPage(pageNumber - 1).getSize();
+    return {
+      getViewport: ({ scale }: { scale: number }) => ({
+        width: width * scale,
+        height: height * scale,
+      }),
+      render: renderPage,
+      cleanup: vi.fn(),
+    };
+  };
+  return {
+    id: name,
+    name,
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount: doc.getPageCount(),
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: { destroy: vi.fn(), getPage } as unknown as LoadedPdf["doc"],
+  };
+};
+
+const loadedSources: PdfSource[] = [];
+
+vi.mock("./pdfLoader", () => ({
+  loadPdfFromSource: (source: PdfSource) => {
+    loadedSources.push(source);
+    return createLoadedPdf(source.name, source.bytes);
+  },
+}));
+
+import { createRecipeStep, findRecipeProblem, runRecipe, type RecipeProgress } from "./pdfRecipes";
+
+const readBlob = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// Just enough of a baseline JPEG header (SOI, a 16x16 grayscale SOF0, EOI) for pdf-lib to embed.
+const JPEG_BYTES = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x10, 0x00, 0x10, 0x01, 0x01, 0x11, 0x00, 0xff,
+  0xd9,
+]);
+
+const createPdf = async (name: string, widths: number[]) => {
+  const doc = await PDFDocument.create();
+  widths.forEach((width) => doc.addPage([width, 600]));
+  return createLoadedPdf(name, await doc.save());
+};
+
+describe("pdfRecipes", () => {
+  beforeAll(() => {
+    // jsdom's Blob has no arrayBuffer(), which the recipe uses to pass each step's output on.
+    if (!("arrayBuffer" in Blob.prototype)) {
+      Object.defineProperty(Blob.prototype, "arrayBuffer", {
+        configurable: true,
+        value(this: Blob) {
+          return readBlob(this);
+        },
+      });
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    loadedSources.length = 0;
+  });
+
+  it("requires merge to come first when several PDFs are queued", () => {
+    vitestExpect(findRecipeProblem([], 1)).toMatch(/at least one step/);
+    vitestExpect(findRecipeProblem([{ kind: "extract", pages: "1" }, { kind: "merge" }], 2)).toBe(
+      "Merge can only be the first step.",
+    );
+    vitestExpect(findRecipeProblem([{ kind: "extract", pages: "1" }], 2)).toMatch(/Merge step/);
+    vitestExpect(findRecipeProblem([{ kind: "merge" }], 1)).toBeNull();
+  });
+
+  it("chains steps and reports one export for the whole recipe", async () => {
+    const documents = [await createPdf("a.pdf", [400, 410]), await createPdf("b.pdf", [420])];
+    const progress: RecipeProgress[] = [];
+
+    const result = await runRecipe(
+      {
+        id: "recipe",
+        name: "Weekly pack",
+        steps: [
+          { kind: "merge" },
+          { kind: "extract", pages: "2-end" },
+          { kind: "edit", rotation: 90, deletePages: "1" },
+        ],
+      },
+      documents,
+      { onProgress: (update) => progress.push(update) },
+    );
+
+    vitestExpect(progress.map((update) => update.label)).toEqual([
+      "Merge",
+      "Keep pages 2-end",
+      "Rotate 90°, delete 1",
+    ]);
+    const output = await PDFDocument.load(await readBlob(result.blob));
+    vitestExpect(output.getPages().map((page) => page.getWidth())).toEqual([420]);
+    vitestExpect(output.getPage(0).getRotation().angle).toBe(90);
+    vitestExpect(result.activity).toMatchObject({
+      tool: "recipes",
+      operation: "recipe-3-steps",
+      sourceCount: 2,
+      detail: "Weekly pack · 2 documents · Merge → Keep pages 2-end → Rotate 90°, delete 1",
+    });
+  });
+
+  it("keeps only the queued page ranges when merging", async () => {
+    const documents = [await createPdf("a.pdf", [400, 410, 420]), await createPdf("b.pdf", [430])];
+    const recipe = { id: "recipe", name: "Ranges", steps: [{ kind: "merge" as const }] };
+
+    const merged = await runRecipe(recipe, documents, { pageSelections: [[3, 1], undefined] });
+    const mergedOutput = await PDFDocument.load(await readBlob(merged.blob));
+    vitestExpect(mergedOutput.getPages().map((page) => page.getWidth())).toEqual([420, 400, 430]);
+
+    const single = await runRecipe(recipe, [documents[0]!], { pageSelections: [[2]] });
+    const singleOutput = await PDFDocument.load(await readBlob(single.blob));
+    vitestExpect(singleOutput.getPages().map((page) => page.getWidth())).toEqual([410]);
+  });
+
+  it("stamps page numbers and then rasterizes the stamped intermediate", async () => {
+    const original = await createPdf("scan.pdf", [612, 612]);
+    const originalCreateElement = document.createElement.bind(document);
+    vi.spyOn(document, "createElement").mockImplementation((tagName: string) =>
+      tagName === "canvas"
+        ? ({
+            width: 0,
+            height: 0,
+            getContext: () => ({}),
+            toBlob: (callback: BlobCallback) =>
+              callback(new Blob([JPEG_BYTES], { type: "image/jpeg" })),
+          } as unknown as HTMLCanvasElement)
+        : originalCreateElement(tagName),
+    );
+
+    const result = await runRecipe(
+      {
+        id: "recipe",
+        name: "Scan pack",
+        steps: [
+          createRecipeStep("page-numbers"),
+          { kind: "compress", presetId: "balanced", mode: "rasterize" },
+        ],
+      },
+      [original],
+    );
+
+    // The compressor read the stamped output of the first step, not the original upload.
+    const [stamped] = loadedSources;
+    vitestExpect(stamped?.bytes.length).toBeGreaterThan(original.data.length);
+    vitestExpect(renderPage).toHaveBeenCalledTimes(2);
+
+    const output = await PDFDocument.load(await readBlob(result.blob));
+    vitestExpect(output.getPageCount()).toBe(2);
+    vitestExpect(output.getPage(0).getSize()).toEqual({ width: 612, height: 600 });
+    vitestExpect(result.size).toBe(result.blob.size);
+    vitestExpect(result.activity.detail).toBe(
+      "Scan pack · scan.pdf · Page numbers → Compress (Balanced)",
+    );
+  });
+});
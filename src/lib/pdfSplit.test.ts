@@ -1,10 +1,22 @@
 import { PDFDocument } from "pdf-lib";
 import JSZip from "jszip";
-import { describe, expect as vitestExpect, it } from "vitest";
+import { describe, expect as vitestExpect, it, vi } from "vitest";
 
 import { PdfLoadError } from "./pdfErrors";
 import type { LoadedPdf } from "./pdfLoader";
-import { buildZipFromEntries, extractPagesFromLoadedPdf, splitPdfByChunkSize } from "./pdfSplit";
+import {
+  buildOutlineSections,
+  buildSeparatorRanges,
+  buildZipFromEntries,
+  extractPagesFromLoadedPdf,
+  findBlankPages,
+  measureInkCoverage,
+  measurePageInkCoverage,
+  resolveOutlineSections,
+  splitPdfByChunkSize,
+  splitPdfByMaxSize,
+  splitPdfByRanges,
+} from "./pdfSplit";
 
 const createLoadedPdf = async (pageCount: number): Promise<LoadedPdf> => {
   const doc = await PDFDocument.create();
@@ -30,7 +42,7 @@ describe("pdfSplit", () => {
   it("extracts sorted unique page selections into a new PDF", async () => {
     const loaded = await createLoadedPdf(5);
     const result = await extractPagesFromLoadedPdf(loaded, [4, 2, 2, 99]);
-    const extracted = await PDFDocument.load(result);
+    const extracted = await PDFDocument.load(result.bytes);
     vitestExpect(extracted.getPageCount()).toBe(2);
   });
 
@@ -77,4 +89,179 @@ describe("pdfSplit", () => {
     const expectedNames = entries.map((entry) => entry.fileName).sort();
     vitestExpect(extractedFileNames).toEqual(expectedNames);
   });
+
+  it("turns bookmark start pages into contiguous sections with front matter", () => {
+    const sections = buildOutlineSections(
+      [
+        { title: "Results", startPage: 6, depth: 1 },
+        { title: "Intro", startPage: 3, depth: 1 },
+        { title: "Intro overview", startPage: 3, depth: 2 },
+      ],
+      8,
+    );
+
+    vitestExpect(sections).toEqual([
+      { title: "Front matter", startPage: 1, endPage: 2, depth: 0 },
+      { title: "Intro", startPage: 3, endPage: 5, depth: 1 },
+      { title: "Results", startPage: 6, endPage: 8, depth: 1 },
+    ]);
+  });
+
+  it("resolves outline destinations down to the chosen depth", async () => {
+    const loaded = await createLoadedPdf(6);
+    const fakeDoc = {
+      getOutline: async () => [
+        {
+          title: "Chapter 1",
+          dest: [{ num: 10, gen: 0 }, { name: "XYZ" }],
+          items: [{ title: "Section 1.1", dest: "named-1-1", items: [] }],
+        },
+        { title: "Chapter 2", dest: [{ num: 13, gen: 0 }], items: [] },
+      ],
+      getDestination: async () => [{ num: 11, gen: 0 }],
+      getPageIndex: async ({ num }: { num: number }) => num - 10,
+    };
+    loaded.doc = fakeDoc as unknown as LoadedPdf["doc"];
+
+    const topLevel = await resolveOutlineSections(loaded, 1);
+    vitestExpect(
+      topLevel.map((section) => [section.title, section.startPage, section.endPage]),
+    ).toEqual([
+      ["Chapter 1", 1, 3],
+      ["Chapter 2", 4, 6],
+    ]);
+
+    const nested = await resolveOutlineSections(loaded, 2);
+    vitestExpect(nested.map((section) => section.title)).toEqual([
+      "Chapter 1",
+      "Section 1.1",
+      "Chapter 2",
+    ]);
+  });
+
+  it("rejects documents without an outline", async () => {
+    const loaded = await createLoadedPdf(2);
+    loaded.doc = { getOutline: async () => null } as unknown as LoadedPdf["doc"];
+    await vitestExpect(resolveOutlineSections(loaded)).rejects.toThrow(PdfLoadError);
+  });
+
+  it("splits arbitrary titled ranges into chunks", async () => {
+    const loaded = await createLoadedPdf(5);
+    const chunks = await splitPdfByRanges(loaded, [
+      { title: "Intro", startPage: 1, endPage: 2 },
+      { title: "Body", startPage: 3, endPage: 5 },
+    ]);
+
+    vitestExpect(chunks.map((chunk) => chunk.title)).toEqual(["Intro", "Body"]);
+    const body = await PDFDocument.load(chunks[1]!.bytes);
+    vitestExpect(body.getPageCount()).toBe(3);
+    await vitestExpect(splitPdfByRanges(loaded, [{ startPage: 4, endPage: 9 }])).rejects.toThrow(
+      PdfLoadError,
+    );
+  });
+
+  it("packs consecutive pages under a byte ceiling", async () => {
+    const loaded = await createLoadedPdf(5);
+    const [twoPageChunk] = await splitPdfByChunkSize(loaded, 2);
+    const limit = twoPageChunk!.bytes.length;
+
+    const { chunks, oversizedPages, warnings } = await splitPdfByMaxSize(loaded, limit);
+    vitestExpect(oversizedPages).toEqual([]);
+    vitestExpect(warnings).toEqual([]);
+    vitestExpect(chunks.every((chunk) => chunk.bytes.length <= limit)).toBe(true);
+    vitestExpect(chunks[0]).toMatchObject({ startPage: 1, endPage: 2 });
+    vitestExpect(chunks[chunks.length - 1]?.endPage).toBe(5);
+    chunks.slice(1).forEach((chunk, index) => {
+      vitestExpect(chunk.startPage).toBe((chunks[index]?.endPage ?? 0) + 1);
+    });
+  });
+
+  it("finds the largest fitting range when the boundary falls between doubling steps", async () => {
+    const loaded = await createLoadedPdf(40);
+    const [sevenPageChunk] = await splitPdfByChunkSize(loaded, 7);
+    const limit = sevenPageChunk!.bytes.length;
+
+    const { chunks } = await splitPdfByMaxSize(loaded, limit);
+    vitestExpect(chunks[0]).toMatchObject({ startPage: 1, endPage: 7 });
+    vitestExpect(chunks[1]).toMatchObject({ startPage: 8, endPage: 14 });
+    vitestExpect(chunks[chunks.length - 1]?.endPage).toBe(40);
+  });
+
+  it("exports oversized pages alone and warns about them", async () => {
+    const loaded = await createLoadedPdf(3);
+    const { chunks, oversizedPages, warnings } = await splitPdfByMaxSize(loaded, 64);
+
+    vitestExpect(chunks.map((chunk) => [chunk.startPage, chunk.endPage])).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+    vitestExpect(oversizedPages).toEqual([1, 2, 3]);
+    vitestExpect(warnings[0]).toMatch(/^Page 1 alone is .* over the .* limit/);
+  });
+
+  it("rejects non-positive size limits", async () => {
+    const loaded = await createLoadedPdf(1);
+    await vitestExpect(splitPdfByMaxSize(loaded, 0)).rejects.toThrow(PdfLoadError);
+  });
+
+  it("cleans up the page and canvas when rendering fails", async () => {
+    const cleanup = vi.fn();
+    const page = {
+      getViewport: () => ({ width: 20, height: 30 }),
+      render: () => ({ promise: Promise.reject(new Error("render exploded")) }),
+      cleanup,
+    };
+    const canvas = {
+      width: 0,
+      height: 0,
+      getContext: () => ({ fillRect: vi.fn() }),
+    } as unknown as HTMLCanvasElement;
+    const createElement = vi.spyOn(document, "createElement").mockReturnValue(canvas);
+
+    try {
+      const loaded = {
+        ...(await createLoadedPdf(1)),
+        doc: { getPage: async () => page } as unknown as LoadedPdf["doc"],
+      };
+      const failure = await measurePageInkCoverage(loaded).catch((error: unknown) => error);
+
+      vitestExpect(failure).toBeInstanceOf(PdfLoadError);
+      vitestExpect(failure).toMatchObject({ code: "unknown", message: "render exploded" });
+      vitestExpect(cleanup).toHaveBeenCalledTimes(1);
+      vitestExpect([canvas.width, canvas.height]).toEqual([0, 0]);
+    } finally {
+      createElement.mockRestore();
+    }
+  });
+
+  it("measures ink coverage inside the scan margin", () => {
+    const width = 10;
+    const height = 10;
+    const pixels = new Uint8ClampedArray(width * height * 4).fill(255);
+    const paint = (x: number, y: number) => {
+      const offset = (y * width + x) * 4;
+      pixels.set([0, 0, 0, 255], offset);
+    };
+
+    vitestExpect(measureInkCoverage(pixels, width, height)).toBe(0);
+
+    // Border shadows are ignored by the 10% margin, interior ink is counted.
+    paint(0, 0);
+    vitestExpect(measureInkCoverage(pixels, width, height, 0.1)).toBe(0);
+    paint(5, 5);
+    paint(6, 5);
+    vitestExpect(measureInkCoverage(pixels, width, height, 0.1)).toBeCloseTo(2 / 64);
+  });
+
+  it("splits at blank separators and drops them from the output", () => {
+    const blanks = findBlankPages([0.2, 0, 0.1, 0.001, 0, 0.3, 0.004], 0.005);
+    vitestExpect(blanks).toEqual([2, 4, 5, 7]);
+    vitestExpect(buildSeparatorRanges(blanks, 7)).toEqual([
+      { startPage: 1, endPage: 1 },
+      { startPage: 3, endPage: 3 },
+      { startPage: 6, endPage: 6 },
+    ]);
+    vitestExpect(() => buildSeparatorRanges([1, 2], 2)).toThrow(PdfLoadError);
+  });
 });
@@ -1,8 +1,12 @@
 import { PDFDocument } from "pdf-lib";
 import JSZip from "jszip";
 
+import type { ExportResult } from "./documentPipeline";
+import { buildSplitSelectionFileName } from "./fileNames";
 import { PdfLoadError } from "./pdfErrors";
 import type { LoadedPdf } from "./pdfLoader";
+import { resolveDestinationPage, type OutlineNode } from "./pdfNavigation";
+import { copyPagesWithInteractivity } from "./pdfPageCopy";
 
 const cloneToArrayBuffer = (source: Uint8Array): ArrayBuffer => {
   const buffer = new ArrayBuffer(source.byteLength);
@@ -32,31 +36,109 @@ const loadSourceDocument = async (pdf: LoadedPdf) => {
   }
 };
 
+export type PageExtractResult = {
+  bytes: Uint8Array;
+  warnings: string[];
+};
+
 export const extractPagesFromLoadedPdf = async (
   pdf: LoadedPdf,
   pageNumbers: number[],
-): Promise<Uint8Array> => {
+): Promise<PageExtractResult> => {
   const selection = normalizePages(pageNumbers, pdf.pageCount);
   const source = await loadSourceDocument(pdf);
 
   try {
     const output = await PDFDocument.create();
-    const copiedPages = await output.copyPages(
+    const { pages, warnings } = await copyPagesWithInteractivity(
+      output,
       source,
       selection.map((page) => page - 1),
     );
-    copiedPages.forEach((page) => output.addPage(page));
-    return await output.save();
+    pages.forEach((page) => output.addPage(page));
+    return { bytes: await output.save(), warnings };
   } catch (error) {
     throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
   }
 };
 
+/** Extracts the selected pages into one PDF, ready to download and log. */
+export const exportPageSelection = async (
+  pdf: LoadedPdf,
+  pageNumbers: number[],
+  options?: { startedAt?: number },
+): Promise<ExportResult> => {
+  const startedAt = options?.startedAt ?? Date.now();
+  const selection = normalizePages(pageNumbers, pdf.pageCount);
+  const { bytes, warnings } = await extractPagesFromLoadedPdf(pdf, selection);
+  const blob = new Blob([cloneToArrayBuffer(bytes)], { type: "application/pdf" });
+
+  return {
+    blob,
+    size: blob.size,
+    downloadName: buildSplitSelectionFileName(pdf.name, `${selection.length}pages`),
+    durationMs: Math.max(0, Date.now() - startedAt),
+    warnings: warnings.length > 0 ? warnings : undefined,
+    activity: {
+      tool: "split",
+      operation: `split-selection-${selection.length}-pages`,
+      sourceCount: 1,
+      detail: `${pdf.name} · ${selection.length} selected page${selection.length === 1 ? "" : "s"}`,
+      replay: { tool: "split", pages: selection },
+    },
+  };
+};
+
 export type SplitChunk = {
   index: number;
   startPage: number;
   endPage: number;
   bytes: Uint8Array;
+  title?: string;
+  /** Form fields or links the slice could not carry over. */
+  warnings: string[];
+};
+
+export type SplitRange = {
+  startPage: number;
+  endPage: number;
+  title?: string;
+};
+
+const saveRange = async (source: PDFDocument, range: SplitRange): Promise<PageExtractResult> => {
+  const copyingIndices = Array.from(
+    { length: range.endPage - range.startPage + 1 },
+    (_, offset) => range.startPage - 1 + offset,
+  );
+  const chunkDoc = await PDFDocument.create();
+  const { pages, warnings } = await copyPagesWithInteractivity(chunkDoc, source, copyingIndices);
+  pages.forEach((page) => chunkDoc.addPage(page));
+  return { bytes: await chunkDoc.save(), warnings };
+};
+
+const copyRangesToChunks = async (
+  source: PDFDocument,
+  ranges: SplitRange[],
+): Promise<SplitChunk[]> => {
+  try {
+    const chunks: SplitChunk[] = [];
+
+    for (const [index, range] of ranges.entries()) {
+      const { bytes, warnings } = await saveRange(source, range);
+      chunks.push({
+        index,
+        startPage: range.startPage,
+        endPage: range.endPage,
+        bytes,
+        title: range.title,
+        warnings,
+      });
+    }
+
+    return chunks;
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
 };
 
 export const splitPdfByChunkSize = async (
@@ -67,29 +149,313 @@ export const splitPdfByChunkSize = async (
     throw new PdfLoadError("unsupported", "Chunk size must be at least one page.");
   }
 
+  const ranges: SplitRange[] = [];
+  for (let start = 1; start <= pdf.pageCount; start += chunkSize) {
+    ranges.push({ startPage: start, endPage: Math.min(pdf.pageCount, start + chunkSize - 1) });
+  }
+
+  const source = await loadSourceDocument(pdf);
+  return copyRangesToChunks(source, ranges);
+};
+
+/** Flattens per-slice copy warnings into one list, labelled with each slice's pages. */
+export const collectChunkWarnings = (chunks: SplitChunk[]): string[] =>
+  chunks.flatMap((chunk) =>
+    chunk.warnings.map((warning) =>
+      chunk.startPage === chunk.endPage
+        ? `Page ${chunk.startPage}: ${warning}`
+        : `Pages ${chunk.startPage}-${chunk.endPage}: ${warning}`,
+    ),
+  );
+
+export type SizeSplitResult = {
+  chunks: SplitChunk[];
+  oversizedPages: number[];
+  warnings: string[];
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Greedily packs consecutive pages into chunks whose saved size stays at or under
+ * `maxBytes`. Candidate chunks are actually serialized, since shared fonts and images make
+ * per-page sizes non-additive, but the end page is found by doubling the range and then
+ * binary-searching the boundary, so each chunk costs a logarithmic number of saves rather
+ * than one per page. Pages that exceed the limit alone become their own chunk and are
+ * reported in `oversizedPages` and `warnings`.
+ */
+export const splitPdfByMaxSize = async (
+  pdf: LoadedPdf,
+  maxBytes: number,
+): Promise<SizeSplitResult> => {
+  if (!Number.isFinite(maxBytes) || maxBytes <= 0) {
+    throw new PdfLoadError("unsupported", "Size limit must be greater than zero.");
+  }
+
   const source = await loadSourceDocument(pdf);
 
   try {
     const chunks: SplitChunk[] = [];
-    let index = 0;
-
-    for (let start = 0; start < pdf.pageCount; start += chunkSize) {
-      const end = Math.min(pdf.pageCount, start + chunkSize);
-      const copyingIndices = Array.from({ length: end - start }, (_, offset) => start + offset);
-      const chunkDoc = await PDFDocument.create();
-      const copiedPages = await chunkDoc.copyPages(source, copyingIndices);
-      copiedPages.forEach((page) => chunkDoc.addPage(page));
-      const bytes = await chunkDoc.save();
-      chunks.push({ index, startPage: start + 1, endPage: end, bytes });
-      index += 1;
+    const oversizedPages: number[] = [];
+    const warnings: string[] = [];
+    let startPage = 1;
+
+    while (startPage <= pdf.pageCount) {
+      let endPage = startPage;
+      let saved = await saveRange(source, { startPage, endPage });
+
+      if (saved.bytes.length > maxBytes) {
+        oversizedPages.push(startPage);
+        warnings.push(
+          `Page ${startPage} alone is ${formatMegabytes(saved.bytes.length)}, over the ${formatMegabytes(
+            maxBytes,
+          )} limit; it was exported by itself.`,
+        );
+      } else {
+        // `endPage` always fits; `tooFar` is the first end page known not to.
+        let tooFar = pdf.pageCount + 1;
+        for (let step = 1; endPage < pdf.pageCount; step *= 2) {
+          const candidateEnd = Math.min(pdf.pageCount, startPage + step);
+          const candidate = await saveRange(source, { startPage, endPage: candidateEnd });
+          if (candidate.bytes.length > maxBytes) {
+            tooFar = candidateEnd;
+            break;
+          }
+          endPage = candidateEnd;
+          saved = candidate;
+        }
+
+        while (tooFar - endPage > 1) {
+          const middle = Math.floor((endPage + tooFar) / 2);
+          const candidate = await saveRange(source, { startPage, endPage: middle });
+          if (candidate.bytes.length > maxBytes) {
+            tooFar = middle;
+          } else {
+            endPage = middle;
+            saved = candidate;
+          }
+        }
+      }
+
+      chunks.push({ index: chunks.length, startPage, endPage, ...saved });
+      startPage = endPage + 1;
     }
 
-    return chunks;
+    return { chunks, oversizedPages, warnings: [...warnings, ...collectChunkWarnings(chunks)] };
   } catch (error) {
+    if (error instanceof PdfLoadError) {
+      throw error;
+    }
     throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
   }
 };
 
+export type OutlineSection = SplitRange & {
+  title: string;
+  depth: number;
+};
+
+type OutlineStart = Omit<OutlineSection, "endPage">;
+
+/**
+ * Turns bookmark start pages into contiguous sections that run until the next bookmark.
+ * Bookmarks sharing a start page collapse into the first one, and any pages before the
+ * first bookmark become a "Front matter" section so nothing is dropped.
+ */
+export const buildOutlineSections = (
+  starts: OutlineStart[],
+  pageCount: number,
+): OutlineSection[] => {
+  const ordered = starts
+    .filter((entry) => entry.startPage >= 1 && entry.startPage <= pageCount)
+    .sort((a, b) => a.startPage - b.startPage);
+  const unique = ordered.filter(
+    (entry, index) => entry.startPage !== ordered[index - 1]?.startPage,
+  );
+
+  const first = unique[0];
+  if (!first) {
+    throw new PdfLoadError("unsupported", "None of this PDF's bookmarks point to a page.");
+  }
+
+  const sections: OutlineSection[] =
+    first.startPage > 1
+      ? [{ title: "Front matter", startPage: 1, endPage: first.startPage - 1, depth: 0 }]
+      : [];
+
+  unique.forEach((entry, index) => {
+    const next = unique[index + 1];
+    sections.push({ ...entry, endPage: next ? next.startPage - 1 : pageCount });
+  });
+
+  return sections;
+};
+
+export const resolveOutlineSections = async (
+  pdf: LoadedPdf,
+  depth = 1,
+): Promise<OutlineSection[]> => {
+  let outline: OutlineNode[] | null;
+  try {
+    outline = await pdf.doc.getOutline();
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  if (!outline || outline.length === 0) {
+    throw new PdfLoadError("unsupported", "This PDF has no bookmarks to split on.");
+  }
+
+  const starts: OutlineStart[] = [];
+  const visit = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const page = await resolveDestinationPage(pdf.doc, node.dest).catch(() => null);
+      if (page !== null) {
+        starts.push({
+          title: node.title.trim() || `Section ${starts.length + 1}`,
+          startPage: page,
+          depth: level,
+        });
+      }
+
+      if (level < depth && node.items && node.items.length > 0) {
+        await visit(node.items, level + 1);
+      }
+    }
+  };
+
+  await visit(outline, 1);
+  return buildOutlineSections(starts, pdf.pageCount);
+};
+
+export const splitPdfByRanges = async (
+  pdf: LoadedPdf,
+  ranges: SplitRange[],
+): Promise<SplitChunk[]> => {
+  const invalid = ranges.find(
+    (range) =>
+      range.startPage < 1 || range.endPage > pdf.pageCount || range.endPage < range.startPage,
+  );
+  if (ranges.length === 0 || invalid) {
+    throw new PdfLoadError("unsupported", "Each split range must cover valid pages.");
+  }
+
+  const source = await loadSourceDocument(pdf);
+  return copyRangesToChunks(source, ranges);
+};
+
+const BLANK_RENDER_SCALE = 0.2;
+const BLANK_MARGIN = 0.05;
+const INK_LUMINANCE = 200;
+
+/**
+ * Fraction of pixels dark enough to count as ink in an RGBA buffer. A margin on every
+ * edge is ignored because scanners tend to leave shadows and punch holes along the border.
+ */
+export const measureInkCoverage = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  margin = BLANK_MARGIN,
+): number => {
+  const insetX = Math.floor(width * margin);
+  const insetY = Math.floor(height * margin);
+  let inked = 0;
+  let total = 0;
+
+  for (let y = insetY; y < height - insetY; y += 1) {
+    for (let x = insetX; x < width - insetX; x += 1) {
+      const offset = (y * width + x) * 4;
+      const alpha = (pixels[offset + 3] ?? 255) / 255;
+      // Composite over white so transparent regions read as paper.
+      const luminance =
+        255 * (1 - alpha) +
+        alpha *
+          (0.299 * (pixels[offset] ?? 255) +
+            0.587 * (pixels[offset + 1] ?? 255) +
+            0.114 * (pixels[offset + 2] ?? 255));
+      if (luminance < INK_LUMINANCE) {
+        inked += 1;
+      }
+      total += 1;
+    }
+  }
+
+  return total > 0 ? inked / total : 0;
+};
+
+export const measurePageInkCoverage = async (pdf: LoadedPdf): Promise<number[]> => {
+  const coverage: number[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.pageCount; pageNumber += 1) {
+      const page = await pdf.doc.getPage(pageNumber);
+      const canvas = document.createElement("canvas");
+      try {
+        const viewport = page.getViewport({ scale: BLANK_RENDER_SCALE });
+        canvas.width = Math.max(1, Math.round(viewport.width));
+        canvas.height = Math.max(1, Math.round(viewport.height));
+        const context = canvas.getContext("2d");
+        if (!context) {
+          throw new PdfLoadError("unsupported", "Canvas rendering is unavailable in this browser.");
+        }
+
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvas, canvasContext: context, viewport }).promise;
+        const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+        coverage.push(measureInkCoverage(data, canvas.width, canvas.height));
+      } finally {
+        page.cleanup();
+        // Zero-sized canvases release their backing store right away instead of at GC.
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    }
+  } catch (error) {
+    if (error instanceof PdfLoadError) {
+      throw error;
+    }
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  return coverage;
+};
+
+export const findBlankPages = (coverage: number[], threshold: number): number[] =>
+  coverage.flatMap((value, index) => (value <= threshold ? [index + 1] : []));
+
+/**
+ * Splits the page sequence at blank separator pages, dropping the separators themselves.
+ * Runs of consecutive blanks count as a single boundary.
+ */
+export const buildSeparatorRanges = (blankPages: number[], pageCount: number): SplitRange[] => {
+  const blanks = new Set(blankPages);
+  const ranges: SplitRange[] = [];
+  let startPage: number | null = null;
+
+  for (let page = 1; page <= pageCount; page += 1) {
+    if (blanks.has(page)) {
+      if (startPage !== null) {
+        ranges.push({ startPage, endPage: page - 1 });
+        startPage = null;
+      }
+    } else if (startPage === null) {
+      startPage = page;
+    }
+  }
+
+  if (startPage !== null) {
+    ranges.push({ startPage, endPage: pageCount });
+  }
+
+  if (ranges.length === 0) {
+    throw new PdfLoadError("unsupported", "Every page looks blank at this threshold.");
+  }
+
+  return ranges;
+};
+
 export type ZipEntry = {
   fileName: string;
   bytes: Uint8Array;
@@ -0,0 +1,44 @@
+import { TextLayer } from "pdfjs-dist";
+import type { TextContent } from "pdfjs-dist/types/src/display/api";
+import type { PageViewport } from "pdfjs-dist/types/src/display/display_utils";
+
+export type TextLayerHandle = {
+  rendered: Promise<void>;
+  cancel: () => void;
+};
+
+/**
+ * Lays out transparent, selectable spans for a page's text inside `container`, sized to
+ * match a canvas rendered with the same viewport. pdf.js accounts for the device pixel
+ * ratio when measuring glyph widths, so the spans line up on high-DPI screens too.
+ */
+export const renderTextLayer = (
+  container: HTMLElement,
+  textContent: TextContent,
+  viewport: PageViewport,
+): TextLayerHandle => {
+  container.replaceChildren();
+  container.style.setProperty("--total-scale-factor", String(viewport.scale));
+
+  const layer = new TextLayer({ textContentSource: textContent, container, viewport });
+  const rendered = layer.render().then(() => {
+    // Catches drags past the last span so selections don't jump to the page start.
+    const endOfContent = document.createElement("div");
+    endOfContent.className = "endOfContent";
+    container.append(endOfContent);
+  });
+
+  return { rendered, cancel: () => layer.cancel() };
+};
+
+/**
+ * Cleans up a selection taken from the text layer before it goes to the clipboard:
+ * drops NUL padding some PDFs emit, trailing spaces before line breaks, and runs of
+ * blank lines left by empty text runs.
+ */
+export const normalizeSelectedText = (text: string) =>
+  text
+    .replace(/\0/g, "")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
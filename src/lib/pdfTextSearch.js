@@ -0,0 +1,116 @@
+const SNIPPET_CONTEXT = 40;
+export const MAX_SEARCH_HITS = 500;
+// Glyphs dip below the baseline; pad the highlight so descenders are covered.
+const DESCENT_RATIO = 0.25;
+const isTextItem = (item) => "str" in item;
+/**
+ * Joins a page's text runs into one searchable string. Runs flagged with `hasEOL` get a
+ * space after them so words on consecutive lines don't fuse together.
+ */
+export const buildPageTextIndex = (pageNumber, items) => {
+    let text = "";
+    const indexed = [];
+    items.filter(isTextItem).forEach((item) => {
+        const start = text.length;
+        text += item.str;
+        indexed.push({
+            start,
+            end: text.length,
+            transform: item.transform,
+            width: item.width,
+            height: item.height,
+        });
+        if (item.hasEOL && !text.endsWith(" ")) {
+            text += " ";
+        }
+    });
+    return { pageNumber, text, items: indexed };
+};
+export const buildTextIndex = async (doc, options) => {
+    const pages = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+        if (options?.signal?.aborted) {
+            break;
+        }
+        const page = await doc.getPage(pageNumber);
+        const content = await page.getTextContent();
+        page.cleanup();
+        pages.push(buildPageTextIndex(pageNumber, content.items));
+        options?.onPage?.(pageNumber);
+    }
+    return pages;
+};
+const normalizeQuery = (query) => query.replace(/\s+/g, " ").trim();
+const collapseSnippet = (value) => value.replace(/\s+/g, " ");
+const rangesForSpan = (page, start, end) => page.items.flatMap((item, itemIndex) => {
+    const overlapStart = Math.max(start, item.start);
+    const overlapEnd = Math.min(end, item.end);
+    return overlapStart < overlapEnd
+        ? [{ itemIndex, start: overlapStart - item.start, end: overlapEnd - item.start }]
+        : [];
+});
+/**
+ * Case-insensitive substring search across the index. Hits are ordered by page and
+ * position and capped so a one-letter query on a huge document stays responsive.
+ */
+export const searchTextIndex = (index, query) => {
+    const needle = normalizeQuery(query).toLowerCase();
+    if (!needle) {
+        return [];
+    }
+    const hits = [];
+    for (const page of index) {
+        const haystack = page.text.toLowerCase();
+        let from = haystack.indexOf(needle);
+        while (from !== -1 && hits.length < MAX_SEARCH_HITS) {
+            const to = from + needle.length;
+            hits.push({
+                id: `${page.pageNumber}-${from}`,
+                pageNumber: page.pageNumber,
+                before: collapseSnippet(page.text.slice(Math.max(0, from - SNIPPET_CONTEXT), from)),
+                match: page.text.slice(from, to),
+                after: collapseSnippet(page.text.slice(to, to + SNIPPET_CONTEXT)),
+                ranges: rangesForSpan(page, from, to),
+            });
+            from = haystack.indexOf(needle, to);
+        }
+        if (hits.length >= MAX_SEARCH_HITS) {
+            break;
+        }
+    }
+    return hits;
+};
+const applyTransform = (matrix, x, y) => {
+    const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = matrix;
+    return [a * x + c * y + e, b * x + d * y + f];
+};
+/**
+ * Maps the matched slice of each text item into CSS pixel rectangles for a viewport.
+ * The slice is estimated proportionally from character offsets, which is close enough
+ * for highlighting without measuring individual glyphs.
+ */
+export const computeHighlightRects = (page, ranges, viewportTransform) => ranges.flatMap((range) => {
+    const item = page.items[range.itemIndex];
+    const length = item ? item.end - item.start : 0;
+    if (!item || length === 0) {
+        return [];
+    }
+    const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = item.transform;
+    const advance = Math.hypot(a, b) || 1;
+    const rise = Math.hypot(c, d) || 1;
+    const x0 = (item.width * range.start) / length;
+    const x1 = (item.width * range.end) / length;
+    const y0 = -item.height * DESCENT_RATIO;
+    const y1 = item.height;
+    const corners = [
+        [x0, y0],
+        [x1, y0],
+        [x0, y1],
+        [x1, y1],
+    ].map(([x = 0, y = 0]) => applyTransform(viewportTransform, e + (a / advance) * x + (c / rise) * y, f + (b / advance) * x + (d / rise) * y));
+    const xs = corners.map(([x]) => x);
+    const ys = corners.map(([, y]) => y);
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    return [{ left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top }];
+});
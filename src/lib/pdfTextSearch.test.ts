@@ -0,0 +1,67 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import { buildPageTextIndex, computeHighlightRects, searchTextIndex } from "./pdfTextSearch";
+
+const textItem = (str: string, x: number, y: number, options?: { hasEOL?: boolean }): TextItem => ({
+  str,
+  dir: "ltr",
+  transform: [10, 0, 0, 10, x, y],
+  width: str.length * 5,
+  height: 10,
+  fontName: "g_d0_f1",
+  hasEOL: options?.hasEOL ?? false,
+});
+
+describe("pdfTextSearch", () => {
+  it("joins text runs and separates lines with a space", () => {
+    const page = buildPageTextIndex(1, [
+      textItem("Quarterly", 72, 700, { hasEOL: true }),
+      { type: "beginMarkedContent", id: "mc0" },
+      textItem("report", 72, 686),
+    ]);
+
+    vitestExpect(page.text).toBe("Quarterly report");
+    vitestExpect(page.items.map(({ start, end }) => [start, end])).toEqual([
+      [0, 9],
+      [10, 16],
+    ]);
+  });
+
+  it("finds case-insensitive matches across runs with snippets and item ranges", () => {
+    const index = [
+      buildPageTextIndex(1, [textItem("Nothing to see here", 72, 700)]),
+      buildPageTextIndex(2, [
+        textItem("Annual Quarterly", 72, 700, { hasEOL: true }),
+        textItem("report for quarterly review", 72, 686),
+      ]),
+    ];
+
+    const hits = searchTextIndex(index, "  QUARTERLY   report ");
+
+    vitestExpect(hits).toHaveLength(1);
+    const [hit] = hits;
+    vitestExpect(hit!.pageNumber).toBe(2);
+    vitestExpect(hit!.before).toBe("Annual ");
+    vitestExpect(hit!.match).toBe("Quarterly report");
+    vitestExpect(hit!.after).toBe(" for quarterly review");
+    vitestExpect(hit!.ranges).toEqual([
+      { itemIndex: 0, start: 7, end: 16 },
+      { itemIndex: 1, start: 0, end: 6 },
+    ]);
+    vitestExpect(searchTextIndex(index, "quarterly")).toHaveLength(2);
+    vitestExpect(searchTextIndex(index, "   ")).toEqual([]);
+  });
+
+  it("maps matched characters through the viewport transform", () => {
+    const page = buildPageTextIndex(1, [textItem("abcdef", 100, 200)]);
+    const ranges = [{ itemIndex: 0, start: 2, end: 4 }];
+
+    const [identity] = computeHighlightRects(page, ranges, [1, 0, 0, 1, 0, 0]);
+    vitestExpect(identity).toEqual({ left: 110, top: 197.5, width: 10, height: 12.5 });
+
+    // A 2x viewport of an 842pt-tall page flips y so the origin sits top-left.
+    const [scaled] = computeHighlightRects(page, ranges, [2, 0, 0, -2, 0, 1684]);
+    vitestExpect(scaled).toEqual({ left: 220, top: 1264, width: 20, height: 25 });
+  });
+});
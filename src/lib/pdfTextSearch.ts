@@ -0,0 +1,199 @@
+import type {
+  PDFDocumentProxy,
+  TextItem,
+  TextMarkedContent,
+} from "pdfjs-dist/types/src/display/api";
+
+/** A text run positioned on the page, with its character span in the page's joined text. */
+export type IndexedTextItem = {
+  start: number;
+  end: number;
+  transform: number[];
+  width: number;
+  height: number;
+};
+
+export type PageTextIndex = {
+  pageNumber: number;
+  text: string;
+  items: IndexedTextItem[];
+};
+
+export type SearchHitRange = {
+  itemIndex: number;
+  /** Character offsets within the item's own string. */
+  start: number;
+  end: number;
+};
+
+export type SearchHit = {
+  id: string;
+  pageNumber: number;
+  before: string;
+  match: string;
+  after: string;
+  ranges: SearchHitRange[];
+};
+
+export type HighlightRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+const SNIPPET_CONTEXT = 40;
+export const MAX_SEARCH_HITS = 500;
+// Glyphs dip below the baseline; pad the highlight so descenders are covered.
+const DESCENT_RATIO = 0.25;
+
+const isTextItem = (item: TextItem | TextMarkedContent): item is TextItem => "str" in item;
+
+/**
+ * Joins a page's text runs into one searchable string. Runs flagged with `hasEOL` get a
+ * space after them so words on consecutive lines don't fuse together.
+ */
+export const buildPageTextIndex = (
+  pageNumber: number,
+  items: Array<TextItem | TextMarkedContent>,
+): PageTextIndex => {
+  let text = "";
+  const indexed: IndexedTextItem[] = [];
+
+  items.filter(isTextItem).forEach((item) => {
+    const start = text.length;
+    text += item.str;
+    indexed.push({
+      start,
+      end: text.length,
+      transform: item.transform as number[],
+      width: item.width,
+      height: item.height,
+    });
+    if (item.hasEOL && !text.endsWith(" ")) {
+      text += " ";
+    }
+  });
+
+  return { pageNumber, text, items: indexed };
+};
+
+export const buildTextIndex = async (
+  doc: PDFDocumentProxy,
+  options?: { signal?: AbortSignal; onPage?: (indexed: number) => void },
+): Promise<PageTextIndex[]> => {
+  const pages: PageTextIndex[] = [];
+
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+    if (options?.signal?.aborted) {
+      break;
+    }
+
+    const page = await doc.getPage(pageNumber);
+    const content = await page.getTextContent();
+    page.cleanup();
+    pages.push(buildPageTextIndex(pageNumber, content.items));
+    options?.onPage?.(pageNumber);
+  }
+
+  return pages;
+};
+
+const normalizeQuery = (query: string) => query.replace(/\s+/g, " ").trim();
+
+const collapseSnippet = (value: string) => value.replace(/\s+/g, " ");
+
+const rangesForSpan = (page: PageTextIndex, start: number, end: number): SearchHitRange[] =>
+  page.items.flatMap((item, itemIndex) => {
+    const overlapStart = Math.max(start, item.start);
+    const overlapEnd = Math.min(end, item.end);
+    return overlapStart < overlapEnd
+      ? [{ itemIndex, start: overlapStart - item.start, end: overlapEnd - item.start }]
+      : [];
+  });
+
+/**
+ * Case-insensitive substring search across the index. Hits are ordered by page and
+ * position and capped so a one-letter query on a huge document stays responsive.
+ */
+export const searchTextIndex = (index: PageTextIndex[], query: string): SearchHit[] => {
+  const needle = normalizeQuery(query).toLowerCase();
+  if (!needle) {
+    return [];
+  }
+
+  const hits: SearchHit[] = [];
+  for (const page of index) {
+    const haystack = page.text.toLowerCase();
+    let from = haystack.indexOf(needle);
+
+    while (from !== -1 && hits.length < MAX_SEARCH_HITS) {
+      const to = from + needle.length;
+      hits.push({
+        id: `${page.pageNumber}-${from}`,
+        pageNumber: page.pageNumber,
+        before: collapseSnippet(page.text.slice(Math.max(0, from - SNIPPET_CONTEXT), from)),
+        match: page.text.slice(from, to),
+        after: collapseSnippet(page.text.slice(to, to + SNIPPET_CONTEXT)),
+        ranges: rangesForSpan(page, from, to),
+      });
+      from = haystack.indexOf(needle, to);
+    }
+
+    if (hits.length >= MAX_SEARCH_HITS) {
+      break;
+    }
+  }
+
+  return hits;
+};
+
+const applyTransform = (matrix: number[], x: number, y: number): [number, number] => {
+  const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = matrix;
+  return [a * x + c * y + e, b * x + d * y + f];
+};
+
+/**
+ * Maps the matched slice of each text item into CSS pixel rectangles for a viewport.
+ * The slice is estimated proportionally from character offsets, which is close enough
+ * for highlighting without measuring individual glyphs.
+ */
+export const computeHighlightRects = (
+  page: PageTextIndex,
+  ranges: SearchHitRange[],
+  viewportTransform: number[],
+): HighlightRect[] =>
+  ranges.flatMap((range) => {
+    const item = page.items[range.itemIndex];
+    const length = item ? item.end - item.start : 0;
+    if (!item || length === 0) {
+      return [];
+    }
+
+    const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = item.transform;
+    const advance = Math.hypot(a, b) || 1;
+    const rise = Math.hypot(c, d) || 1;
+    const x0 = (item.width * range.start) / length;
+    const x1 = (item.width * range.end) / length;
+    const y0 = -item.height * DESCENT_RATIO;
+    const y1 = item.height;
+
+    const corners = [
+      [x0, y0],
+      [x1, y0],
+      [x0, y1],
+      [x1, y1],
+    ].map(([x = 0, y = 0]) =>
+      applyTransform(
+        viewportTransform,
+        e + (a / advance) * x + (c / rise) * y,
+        f + (b / advance) * x + (d / rise) * y,
+      ),
+    );
+
+    const xs = corners.map(([x]) => x);
+    const ys = corners.map(([, y]) => y);
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    return [{ left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top }];
+  });
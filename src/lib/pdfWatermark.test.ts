@@ -0,0 +1,88 @@
+import { PDFDict, PDFDocument, PDFName } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import type { LoadedPdf } from "./pdfLoader";
+import { layoutWatermark, watermarkPdf, type TextWatermark } from "./pdfWatermark";
+
+const createLoadedPdf = async (pageCount: number): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.addPage([612, 792]);
+  }
+
+  const data = await doc.save();
+  return {
+    id: "test-watermark",
+    name: "draft.pdf",
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount,
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const TEXT_WATERMARK: TextWatermark = {
+  kind: "text",
+  text: "DRAFT",
+  font: "helvetica-bold",
+  fontSize: 48,
+  color: "#dc2626",
+  opacity: 0.3,
+  rotation: 45,
+  tiled: false,
+};
+
+describe("pdfWatermark", () => {
+  it("centers a single stamp and tiles a bounded grid across the page", () => {
+    const page = { width: 612, height: 792 };
+    const stamp = { width: 200, height: 40 };
+
+    vitestExpect(layoutWatermark(page, stamp, 30, false)).toEqual([{ x: 306, y: 396 }]);
+
+    const tiles = layoutWatermark(page, stamp, 0, true);
+    vitestExpect(tiles).toContainEqual({ x: 306, y: 396 });
+    vitestExpect(tiles.some((tile) => tile.x <= 0 && tile.y <= 0)).toBe(true);
+    vitestExpect(tiles.some((tile) => tile.x >= 612 && tile.y >= 792)).toBe(true);
+
+    const tinyTiles = layoutWatermark(page, { width: 1, height: 1 }, 0, true);
+    vitestExpect(tinyTiles.length).toBeLessThan(600);
+  });
+
+  it("stamps only the selected pages", async () => {
+    const pdf = await createLoadedPdf(3);
+    const result = await watermarkPdf(pdf, TEXT_WATERMARK, [3, 1, 9]);
+    const output = await PDFDocument.load(await readBlob(result.blob));
+
+    const hasFont = (index: number) => {
+      const resources = output.getPage(index).node.Resources();
+      return resources?.lookupMaybe(PDFName.of("Font"), PDFDict) !== undefined;
+    };
+
+    vitestExpect(output.getPageCount()).toBe(3);
+    vitestExpect([hasFont(0), hasFont(1), hasFont(2)]).toEqual([true, false, true]);
+    vitestExpect(result.activity.operation).toBe("watermark-text");
+    vitestExpect(result.activity.detail).toBe('draft.pdf · "DRAFT" on 2 pages');
+  });
+
+  it("rejects an empty selection and text the standard fonts can't encode", async () => {
+    const pdf = await createLoadedPdf(1);
+
+    await vitestExpect(watermarkPdf(pdf, TEXT_WATERMARK, [])).rejects.toMatchObject({
+      code: "unsupported",
+    });
+    await vitestExpect(
+      watermarkPdf(pdf, { ...TEXT_WATERMARK, text: "機密" }, [1]),
+    ).rejects.toMatchObject({ code: "unsupported" });
+  });
+});
@@ -0,0 +1,309 @@
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont } from "pdf-lib";
+
+import { buildDownloadName, type ExportResult } from "./documentPipeline";
+import { PdfLoadError } from "./pdfErrors";
+import type { LoadedPdf } from "./pdfLoader";
+
+export type WatermarkFont = "helvetica" | "helvetica-bold" | "times-roman" | "courier";
+
+export type WatermarkImage = {
+  mimeType: "image/png" | "image/jpeg";
+  bytes: Uint8Array;
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+type WatermarkBase = {
+  /** 0–1, applied to both text and images. */
+  opacity: number;
+  /** Degrees counter-clockwise, as the page appears on screen. */
+  rotation: number;
+  /** Repeat the stamp across the page instead of drawing it once in the center. */
+  tiled: boolean;
+};
+
+export type TextWatermark = WatermarkBase & {
+  kind: "text";
+  text: string;
+  font: WatermarkFont;
+  fontSize: number;
+  /** `#rrggbb` */
+  color: string;
+};
+
+export type ImageWatermark = WatermarkBase & {
+  kind: "image";
+  image: WatermarkImage;
+  /** Stamp width as a fraction (0–1) of the page width on screen. */
+  widthFraction: number;
+};
+
+export type WatermarkSettings = TextWatermark | ImageWatermark;
+
+export type StampSize = {
+  width: number;
+  height: number;
+};
+
+/** Stamp center in points, measured from the top-left corner of the page as displayed. */
+export type StampCenter = {
+  x: number;
+  y: number;
+};
+
+export const WATERMARK_FONTS: { id: WatermarkFont; label: string; standardFont: StandardFonts }[] =
+  [
+    { id: "helvetica", label: "Helvetica", standardFont: StandardFonts.Helvetica },
+    { id: "helvetica-bold", label: "Helvetica Bold", standardFont: StandardFonts.HelveticaBold },
+    { id: "times-roman", label: "Times", standardFont: StandardFonts.TimesRoman },
+    { id: "courier", label: "Courier", standardFont: StandardFonts.Courier },
+  ];
+
+// Space between tiles, on top of the rotated stamp's own footprint.
+const TILE_GAP = 48;
+// Keeps tiny stamps on huge pages from writing thousands of draw operations.
+const MAX_TILES_PER_PAGE = 400;
+
+export const resolveStandardFont = (font: WatermarkFont) =>
+  WATERMARK_FONTS.find((option) => option.id === font)?.standardFont ?? StandardFonts.Helvetica;
+
+export const normalizeRotation = (value: number) =>
+  (((Math.round(value / 90) * 90) % 360) + 360) % 360;
+
+export const parseHexColor = (hex: string) => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  const value = match ? Number.parseInt(match[1] ?? "0", 16) : 0;
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+};
+
+const measureText = (font: PDFFont, text: string, fontSize: number): StampSize => ({
+  width: font.widthOfTextAtSize(text, fontSize),
+  height: font.heightAtSize(fontSize, { descender: false }),
+});
+
+const measurementFonts = new Map<WatermarkFont, Promise<PDFFont>>();
+
+/**
+ * Measures a text stamp with the same standard-font metrics the export uses, so previews
+ * tile exactly like the saved file. Fonts are embedded once into a scratch document.
+ */
+export const measureTextWatermark = async (
+  text: string,
+  font: WatermarkFont,
+  fontSize: number,
+): Promise<StampSize> => {
+  let pending = measurementFonts.get(font);
+  if (!pending) {
+    pending = PDFDocument.create().then((doc) => doc.embedFont(resolveStandardFont(font)));
+    measurementFonts.set(font, pending);
+  }
+  return measureText(await pending, text, fontSize);
+};
+
+export const resolveImageStampSize = (
+  watermark: Pick<ImageWatermark, "image" | "widthFraction">,
+  visualPageWidth: number,
+): StampSize => {
+  const width = Math.max(0.01, Math.min(1, watermark.widthFraction)) * visualPageWidth;
+  const ratio = watermark.image.width > 0 ? watermark.image.height / watermark.image.width : 1;
+  return { width, height: width * ratio };
+};
+
+/**
+ * Lays out stamp centers on a page. A single stamp sits in the middle; tiles form a
+ * brick pattern whose spacing follows the rotated stamp's bounding box, extending past
+ * the edges so partially visible tiles fill the corners.
+ */
+export const layoutWatermark = (
+  page: StampSize,
+  stamp: StampSize,
+  rotation: number,
+  tiled: boolean,
+): StampCenter[] => {
+  const center = { x: page.width / 2, y: page.height / 2 };
+  if (!tiled) {
+    return [center];
+  }
+
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  let stepX = stamp.width * cos + stamp.height * sin + TILE_GAP;
+  let stepY = stamp.width * sin + stamp.height * cos + TILE_GAP;
+
+  const estimate = (page.width / stepX + 2) * (page.height / stepY + 2);
+  if (estimate > MAX_TILES_PER_PAGE) {
+    const stretch = Math.sqrt(estimate / MAX_TILES_PER_PAGE);
+    stepX *= stretch;
+    stepY *= stretch;
+  }
+
+  const rows = Math.ceil(page.height / 2 / stepY) + 1;
+  const columns = Math.ceil(page.width / 2 / stepX) + 1;
+  const centers: StampCenter[] = [];
+
+  for (let row = -rows; row <= rows; row += 1) {
+    const offset = row % 2 === 0 ? 0 : stepX / 2;
+    for (let column = -columns; column <= columns; column += 1) {
+      centers.push({ x: center.x + column * stepX + offset, y: center.y + row * stepY });
+    }
+  }
+
+  return centers;
+};
+
+/** Maps a point from on-screen page space into PDF user space for a page with `/Rotate`. */
+export const mapDisplayPointToPdf = (
+  point: StampCenter,
+  pageSize: { width: number; height: number },
+  pageRotation: number,
+) => {
+  switch (pageRotation) {
+    case 90:
+      return { x: point.y, y: point.x };
+    case 180:
+      return { x: pageSize.width - point.x, y: point.y };
+    case 270:
+      return { x: pageSize.width - point.y, y: pageSize.height - point.x };
+    case 0:
+    default:
+      return { x: point.x, y: pageSize.height - point.y };
+  }
+};
+
+/**
+ * pdf-lib rotates text and images around their lower-left origin, so walk back from the
+ * desired center by half the rotated stamp.
+ */
+const originForCenter = (center: { x: number; y: number }, stamp: StampSize, angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const halfWidth = stamp.width / 2;
+  const halfHeight = stamp.height / 2;
+  return {
+    x: center.x - (halfWidth * Math.cos(radians) - halfHeight * Math.sin(radians)),
+    y: center.y - (halfWidth * Math.sin(radians) + halfHeight * Math.cos(radians)),
+  };
+};
+
+const describeWatermark = (settings: WatermarkSettings) =>
+  settings.kind === "text" ? `"${settings.text.trim()}"` : "image";
+
+type WatermarkOptions = {
+  startedAt?: number;
+};
+
+export const watermarkPdf = async (
+  pdf: LoadedPdf,
+  settings: WatermarkSettings,
+  pageNumbers: number[],
+  options?: WatermarkOptions,
+): Promise<ExportResult> => {
+  const startedAt = options?.startedAt ?? Date.now();
+  const pages = Array.from(new Set(pageNumbers))
+    .filter((pageNumber) => pageNumber >= 1 && pageNumber <= pdf.pageCount)
+    .sort((a, b) => a - b);
+
+  if (pages.length === 0) {
+    throw new PdfLoadError("unsupported", "Select at least one page to watermark.");
+  }
+  if (settings.kind === "text" && !settings.text.trim()) {
+    throw new PdfLoadError("unsupported", "Enter the watermark text first.");
+  }
+
+  let output: PDFDocument;
+  try {
+    output = await PDFDocument.load(pdf.data);
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  try {
+    const opacity = Math.max(0, Math.min(1, settings.opacity));
+    const font =
+      settings.kind === "text" ? await output.embedFont(resolveStandardFont(settings.font)) : null;
+    const image =
+      settings.kind === "image"
+        ? settings.image.mimeType === "image/png"
+          ? await output.embedPng(settings.image.bytes)
+          : await output.embedJpg(settings.image.bytes)
+        : null;
+    const textStamp =
+      settings.kind === "text" && font
+        ? measureText(font, settings.text.trim(), settings.fontSize)
+        : null;
+
+    pages.forEach((pageNumber) => {
+      const page = output.getPage(pageNumber - 1);
+      const pageSize = page.getSize();
+      const pageRotation = normalizeRotation(page.getRotation().angle);
+      const isQuarterTurn = pageRotation === 90 || pageRotation === 270;
+      const visual = isQuarterTurn ? { width: pageSize.height, height: pageSize.width } : pageSize;
+      const stamp =
+        settings.kind === "image" ? resolveImageStampSize(settings, visual.width) : textStamp;
+      if (!stamp) {
+        return;
+      }
+      // Counter the page's own rotation so the stamp reads at the requested angle on screen.
+      const angle = settings.rotation + pageRotation;
+
+      layoutWatermark(visual, stamp, settings.rotation, settings.tiled).forEach((center) => {
+        const origin = originForCenter(
+          mapDisplayPointToPdf(center, pageSize, pageRotation),
+          stamp,
+          angle,
+        );
+        if (settings.kind === "text" && font) {
+          page.drawText(settings.text.trim(), {
+            x: origin.x,
+            y: origin.y,
+            size: settings.fontSize,
+            font,
+            color: parseHexColor(settings.color),
+            opacity,
+            rotate: degrees(angle),
+          });
+        } else if (image) {
+          page.drawImage(image, {
+            x: origin.x,
+            y: origin.y,
+            width: stamp.width,
+            height: stamp.height,
+            opacity,
+            rotate: degrees(angle),
+          });
+        }
+      });
+    });
+
+    const bytes = await output.save();
+    const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+
+    return {
+      blob,
+      size: blob.size,
+      downloadName: buildDownloadName(pdf.name, "watermarked"),
+      durationMs: Math.max(0, Date.now() - startedAt),
+      activity: {
+        tool: "watermark",
+        operation: `watermark-${settings.kind}${settings.tiled ? "-tiled" : ""}`,
+        sourceCount: 1,
+        detail: `${pdf.name} · ${describeWatermark(settings)} on ${pages.length} page${
+          pages.length === 1 ? "" : "s"
+        }`,
+        // Image stamps carry their bytes, which don't belong in the persisted activity log.
+        replay: settings.kind === "text" ? { tool: "watermark", settings, pages } : undefined,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : undefined;
+    // Standard fonts only cover WinAnsi, so scripts outside Latin-1 can't be drawn.
+    if (message && /cannot encode/i.test(message)) {
+      throw new PdfLoadError(
+        "unsupported",
+        "The watermark text uses characters the built-in fonts can't draw. Try an image watermark instead.",
+      );
+    }
+    throw new PdfLoadError("unknown", message);
+  }
+};
@@ -0,0 +1,182 @@
+/**
+ * IndexedDB persistence for workspace state and logged exports. Sources are stored once by id
+ * and shared between workspaces; a source is deleted as soon as no saved workspace refers to it.
+ */
+const DB_NAME = "pdf-workbench-session";
+const DB_VERSION = 2;
+const SOURCES = "sources";
+const WORKSPACES = "workspaces";
+/** Export blobs keyed by activity entry id. */
+const EXPORTS = "exports";
+let databasePromise = null;
+export const isSessionStorageAvailable = () => typeof indexedDB !== "undefined";
+export const isQuotaExceededError = (reason) => reason instanceof DOMException &&
+    (reason.name === "QuotaExceededError" || reason.name === "NS_ERROR_DOM_QUOTA_REACHED");
+export const snapshotSourceIds = (snapshot) => snapshot.key === "merge"
+    ? snapshot.documents.map((document) => document.sourceId)
+    : [snapshot.sourceId];
+const requestResult = (request) => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+const transactionDone = (transaction) => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException("Aborted", "AbortError"));
+});
+const openDatabase = () => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const database = request.result;
+                if (!database.objectStoreNames.contains(SOURCES)) {
+                    database.createObjectStore(SOURCES, { keyPath: "id" });
+                }
+                if (!database.objectStoreNames.contains(WORKSPACES)) {
+                    database.createObjectStore(WORKSPACES);
+                }
+                if (!database.objectStoreNames.contains(EXPORTS)) {
+                    database.createObjectStore(EXPORTS);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch((error) => {
+            databasePromise = null;
+            throw error;
+        });
+    }
+    return databasePromise;
+};
+/** Deletes sources that no saved workspace refers to, inside `transaction`. */
+const pruneSources = (transaction) => {
+    const workspaces = transaction.objectStore(WORKSPACES);
+    const sources = transaction.objectStore(SOURCES);
+    const savedRequest = workspaces.getAll();
+    savedRequest.onsuccess = () => {
+        const referenced = new Set(savedRequest.result.flatMap((saved) => snapshotSourceIds(saved.snapshot)));
+        const keysRequest = sources.getAllKeys();
+        keysRequest.onsuccess = () => {
+            keysRequest.result
+                .filter((key) => !referenced.has(String(key)))
+                .forEach((key) => sources.delete(key));
+        };
+    };
+};
+/**
+ * Replaces the saved state of one workspace. `sources` must cover every id the snapshot refers
+ * to; sources already on disk are not written again.
+ */
+export const saveWorkspace = async (snapshot, sources) => {
+    const database = await openDatabase();
+    const sourceIds = snapshotSourceIds(snapshot);
+    const byId = new Map(sources.map((source) => [source.id, source]));
+    const missing = sourceIds.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+        throw new Error(`Missing ${missing.length} source(s) for the ${snapshot.key} workspace.`);
+    }
+    const transaction = database.transaction([SOURCES, WORKSPACES], "readwrite");
+    const done = transactionDone(transaction);
+    const sourceStore = transaction.objectStore(SOURCES);
+    const record = {
+        snapshot,
+        savedAt: Date.now(),
+        documentNames: sourceIds.map((id) => byId.get(id)?.name ?? id),
+        size: sourceIds.reduce((sum, id) => sum + (byId.get(id)?.size ?? 0), 0),
+    };
+    new Set(sourceIds).forEach((id) => {
+        const source = byId.get(id);
+        const keyRequest = sourceStore.getKey(id);
+        keyRequest.onsuccess = () => {
+            if (keyRequest.result === undefined && source) {
+                const stored = {
+                    id: source.id,
+                    origin: source.origin,
+                    name: source.name,
+                    size: source.size,
+                    lastModified: source.lastModified,
+                    bytes: source.bytes,
+                };
+                sourceStore.put(stored);
+            }
+        };
+    });
+    transaction.objectStore(WORKSPACES).put(record, snapshot.key);
+    pruneSources(transaction);
+    await done;
+};
+export const deleteWorkspace = async (key) => {
+    const database = await openDatabase();
+    const transaction = database.transaction([SOURCES, WORKSPACES], "readwrite");
+    const done = transactionDone(transaction);
+    transaction.objectStore(WORKSPACES).delete(key);
+    pruneSources(transaction);
+    await done;
+};
+/** Saved workspaces, newest first, without their source bytes. */
+export const listSavedWorkspaces = async () => {
+    const database = await openDatabase();
+    const transaction = database.transaction(WORKSPACES, "readonly");
+    const saved = await requestResult(transaction.objectStore(WORKSPACES).getAll());
+    return saved.sort((a, b) => b.savedAt - a.savedAt);
+};
+/** Loads the sources a saved workspace refers to; missing ids are skipped. */
+export const loadSavedSources = async (sourceIds) => {
+    const database = await openDatabase();
+    const transaction = database.transaction(SOURCES, "readonly");
+    const store = transaction.objectStore(SOURCES);
+    const stored = await Promise.all(sourceIds.map((id) => requestResult(store.get(id))));
+    return stored
+        .filter((source) => Boolean(source))
+        .map((source) => ({ ...source, password: null }));
+};
+/** Deletes everything kept on the device: workspaces, their sources, and stored exports. */
+export const clearSavedSession = async () => {
+    const database = await openDatabase();
+    const transaction = database.transaction([SOURCES, WORKSPACES, EXPORTS], "readwrite");
+    const done = transactionDone(transaction);
+    transaction.objectStore(SOURCES).clear();
+    transaction.objectStore(WORKSPACES).clear();
+    transaction.objectStore(EXPORTS).clear();
+    await done;
+};
+export const saveExportBlob = async (entryId, blob) => {
+    const database = await openDatabase();
+    const transaction = database.transaction(EXPORTS, "readwrite");
+    const done = transactionDone(transaction);
+    transaction.objectStore(EXPORTS).put(blob, entryId);
+    await done;
+};
+export const loadExportBlob = async (entryId) => {
+    const database = await openDatabase();
+    const transaction = database.transaction(EXPORTS, "readonly");
+    const blob = await requestResult(transaction.objectStore(EXPORTS).get(entryId));
+    return blob instanceof Blob ? blob : null;
+};
+/** Deletes every stored export except those for `keepIds`. */
+export const pruneExportBlobs = async (keepIds) => {
+    const database = await openDatabase();
+    const transaction = database.transaction(EXPORTS, "readwrite");
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(EXPORTS);
+    const keep = new Set(keepIds);
+    const keysRequest = store.getAllKeys();
+    keysRequest.onsuccess = () => {
+        keysRequest.result.filter((key) => !keep.has(String(key))).forEach((key) => store.delete(key));
+    };
+    await done;
+};
+export const estimateStorageUsage = async () => {
+    if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+        return null;
+    }
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        return usage === undefined || quota === undefined ? null : { usage, quota };
+    }
+    catch (estimateError) {
+        console.warn("Failed to estimate storage usage", estimateError);
+        return null;
+    }
+};
@@ -0,0 +1,92 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect as vitestExpect, it } from "vitest";
+
+import type { PdfSource } from "./documentPipeline";
+import {
+  clearSavedSession,
+  deleteWorkspace,
+  listSavedWorkspaces,
+  loadExportBlob,
+  loadSavedSources,
+  saveExportBlob,
+  saveWorkspace,
+} from "./sessionStore";
+
+const createSource = (id: string, bytes: number[], password: string | null = null): PdfSource => ({
+  id,
+  origin: "upload",
+  name: `${id}.pdf`,
+  size: bytes.length,
+  lastModified: null,
+  bytes: new Uint8Array(bytes),
+  password,
+});
+
+describe("sessionStore", () => {
+  beforeEach(async () => {
+    await clearSavedSession();
+  });
+
+  it("stores a shared source once and keeps it until no workspace refers to it", async () => {
+    const shared = createSource("shared", [1, 2, 3]);
+    const other = createSource("other", [4, 5]);
+
+    await saveWorkspace(
+      { key: "merge", documents: [{ sourceId: "shared" }, { sourceId: "other" }] },
+      [shared, other],
+    );
+    // Same id with different bytes: the copy already on disk wins.
+    await saveWorkspace(
+      { key: "split", sourceId: "shared", selectedPages: [1], rangeExpression: "" },
+      [createSource("shared", [9])],
+    );
+
+    // structuredClone hands back a Node Uint8Array, so compare plain arrays across realms.
+    const [stored] = await loadSavedSources(["shared"]);
+    vitestExpect(Array.from(stored?.bytes ?? [])).toEqual([1, 2, 3]);
+
+    await deleteWorkspace("merge");
+    vitestExpect((await listSavedWorkspaces()).map((saved) => saved.snapshot.key)).toEqual([
+      "split",
+    ]);
+    vitestExpect((await loadSavedSources(["shared", "other"])).map((source) => source.id)).toEqual([
+      "shared",
+    ]);
+
+    await deleteWorkspace("split");
+    vitestExpect(await loadSavedSources(["shared"])).toEqual([]);
+  });
+
+  it("never writes passwords to disk", async () => {
+    await saveWorkspace(
+      { key: "split", sourceId: "locked", selectedPages: [], rangeExpression: "" },
+      [createSource("locked", [1], "hunter2")],
+    );
+
+    const [restored] = await loadSavedSources(["locked"]);
+    vitestExpect(restored).toMatchObject({ id: "locked", name: "locked.pdf", password: null });
+  });
+
+  it("rejects a snapshot whose sources weren't passed in", async () => {
+    await vitestExpect(
+      saveWorkspace(
+        { key: "split", sourceId: "missing", selectedPages: [], rangeExpression: "" },
+        [],
+      ),
+    ).rejects.toThrow("Missing 1 source(s) for the split workspace.");
+  });
+
+  it("clears workspaces, sources, and stored exports together", async () => {
+    await saveWorkspace({ key: "merge", documents: [{ sourceId: "a" }] }, [createSource("a", [1])]);
+    await saveWorkspace({ key: "split", sourceId: "b", selectedPages: [], rangeExpression: "" }, [
+      createSource("b", [2]),
+    ]);
+    await saveExportBlob("entry-1", new Blob(["%PDF"], { type: "application/pdf" }));
+
+    await clearSavedSession();
+
+    vitestExpect(await listSavedWorkspaces()).toEqual([]);
+    vitestExpect(await loadSavedSources(["a", "b"])).toEqual([]);
+    vitestExpect(await loadExportBlob("entry-1")).toBeNull();
+  });
+});
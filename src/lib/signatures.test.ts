@@ -0,0 +1,129 @@
+import { Buffer } from "node:buffer";
+import { PDFDocument, degrees } from "pdf-lib";
+import { describe, expect as vitestExpect, it } from "vitest";
+
+import { PdfLoadError } from "./pdfErrors";
+import type { LoadedPdf } from "./pdfLoader";
+import {
+  clampPlacement,
+  createDefaultPlacement,
+  mapPlacementToPdfRect,
+  stampSignatureOnPdf,
+  type SignatureImage,
+} from "./signatures";
+
+const PIXEL_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR4nGNgYAAAAAMAASsJTYQAAAAASUVORK5CYII=";
+
+const createSignature = (): SignatureImage => ({
+  mode: "upload",
+  mimeType: "image/png",
+  bytes: Uint8Array.from(Buffer.from(PIXEL_PNG, "base64")),
+  dataUrl: `data:image/png;base64,${PIXEL_PNG}`,
+  width: 1,
+  height: 1,
+});
+
+const createLoadedPdf = async (pageCount: number, rotation = 0): Promise<LoadedPdf> => {
+  const doc = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index += 1) {
+    const page = doc.addPage([600, 800]);
+    page.setRotation(degrees(rotation));
+  }
+
+  const data = await doc.save();
+  return {
+    id: "test",
+    name: "contract.pdf",
+    size: data.length,
+    lastModified: Date.now(),
+    pageCount,
+    pdfVersion: "test",
+    data,
+    metadata: {},
+    doc: null as unknown as LoadedPdf["doc"],
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const PAGE = { width: 600, height: 800 };
+const BOX = { x: 0.1, y: 0.2, width: 0.25, height: 0.05 };
+
+describe("signatures", () => {
+  it("maps top-left screen fractions to bottom-left PDF coordinates", () => {
+    const rect = mapPlacementToPdfRect(BOX, PAGE);
+    vitestExpect(rect.x).toBeCloseTo(60);
+    vitestExpect(rect.y).toBeCloseTo(800 - (0.2 + 0.05) * 800);
+    vitestExpect(rect.width).toBeCloseTo(150);
+    vitestExpect(rect.height).toBeCloseTo(40);
+    vitestExpect(rect.rotate).toBe(0);
+  });
+
+  it("swaps axes and counter-rotates for quarter-turned pages", () => {
+    const rect = mapPlacementToPdfRect(BOX, PAGE, 90);
+    // Visual page is 800 wide and 600 tall when rotated.
+    vitestExpect(rect.width).toBeCloseTo(200);
+    vitestExpect(rect.height).toBeCloseTo(30);
+    vitestExpect(rect.x).toBeCloseTo((0.2 + 0.05) * 600);
+    vitestExpect(rect.y).toBeCloseTo(0.1 * 800);
+    vitestExpect(rect.rotate).toBe(90);
+  });
+
+  it("handles upside-down and three-quarter rotations", () => {
+    const flipped = mapPlacementToPdfRect(BOX, PAGE, 180);
+    vitestExpect(flipped).toMatchObject({ rotate: 180 });
+    vitestExpect(flipped.x).toBeCloseTo(600 - 60);
+    vitestExpect(flipped.y).toBeCloseTo((0.2 + 0.05) * 800);
+
+    const counter = mapPlacementToPdfRect(BOX, PAGE, -90);
+    vitestExpect(counter).toMatchObject({ rotate: 270 });
+    vitestExpect(counter.x).toBeCloseTo(600 - (0.2 + 0.05) * 600);
+    vitestExpect(counter.y).toBeCloseTo(800 - 0.1 * 800);
+  });
+
+  it("keeps placements inside the page bounds", () => {
+    const clamped = clampPlacement({ x: 0.95, y: -0.2, width: 0.3, height: 2 });
+    vitestExpect(clamped.width).toBe(0.3);
+    vitestExpect(clamped.height).toBe(1);
+    vitestExpect(clamped.x).toBeCloseTo(0.7);
+    vitestExpect(clamped.y).toBe(0);
+  });
+
+  it("derives default placements from the signature aspect ratio", () => {
+    const placement = createDefaultPlacement("p1", 2, { width: 400, height: 100 }, 0.75);
+    vitestExpect(placement).toMatchObject({ id: "p1", pageNumber: 2, width: 0.3 });
+    vitestExpect(placement.height).toBeCloseTo(0.3 * 0.25 * 0.75);
+  });
+
+  it("stamps the signature and returns a signatures export result", async () => {
+    const loaded = await createLoadedPdf(3);
+    const result = await stampSignatureOnPdf(loaded, createSignature(), [
+      { id: "a", pageNumber: 3, ...BOX },
+      { id: "b", pageNumber: 1, ...BOX },
+    ]);
+
+    const parsed = await PDFDocument.load(await readBlob(result.blob));
+    vitestExpect(parsed.getPageCount()).toBe(3);
+    vitestExpect(result.downloadName).toMatch(/^contract\.signed\./);
+    vitestExpect(result.activity).toMatchObject({
+      tool: "signatures",
+      operation: "sign-2-placements",
+      sourceCount: 1,
+    });
+    vitestExpect(result.activity.detail).toBe("contract.pdf · upload signature · pages 1, 3");
+  });
+
+  it("requires at least one placement on an existing page", async () => {
+    const loaded = await createLoadedPdf(1);
+    await vitestExpect(
+      stampSignatureOnPdf(loaded, createSignature(), [{ id: "a", pageNumber: 4, ...BOX }]),
+    ).rejects.toThrow(PdfLoadError);
+  });
+});
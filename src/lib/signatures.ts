@@ -0,0 +1,185 @@
+import { PDFDocument, degrees } from "pdf-lib";
+
+import { buildDownloadName, type ExportResult } from "./documentPipeline";
+import { PdfLoadError } from "./pdfErrors";
+import type { LoadedPdf } from "./pdfLoader";
+
+export type SignatureMode = "draw" | "type" | "upload";
+
+export type SignatureImage = {
+  mode: SignatureMode;
+  mimeType: "image/png" | "image/jpeg";
+  bytes: Uint8Array;
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+/**
+ * Signature box expressed as fractions (0–1) of the page as it appears on screen,
+ * measured from the top-left corner. Keeping placements resolution-independent lets
+ * the preview zoom freely without touching stored coordinates.
+ */
+export type SignaturePlacement = {
+  id: string;
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type PdfImageRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotate: number;
+};
+
+const MIN_FRACTION = 0.02;
+
+const clampFraction = (value: number) => Math.max(0, Math.min(1, value));
+
+const normalizeRotation = (value: number) => (((Math.round(value / 90) * 90) % 360) + 360) % 360;
+
+export const clampPlacement = <T extends Omit<SignaturePlacement, "id" | "pageNumber">>(
+  placement: T,
+): T => {
+  const width = Math.max(MIN_FRACTION, Math.min(1, placement.width));
+  const height = Math.max(MIN_FRACTION, Math.min(1, placement.height));
+  return {
+    ...placement,
+    width,
+    height,
+    x: clampFraction(Math.min(placement.x, 1 - width)),
+    y: clampFraction(Math.min(placement.y, 1 - height)),
+  };
+};
+
+/**
+ * Maps a screen-space placement onto PDF user space for a page with the given
+ * unrotated size and `/Rotate` value. The returned rect feeds `page.drawImage`
+ * directly, including the counter-rotation that keeps the signature upright.
+ */
+export const mapPlacementToPdfRect = (
+  placement: Omit<SignaturePlacement, "id" | "pageNumber">,
+  pageSize: { width: number; height: number },
+  rotation = 0,
+): PdfImageRect => {
+  const angle = normalizeRotation(rotation);
+  const isQuarterTurn = angle === 90 || angle === 270;
+  const visualWidth = isQuarterTurn ? pageSize.height : pageSize.width;
+  const visualHeight = isQuarterTurn ? pageSize.width : pageSize.height;
+
+  const left = placement.x * visualWidth;
+  const top = placement.y * visualHeight;
+  const width = placement.width * visualWidth;
+  const height = placement.height * visualHeight;
+  const bottom = top + height;
+
+  switch (angle) {
+    case 90:
+      return { x: bottom, y: left, width, height, rotate: 90 };
+    case 180:
+      return { x: pageSize.width - left, y: bottom, width, height, rotate: 180 };
+    case 270:
+      return { x: pageSize.width - bottom, y: pageSize.height - left, width, height, rotate: 270 };
+    case 0:
+    default:
+      return { x: left, y: pageSize.height - bottom, width, height, rotate: 0 };
+  }
+};
+
+/**
+ * Builds a default placement centered in the lower third of a page. `pageAspect` is the
+ * on-screen page width divided by its height, used to keep the signature's proportions.
+ */
+export const createDefaultPlacement = (
+  id: string,
+  pageNumber: number,
+  signature: Pick<SignatureImage, "width" | "height">,
+  pageAspect: number,
+): SignaturePlacement => {
+  const width = 0.3;
+  const ratio = signature.width > 0 ? signature.height / signature.width : 0.35;
+  const height = Math.max(MIN_FRACTION, Math.min(0.4, width * ratio * pageAspect));
+  return { id, pageNumber, x: (1 - width) / 2, y: 0.7, width, height };
+};
+
+type StampOptions = {
+  startedAt?: number;
+};
+
+export const stampSignatureOnPdf = async (
+  pdf: LoadedPdf,
+  signature: SignatureImage,
+  placements: SignaturePlacement[],
+  options?: StampOptions,
+): Promise<ExportResult> => {
+  const startedAt = options?.startedAt ?? Date.now();
+  const valid = placements.filter(
+    (placement) => placement.pageNumber >= 1 && placement.pageNumber <= pdf.pageCount,
+  );
+
+  if (valid.length === 0) {
+    throw new PdfLoadError("unsupported", "Place the signature on at least one page first.");
+  }
+
+  let output: PDFDocument;
+  try {
+    output = await PDFDocument.load(pdf.data);
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+
+  try {
+    const embedded =
+      signature.mimeType === "image/png"
+        ? await output.embedPng(signature.bytes)
+        : await output.embedJpg(signature.bytes);
+
+    valid.forEach((placement) => {
+      const page = output.getPage(placement.pageNumber - 1);
+      const rect = mapPlacementToPdfRect(
+        clampPlacement(placement),
+        page.getSize(),
+        page.getRotation().angle,
+      );
+      page.drawImage(embedded, {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+        rotate: degrees(rect.rotate),
+      });
+    });
+
+    const bytes = await output.save();
+    const blob = new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+    const pages = Array.from(new Set(valid.map((placement) => placement.pageNumber))).sort(
+      (a, b) => a - b,
+    );
+
+    return {
+      blob,
+      size: blob.size,
+      downloadName: buildDownloadName(pdf.name, "signed"),
+      durationMs: Math.max(0, Date.now() - startedAt),
+      warnings:
+        valid.length < placements.length
+          ? [`${placements.length - valid.length} placement(s) pointed past the last page.`]
+          : undefined,
+      activity: {
+        tool: "signatures",
+        operation: `sign-${valid.length}-placements`,
+        sourceCount: 1,
+        detail: `${pdf.name} · ${signature.mode} signature · page${
+          pages.length === 1 ? "" : "s"
+        } ${pages.join(", ")}`,
+      },
+    };
+  } catch (error) {
+    throw new PdfLoadError("unknown", error instanceof Error ? error.message : undefined);
+  }
+};
@@ -1,18 +1,33 @@
 import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, } from "react";
 import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import SendToToolMenu from "../components/SendToToolMenu";
 import { triggerBlobDownload } from "../lib/downloads";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
 import { configurePdfWorker } from "../lib/pdfWorker";
-import { COMPRESSION_PRESETS, compressPdfWithPreset, estimateCompressedSize, } from "../lib/pdfCompression";
+import { COMPRESSION_MODES, COMPRESSION_PRESETS, compressPdfWithPreset, estimateCompressedSize, } from "../lib/pdfCompression";
 import { logExportResult } from "../state/activityLog";
+import { usePdfAssets, useToolHandoff } from "../state/pdfAssets";
 const baseGuardrails = [
     "Files never leave your device—compression happens entirely in this tab.",
-    "Pages are rasterized to JPEG; text/vector content loses native sharpness.",
     "Projected size estimates shown before running; actual results displayed after.",
-    "Best suited for image-heavy scanned documents where rasterization is acceptable.",
 ];
+const modeGuardrails = {
+    images: [
+        "Only embedded images above the preset DPI are downsampled; text and vectors stay selectable.",
+        "Masks, CMYK, and unusual image encodings are kept as-is and reported per image.",
+    ],
+    rasterize: [
+        "Pages are rasterized to JPEG; text/vector content loses native sharpness.",
+        "Best suited for image-heavy scanned documents where rasterization is acceptable.",
+    ],
+};
+const modeExplainers = {
+    images: "Each embedded image is checked against the preset DPI ceiling and, when oversized, downsampled and re-encoded as JPEG. Page content streams are copied verbatim, so text stays selectable and vectors stay crisp.",
+    rasterize: "Each page is rendered to canvas and re-encoded as JPEG at the selected quality threshold. Text and vector sharpness may soften since the output is rasterized. Best results on image-heavy scanned documents.",
+};
 const futureTracks = [
     "Offer an optional serverless optimizer for archival-grade compression.",
     "Playwright E2E coverage that asserts on byte savings for representative fixtures.",
@@ -54,10 +69,14 @@ const CompressionToolPage = () => {
     const [compressionError, setCompressionError] = useState(null);
     const [compressionSuccess, setCompressionSuccess] = useState(null);
     const [lastResult, setLastResult] = useState(null);
+    const [resultDocumentId, setResultDocumentId] = useState(null);
     const [presetId, setPresetId] = useState("balanced");
+    const [mode, setMode] = useState("images");
     const [isDragActive, setDragActive] = useState(false);
     const [isCompressing, setCompressing] = useState(false);
     const [passwordPrompt, setPasswordPrompt] = useState(null);
+    const openDocument = usePdfAssets((state) => state.openDocument);
+    const addExportedDocument = usePdfAssets((state) => state.addExportedDocument);
     useEffect(() => {
         configurePdfWorker();
     }, []);
@@ -74,6 +93,7 @@ const CompressionToolPage = () => {
         setCompressionError(null);
         setCompressionSuccess(null);
         setLastResult(null);
+        setResultDocumentId(null);
     }, [pdf]);
     const requestPassword = useCallback((fileName) => (reason) => new Promise((resolve) => {
         setPasswordPrompt({ fileName, reason, resolve });
@@ -94,10 +114,10 @@ const CompressionToolPage = () => {
         setLoadError(null);
         setCompressionError(null);
         setCompressionSuccess(null);
+        setResultDocumentId(null);
         try {
             pdf?.doc.destroy();
-            const { loadPdfFromFile } = await import("../lib/pdfLoader");
-            const loaded = await loadPdfFromFile(file, {
+            const loaded = await openDocument(file, "compression", {
                 requestPassword: requestPassword(file.name),
             });
             setPdf(loaded);
@@ -109,7 +129,10 @@ const CompressionToolPage = () => {
             setStatus("error");
             setLoadError(getFriendlyPdfError(loadProblem));
         }
-    }, [pdf, requestPassword]);
+    }, [openDocument, pdf, requestPassword]);
+    const loadFileRef = useRef(loadFile);
+    loadFileRef.current = loadFile;
+    useToolHandoff("compression", loadFileRef);
     const handleInputChange = useCallback((event) => {
         const { files } = event.target;
         const nextFile = files?.[0];
@@ -131,16 +154,16 @@ const CompressionToolPage = () => {
         setDragActive(false);
     }, []);
     const sizeInsight = useMemo(() => {
-        if (!pdf) {
+        const projected = pdf ? estimateCompressedSize(pdf.size, presetId, mode) : null;
+        if (!pdf || projected === null) {
             return null;
         }
-        const projected = estimateCompressedSize(pdf.size, presetId);
         const delta = Math.max(0, pdf.size - projected);
         const percent = pdf.size > 0 ? Math.max(0, (delta / pdf.size) * 100) : 0;
         return { projected, delta, percent };
-    }, [pdf, presetId]);
+    }, [mode, pdf, presetId]);
     const guardrailMessages = useMemo(() => {
-        const messages = [...baseGuardrails];
+        const messages = [...baseGuardrails, ...modeGuardrails[mode]];
         if (pdf && pdf.size > 50 * 1024 * 1024) {
             messages.push("Heads-up: PDFs over 50 MB may take longer to process.");
         }
@@ -148,7 +171,7 @@ const CompressionToolPage = () => {
             messages.push("Large page counts can increase memory usage; keep another tab closed.");
         }
         return messages;
-    }, [pdf]);
+    }, [mode, pdf]);
     const handleCompress = useCallback(async () => {
         if (!pdf) {
             return;
@@ -156,9 +179,13 @@ const CompressionToolPage = () => {
         setCompressionError(null);
         setCompressionSuccess(null);
         setLastResult(null);
+        setResultDocumentId(null);
         setCompressing(true);
         try {
-            const result = await compressPdfWithPreset(pdf, presetId, { startedAt: Date.now() });
+            const result = await compressPdfWithPreset(pdf, presetId, {
+                startedAt: Date.now(),
+                mode,
+            });
             triggerBlobDownload(result.blob, result.downloadName);
             logExportResult(result);
             setLastResult(result);
@@ -166,6 +193,7 @@ const CompressionToolPage = () => {
                 ? `Reduced from ${formatBytes(result.originalSize)} to ${formatBytes(result.compressedSize)} (${Math.round(result.savingsPercent)}% savings)`
                 : `Output size: ${formatBytes(result.compressedSize)} (no reduction achieved)`;
             setCompressionSuccess(`Saved as ${result.downloadName}. ${savingsMsg}`);
+            setResultDocumentId(await addExportedDocument(result));
         }
         catch (compressionProblem) {
             console.error("Failed to run compression", compressionProblem);
@@ -174,18 +202,28 @@ const CompressionToolPage = () => {
         finally {
             setCompressing(false);
         }
-    }, [pdf, presetId]);
+    }, [addExportedDocument, mode, pdf, presetId]);
     const canCompress = Boolean(pdf) && !isCompressing && status === "ready";
     return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-[32px] border-2 border-dashed p-10 transition-colors", isDragActive
                     ? "border-amber-400 bg-amber-50/80 dark:border-amber-300 dark:bg-amber-500/10"
                     : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950"), children: _jsxs("div", { className: "mx-auto flex max-w-3xl flex-col gap-4 text-center", children: [_jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: pdf ? "Ready for compression preview" : "Compress image-heavy PDFs" }), _jsx("p", { className: "text-sm text-slate-600 dark:text-slate-300", children: pdf
-                                ? "Choose a preset, review projected savings, and run the preview export. Actual downscaling lands next, but the ingest/export guardrails are ready."
-                                : "Drop a PDF or select one manually to unlock the compression workspace. Presets focus on raster layers while text and vector content stay untouched." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "compression-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:-translate-y-0.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "compression-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-[0.4em] text-slate-400", children: "or drag files anywhere in this panel" })] })] }) }), status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-3 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50", children: "Loading PDF details..." })) : null, loadError ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-center justify-between gap-4", children: [_jsx("p", { children: loadError }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: () => setLoadError(null), children: "Dismiss" })] }) })) : null, compressionError ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-center justify-between gap-4", children: [_jsx("p", { children: compressionError }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: () => setCompressionError(null), children: "Dismiss" })] }) })) : null, compressionSuccess ? (_jsx("div", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-3 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-50", children: _jsxs("div", { className: "flex items-center justify-between gap-4", children: [_jsx("p", { children: compressionSuccess }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: () => setCompressionSuccess(null), children: "Hide" })] }) })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[1.75fr,1fr]", children: [_jsxs("section", { className: "space-y-6 rounded-3xl border border-slate-200/70 bg-white/90 p-6 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Quality presets" }), _jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: "Choose how aggressive to go" })] }), _jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-widest text-slate-500 underline-offset-4 hover:text-slate-900 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })] }), _jsx("div", { className: "grid gap-3 md:grid-cols-3", children: COMPRESSION_PRESETS.map((preset) => {
+                                ? "Pick image-only or full-page mode, choose a preset, and review projected savings before exporting."
+                                : "Drop a PDF or select one manually to unlock the compression workspace. Presets focus on raster layers while text and vector content stay untouched." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "compression-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:-translate-y-0.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "compression-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-[0.4em] text-slate-400", children: "or drag files anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: loadFile }), _jsx(SendToToolMenu, { from: "compression", documentId: pdf?.sourceId })] })] }) }), status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-3 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50", children: "Loading PDF details..." })) : null, loadError ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-center justify-between gap-4", children: [_jsx("p", { children: loadError }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: () => setLoadError(null), children: "Dismiss" })] }) })) : null, compressionError ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-center justify-between gap-4", children: [_jsx("p", { children: compressionError }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: () => setCompressionError(null), children: "Dismiss" })] }) })) : null, compressionSuccess ? (_jsxs("div", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-3 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-50", children: [_jsxs("div", { className: "flex items-center justify-between gap-4", children: [_jsx("p", { children: compressionSuccess }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: () => setCompressionSuccess(null), children: "Hide" })] }), _jsx("div", { className: "mt-2", children: _jsx(SendToToolMenu, { from: "compression", documentId: resultDocumentId, label: "Send result to" }) })] })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[1.75fr,1fr]", children: [_jsxs("section", { className: "space-y-6 rounded-3xl border border-slate-200/70 bg-white/90 p-6 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Quality presets" }), _jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: "Choose how aggressive to go" })] }), _jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-widest text-slate-500 underline-offset-4 hover:text-slate-900 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })] }), _jsx("div", { className: "grid gap-3 md:grid-cols-2", children: COMPRESSION_MODES.map((option) => {
+                                    const isActive = option.id === mode;
+                                    return (_jsxs("button", { type: "button", className: clsx("rounded-2xl border px-4 py-3 text-left transition", isActive
+                                            ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-900"
+                                            : "border-slate-200/70 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-300"), onClick: () => {
+                                            setMode(option.id);
+                                            setLastResult(null);
+                                        }, "aria-pressed": isActive, children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide", children: option.label }), _jsx("p", { className: "mt-1 text-xs opacity-80", children: option.description })] }, option.id));
+                                }) }), _jsx("div", { className: "grid gap-3 md:grid-cols-3", children: COMPRESSION_PRESETS.map((preset) => {
                                     const isActive = preset.id === presetId;
                                     return (_jsxs("button", { type: "button", className: clsx("rounded-2xl border px-4 py-3 text-left transition", isActive
                                             ? "border-amber-500 bg-amber-500/10 text-amber-900 shadow-halo"
-                                            : "border-slate-200/70 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-300"), onClick: () => setPresetId(preset.id), "aria-pressed": isActive, children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide", children: preset.label }), _jsx("p", { className: "mt-1 text-xs text-slate-500 dark:text-slate-400", children: preset.description }), _jsxs("p", { className: "mt-3 text-xs font-mono text-slate-400", children: ["Target ~", Math.round(preset.targetRatio * 100), "% of original"] })] }, preset.id));
-                                }) }), _jsx("div", { className: "rounded-2xl border border-slate-200/70 bg-slate-50/60 px-4 py-3 text-sm text-slate-700 dark:border-white/10 dark:bg-slate-800/40 dark:text-slate-300", children: "Each page is rendered to canvas and re-encoded as JPEG at the selected quality threshold. Text and vector sharpness may soften since the output is rasterized. Best results on image-heavy scanned documents." }), _jsxs("div", { className: "grid gap-4 md:grid-cols-2", children: [_jsxs("div", { className: "rounded-2xl border border-slate-200/80 bg-white/60 p-4 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: [_jsx("p", { className: "text-xs font-semibold uppercase tracking-[0.3em] text-slate-400", children: "Original" }), _jsx("p", { className: "mt-2 text-2xl font-semibold text-slate-900 dark:text-white", children: formatBytes(pdf.size) }), _jsxs("p", { className: "text-xs text-slate-400", children: [pdf.pageCount, " pages"] })] }), _jsxs("div", { className: clsx("rounded-2xl border p-4 text-sm", lastResult
+                                            : "border-slate-200/70 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-300"), onClick: () => setPresetId(preset.id), "aria-pressed": isActive, children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide", children: preset.label }), _jsx("p", { className: "mt-1 text-xs text-slate-500 dark:text-slate-400", children: preset.description }), _jsx("p", { className: "mt-3 text-xs font-mono text-slate-400", children: mode === "images"
+                                                    ? `Images capped at ${preset.imageDpi} DPI`
+                                                    : `Target ~${Math.round(preset.targetRatio * 100)}% of original` })] }, preset.id));
+                                }) }), _jsx("div", { className: "rounded-2xl border border-slate-200/70 bg-slate-50/60 px-4 py-3 text-sm text-slate-700 dark:border-white/10 dark:bg-slate-800/40 dark:text-slate-300", children: modeExplainers[mode] }), _jsxs("div", { className: "grid gap-4 md:grid-cols-2", children: [_jsxs("div", { className: "rounded-2xl border border-slate-200/80 bg-white/60 p-4 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: [_jsx("p", { className: "text-xs font-semibold uppercase tracking-[0.3em] text-slate-400", children: "Original" }), _jsx("p", { className: "mt-2 text-2xl font-semibold text-slate-900 dark:text-white", children: formatBytes(pdf.size) }), _jsxs("p", { className: "text-xs text-slate-400", children: [pdf.pageCount, " pages"] })] }), _jsxs("div", { className: clsx("rounded-2xl border p-4 text-sm", lastResult
                                             ? lastResult.savings > 0
                                                 ? "border-emerald-200/80 bg-emerald-50/70 text-emerald-900 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-50"
                                                 : "border-amber-200/80 bg-amber-50/70 text-amber-900 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-50"
@@ -199,6 +237,18 @@ const CompressionToolPage = () => {
                                                         : "No size reduction (may already be optimized)"
                                                     : sizeInsight
                                                         ? `~${Math.round(sizeInsight.percent)}% estimated savings`
-                                                        : "Pending" })] })] }), _jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-slate-200/70 bg-slate-50/80 p-4 dark:border-white/10 dark:bg-slate-900/60", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold text-slate-800 dark:text-white", children: "Compress & Download" }), _jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: "Renders pages at reduced resolution and re-encodes as JPEG per preset settings." })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleCompress, disabled: !canCompress, children: isCompressing ? "Compressing..." : "Compress & Download" })] })] }), _jsxs("aside", { className: "space-y-4", children: [_jsxs("div", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-5 text-sm text-slate-600 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70 dark:text-slate-300", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-400", children: "PDF details" }), _jsx("p", { className: "mt-2 text-base font-semibold text-slate-900 dark:text-white", children: pdf.name }), _jsxs("ul", { className: "mt-3 space-y-1", children: [_jsxs("li", { children: ["Size: ", formatBytes(pdf.size)] }), _jsxs("li", { children: ["Pages: ", pdf.pageCount] }), _jsxs("li", { children: ["PDF.js version: ", pdf.pdfVersion] }), _jsxs("li", { children: ["Page size: ", formatPageSize(pdf.metadata.pageSize)] }), _jsxs("li", { children: ["Title: ", pdf.metadata.title ?? "—"] }), _jsxs("li", { children: ["Author: ", pdf.metadata.author ?? "—"] }), _jsxs("li", { children: ["Created: ", formatDate(pdf.metadata.creationDate ?? pdf.lastModified)] }), _jsxs("li", { children: ["Modified: ", formatDate(pdf.metadata.modificationDate)] })] })] }), _jsxs("div", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-5 text-sm text-slate-600 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70 dark:text-slate-300", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-400", children: "Guardrails" }), _jsx("ul", { className: "mt-3 list-disc space-y-2 pl-4", children: guardrailMessages.map((message) => (_jsx("li", { children: message }, message))) })] }), _jsxs("div", { className: "rounded-3xl border border-dashed border-slate-300/70 p-5 text-sm text-slate-500 dark:border-white/20 dark:text-slate-400", children: [_jsx("p", { className: "font-semibold text-slate-700 dark:text-slate-200", children: "Next implementation beats" }), _jsx("ul", { className: "mt-3 list-disc space-y-2 pl-4", children: futureTracks.map((item) => (_jsx("li", { children: item }, item))) })] })] })] })) : (_jsx("div", { className: "rounded-3xl border border-slate-200/70 bg-white/80 p-6 text-center text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Load a PDF to unlock preset controls, projected savings, and preview exports." })), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+                                                        : pdf && mode === "images"
+                                                            ? "Depends on the embedded images"
+                                                            : "Pending" })] })] }), _jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-slate-200/70 bg-slate-50/80 p-4 dark:border-white/10 dark:bg-slate-900/60", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold text-slate-800 dark:text-white", children: "Compress & Download" }), _jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: mode === "images"
+                                                    ? "Downsamples oversized embedded images and leaves page content untouched."
+                                                    : "Renders pages at reduced resolution and re-encodes as JPEG per preset settings." })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleCompress, disabled: !canCompress, children: isCompressing ? "Compressing..." : "Compress & Download" })] }), lastResult?.images && lastResult.images.length > 0 ? (_jsxs("div", { className: "rounded-2xl border border-slate-200/70 bg-white/60 p-4 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: [_jsx("p", { className: "text-xs font-semibold uppercase tracking-[0.3em] text-slate-400", children: "Per-image results" }), _jsx("ul", { className: "mt-3 divide-y divide-slate-200/70 dark:divide-white/10", children: lastResult.images.map((image) => (_jsxs("li", { className: "flex flex-wrap items-center justify-between gap-2 py-2", children: [_jsxs("div", { children: [_jsxs("p", { className: "font-medium text-slate-800 dark:text-slate-100", children: [image.originalWidth, "\u00D7", image.originalHeight, image.status === "recompressed"
+                                                                    ? ` → ${image.width}×${image.height}`
+                                                                    : "", _jsxs("span", { className: "ml-2 text-xs text-slate-400", children: ["~", Math.round(image.effectiveDpi), " DPI \u00B7 page", image.pageNumbers.length === 1 ? "" : "s", " ", image.pageNumbers.join(", ")] })] }), image.reason ? (_jsx("p", { className: "text-xs text-slate-400", children: image.reason })) : null] }), _jsx("p", { className: clsx("text-xs font-semibold", image.savings > 0
+                                                        ? "text-emerald-600 dark:text-emerald-300"
+                                                        : "text-slate-400"), children: image.savings > 0
+                                                        ? `${formatBytes(image.originalSize)} → ${formatBytes(image.compressedSize)} (−${formatBytes(image.savings)})`
+                                                        : image.status === "skipped"
+                                                            ? "Skipped"
+                                                            : "Kept" })] }, image.objectId))) })] })) : null] }), _jsxs("aside", { className: "space-y-4", children: [_jsxs("div", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-5 text-sm text-slate-600 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70 dark:text-slate-300", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-400", children: "PDF details" }), _jsx("p", { className: "mt-2 text-base font-semibold text-slate-900 dark:text-white", children: pdf.name }), _jsxs("ul", { className: "mt-3 space-y-1", children: [_jsxs("li", { children: ["Size: ", formatBytes(pdf.size)] }), _jsxs("li", { children: ["Pages: ", pdf.pageCount] }), _jsxs("li", { children: ["PDF.js version: ", pdf.pdfVersion] }), _jsxs("li", { children: ["Page size: ", formatPageSize(pdf.metadata.pageSize)] }), _jsxs("li", { children: ["Title: ", pdf.metadata.title ?? "—"] }), _jsxs("li", { children: ["Author: ", pdf.metadata.author ?? "—"] }), _jsxs("li", { children: ["Created: ", formatDate(pdf.metadata.creationDate ?? pdf.lastModified)] }), _jsxs("li", { children: ["Modified: ", formatDate(pdf.metadata.modificationDate)] })] })] }), _jsxs("div", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-5 text-sm text-slate-600 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70 dark:text-slate-300", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-400", children: "Guardrails" }), _jsx("ul", { className: "mt-3 list-disc space-y-2 pl-4", children: guardrailMessages.map((message) => (_jsx("li", { children: message }, message))) })] }), _jsxs("div", { className: "rounded-3xl border border-dashed border-slate-300/70 p-5 text-sm text-slate-500 dark:border-white/20 dark:text-slate-400", children: [_jsx("p", { className: "font-semibold text-slate-700 dark:text-slate-200", children: "Next implementation beats" }), _jsx("ul", { className: "mt-3 list-disc space-y-2 pl-4", children: futureTracks.map((item) => (_jsx("li", { children: item }, item))) })] })] })] })) : (_jsx("div", { className: "rounded-3xl border border-slate-200/70 bg-white/80 p-6 text-center text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Load a PDF to unlock preset controls, projected savings, and preview exports." })), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
 };
 export default CompressionToolPage;
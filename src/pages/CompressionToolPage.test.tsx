@@ -8,6 +8,10 @@ vi.mock("../lib/pdfWorker", () => ({
   configurePdfWorker: vi.fn(),
 }));
 
+vi.mock("../lib/pdfLoader", () => ({
+  loadPdfFromSource: vi.fn(),
+}));
+
 const renderPage = () => {
   return render(
     <MemoryRouter>
@@ -1,27 +1,57 @@
-import { useCallback, useEffect, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type DragEvent,
+} from "react";
 import clsx from "clsx";
 
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import SendToToolMenu from "../components/SendToToolMenu";
+import type { PdfSource } from "../lib/documentPipeline";
 import { triggerBlobDownload } from "../lib/downloads";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
 import { configurePdfWorker } from "../lib/pdfWorker";
 import {
+  COMPRESSION_MODES,
   COMPRESSION_PRESETS,
   compressPdfWithPreset,
   estimateCompressedSize,
+  type CompressionMode,
   type CompressionPresetId,
   type CompressionResult,
 } from "../lib/pdfCompression";
 import { logExportResult } from "../state/activityLog";
+import { usePdfAssets, useToolHandoff } from "../state/pdfAssets";
 import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
 
 const baseGuardrails = [
   "Files never leave your device—compression happens entirely in this tab.",
-  "Pages are rasterized to JPEG; text/vector content loses native sharpness.",
   "Projected size estimates shown before running; actual results displayed after.",
-  "Best suited for image-heavy scanned documents where rasterization is acceptable.",
 ];
 
+const modeGuardrails: Record<CompressionMode, string[]> = {
+  images: [
+    "Only embedded images above the preset DPI are downsampled; text and vectors stay selectable.",
+    "Masks, CMYK, and unusual image encodings are kept as-is and reported per image.",
+  ],
+  rasterize: [
+    "Pages are rasterized to JPEG; text/vector content loses native sharpness.",
+    "Best suited for image-heavy scanned documents where rasterization is acceptable.",
+  ],
+};
+
+const modeExplainers: Record<CompressionMode, string> = {
+  images:
+    "Each embedded image is checked against the preset DPI ceiling and, when oversized, downsampled and re-encoded as JPEG. Page content streams are copied verbatim, so text stays selectable and vectors stay crisp.",
+  rasterize:
+    "Each page is rendered to canvas and re-encoded as JPEG at the selected quality threshold. Text and vector sharpness may soften since the output is rasterized. Best results on image-heavy scanned documents.",
+};
+
 const futureTracks = [
   "Offer an optional serverless optimizer for archival-grade compression.",
   "Playwright E2E coverage that asserts on byte savings for representative fixtures.",
@@ -71,7 +101,9 @@ const CompressionToolPage = () => {
   const [compressionError, setCompressionError] = useState<string | null>(null);
   const [compressionSuccess, setCompressionSuccess] = useState<string | null>(null);
   const [lastResult, setLastResult] = useState<CompressionResult | null>(null);
+  const [resultDocumentId, setResultDocumentId] = useState<string | null>(null);
   const [presetId, setPresetId] = useState<CompressionPresetId>("balanced");
+  const [mode, setMode] = useState<CompressionMode>("images");
   const [isDragActive, setDragActive] = useState(false);
   const [isCompressing, setCompressing] = useState(false);
   const [passwordPrompt, setPasswordPrompt] = useState<{
@@ -79,6 +111,8 @@ const CompressionToolPage = () => {
     reason: PdfPasswordReason;
     resolve: (value: string | null) => void;
   } | null>(null);
+  const openDocument = usePdfAssets((state) => state.openDocument);
+  const addExportedDocument = usePdfAssets((state) => state.addExportedDocument);
 
   useEffect(() => {
     configurePdfWorker();
@@ -98,6 +132,7 @@ const CompressionToolPage = () => {
     setCompressionError(null);
     setCompressionSuccess(null);
     setLastResult(null);
+    setResultDocumentId(null);
   }, [pdf]);
 
   const requestPassword = useCallback(
@@ -122,7 +157,7 @@ const CompressionToolPage = () => {
   }, [passwordPrompt]);
 
   const loadFile = useCallback(
-    async (file: File | null | undefined) => {
+    async (file: File | PdfSource | null | undefined) => {
       if (!file) {
         return;
       }
@@ -131,11 +166,11 @@ const CompressionToolPage = () => {
       setLoadError(null);
       setCompressionError(null);
       setCompressionSuccess(null);
+      setResultDocumentId(null);
 
       try {
         pdf?.doc.destroy();
-        const { loadPdfFromFile } = await import("../lib/pdfLoader");
-        const loaded = await loadPdfFromFile(file, {
+        const loaded = await openDocument(file, "compression", {
           requestPassword: requestPassword(file.name),
         });
         setPdf(loaded);
@@ -147,9 +182,14 @@ const CompressionToolPage = () => {
         setLoadError(getFriendlyPdfError(loadProblem));
       }
     },
-    [pdf, requestPassword],
+    [openDocument, pdf, requestPassword],
   );
 
+  const loadFileRef = useRef(loadFile);
+  loadFileRef.current = loadFile;
+
+  useToolHandoff("compression", loadFileRef);
+
   const handleInputChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const { files } = event.target;
@@ -181,18 +221,18 @@ const CompressionToolPage = () => {
   }, []);
 
   const sizeInsight = useMemo(() => {
-    if (!pdf) {
+    const projected = pdf ? estimateCompressedSize(pdf.size, presetId, mode) : null;
+    if (!pdf || projected === null) {
       return null;
     }
 
-    const projected = estimateCompressedSize(pdf.size, presetId);
     const delta = Math.max(0, pdf.size - projected);
     const percent = pdf.size > 0 ? Math.max(0, (delta / pdf.size) * 100) : 0;
     return { projected, delta, percent };
-  }, [pdf, presetId]);
+  }, [mode, pdf, presetId]);
 
   const guardrailMessages = useMemo(() => {
-    const messages = [...baseGuardrails];
+    const messages = [...baseGuardrails, ...modeGuardrails[mode]];
 
     if (pdf && pdf.size > 50 * 1024 * 1024) {
       messages.push("Heads-up: PDFs over 50 MB may take longer to process.");
@@ -203,7 +243,7 @@ const CompressionToolPage = () => {
     }
 
     return messages;
-  }, [pdf]);
+  }, [mode, pdf]);
 
   const handleCompress = useCallback(async () => {
     if (!pdf) {
@@ -213,10 +253,14 @@ const CompressionToolPage = () => {
     setCompressionError(null);
     setCompressionSuccess(null);
     setLastResult(null);
+    setResultDocumentId(null);
     setCompressing(true);
 
     try {
-      const result = await compressPdfWithPreset(pdf, presetId, { startedAt: Date.now() });
+      const result = await compressPdfWithPreset(pdf, presetId, {
+        startedAt: Date.now(),
+        mode,
+      });
       triggerBlobDownload(result.blob, result.downloadName);
       logExportResult(result);
       setLastResult(result);
@@ -227,13 +271,14 @@ const CompressionToolPage = () => {
           : `Output size: ${formatBytes(result.compressedSize)} (no reduction achieved)`;
 
       setCompressionSuccess(`Saved as ${result.downloadName}. ${savingsMsg}`);
+      setResultDocumentId(await addExportedDocument(result));
     } catch (compressionProblem) {
       console.error("Failed to run compression", compressionProblem);
       setCompressionError(getFriendlyPdfError(compressionProblem));
     } finally {
       setCompressing(false);
     }
-  }, [pdf, presetId]);
+  }, [addExportedDocument, mode, pdf, presetId]);
 
   const canCompress = Boolean(pdf) && !isCompressing && status === "ready";
 
@@ -256,7 +301,7 @@ const CompressionToolPage = () => {
           </p>
           <p className="text-sm text-slate-600 dark:text-slate-300">
             {pdf
-              ? "Choose a preset, review projected savings, and run the preview export. Actual downscaling lands next, but the ingest/export guardrails are ready."
+              ? "Pick image-only or full-page mode, choose a preset, and review projected savings before exporting."
               : "Drop a PDF or select one manually to unlock the compression workspace. Presets focus on raster layers while text and vector content stay untouched."}
           </p>
           <div className="flex flex-col items-center gap-2">
@@ -276,6 +321,8 @@ const CompressionToolPage = () => {
             <span className="text-xs uppercase tracking-[0.4em] text-slate-400">
               or drag files anywhere in this panel
             </span>
+            <OpenFromUrlForm onSource={loadFile} />
+            <SendToToolMenu from="compression" documentId={pdf?.sourceId} />
           </div>
         </div>
       </div>
@@ -322,6 +369,13 @@ const CompressionToolPage = () => {
               Hide
             </button>
           </div>
+          <div className="mt-2">
+            <SendToToolMenu
+              from="compression"
+              documentId={resultDocumentId}
+              label="Send result to"
+            />
+          </div>
         </div>
       ) : null}
 
@@ -346,6 +400,32 @@ const CompressionToolPage = () => {
               </button>
             </div>
 
+            <div className="grid gap-3 md:grid-cols-2">
+              {COMPRESSION_MODES.map((option) => {
+                const isActive = option.id === mode;
+                return (
+                  <button
+                    key={option.id}
+                    type="button"
+                    className={clsx(
+                      "rounded-2xl border px-4 py-3 text-left transition",
+                      isActive
+                        ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-900"
+                        : "border-slate-200/70 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-300",
+                    )}
+                    onClick={() => {
+                      setMode(option.id);
+                      setLastResult(null);
+                    }}
+                    aria-pressed={isActive}
+                  >
+                    <p className="text-sm font-semibold uppercase tracking-wide">{option.label}</p>
+                    <p className="mt-1 text-xs opacity-80">{option.description}</p>
+                  </button>
+                );
+              })}
+            </div>
+
             <div className="grid gap-3 md:grid-cols-3">
               {COMPRESSION_PRESETS.map((preset) => {
                 const isActive = preset.id === presetId;
@@ -367,7 +447,9 @@ const CompressionToolPage = () => {
                       {preset.description}
                     </p>
                     <p className="mt-3 text-xs font-mono text-slate-400">
-                      Target ~{Math.round(preset.targetRatio * 100)}% of original
+                      {mode === "images"
+                        ? `Images capped at ${preset.imageDpi} DPI`
+                        : `Target ~${Math.round(preset.targetRatio * 100)}% of original`}
                     </p>
                   </button>
                 );
@@ -375,9 +457,7 @@ const CompressionToolPage = () => {
             </div>
 
             <div className="rounded-2xl border border-slate-200/70 bg-slate-50/60 px-4 py-3 text-sm text-slate-700 dark:border-white/10 dark:bg-slate-800/40 dark:text-slate-300">
-              Each page is rendered to canvas and re-encoded as JPEG at the selected quality
-              threshold. Text and vector sharpness may soften since the output is rasterized. Best
-              results on image-heavy scanned documents.
+              {modeExplainers[mode]}
             </div>
 
             <div className="grid gap-4 md:grid-cols-2">
@@ -417,7 +497,9 @@ const CompressionToolPage = () => {
                       : "No size reduction (may already be optimized)"
                     : sizeInsight
                       ? `~${Math.round(sizeInsight.percent)}% estimated savings`
-                      : "Pending"}
+                      : pdf && mode === "images"
+                        ? "Depends on the embedded images"
+                        : "Pending"}
                 </p>
               </div>
             </div>
@@ -428,7 +510,9 @@ const CompressionToolPage = () => {
                   Compress & Download
                 </p>
                 <p className="text-xs text-slate-500 dark:text-slate-400">
-                  Renders pages at reduced resolution and re-encodes as JPEG per preset settings.
+                  {mode === "images"
+                    ? "Downsamples oversized embedded images and leaves page content untouched."
+                    : "Renders pages at reduced resolution and re-encodes as JPEG per preset settings."}
                 </p>
               </div>
               <button
@@ -440,6 +524,53 @@ const CompressionToolPage = () => {
                 {isCompressing ? "Compressing..." : "Compress & Download"}
               </button>
             </div>
+
+            {lastResult?.images && lastResult.images.length > 0 ? (
+              <div className="rounded-2xl border border-slate-200/70 bg-white/60 p-4 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
+                <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+                  Per-image results
+                </p>
+                <ul className="mt-3 divide-y divide-slate-200/70 dark:divide-white/10">
+                  {lastResult.images.map((image) => (
+                    <li
+                      key={image.objectId}
+                      className="flex flex-wrap items-center justify-between gap-2 py-2"
+                    >
+                      <div>
+                        <p className="font-medium text-slate-800 dark:text-slate-100">
+                          {image.originalWidth}×{image.originalHeight}
+                          {image.status === "recompressed"
+                            ? ` → ${image.width}×${image.height}`
+                            : ""}
+                          <span className="ml-2 text-xs text-slate-400">
+                            ~{Math.round(image.effectiveDpi)} DPI · page
+                            {image.pageNumbers.length === 1 ? "" : "s"}{" "}
+                            {image.pageNumbers.join(", ")}
+                          </span>
+                        </p>
+                        {image.reason ? (
+                          <p className="text-xs text-slate-400">{image.reason}</p>
+                        ) : null}
+                      </div>
+                      <p
+                        className={clsx(
+                          "text-xs font-semibold",
+                          image.savings > 0
+                            ? "text-emerald-600 dark:text-emerald-300"
+                            : "text-slate-400",
+                        )}
+                      >
+                        {image.savings > 0
+                          ? `${formatBytes(image.originalSize)} → ${formatBytes(image.compressedSize)} (−${formatBytes(image.savings)})`
+                          : image.status === "skipped"
+                            ? "Skipped"
+                            : "Kept"}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
           </section>
 
           <aside className="space-y-4">
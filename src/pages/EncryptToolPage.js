@@ -0,0 +1,146 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback, useEffect, useState, } from "react";
+import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import { triggerBlobDownload } from "../lib/downloads";
+import { ENCRYPTION_ALGORITHMS, ENCRYPTION_PERMISSIONS, encryptPdf, permissionLabel, } from "../lib/pdfEncryption";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { logExportResult } from "../state/activityLog";
+const PERMISSION_HINTS = {
+    print: "Includes high-quality printing.",
+    copy: "Select and copy text and images.",
+    modify: "Edit content, annotations, form fields, and page order.",
+};
+const INPUT_CLASS = "w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+const EncryptToolPage = () => {
+    const [pdf, setPdf] = useState(null);
+    const [status, setStatus] = useState("idle");
+    const [error, setError] = useState(null);
+    const [isDragActive, setDragActive] = useState(false);
+    const [algorithm, setAlgorithm] = useState("aes-256");
+    const [userPassword, setUserPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
+    const [ownerPassword, setOwnerPassword] = useState("");
+    const [showPasswords, setShowPasswords] = useState(false);
+    const [permissions, setPermissions] = useState(["print"]);
+    const [exportError, setExportError] = useState(null);
+    const [exportSuccess, setExportSuccess] = useState(null);
+    const [isExporting, setExporting] = useState(false);
+    const [passwordPrompt, setPasswordPrompt] = useState(null);
+    useEffect(() => {
+        configurePdfWorker();
+    }, []);
+    useEffect(() => {
+        return () => {
+            pdf?.doc.destroy();
+        };
+    }, [pdf]);
+    const resetWorkspace = useCallback(() => {
+        pdf?.doc.destroy();
+        setPdf(null);
+        setStatus("idle");
+        setError(null);
+        setExportError(null);
+        setExportSuccess(null);
+    }, [pdf]);
+    const handlePasswordSubmit = useCallback((password) => {
+        passwordPrompt?.resolve(password);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const handlePasswordCancel = useCallback(() => {
+        passwordPrompt?.resolve(null);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const loadFile = useCallback(async (file) => {
+        if (!file)
+            return;
+        setStatus("loading");
+        setError(null);
+        setExportError(null);
+        setExportSuccess(null);
+        try {
+            pdf?.doc.destroy();
+            const { loadPdfFromInput } = await import("../lib/pdfLoader");
+            const loaded = await loadPdfFromInput(file, {
+                requestPassword: (reason) => new Promise((resolve) => {
+                    setPasswordPrompt({ fileName: file.name, reason, resolve });
+                }),
+            });
+            setPdf(loaded);
+            setStatus("ready");
+        }
+        catch (loadError) {
+            console.error(loadError);
+            setPdf(null);
+            setStatus("error");
+            setError(getFriendlyPdfError(loadError));
+        }
+    }, [pdf]);
+    const handleInputChange = useCallback((event) => {
+        const nextFile = event.target.files?.[0];
+        void loadFile(nextFile);
+        event.target.value = "";
+    }, [loadFile]);
+    const handleDrop = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+        const nextFile = event.dataTransfer.files?.[0];
+        void loadFile(nextFile);
+    }, [loadFile]);
+    const handleDragOver = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(true);
+    }, []);
+    const handleDragLeave = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+    }, []);
+    const togglePermission = useCallback((permission, enabled) => {
+        setPermissions((current) => enabled ? [...current, permission] : current.filter((existing) => existing !== permission));
+        setExportSuccess(null);
+    }, []);
+    const passwordMismatch = confirmPassword.length > 0 && confirmPassword !== userPassword;
+    const canExport = Boolean(pdf) &&
+        Boolean(userPassword || ownerPassword) &&
+        confirmPassword === userPassword &&
+        !isExporting;
+    const handleSubmit = useCallback(async (event) => {
+        event.preventDefault();
+        if (!pdf || !canExport) {
+            return;
+        }
+        setExportError(null);
+        setExportSuccess(null);
+        setExporting(true);
+        try {
+            const result = await encryptPdf(pdf, {
+                algorithm,
+                userPassword,
+                ownerPassword,
+                // Keep the order stable so the activity log reads the same way each time.
+                permissions: ENCRYPTION_PERMISSIONS.map((entry) => entry.id).filter((id) => permissions.includes(id)),
+            }, { startedAt: Date.now() });
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setExportSuccess(`Saved ${result.downloadName}. It reopened with ${userPassword ? "the user password" : "no password"}, so it's ready to share.`);
+        }
+        catch (exportProblem) {
+            console.error("Failed to encrypt PDF", exportProblem);
+            setExportError(getFriendlyPdfError(exportProblem));
+        }
+        finally {
+            setExporting(false);
+        }
+    }, [algorithm, canExport, ownerPassword, pdf, permissions, userPassword]);
+    const passwordType = showPasswords ? "text" : "password";
+    return (_jsxs("div", { className: "mx-auto flex max-w-5xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-[32px] border-2 border-dashed p-10 transition-colors", isDragActive
+                    ? "border-yellow-400 bg-yellow-50/70 dark:border-yellow-300 dark:bg-yellow-500/10"
+                    : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950"), children: _jsxs("div", { className: "mx-auto flex max-w-3xl flex-col gap-4 text-center", children: [_jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: pdf ? pdf.name : "Password-protect a PDF" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: pdf
+                                ? `${pdf.pageCount} page${pdf.pageCount === 1 ? "" : "s"} · Encryption runs in your browser and the passwords are never stored.`
+                                : "Drop a PDF or choose a file, then set passwords and what readers may do with it. Nothing leaves your browser." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "encrypt-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "encrypt-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: loadFile }), pdf ? (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })) : null] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: error })) : null, status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, pdf ? (_jsxs("form", { onSubmit: handleSubmit, className: "grid gap-6 rounded-3xl border border-slate-200/80 bg-white/90 p-5 lg:grid-cols-2 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("fieldset", { className: "space-y-3", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Encryption" }), ENCRYPTION_ALGORITHMS.map((option) => (_jsxs("label", { className: clsx("grid cursor-pointer grid-cols-[auto,1fr] items-center gap-x-3 rounded-2xl border px-4 py-3 text-sm transition", algorithm === option.id
+                                    ? "border-yellow-300 bg-yellow-50/80 dark:border-yellow-400/40 dark:bg-yellow-500/10"
+                                    : "border-slate-200 hover:border-slate-300 dark:border-white/10"), children: [_jsx("input", { type: "radio", name: "encryption-algorithm", value: option.id, checked: algorithm === option.id, onChange: () => setAlgorithm(option.id) }), _jsx("span", { className: "font-semibold text-slate-900 dark:text-white", children: option.label }), _jsx("span", { className: "col-start-2 text-xs text-slate-500 dark:text-slate-400", children: option.hint })] }, option.id)))] }), _jsxs("div", { className: "space-y-5", children: [_jsxs("fieldset", { className: "space-y-3 text-sm text-slate-600 dark:text-slate-300", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Passwords" }), _jsxs("label", { className: "flex flex-col gap-1", children: ["User password", _jsx("input", { type: passwordType, autoComplete: "new-password", value: userPassword, onChange: (event) => setUserPassword(event.target.value), className: INPUT_CLASS })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Confirm user password", _jsx("input", { type: passwordType, autoComplete: "new-password", value: confirmPassword, onChange: (event) => setConfirmPassword(event.target.value), className: INPUT_CLASS, "aria-invalid": passwordMismatch })] }), passwordMismatch ? (_jsx("p", { className: "text-xs text-red-700 dark:text-red-300", children: "The passwords don't match." })) : null, _jsxs("label", { className: "flex flex-col gap-1", children: ["Owner password", _jsx("input", { type: passwordType, autoComplete: "new-password", value: ownerPassword, onChange: (event) => setOwnerPassword(event.target.value), className: INPUT_CLASS })] }), _jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: "Readers need the user password to open the file. The owner password lifts the restrictions below; leave it empty to lock them behind a random password nobody knows. Leave the user password empty to let anyone open the file with the restrictions applied." }), _jsxs("label", { className: "flex items-center gap-2", children: [_jsx("input", { type: "checkbox", checked: showPasswords, onChange: (event) => setShowPasswords(event.target.checked) }), "Show passwords"] })] }), _jsxs("fieldset", { className: "space-y-2 text-sm text-slate-600 dark:text-slate-300", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Allow readers to" }), ENCRYPTION_PERMISSIONS.map(({ id }) => (_jsxs("label", { className: "flex items-start gap-2", children: [_jsx("input", { type: "checkbox", checked: permissions.includes(id), onChange: (event) => togglePermission(id, event.target.checked), className: "mt-1" }), _jsxs("span", { children: [permissionLabel(id), _jsx("span", { className: "block text-xs text-slate-500 dark:text-slate-400", children: PERMISSION_HINTS[id] })] })] }, id)))] }), _jsx("button", { type: "submit", className: "w-full rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !canExport, children: isExporting ? "Encrypting..." : "Encrypt & Download" }), exportError ? (_jsx("p", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: exportError })) : null, exportSuccess ? (_jsx("p", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: exportSuccess })) : null] })] })) : null, _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+};
+export default EncryptToolPage;
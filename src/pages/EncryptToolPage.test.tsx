@@ -0,0 +1,25 @@
+import { render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+vi.mock("../lib/pdfLoader", () => ({
+  loadPdfFromSource: vi.fn(),
+}));
+
+import EncryptToolPage from "./EncryptToolPage";
+import { useActivityLog } from "../state/activityLog";
+
+describe("EncryptToolPage", () => {
+  beforeEach(() => {
+    useActivityLog.getState().reset();
+  });
+
+  it("renders the encryption hero with an upload entry point", () => {
+    render(<EncryptToolPage />);
+    expect(screen.getByText(/Password-protect a PDF/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/Choose a PDF/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,416 @@
+import {
+  useCallback,
+  useEffect,
+  useState,
+  type ChangeEvent,
+  type DragEvent,
+  type FormEvent,
+} from "react";
+import clsx from "clsx";
+
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import type { PdfSource } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import {
+  ENCRYPTION_ALGORITHMS,
+  ENCRYPTION_PERMISSIONS,
+  encryptPdf,
+  permissionLabel,
+  type EncryptionAlgorithm,
+  type PdfPermission,
+} from "../lib/pdfEncryption";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { logExportResult } from "../state/activityLog";
+
+const PERMISSION_HINTS: Record<PdfPermission, string> = {
+  print: "Includes high-quality printing.",
+  copy: "Select and copy text and images.",
+  modify: "Edit content, annotations, form fields, and page order.",
+};
+
+const INPUT_CLASS =
+  "w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+
+const EncryptToolPage = () => {
+  const [pdf, setPdf] = useState<LoadedPdf | null>(null);
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [isDragActive, setDragActive] = useState(false);
+  const [algorithm, setAlgorithm] = useState<EncryptionAlgorithm>("aes-256");
+  const [userPassword, setUserPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [ownerPassword, setOwnerPassword] = useState("");
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [permissions, setPermissions] = useState<PdfPermission[]>(["print"]);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [isExporting, setExporting] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    fileName: string;
+    reason: PdfPasswordReason;
+    resolve: (value: string | null) => void;
+  } | null>(null);
+
+  useEffect(() => {
+    configurePdfWorker();
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      pdf?.doc.destroy();
+    };
+  }, [pdf]);
+
+  const resetWorkspace = useCallback(() => {
+    pdf?.doc.destroy();
+    setPdf(null);
+    setStatus("idle");
+    setError(null);
+    setExportError(null);
+    setExportSuccess(null);
+  }, [pdf]);
+
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      passwordPrompt?.resolve(password);
+      setPasswordPrompt(null);
+    },
+    [passwordPrompt],
+  );
+
+  const handlePasswordCancel = useCallback(() => {
+    passwordPrompt?.resolve(null);
+    setPasswordPrompt(null);
+  }, [passwordPrompt]);
+
+  const loadFile = useCallback(
+    async (file: File | PdfSource | null | undefined) => {
+      if (!file) return;
+      setStatus("loading");
+      setError(null);
+      setExportError(null);
+      setExportSuccess(null);
+
+      try {
+        pdf?.doc.destroy();
+        const { loadPdfFromInput } = await import("../lib/pdfLoader");
+        const loaded = await loadPdfFromInput(file, {
+          requestPassword: (reason) =>
+            new Promise<string | null>((resolve) => {
+              setPasswordPrompt({ fileName: file.name, reason, resolve });
+            }),
+        });
+        setPdf(loaded);
+        setStatus("ready");
+      } catch (loadError) {
+        console.error(loadError);
+        setPdf(null);
+        setStatus("error");
+        setError(getFriendlyPdfError(loadError));
+      }
+    },
+    [pdf],
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const nextFile = event.target.files?.[0];
+      void loadFile(nextFile);
+      event.target.value = "";
+    },
+    [loadFile],
+  );
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setDragActive(false);
+      const nextFile = event.dataTransfer.files?.[0];
+      void loadFile(nextFile);
+    },
+    [loadFile],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+  }, []);
+
+  const togglePermission = useCallback((permission: PdfPermission, enabled: boolean) => {
+    setPermissions((current) =>
+      enabled ? [...current, permission] : current.filter((existing) => existing !== permission),
+    );
+    setExportSuccess(null);
+  }, []);
+
+  const passwordMismatch = confirmPassword.length > 0 && confirmPassword !== userPassword;
+  const canExport =
+    Boolean(pdf) &&
+    Boolean(userPassword || ownerPassword) &&
+    confirmPassword === userPassword &&
+    !isExporting;
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!pdf || !canExport) {
+        return;
+      }
+
+      setExportError(null);
+      setExportSuccess(null);
+      setExporting(true);
+
+      try {
+        const result = await encryptPdf(
+          pdf,
+          {
+            algorithm,
+            userPassword,
+            ownerPassword,
+            // Keep the order stable so the activity log reads the same way each time.
+            permissions: ENCRYPTION_PERMISSIONS.map((entry) => entry.id).filter((id) =>
+              permissions.includes(id),
+            ),
+          },
+          { startedAt: Date.now() },
+        );
+        triggerBlobDownload(result.blob, result.downloadName);
+        logExportResult(result);
+        setExportSuccess(
+          `Saved ${result.downloadName}. It reopened with ${
+            userPassword ? "the user password" : "no password"
+          }, so it's ready to share.`,
+        );
+      } catch (exportProblem) {
+        console.error("Failed to encrypt PDF", exportProblem);
+        setExportError(getFriendlyPdfError(exportProblem));
+      } finally {
+        setExporting(false);
+      }
+    },
+    [algorithm, canExport, ownerPassword, pdf, permissions, userPassword],
+  );
+
+  const passwordType = showPasswords ? "text" : "password";
+
+  return (
+    <div className="mx-auto flex max-w-5xl flex-col gap-6 px-4 py-8 lg:px-10">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={clsx(
+          "rounded-[32px] border-2 border-dashed p-10 transition-colors",
+          isDragActive
+            ? "border-yellow-400 bg-yellow-50/70 dark:border-yellow-300 dark:bg-yellow-500/10"
+            : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950",
+        )}
+      >
+        <div className="mx-auto flex max-w-3xl flex-col gap-4 text-center">
+          <p className="text-2xl font-semibold text-slate-900 dark:text-white">
+            {pdf ? pdf.name : "Password-protect a PDF"}
+          </p>
+          <p className="text-sm text-slate-500 dark:text-slate-300">
+            {pdf
+              ? `${pdf.pageCount} page${pdf.pageCount === 1 ? "" : "s"} · Encryption runs in your browser and the passwords are never stored.`
+              : "Drop a PDF or choose a file, then set passwords and what readers may do with it. Nothing leaves your browser."}
+          </p>
+          <div className="flex flex-col items-center gap-2">
+            <label
+              htmlFor="encrypt-upload"
+              className="inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900"
+            >
+              {pdf ? "Replace PDF" : "Choose a PDF"}
+            </label>
+            <input
+              id="encrypt-upload"
+              type="file"
+              accept="application/pdf"
+              className="sr-only"
+              onChange={handleInputChange}
+            />
+            <span className="text-xs uppercase tracking-wide text-slate-400">
+              or drag anywhere in this panel
+            </span>
+            <OpenFromUrlForm onSource={loadFile} />
+            {pdf ? (
+              <button
+                type="button"
+                className="text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300"
+                onClick={resetWorkspace}
+              >
+                Reset workspace
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+          {error}
+        </div>
+      ) : null}
+
+      {status === "loading" ? (
+        <div className="rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
+          Loading PDF...
+        </div>
+      ) : null}
+
+      {pdf ? (
+        <form
+          onSubmit={handleSubmit}
+          className="grid gap-6 rounded-3xl border border-slate-200/80 bg-white/90 p-5 lg:grid-cols-2 dark:border-white/10 dark:bg-slate-900/70"
+        >
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+              Encryption
+            </legend>
+            {ENCRYPTION_ALGORITHMS.map((option) => (
+              <label
+                key={option.id}
+                className={clsx(
+                  "grid cursor-pointer grid-cols-[auto,1fr] items-center gap-x-3 rounded-2xl border px-4 py-3 text-sm transition",
+                  algorithm === option.id
+                    ? "border-yellow-300 bg-yellow-50/80 dark:border-yellow-400/40 dark:bg-yellow-500/10"
+                    : "border-slate-200 hover:border-slate-300 dark:border-white/10",
+                )}
+              >
+                <input
+                  type="radio"
+                  name="encryption-algorithm"
+                  value={option.id}
+                  checked={algorithm === option.id}
+                  onChange={() => setAlgorithm(option.id)}
+                />
+                <span className="font-semibold text-slate-900 dark:text-white">{option.label}</span>
+                <span className="col-start-2 text-xs text-slate-500 dark:text-slate-400">
+                  {option.hint}
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="space-y-5">
+            <fieldset className="space-y-3 text-sm text-slate-600 dark:text-slate-300">
+              <legend className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                Passwords
+              </legend>
+              <label className="flex flex-col gap-1">
+                User password
+                <input
+                  type={passwordType}
+                  autoComplete="new-password"
+                  value={userPassword}
+                  onChange={(event) => setUserPassword(event.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Confirm user password
+                <input
+                  type={passwordType}
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(event) => setConfirmPassword(event.target.value)}
+                  className={INPUT_CLASS}
+                  aria-invalid={passwordMismatch}
+                />
+              </label>
+              {passwordMismatch ? (
+                <p className="text-xs text-red-700 dark:text-red-300">
+                  The passwords don&apos;t match.
+                </p>
+              ) : null}
+              <label className="flex flex-col gap-1">
+                Owner password
+                <input
+                  type={passwordType}
+                  autoComplete="new-password"
+                  value={ownerPassword}
+                  onChange={(event) => setOwnerPassword(event.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Readers need the user password to open the file. The owner password lifts the
+                restrictions below; leave it empty to lock them behind a random password nobody
+                knows. Leave the user password empty to let anyone open the file with the
+                restrictions applied.
+              </p>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={showPasswords}
+                  onChange={(event) => setShowPasswords(event.target.checked)}
+                />
+                Show passwords
+              </label>
+            </fieldset>
+
+            <fieldset className="space-y-2 text-sm text-slate-600 dark:text-slate-300">
+              <legend className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                Allow readers to
+              </legend>
+              {ENCRYPTION_PERMISSIONS.map(({ id }) => (
+                <label key={id} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={permissions.includes(id)}
+                    onChange={(event) => togglePermission(id, event.target.checked)}
+                    className="mt-1"
+                  />
+                  <span>
+                    {permissionLabel(id)}
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">
+                      {PERMISSION_HINTS[id]}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            <button
+              type="submit"
+              className="w-full rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900"
+              disabled={!canExport}
+            >
+              {isExporting ? "Encrypting..." : "Encrypt & Download"}
+            </button>
+
+            {exportError ? (
+              <p className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+                {exportError}
+              </p>
+            ) : null}
+            {exportSuccess ? (
+              <p className="rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+                {exportSuccess}
+              </p>
+            ) : null}
+          </div>
+        </form>
+      ) : null}
+
+      <PasswordPromptModal
+        open={Boolean(passwordPrompt)}
+        fileName={passwordPrompt?.fileName ?? ""}
+        reason={passwordPrompt?.reason ?? "password-required"}
+        onSubmit={handlePasswordSubmit}
+        onCancel={handlePasswordCancel}
+      />
+    </div>
+  );
+};
+
+export default EncryptToolPage;
@@ -0,0 +1,254 @@
+import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-runtime";
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import { buildDownloadName } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { exportFilledForm, inspectPdfForm, parseFormValues, serializeFormValues, } from "../lib/pdfForms";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { logExportResult } from "../state/activityLog";
+const PREVIEW_SCALE = 1.25;
+const modeExplainers = {
+    fill: "Keeps the form interactive so the recipient can still change values.",
+    flatten: "Burns the values into the page and removes the fields, so the result reads the same everywhere and can't be edited.",
+};
+const INPUT_CLASS = "w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:border-lime-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+const fieldInputId = (name) => `form-field-${name.replace(/[^a-zA-Z0-9_-]/g, "_")}`;
+const FormsToolPage = () => {
+    const [pdf, setPdf] = useState(null);
+    const [status, setStatus] = useState("idle");
+    const [error, setError] = useState(null);
+    const [isDragActive, setDragActive] = useState(false);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [preview, setPreview] = useState(null);
+    const [fields, setFields] = useState([]);
+    const [unsupportedFields, setUnsupportedFields] = useState([]);
+    const [initialValues, setInitialValues] = useState({});
+    const [values, setValues] = useState({});
+    const [mode, setMode] = useState("fill");
+    const [importWarnings, setImportWarnings] = useState([]);
+    const [exportWarnings, setExportWarnings] = useState([]);
+    const [exportError, setExportError] = useState(null);
+    const [exportSuccess, setExportSuccess] = useState(null);
+    const [isExporting, setExporting] = useState(false);
+    const [passwordPrompt, setPasswordPrompt] = useState(null);
+    useEffect(() => {
+        configurePdfWorker();
+    }, []);
+    useEffect(() => {
+        return () => {
+            pdf?.doc.destroy();
+        };
+    }, [pdf]);
+    useEffect(() => {
+        if (!pdf) {
+            setPreview(null);
+            return;
+        }
+        let isCancelled = false;
+        const renderPreview = async () => {
+            try {
+                const page = await pdf.doc.getPage(currentPage);
+                const viewport = page.getViewport({ scale: PREVIEW_SCALE });
+                const canvas = document.createElement("canvas");
+                const context = canvas.getContext("2d");
+                if (!context) {
+                    page.cleanup();
+                    return;
+                }
+                canvas.width = viewport.width;
+                canvas.height = viewport.height;
+                await page.render({ canvas, canvasContext: context, viewport }).promise;
+                page.cleanup();
+                if (!isCancelled) {
+                    setPreview({ pageNumber: currentPage, url: canvas.toDataURL("image/png") });
+                }
+            }
+            catch (previewError) {
+                console.error(previewError);
+                if (!isCancelled) {
+                    setError("Unable to render this page. Try another file.");
+                }
+            }
+        };
+        void renderPreview();
+        return () => {
+            isCancelled = true;
+        };
+    }, [pdf, currentPage]);
+    const clearMessages = useCallback(() => {
+        setImportWarnings([]);
+        setExportWarnings([]);
+        setExportError(null);
+        setExportSuccess(null);
+    }, []);
+    const resetWorkspace = useCallback(() => {
+        pdf?.doc.destroy();
+        setPdf(null);
+        setStatus("idle");
+        setError(null);
+        setCurrentPage(1);
+        setPreview(null);
+        setFields([]);
+        setUnsupportedFields([]);
+        setInitialValues({});
+        setValues({});
+        setMode("fill");
+        clearMessages();
+    }, [clearMessages, pdf]);
+    const handlePasswordSubmit = useCallback((password) => {
+        passwordPrompt?.resolve(password);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const handlePasswordCancel = useCallback(() => {
+        passwordPrompt?.resolve(null);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const loadFile = useCallback(async (file) => {
+        if (!file)
+            return;
+        setStatus("loading");
+        setError(null);
+        clearMessages();
+        try {
+            pdf?.doc.destroy();
+            const { loadPdfFromInput } = await import("../lib/pdfLoader");
+            const loaded = await loadPdfFromInput(file, {
+                requestPassword: (reason) => new Promise((resolve) => {
+                    setPasswordPrompt({ fileName: file.name, reason, resolve });
+                }),
+            });
+            const inspection = await inspectPdfForm(loaded);
+            setPdf(loaded);
+            setFields(inspection.fields);
+            setUnsupportedFields(inspection.unsupported);
+            setInitialValues(inspection.values);
+            setValues(inspection.values);
+            setCurrentPage(inspection.fields[0]?.pageNumbers[0] ?? 1);
+            setStatus("ready");
+        }
+        catch (loadError) {
+            console.error(loadError);
+            setPdf(null);
+            setStatus("error");
+            setError(getFriendlyPdfError(loadError));
+        }
+    }, [clearMessages, pdf]);
+    const handleInputChange = useCallback((event) => {
+        const nextFile = event.target.files?.[0];
+        void loadFile(nextFile);
+        event.target.value = "";
+    }, [loadFile]);
+    const handleDrop = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+        const nextFile = event.dataTransfer.files?.[0];
+        void loadFile(nextFile);
+    }, [loadFile]);
+    const handleDragOver = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(true);
+    }, []);
+    const handleDragLeave = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+    }, []);
+    const updateValue = useCallback((name, value) => {
+        setValues((current) => ({ ...current, [name]: value }));
+        setExportSuccess(null);
+    }, []);
+    const focusField = useCallback((field) => {
+        const firstPage = field.pageNumbers[0];
+        if (firstPage !== undefined) {
+            setCurrentPage(firstPage);
+        }
+    }, []);
+    const handleRevert = useCallback(() => {
+        setValues(initialValues);
+        clearMessages();
+    }, [clearMessages, initialValues]);
+    const handleExportValues = useCallback(() => {
+        if (!pdf) {
+            return;
+        }
+        const blob = new Blob([serializeFormValues(values, pdf.name)], { type: "application/json" });
+        triggerBlobDownload(blob, buildDownloadName(pdf.name, "form-values", "json"));
+    }, [pdf, values]);
+    const handleImportValues = useCallback(async (event) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) {
+            return;
+        }
+        clearMessages();
+        try {
+            const imported = parseFormValues(await file.text(), fields);
+            const count = Object.keys(imported.values).length;
+            setValues((current) => ({ ...current, ...imported.values }));
+            setImportWarnings(imported.warnings);
+            setExportSuccess(`Loaded ${count} value${count === 1 ? "" : "s"} from ${file.name}. Review them, then download.`);
+        }
+        catch (importProblem) {
+            console.error("Failed to import form values", importProblem);
+            setExportError(getFriendlyPdfError(importProblem));
+        }
+    }, [clearMessages, fields]);
+    const handleExport = useCallback(async () => {
+        if (!pdf) {
+            return;
+        }
+        clearMessages();
+        setExporting(true);
+        try {
+            const result = await exportFilledForm(pdf, values, { mode, startedAt: Date.now() });
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setExportWarnings(result.warnings ?? []);
+            setExportSuccess(mode === "flatten"
+                ? `Saved a flattened copy as ${result.downloadName}.`
+                : `Saved the filled form as ${result.downloadName}.`);
+        }
+        catch (exportProblem) {
+            console.error("Failed to fill PDF form", exportProblem);
+            setExportError(getFriendlyPdfError(exportProblem));
+        }
+        finally {
+            setExporting(false);
+        }
+    }, [clearMessages, mode, pdf, values]);
+    const renderFieldInput = (field) => {
+        const id = fieldInputId(field.name);
+        const value = values[field.name];
+        const textValue = typeof value === "string" ? value : "";
+        switch (field.kind) {
+            case "checkbox":
+                return (_jsxs("label", { className: "flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200", children: [_jsx("input", { id: id, type: "checkbox", checked: value === true, disabled: field.readOnly, onChange: (event) => updateValue(field.name, event.target.checked), onFocus: () => focusField(field) }), field.name] }));
+            case "radio":
+                return (_jsx("div", { className: "flex flex-wrap gap-x-4 gap-y-1", children: field.options.map((option) => (_jsxs("label", { className: "flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200", children: [_jsx("input", { type: "radio", name: id, value: option, checked: textValue === option, disabled: field.readOnly, onChange: () => updateValue(field.name, option), onFocus: () => focusField(field) }), option] }, option))) }));
+            case "dropdown":
+                return field.allowsCustomValue ? (_jsxs(_Fragment, { children: [_jsx("input", { id: id, type: "text", list: `${id}-options`, value: textValue, disabled: field.readOnly, onChange: (event) => updateValue(field.name, event.target.value), onFocus: () => focusField(field), className: INPUT_CLASS }), _jsx("datalist", { id: `${id}-options`, children: field.options.map((option) => (_jsx("option", { value: option }, option))) })] })) : (_jsxs("select", { id: id, value: textValue, disabled: field.readOnly, onChange: (event) => updateValue(field.name, event.target.value), onFocus: () => focusField(field), className: INPUT_CLASS, children: [_jsx("option", { value: "", children: "No selection" }), field.options.map((option) => (_jsx("option", { value: option, children: option }, option)))] }));
+            case "text":
+            default:
+                return field.multiline ? (_jsx("textarea", { id: id, rows: 3, value: textValue, maxLength: field.maxLength ?? undefined, disabled: field.readOnly, onChange: (event) => updateValue(field.name, event.target.value), onFocus: () => focusField(field), className: INPUT_CLASS })) : (_jsx("input", { id: id, type: "text", value: textValue, maxLength: field.maxLength ?? undefined, disabled: field.readOnly, onChange: (event) => updateValue(field.name, event.target.value), onFocus: () => focusField(field), className: INPUT_CLASS }));
+        }
+    };
+    const canGoPrev = currentPage > 1;
+    const canGoNext = pdf ? currentPage < pdf.pageCount : false;
+    const hasFields = fields.length > 0;
+    const canExport = Boolean(pdf) && hasFields && !isExporting;
+    const warnings = [...importWarnings, ...exportWarnings];
+    return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-[32px] border-2 border-dashed p-10 transition-colors", isDragActive
+                    ? "border-lime-400 bg-lime-50/70 dark:border-lime-300 dark:bg-lime-500/10"
+                    : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950"), children: _jsxs("div", { className: "mx-auto flex max-w-3xl flex-col gap-4 text-center", children: [_jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: pdf ? "Fill in the form" : "Fill and flatten PDF forms" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: pdf
+                                ? "Focus a field to jump the preview to its page. Save the values as JSON to refill the next packet in seconds."
+                                : "Drop a fillable PDF or choose a file to list its text boxes, checkboxes, radio buttons, and dropdowns. Nothing leaves your browser." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "forms-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "forms-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: loadFile }), pdf ? (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })) : null] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: error })) : null, status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[1fr,1fr]", children: [_jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsxs("div", { children: [_jsx("p", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pdf.name }), _jsxs("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: ["Page ", currentPage, " of ", pdf.pageCount, " \u00B7 ", fields.length, " fillable field", fields.length === 1 ? "" : "s"] })] }), _jsxs("div", { className: "flex items-center gap-2 text-sm", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: () => setCurrentPage((prev) => Math.max(1, prev - 1)), disabled: !canGoPrev, children: "\u2190 Prev" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: () => setCurrentPage((prev) => Math.min(pdf.pageCount, prev + 1)), disabled: !canGoNext, children: "Next \u2192" })] })] }), _jsx("div", { className: "mt-4 flex justify-center rounded-2xl border border-dashed border-slate-300/70 bg-slate-50/60 p-4 dark:border-white/10 dark:bg-slate-950/40", children: preview && preview.pageNumber === currentPage ? (_jsx("img", { src: preview.url, alt: `Page ${currentPage} preview`, className: "block w-full max-w-xl shadow-2xl shadow-slate-900/10" })) : (_jsxs("p", { className: "py-20 text-sm text-slate-500 dark:text-slate-400", children: ["Rendering page ", currentPage, "..."] })) })] }), _jsxs("aside", { className: "flex flex-col gap-4 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-2", children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-400", children: "Fields" }), _jsxs("div", { className: "flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-wide", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: handleRevert, disabled: !hasFields, children: "Revert" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: handleExportValues, disabled: !hasFields, children: "Export JSON" }), _jsx("label", { htmlFor: "forms-values-import", className: clsx("rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", hasFields ? "cursor-pointer" : "pointer-events-none opacity-40"), children: "Import JSON" }), _jsx("input", { id: "forms-values-import", type: "file", accept: "application/json,.json", className: "sr-only", disabled: !hasFields, onChange: handleImportValues })] })] }), hasFields ? (_jsx("ul", { className: "max-h-[520px] space-y-4 overflow-y-auto pr-1", children: fields.map((field) => (_jsxs("li", { className: "flex flex-col gap-1", children: [field.kind !== "checkbox" ? (_jsxs("div", { className: "flex items-center justify-between gap-2 text-sm", children: [_jsxs("label", { htmlFor: field.kind === "radio" ? undefined : fieldInputId(field.name), className: "font-semibold text-slate-700 dark:text-slate-200", children: [field.name, field.required ? _jsx("span", { className: "text-rose-500", children: " *" }) : null] }), _jsxs("span", { className: "shrink-0 text-xs text-slate-400", children: [field.readOnly ? "Read-only · " : "", field.pageNumbers.length > 0
+                                                            ? `p. ${field.pageNumbers.join(", ")}`
+                                                            : "No page"] })] })) : null, renderFieldInput(field)] }, field.name))) })) : (_jsx("p", { className: "text-sm text-slate-500 dark:text-slate-400", children: "This PDF has no fillable fields. Scanned forms need to be filled with a text or signature stamp instead." })), unsupportedFields.length > 0 ? (_jsxs("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: [unsupportedFields.length, " field", unsupportedFields.length === 1 ? "" : "s", " ( signatures, buttons, or multi-select lists) can\u2019t be filled here and will be left as they are."] })) : null, _jsxs("fieldset", { className: "space-y-2", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-400", children: "Export mode" }), _jsxs("label", { className: "flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200", children: [_jsx("input", { type: "radio", name: "forms-mode", value: "fill", checked: mode === "fill", onChange: () => setMode("fill") }), "Keep fields editable"] }), _jsxs("label", { className: "flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200", children: [_jsx("input", { type: "radio", name: "forms-mode", value: "flatten", checked: mode === "flatten", onChange: () => setMode("flatten") }), "Flatten into the page"] }), _jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: modeExplainers[mode] })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleExport, disabled: !canExport, children: isExporting
+                                    ? "Saving..."
+                                    : mode === "flatten"
+                                        ? "Flatten & Download"
+                                        : "Fill & Download" }), exportError ? (_jsx("p", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: exportError })) : null, exportSuccess ? (_jsx("p", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: exportSuccess })) : null, warnings.length > 0 ? (_jsx("ul", { className: "space-y-1 rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-2 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50", children: warnings.map((warning) => (_jsx("li", { children: warning }, warning))) })) : null] })] })) : null, _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+};
+export default FormsToolPage;
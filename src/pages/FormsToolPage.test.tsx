@@ -0,0 +1,21 @@
+import { render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+import FormsToolPage from "./FormsToolPage";
+import { useActivityLog } from "../state/activityLog";
+
+describe("FormsToolPage", () => {
+  beforeEach(() => {
+    useActivityLog.getState().reset();
+  });
+
+  it("renders the forms hero with an upload entry point", () => {
+    render(<FormsToolPage />);
+    expect(screen.getByText(/Fill and flatten PDF forms/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/Choose a PDF/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,191 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { HEADER_FOOTER_SLOTS, HEADER_FOOTER_TOKENS, addHeaderFooter, buildTemplateContext, createEmptyLayout, expandTemplate, resolvePageLayout, } from "../lib/pdfHeaderFooter";
+import { WATERMARK_FONTS } from "../lib/pdfWatermark";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { logExportResult } from "../state/activityLog";
+const BANDS = [
+    { id: "header", label: "Header" },
+    { id: "footer", label: "Footer" },
+];
+const SLOT_LABELS = { left: "Left", center: "Center", right: "Right" };
+const INPUT_CLASS = "w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+const createDefaultLayout = () => {
+    const layout = createEmptyLayout();
+    layout.footer.center = "Page {page} of {pages}";
+    return layout;
+};
+const mirrorLayout = (layout) => ({
+    header: { left: layout.header.right, center: layout.header.center, right: layout.header.left },
+    footer: { left: layout.footer.right, center: layout.footer.center, right: layout.footer.left },
+});
+const parseWholeNumber = (value, fallback) => {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+const HeaderFooterToolPage = () => {
+    const [pdf, setPdf] = useState(null);
+    const [status, setStatus] = useState("idle");
+    const [error, setError] = useState(null);
+    const [isDragActive, setDragActive] = useState(false);
+    const [oddLayout, setOddLayout] = useState(createDefaultLayout);
+    const [evenLayout, setEvenLayout] = useState(null);
+    const [editing, setEditing] = useState("odd");
+    const [skipFirstPage, setSkipFirstPage] = useState(false);
+    const [font, setFont] = useState("helvetica");
+    const [fontSize, setFontSize] = useState(9);
+    const [color, setColor] = useState("#334155");
+    const [marginX, setMarginX] = useState(48);
+    const [marginY, setMarginY] = useState(28);
+    const [exportError, setExportError] = useState(null);
+    const [exportSuccess, setExportSuccess] = useState(null);
+    const [isExporting, setExporting] = useState(false);
+    const [passwordPrompt, setPasswordPrompt] = useState(null);
+    useEffect(() => {
+        configurePdfWorker();
+    }, []);
+    useEffect(() => {
+        return () => {
+            pdf?.doc.destroy();
+        };
+    }, [pdf]);
+    const resetWorkspace = useCallback(() => {
+        pdf?.doc.destroy();
+        setPdf(null);
+        setStatus("idle");
+        setError(null);
+        setExportError(null);
+        setExportSuccess(null);
+    }, [pdf]);
+    const handlePasswordSubmit = useCallback((password) => {
+        passwordPrompt?.resolve(password);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const handlePasswordCancel = useCallback(() => {
+        passwordPrompt?.resolve(null);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const loadFile = useCallback(async (file) => {
+        if (!file)
+            return;
+        setStatus("loading");
+        setError(null);
+        setExportError(null);
+        setExportSuccess(null);
+        try {
+            pdf?.doc.destroy();
+            const { loadPdfFromInput } = await import("../lib/pdfLoader");
+            const loaded = await loadPdfFromInput(file, {
+                requestPassword: (reason) => new Promise((resolve) => {
+                    setPasswordPrompt({ fileName: file.name, reason, resolve });
+                }),
+            });
+            setPdf(loaded);
+            setStatus("ready");
+        }
+        catch (loadError) {
+            console.error(loadError);
+            setPdf(null);
+            setStatus("error");
+            setError(getFriendlyPdfError(loadError));
+        }
+    }, [pdf]);
+    const handleInputChange = useCallback((event) => {
+        const nextFile = event.target.files?.[0];
+        void loadFile(nextFile);
+        event.target.value = "";
+    }, [loadFile]);
+    const handleDrop = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+        const nextFile = event.dataTransfer.files?.[0];
+        void loadFile(nextFile);
+    }, [loadFile]);
+    const handleDragOver = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(true);
+    }, []);
+    const handleDragLeave = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+    }, []);
+    const handleOddEvenToggle = useCallback((enabled) => {
+        // Start even pages as a mirror of odd ones, the usual layout for duplex printing.
+        setEvenLayout(enabled ? mirrorLayout(oddLayout) : null);
+        setEditing(enabled ? "even" : "odd");
+    }, [oddLayout]);
+    const updateTemplate = useCallback((band, slot, value) => {
+        const update = (layout) => ({
+            ...layout,
+            [band]: { ...layout[band], [slot]: value },
+        });
+        if (editing === "even") {
+            setEvenLayout((current) => (current ? update(current) : current));
+        }
+        else {
+            setOddLayout(update);
+        }
+        setExportSuccess(null);
+    }, [editing]);
+    const settings = useMemo(() => ({
+        odd: oddLayout,
+        even: evenLayout,
+        skipFirstPage,
+        font,
+        fontSize,
+        color,
+        marginX,
+        marginY,
+    }), [color, evenLayout, font, fontSize, marginX, marginY, oddLayout, skipFirstPage]);
+    const previewPages = useMemo(() => {
+        if (!pdf) {
+            return [];
+        }
+        const pages = new Set([1, 2, pdf.pageCount].filter((page) => page <= pdf.pageCount));
+        const now = new Date();
+        return Array.from(pages).map((pageNumber) => {
+            const layout = resolvePageLayout(settings, pageNumber);
+            const context = buildTemplateContext(pdf, pageNumber, now);
+            return {
+                pageNumber,
+                header: HEADER_FOOTER_SLOTS.map((slot) => layout ? expandTemplate(layout.header[slot], context) : ""),
+                footer: HEADER_FOOTER_SLOTS.map((slot) => layout ? expandTemplate(layout.footer[slot], context) : ""),
+            };
+        });
+    }, [pdf, settings]);
+    const handleExport = useCallback(async () => {
+        if (!pdf) {
+            return;
+        }
+        setExportError(null);
+        setExportSuccess(null);
+        setExporting(true);
+        try {
+            const result = await addHeaderFooter(pdf, settings, { startedAt: Date.now() });
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setExportSuccess(`Saved ${result.downloadName}.`);
+        }
+        catch (exportProblem) {
+            console.error("Failed to add headers and footers", exportProblem);
+            setExportError(getFriendlyPdfError(exportProblem));
+        }
+        finally {
+            setExporting(false);
+        }
+    }, [pdf, settings]);
+    const activeLayout = editing === "even" && evenLayout ? evenLayout : oddLayout;
+    return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-[32px] border-2 border-dashed p-10 transition-colors", isDragActive
+                    ? "border-pink-400 bg-pink-50/70 dark:border-pink-300 dark:bg-pink-500/10"
+                    : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950"), children: _jsxs("div", { className: "mx-auto flex max-w-3xl flex-col gap-4 text-center", children: [_jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: pdf ? pdf.name : "Add headers and footers" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: pdf
+                                ? `${pdf.pageCount} page${pdf.pageCount === 1 ? "" : "s"} · Rotated pages get their footer at the bottom as you see it.`
+                                : "Drop a PDF or choose a file, then write templates with tokens like {page} of {pages}. Nothing leaves your browser." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "header-footer-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "header-footer-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: loadFile }), pdf ? (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })) : null] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: error })) : null, status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[1.4fr,1fr]", children: [_jsxs("section", { className: "space-y-5 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsx("div", { className: "flex gap-2", role: "tablist", "aria-label": "Page layout", children: (evenLayout ? ["odd", "even"] : ["odd"]).map((key) => (_jsx("button", { type: "button", role: "tab", "aria-selected": editing === key, className: clsx("rounded-full px-4 py-1 text-sm font-semibold transition", editing === key
+                                                ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900"
+                                                : "border border-slate-200 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-200"), onClick: () => setEditing(key), children: key === "even" ? "Even pages" : evenLayout ? "Odd pages" : "All pages" }, key))) }), _jsxs("div", { className: "flex flex-wrap gap-4 text-sm text-slate-600 dark:text-slate-300", children: [_jsxs("label", { className: "flex items-center gap-2", children: [_jsx("input", { type: "checkbox", checked: Boolean(evenLayout), onChange: (event) => handleOddEvenToggle(event.target.checked) }), "Different odd and even pages"] }), _jsxs("label", { className: "flex items-center gap-2", children: [_jsx("input", { type: "checkbox", checked: skipFirstPage, onChange: (event) => setSkipFirstPage(event.target.checked) }), "Skip first page"] })] })] }), BANDS.map((band) => (_jsxs("fieldset", { className: "space-y-2", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: band.label }), _jsx("div", { className: "grid gap-3 sm:grid-cols-3", children: HEADER_FOOTER_SLOTS.map((slot) => (_jsxs("label", { className: "flex flex-col gap-1 text-xs text-slate-500 dark:text-slate-400", children: [`${band.label} ${SLOT_LABELS[slot].toLowerCase()}`, _jsx("input", { type: "text", value: activeLayout[band.id][slot], onChange: (event) => updateTemplate(band.id, slot, event.target.value), className: clsx(INPUT_CLASS, "font-mono") })] }, slot))) })] }, band.id))), _jsxs("div", { className: "rounded-2xl border border-slate-200/80 bg-slate-50/80 px-4 py-3 text-xs text-slate-600 dark:border-white/10 dark:bg-slate-950/40 dark:text-slate-300", children: [_jsx("p", { className: "font-semibold uppercase tracking-wide text-slate-500", children: "Tokens" }), _jsx("dl", { className: "mt-2 grid gap-x-4 gap-y-1 sm:grid-cols-2", children: HEADER_FOOTER_TOKENS.map(({ token, description }) => (_jsxs("div", { className: "flex gap-2", children: [_jsx("dt", { className: "font-mono text-slate-900 dark:text-white", children: `{${token}}` }), _jsx("dd", { children: description })] }, token))) })] }), _jsxs("div", { className: "grid gap-3 text-sm text-slate-600 sm:grid-cols-3 dark:text-slate-300", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Font", _jsx("select", { value: font, onChange: (event) => setFont(event.target.value), className: INPUT_CLASS, children: WATERMARK_FONTS.map((option) => (_jsx("option", { value: option.id, children: option.label }, option.id))) })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Size (pt)", _jsx("input", { type: "number", min: 6, max: 36, value: fontSize, onChange: (event) => setFontSize(Math.max(6, Math.min(36, parseWholeNumber(event.target.value, 9)))), className: INPUT_CLASS })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Color", _jsx("input", { type: "color", value: color, onChange: (event) => setColor(event.target.value), className: "h-10 w-full cursor-pointer rounded-2xl border border-slate-200 bg-white px-1 dark:border-white/10 dark:bg-slate-900" })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Side margin (pt)", _jsx("input", { type: "number", min: 0, value: marginX, onChange: (event) => setMarginX(parseWholeNumber(event.target.value, 0)), className: INPUT_CLASS })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Edge margin (pt)", _jsx("input", { type: "number", min: 0, value: marginY, onChange: (event) => setMarginY(parseWholeNumber(event.target.value, 0)), className: INPUT_CLASS })] })] })] }), _jsxs("aside", { className: "flex flex-col gap-4 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Preview" }), _jsx("ul", { className: "grid grid-cols-2 gap-3", children: previewPages.map((preview) => (_jsxs("li", { className: "flex flex-col gap-1", children: [_jsx("div", { className: "flex aspect-[8.5/11] flex-col justify-between rounded-xl border border-slate-200 bg-white p-2 text-[9px] leading-tight text-slate-600 shadow-sm dark:border-white/10 dark:bg-slate-950 dark:text-slate-300", children: [preview.header, preview.footer].map((band, bandIndex) => (_jsx("div", { className: "grid grid-cols-3 gap-1", children: band.map((text, slotIndex) => (_jsx("span", { className: clsx("truncate", slotIndex === 1 && "text-center", slotIndex === 2 && "text-right"), children: text }, slotIndex))) }, bandIndex))) }), _jsxs("span", { className: "text-center text-xs text-slate-500 dark:text-slate-400", children: ["Page ", preview.pageNumber] })] }, preview.pageNumber))) }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleExport, disabled: isExporting, children: isExporting ? "Saving..." : "Apply & Download" }), exportError ? (_jsx("p", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: exportError })) : null, exportSuccess ? (_jsx("p", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: exportSuccess })) : null] })] })) : null, _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+};
+export default HeaderFooterToolPage;
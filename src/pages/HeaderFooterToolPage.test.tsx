@@ -0,0 +1,21 @@
+import { render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+import HeaderFooterToolPage from "./HeaderFooterToolPage";
+import { useActivityLog } from "../state/activityLog";
+
+describe("HeaderFooterToolPage", () => {
+  beforeEach(() => {
+    useActivityLog.getState().reset();
+  });
+
+  it("renders the header and footer hero with an upload entry point", () => {
+    render(<HeaderFooterToolPage />);
+    expect(screen.getByText(/Add headers and footers/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/Choose a PDF/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,520 @@
+import { useCallback, useEffect, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import clsx from "clsx";
+
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import type { PdfSource } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import {
+  HEADER_FOOTER_SLOTS,
+  HEADER_FOOTER_TOKENS,
+  addHeaderFooter,
+  buildTemplateContext,
+  createEmptyLayout,
+  expandTemplate,
+  resolvePageLayout,
+  type HeaderFooterLayout,
+  type HeaderFooterSettings,
+} from "../lib/pdfHeaderFooter";
+import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
+import { WATERMARK_FONTS, type WatermarkFont } from "../lib/pdfWatermark";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { logExportResult } from "../state/activityLog";
+
+type LayoutKey = "odd" | "even";
+
+const BANDS = [
+  { id: "header", label: "Header" },
+  { id: "footer", label: "Footer" },
+] as const;
+
+const SLOT_LABELS = { left: "Left", center: "Center", right: "Right" } as const;
+
+const INPUT_CLASS =
+  "w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+
+const createDefaultLayout = (): HeaderFooterLayout => {
+  const layout = createEmptyLayout();
+  layout.footer.center = "Page {page} of {pages}";
+  return layout;
+};
+
+const mirrorLayout = (layout: HeaderFooterLayout): HeaderFooterLayout => ({
+  header: { left: layout.header.right, center: layout.header.center, right: layout.header.left },
+  footer: { left: layout.footer.right, center: layout.footer.center, right: layout.footer.left },
+});
+
+const parseWholeNumber = (value: string, fallback: number) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const HeaderFooterToolPage = () => {
+  const [pdf, setPdf] = useState<LoadedPdf | null>(null);
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [isDragActive, setDragActive] = useState(false);
+  const [oddLayout, setOddLayout] = useState<HeaderFooterLayout>(createDefaultLayout);
+  const [evenLayout, setEvenLayout] = useState<HeaderFooterLayout | null>(null);
+  const [editing, setEditing] = useState<LayoutKey>("odd");
+  const [skipFirstPage, setSkipFirstPage] = useState(false);
+  const [font, setFont] = useState<WatermarkFont>("helvetica");
+  const [fontSize, setFontSize] = useState(9);
+  const [color, setColor] = useState("#334155");
+  const [marginX, setMarginX] = useState(48);
+  const [marginY, setMarginY] = useState(28);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [isExporting, setExporting] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    fileName: string;
+    reason: PdfPasswordReason;
+    resolve: (value: string | null) => void;
+  } | null>(null);
+
+  useEffect(() => {
+    configurePdfWorker();
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      pdf?.doc.destroy();
+    };
+  }, [pdf]);
+
+  const resetWorkspace = useCallback(() => {
+    pdf?.doc.destroy();
+    setPdf(null);
+    setStatus("idle");
+    setError(null);
+    setExportError(null);
+    setExportSuccess(null);
+  }, [pdf]);
+
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      passwordPrompt?.resolve(password);
+      setPasswordPrompt(null);
+    },
+    [passwordPrompt],
+  );
+
+  const handlePasswordCancel = useCallback(() => {
+    passwordPrompt?.resolve(null);
+    setPasswordPrompt(null);
+  }, [passwordPrompt]);
+
+  const loadFile = useCallback(
+    async (file: File | PdfSource | null | undefined) => {
+      if (!file) return;
+      setStatus("loading");
+      setError(null);
+      setExportError(null);
+      setExportSuccess(null);
+
+      try {
+        pdf?.doc.destroy();
+        const { loadPdfFromInput } = await import("../lib/pdfLoader");
+        const loaded = await loadPdfFromInput(file, {
+          requestPassword: (reason) =>
+            new Promise<string | null>((resolve) => {
+              setPasswordPrompt({ fileName: file.name, reason, resolve });
+            }),
+        });
+        setPdf(loaded);
+        setStatus("ready");
+      } catch (loadError) {
+        console.error(loadError);
+        setPdf(null);
+        setStatus("error");
+        setError(getFriendlyPdfError(loadError));
+      }
+    },
+    [pdf],
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const nextFile = event.target.files?.[0];
+      void loadFile(nextFile);
+      event.target.value = "";
+    },
+    [loadFile],
+  );
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setDragActive(false);
+      const nextFile = event.dataTransfer.files?.[0];
+      void loadFile(nextFile);
+    },
+    [loadFile],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+  }, []);
+
+  const handleOddEvenToggle = useCallback(
+    (enabled: boolean) => {
+      // Start even pages as a mirror of odd ones, the usual layout for duplex printing.
+      setEvenLayout(enabled ? mirrorLayout(oddLayout) : null);
+      setEditing(enabled ? "even" : "odd");
+    },
+    [oddLayout],
+  );
+
+  const updateTemplate = useCallback(
+    (band: keyof HeaderFooterLayout, slot: keyof HeaderFooterLayout["header"], value: string) => {
+      const update = (layout: HeaderFooterLayout) => ({
+        ...layout,
+        [band]: { ...layout[band], [slot]: value },
+      });
+      if (editing === "even") {
+        setEvenLayout((current) => (current ? update(current) : current));
+      } else {
+        setOddLayout(update);
+      }
+      setExportSuccess(null);
+    },
+    [editing],
+  );
+
+  const settings = useMemo<HeaderFooterSettings>(
+    () => ({
+      odd: oddLayout,
+      even: evenLayout,
+      skipFirstPage,
+      font,
+      fontSize,
+      color,
+      marginX,
+      marginY,
+    }),
+    [color, evenLayout, font, fontSize, marginX, marginY, oddLayout, skipFirstPage],
+  );
+
+  const previewPages = useMemo(() => {
+    if (!pdf) {
+      return [];
+    }
+    const pages = new Set([1, 2, pdf.pageCount].filter((page) => page <= pdf.pageCount));
+    const now = new Date();
+    return Array.from(pages).map((pageNumber) => {
+      const layout = resolvePageLayout(settings, pageNumber);
+      const context = buildTemplateContext(pdf, pageNumber, now);
+      return {
+        pageNumber,
+        header: HEADER_FOOTER_SLOTS.map((slot) =>
+          layout ? expandTemplate(layout.header[slot], context) : "",
+        ),
+        footer: HEADER_FOOTER_SLOTS.map((slot) =>
+          layout ? expandTemplate(layout.footer[slot], context) : "",
+        ),
+      };
+    });
+  }, [pdf, settings]);
+
+  const handleExport = useCallback(async () => {
+    if (!pdf) {
+      return;
+    }
+
+    setExportError(null);
+    setExportSuccess(null);
+    setExporting(true);
+
+    try {
+      const result = await addHeaderFooter(pdf, settings, { startedAt: Date.now() });
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setExportSuccess(`Saved ${result.downloadName}.`);
+    } catch (exportProblem) {
+      console.error("Failed to add headers and footers", exportProblem);
+      setExportError(getFriendlyPdfError(exportProblem));
+    } finally {
+      setExporting(false);
+    }
+  }, [pdf, settings]);
+
+  const activeLayout = editing === "even" && evenLayout ? evenLayout : oddLayout;
+
+  return (
+    <div className="mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={clsx(
+          "rounded-[32px] border-2 border-dashed p-10 transition-colors",
+          isDragActive
+            ? "border-pink-400 bg-pink-50/70 dark:border-pink-300 dark:bg-pink-500/10"
+            : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950",
+        )}
+      >
+        <div className="mx-auto flex max-w-3xl flex-col gap-4 text-center">
+          <p className="text-2xl font-semibold text-slate-900 dark:text-white">
+            {pdf ? pdf.name : "Add headers and footers"}
+          </p>
+          <p className="text-sm text-slate-500 dark:text-slate-300">
+            {pdf
+              ? `${pdf.pageCount} page${pdf.pageCount === 1 ? "" : "s"} · Rotated pages get their footer at the bottom as you see it.`
+              : "Drop a PDF or choose a file, then write templates with tokens like {page} of {pages}. Nothing leaves your browser."}
+          </p>
+          <div className="flex flex-col items-center gap-2">
+            <label
+              htmlFor="header-footer-upload"
+              className="inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900"
+            >
+              {pdf ? "Replace PDF" : "Choose a PDF"}
+            </label>
+            <input
+              id="header-footer-upload"
+              type="file"
+              accept="application/pdf"
+              className="sr-only"
+              onChange={handleInputChange}
+            />
+            <span className="text-xs uppercase tracking-wide text-slate-400">
+              or drag anywhere in this panel
+            </span>
+            <OpenFromUrlForm onSource={loadFile} />
+            {pdf ? (
+              <button
+                type="button"
+                className="text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300"
+                onClick={resetWorkspace}
+              >
+                Reset workspace
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+          {error}
+        </div>
+      ) : null}
+
+      {status === "loading" ? (
+        <div className="rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
+          Loading PDF...
+        </div>
+      ) : null}
+
+      {pdf ? (
+        <div className="grid gap-6 lg:grid-cols-[1.4fr,1fr]">
+          <section className="space-y-5 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex gap-2" role="tablist" aria-label="Page layout">
+                {(evenLayout ? (["odd", "even"] as const) : (["odd"] as const)).map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    role="tab"
+                    aria-selected={editing === key}
+                    className={clsx(
+                      "rounded-full px-4 py-1 text-sm font-semibold transition",
+                      editing === key
+                        ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900"
+                        : "border border-slate-200 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-200",
+                    )}
+                    onClick={() => setEditing(key)}
+                  >
+                    {key === "even" ? "Even pages" : evenLayout ? "Odd pages" : "All pages"}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-4 text-sm text-slate-600 dark:text-slate-300">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(evenLayout)}
+                    onChange={(event) => handleOddEvenToggle(event.target.checked)}
+                  />
+                  Different odd and even pages
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={skipFirstPage}
+                    onChange={(event) => setSkipFirstPage(event.target.checked)}
+                  />
+                  Skip first page
+                </label>
+              </div>
+            </div>
+
+            {BANDS.map((band) => (
+              <fieldset key={band.id} className="space-y-2">
+                <legend className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                  {band.label}
+                </legend>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  {HEADER_FOOTER_SLOTS.map((slot) => (
+                    <label
+                      key={slot}
+                      className="flex flex-col gap-1 text-xs text-slate-500 dark:text-slate-400"
+                    >
+                      {`${band.label} ${SLOT_LABELS[slot].toLowerCase()}`}
+                      <input
+                        type="text"
+                        value={activeLayout[band.id][slot]}
+                        onChange={(event) => updateTemplate(band.id, slot, event.target.value)}
+                        className={clsx(INPUT_CLASS, "font-mono")}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            ))}
+
+            <div className="rounded-2xl border border-slate-200/80 bg-slate-50/80 px-4 py-3 text-xs text-slate-600 dark:border-white/10 dark:bg-slate-950/40 dark:text-slate-300">
+              <p className="font-semibold uppercase tracking-wide text-slate-500">Tokens</p>
+              <dl className="mt-2 grid gap-x-4 gap-y-1 sm:grid-cols-2">
+                {HEADER_FOOTER_TOKENS.map(({ token, description }) => (
+                  <div key={token} className="flex gap-2">
+                    <dt className="font-mono text-slate-900 dark:text-white">{`{${token}}`}</dt>
+                    <dd>{description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            <div className="grid gap-3 text-sm text-slate-600 sm:grid-cols-3 dark:text-slate-300">
+              <label className="flex flex-col gap-1">
+                Font
+                <select
+                  value={font}
+                  onChange={(event) => setFont(event.target.value as WatermarkFont)}
+                  className={INPUT_CLASS}
+                >
+                  {WATERMARK_FONTS.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Size (pt)
+                <input
+                  type="number"
+                  min={6}
+                  max={36}
+                  value={fontSize}
+                  onChange={(event) =>
+                    setFontSize(Math.max(6, Math.min(36, parseWholeNumber(event.target.value, 9))))
+                  }
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Color
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(event) => setColor(event.target.value)}
+                  className="h-10 w-full cursor-pointer rounded-2xl border border-slate-200 bg-white px-1 dark:border-white/10 dark:bg-slate-900"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Side margin (pt)
+                <input
+                  type="number"
+                  min={0}
+                  value={marginX}
+                  onChange={(event) => setMarginX(parseWholeNumber(event.target.value, 0))}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Edge margin (pt)
+                <input
+                  type="number"
+                  min={0}
+                  value={marginY}
+                  onChange={(event) => setMarginY(parseWholeNumber(event.target.value, 0))}
+                  className={INPUT_CLASS}
+                />
+              </label>
+            </div>
+          </section>
+
+          <aside className="flex flex-col gap-4 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+            <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+              Preview
+            </p>
+            <ul className="grid grid-cols-2 gap-3">
+              {previewPages.map((preview) => (
+                <li key={preview.pageNumber} className="flex flex-col gap-1">
+                  <div className="flex aspect-[8.5/11] flex-col justify-between rounded-xl border border-slate-200 bg-white p-2 text-[9px] leading-tight text-slate-600 shadow-sm dark:border-white/10 dark:bg-slate-950 dark:text-slate-300">
+                    {[preview.header, preview.footer].map((band, bandIndex) => (
+                      <div key={bandIndex} className="grid grid-cols-3 gap-1">
+                        {band.map((text, slotIndex) => (
+                          <span
+                            key={slotIndex}
+                            className={clsx(
+                              "truncate",
+                              slotIndex === 1 && "text-center",
+                              slotIndex === 2 && "text-right",
+                            )}
+                          >
+                            {text}
+                          </span>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <span className="text-center text-xs text-slate-500 dark:text-slate-400">
+                    Page {preview.pageNumber}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <button
+              type="button"
+              className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900"
+              onClick={handleExport}
+              disabled={isExporting}
+            >
+              {isExporting ? "Saving..." : "Apply & Download"}
+            </button>
+
+            {exportError ? (
+              <p className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+                {exportError}
+              </p>
+            ) : null}
+            {exportSuccess ? (
+              <p className="rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+                {exportSuccess}
+              </p>
+            ) : null}
+          </aside>
+        </div>
+      ) : null}
+
+      <PasswordPromptModal
+        open={Boolean(passwordPrompt)}
+        fileName={passwordPrompt?.fileName ?? ""}
+        reason={passwordPrompt?.reason ?? "password-required"}
+        onSubmit={handlePasswordSubmit}
+        onCancel={handlePasswordCancel}
+      />
+    </div>
+  );
+};
+
+export default HeaderFooterToolPage;
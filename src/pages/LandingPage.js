@@ -1,7 +1,10 @@
 import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
-import { Link } from "react-router-dom";
+import { useCallback, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import ActivityEntryActions from "../components/ActivityEntryActions";
 import { toolRoutes } from "../data/toolRoutes";
 import { useActivityLog } from "../state/activityLog";
+import { useWorkspaceSession, workspaceLabel } from "../state/workspaceSession";
 const badgeStyles = {
     viewer: "bg-slate-100 text-slate-700 dark:bg-slate-800/40 dark:text-slate-200",
     merge: "bg-indigo-50 text-indigo-700 dark:bg-indigo-500/10 dark:text-indigo-200",
@@ -11,6 +14,13 @@ const badgeStyles = {
     "images-to-pdf": "bg-teal-50 text-teal-700 dark:bg-teal-500/10 dark:text-teal-200",
     compression: "bg-cyan-50 text-cyan-700 dark:bg-cyan-500/10 dark:text-cyan-100",
     signatures: "bg-rose-50 text-rose-700 dark:bg-rose-500/10 dark:text-rose-100",
+    metadata: "bg-violet-50 text-violet-700 dark:bg-violet-500/10 dark:text-violet-100",
+    forms: "bg-lime-50 text-lime-700 dark:bg-lime-500/10 dark:text-lime-100",
+    watermark: "bg-sky-50 text-sky-700 dark:bg-sky-500/10 dark:text-sky-100",
+    stamps: "bg-orange-50 text-orange-700 dark:bg-orange-500/10 dark:text-orange-100",
+    "header-footer": "bg-pink-50 text-pink-700 dark:bg-pink-500/10 dark:text-pink-100",
+    encrypt: "bg-yellow-50 text-yellow-700 dark:bg-yellow-500/10 dark:text-yellow-100",
+    recipe: "bg-stone-100 text-stone-700 dark:bg-stone-500/10 dark:text-stone-100",
 };
 const badgeLabels = {
     viewer: "Viewer export",
@@ -21,16 +31,59 @@ const badgeLabels = {
     "images-to-pdf": "Images → PDF",
     compression: "Compression",
     signatures: "Signatures",
+    metadata: "Metadata",
+    forms: "Forms",
+    watermark: "Watermark",
+    stamps: "Page stamps",
+    "header-footer": "Headers & footers",
+    encrypt: "Encryption",
+    recipe: "Recipe",
 };
 const formatActivityTime = (timestamp) => new Intl.DateTimeFormat(undefined, {
     dateStyle: "medium",
     timeStyle: "short",
 }).format(timestamp);
+const formatBytes = (size) => {
+    if (size === 0)
+        return "0 B";
+    const units = ["B", "KB", "MB", "GB"];
+    const power = Math.min(Math.floor(Math.log(size) / Math.log(1024)), units.length - 1);
+    return `${(size / 1024 ** power).toFixed(power === 0 ? 0 : 1)} ${units[power]}`;
+};
+const plural = (count, noun) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+const describeSavedWorkspace = ({ snapshot, documentNames }) => {
+    switch (snapshot.key) {
+        case "merge":
+            return `${plural(snapshot.documents.length, "file")} · ${documentNames.join(", ")}`;
+        case "editor":
+            return `${documentNames[0] ?? "Untitled"} · ${plural(snapshot.history.length, "undo step")}`;
+        case "split":
+            return `${documentNames[0] ?? "Untitled"} · ${plural(snapshot.selectedPages.length, "page")} selected`;
+    }
+};
 const LandingPage = () => {
+    const navigate = useNavigate();
     const entries = useActivityLog((state) => state.entries);
     const clearActivity = useActivityLog((state) => state.clear);
+    const savedWorkspaces = useWorkspaceSession((state) => state.saved);
+    const storageUsage = useWorkspaceSession((state) => state.usage);
+    const sessionError = useWorkspaceSession((state) => state.error);
+    const isRestoring = useWorkspaceSession((state) => state.isRestoring);
+    const refreshSession = useWorkspaceSession((state) => state.refresh);
+    const restoreSession = useWorkspaceSession((state) => state.restoreSession);
+    const clearSession = useWorkspaceSession((state) => state.clearSession);
     const upcomingTools = toolRoutes.filter((tool) => tool.status === "upcoming");
     const featuredUpcoming = upcomingTools.slice(0, 3);
-    return (_jsxs("div", { className: "space-y-12", children: [_jsxs("section", { className: "gradient-card overflow-hidden rounded-3xl border border-slate-200/70 bg-white/90 p-10 shadow-2xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70 dark:shadow-slate-900/50", children: [_jsxs("p", { className: "mb-4 inline-flex items-center gap-2 rounded-full border border-white/40 px-4 py-1 text-xs font-semibold uppercase tracking-[0.4em] text-slate-500 dark:text-slate-300", children: ["Phase 0.6.0", _jsx("span", { className: "h-2 w-2 rounded-full bg-emerald-400" }), "Live"] }), _jsx("h1", { className: "font-display text-4xl font-semibold leading-tight text-slate-900 dark:text-white md:text-5xl", children: "View, merge, split, edit, and compress PDFs\u2014entirely in your browser." }), _jsx("p", { className: "mt-6 max-w-2xl text-lg text-slate-600 dark:text-slate-300", children: "PDF Workbench is a complete client-side PDF toolkit. Load files, merge stacks, split by selection or preset, reorder/rotate/delete pages, convert images to PDF, and now compress image-heavy documents with quality presets\u2014all without uploading anything to a server." }), _jsx("p", { className: "mt-4 max-w-2xl text-sm text-slate-500 dark:text-slate-400", children: "Phase 0.7.0 will add visual signature placement: draw, type, or upload signatures and position them precisely on any page before exporting." }), _jsxs("div", { className: "mt-8 flex flex-wrap gap-4", children: [_jsx(Link, { to: "/compression", className: "inline-flex items-center gap-3 rounded-full bg-slate-900 px-6 py-3 text-white shadow-lg shadow-slate-900/40 transition hover:-translate-y-0.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-slate-900 dark:bg-white dark:text-slate-900", children: "Try Compression \u2192" }), _jsx(Link, { to: "/viewer", className: "inline-flex items-center gap-3 rounded-full border border-slate-900/20 px-6 py-3 text-slate-700 transition hover:border-slate-900 hover:text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand dark:border-white/30 dark:text-slate-200", children: "Open PDF Viewer" })] }), _jsxs("dl", { className: "mt-10 grid grid-cols-1 gap-6 text-sm uppercase tracking-[0.3em] text-slate-500 md:grid-cols-3", children: [_jsxs("div", { children: [_jsx("dt", { children: "Stack" }), _jsx("dd", { className: "text-2xl font-semibold normal-case tracking-normal text-slate-900 dark:text-white", children: "React + Vite + TS" })] }), _jsxs("div", { children: [_jsx("dt", { children: "Design System" }), _jsx("dd", { className: "text-2xl font-semibold normal-case tracking-normal text-slate-900 dark:text-white", children: "Tailwind + Custom Themes" })] }), _jsxs("div", { children: [_jsx("dt", { children: "Automation" }), _jsx("dd", { className: "text-2xl font-semibold normal-case tracking-normal text-slate-900 dark:text-white", children: "ESLint \u00B7 Vitest \u00B7 CI" })] })] })] }), _jsxs("section", { className: "grid gap-6 lg:grid-cols-2", children: [_jsxs("article", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Phase 0.6.0" }), _jsx("h2", { className: "mt-3 font-display text-3xl font-semibold text-slate-900 dark:text-white", children: "What\u2019s live right now?" }), _jsxs("ul", { className: "mt-6 space-y-4 text-sm text-slate-600 dark:text-slate-300", children: [_jsx("li", { children: "\u2705 PDF viewer with drag/drop ingest, zoom presets, metadata, and thumbnail rail" }), _jsx("li", { children: "\u2705 Merge workspace to stack, reorder, and download multi-file bundles instantly" }), _jsx("li", { children: "\u2705 Split workspace with selectable tiles, custom exports, and every-N ZIP bundles" }), _jsx("li", { children: "\u2705 Page editor with drag-to-reorder, rotate/delete controls, and undo history" }), _jsx("li", { children: "\u2705 Images\u2192PDF studio with layout presets, PNG integrity guard, and instant downloads" }), _jsx("li", { children: "\u2705 Compression with three quality presets (High/Balanced/Smallest) and real-time size reporting" }), _jsx("li", { children: "\u2705 Password prompts, activity log, and unit + E2E test coverage across all tools" }), _jsx("li", { children: "\u2705 Light/dark theming, responsive shell, and ESLint+Vitest+Playwright keeping it honest" })] })] }), _jsxs("article", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Next Tracks" }), _jsx("h2", { className: "mt-3 font-display text-3xl font-semibold text-slate-900 dark:text-white", children: "Upcoming tool drops" }), _jsx("div", { className: "mt-6 space-y-5", children: featuredUpcoming.length > 0 ? (featuredUpcoming.map((tool) => (_jsxs("div", { className: "rounded-2xl border border-slate-200/50 p-4 dark:border-white/10", children: [_jsxs("div", { className: "flex items-center justify-between text-xs uppercase tracking-[0.3em] text-slate-400", children: [_jsx("span", { children: tool.eta }), _jsx("span", { children: tool.version })] }), _jsx("p", { className: "mt-2 text-lg font-semibold text-slate-900 dark:text-white", children: tool.label }), _jsx("p", { className: "text-sm text-slate-600 dark:text-slate-300", children: tool.summary })] }, tool.id)))) : (_jsx("p", { className: "rounded-2xl border border-dashed border-slate-200/70 p-4 text-sm text-slate-500 dark:border-white/10 dark:text-slate-400", children: "Signatures is the final planned tool. Once 0.7.0 ships, we\u2019ll shift focus to UX polish, accessibility, and documentation for the 1.0 release." })) })] })] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Workspace pulse" }), _jsx("h2", { className: "mt-2 font-display text-2xl font-semibold text-slate-900 dark:text-white", children: "Recent activity" })] }), _jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-4 hover:text-slate-900 hover:underline dark:text-slate-300", onClick: clearActivity, disabled: entries.length === 0, children: "Clear log" })] }), entries.length === 0 ? (_jsx("p", { className: "mt-6 text-sm text-slate-500 dark:text-slate-300", children: "Interact with the merge or split workspaces to populate this feed. We keep the last dozen actions locally so you can see what shipped most recently." })) : (_jsx("ul", { className: "mt-6 space-y-4", children: entries.slice(0, 6).map((entry) => (_jsxs("li", { className: "rounded-2xl border border-slate-200/60 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:text-slate-200", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsx("span", { className: `inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${badgeStyles[entry.type]}`, children: badgeLabels[entry.type] }), _jsx("span", { className: "text-xs text-slate-400 dark:text-slate-500", children: formatActivityTime(entry.timestamp) })] }), _jsx("p", { className: "mt-2 text-base font-semibold text-slate-900 dark:text-white", children: entry.label }), entry.detail ? (_jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: entry.detail })) : null] }, entry.id))) }))] }), _jsx("section", { className: "rounded-3xl border border-dashed border-slate-300/60 p-8 text-center text-sm text-slate-500 dark:border-white/20 dark:text-slate-400", children: _jsx("p", { children: "Your files never leave your device. PDF Workbench processes everything in-browser using pdf.js for rendering and pdf-lib for manipulation. No uploads, no server round-trips." }) })] }));
+    useEffect(() => {
+        void refreshSession();
+    }, [refreshSession]);
+    // Stages the chosen workspaces and opens the first one; the others restore when visited.
+    const handleRestore = useCallback(async (keys) => {
+        const path = toolRoutes.find((route) => route.id === keys[0])?.path;
+        if ((await restoreSession(keys)) && path) {
+            navigate(`/${path}`);
+        }
+    }, [navigate, restoreSession]);
+    return (_jsxs("div", { className: "space-y-12", children: [_jsxs("section", { className: "gradient-card overflow-hidden rounded-3xl border border-slate-200/70 bg-white/90 p-10 shadow-2xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70 dark:shadow-slate-900/50", children: [_jsxs("p", { className: "mb-4 inline-flex items-center gap-2 rounded-full border border-white/40 px-4 py-1 text-xs font-semibold uppercase tracking-[0.4em] text-slate-500 dark:text-slate-300", children: ["Phase 0.6.0", _jsx("span", { className: "h-2 w-2 rounded-full bg-emerald-400" }), "Live"] }), _jsx("h1", { className: "font-display text-4xl font-semibold leading-tight text-slate-900 dark:text-white md:text-5xl", children: "View, merge, split, edit, and compress PDFs\u2014entirely in your browser." }), _jsx("p", { className: "mt-6 max-w-2xl text-lg text-slate-600 dark:text-slate-300", children: "PDF Workbench is a complete client-side PDF toolkit. Load files, merge stacks, split by selection or preset, reorder/rotate/delete pages, convert images to PDF, and now compress image-heavy documents with quality presets\u2014all without uploading anything to a server." }), _jsx("p", { className: "mt-4 max-w-2xl text-sm text-slate-500 dark:text-slate-400", children: "Phase 0.7.0 will add visual signature placement: draw, type, or upload signatures and position them precisely on any page before exporting." }), _jsxs("div", { className: "mt-8 flex flex-wrap gap-4", children: [_jsx(Link, { to: "/compression", className: "inline-flex items-center gap-3 rounded-full bg-slate-900 px-6 py-3 text-white shadow-lg shadow-slate-900/40 transition hover:-translate-y-0.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-slate-900 dark:bg-white dark:text-slate-900", children: "Try Compression \u2192" }), _jsx(Link, { to: "/viewer", className: "inline-flex items-center gap-3 rounded-full border border-slate-900/20 px-6 py-3 text-slate-700 transition hover:border-slate-900 hover:text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand dark:border-white/30 dark:text-slate-200", children: "Open PDF Viewer" })] }), _jsxs("dl", { className: "mt-10 grid grid-cols-1 gap-6 text-sm uppercase tracking-[0.3em] text-slate-500 md:grid-cols-3", children: [_jsxs("div", { children: [_jsx("dt", { children: "Stack" }), _jsx("dd", { className: "text-2xl font-semibold normal-case tracking-normal text-slate-900 dark:text-white", children: "React + Vite + TS" })] }), _jsxs("div", { children: [_jsx("dt", { children: "Design System" }), _jsx("dd", { className: "text-2xl font-semibold normal-case tracking-normal text-slate-900 dark:text-white", children: "Tailwind + Custom Themes" })] }), _jsxs("div", { children: [_jsx("dt", { children: "Automation" }), _jsx("dd", { className: "text-2xl font-semibold normal-case tracking-normal text-slate-900 dark:text-white", children: "ESLint \u00B7 Vitest \u00B7 CI" })] })] })] }), savedWorkspaces.length > 0 || sessionError ? (_jsxs("section", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Saved on this device" }), _jsx("h2", { className: "mt-2 font-display text-2xl font-semibold text-slate-900 dark:text-white", children: "Pick up where you left off" })] }), _jsxs("div", { className: "flex flex-wrap items-center gap-3", children: [savedWorkspaces.length > 0 ? (_jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: () => void handleRestore(savedWorkspaces.map((saved) => saved.snapshot.key)), disabled: isRestoring, children: isRestoring ? "Restoring…" : "Restore previous session" })) : null, _jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-4 hover:text-slate-900 hover:underline dark:text-slate-300", title: "Deletes saved workspaces and the exports kept for downloading again", onClick: () => void clearSession(), children: "Clear saved session" })] })] }), sessionError ? (_jsx("p", { className: "mt-4 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: sessionError })) : null, _jsx("ul", { className: "mt-6 space-y-3", children: savedWorkspaces.map((saved) => (_jsxs("li", { className: "flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200/60 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:text-slate-200", children: [_jsxs("div", { className: "min-w-0 flex-1", children: [_jsx("p", { className: "text-base font-semibold text-slate-900 dark:text-white", children: workspaceLabel(saved.snapshot.key) }), _jsx("p", { className: "break-all text-sm text-slate-500 dark:text-slate-300", children: describeSavedWorkspace(saved) }), _jsxs("p", { className: "text-xs text-slate-400 dark:text-slate-500", children: ["Saved ", formatActivityTime(saved.savedAt), " \u00B7 ", formatBytes(saved.size)] })] }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-40 dark:border-white/10 dark:text-slate-200 dark:hover:bg-slate-800", onClick: () => void handleRestore([saved.snapshot.key]), disabled: isRestoring, children: "Open" })] }, saved.snapshot.key))) }), storageUsage ? (_jsxs("p", { className: "mt-4 text-xs text-slate-400 dark:text-slate-500", children: ["Browser storage in use: ", formatBytes(storageUsage.usage), " of", " ", formatBytes(storageUsage.quota), ". Password-protected files ask for their password again after a restore."] })) : null] })) : null, _jsxs("section", { className: "grid gap-6 lg:grid-cols-2", children: [_jsxs("article", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Phase 0.6.0" }), _jsx("h2", { className: "mt-3 font-display text-3xl font-semibold text-slate-900 dark:text-white", children: "What\u2019s live right now?" }), _jsxs("ul", { className: "mt-6 space-y-4 text-sm text-slate-600 dark:text-slate-300", children: [_jsx("li", { children: "\u2705 PDF viewer with drag/drop ingest, zoom presets, metadata, and thumbnail rail" }), _jsx("li", { children: "\u2705 Merge workspace to stack, reorder, and download multi-file bundles instantly" }), _jsx("li", { children: "\u2705 Split workspace with selectable tiles, custom exports, and every-N ZIP bundles" }), _jsx("li", { children: "\u2705 Page editor with drag-to-reorder, rotate/delete controls, and undo history" }), _jsx("li", { children: "\u2705 Images\u2192PDF studio with layout presets, PNG integrity guard, and instant downloads" }), _jsx("li", { children: "\u2705 Compression with three quality presets (High/Balanced/Smallest) and real-time size reporting" }), _jsx("li", { children: "\u2705 Signatures workspace to draw, type, or upload a signature and drag it onto any page" }), _jsx("li", { children: "\u2705 Metadata editor that syncs Info and XMP fields or strips them before sharing" }), _jsx("li", { children: "\u2705 Forms tool to fill, flatten, and reuse AcroForm values via JSON import/export" }), _jsx("li", { children: "\u2705 Watermark tool that stamps tiled or centered text and images on selected pages" }), _jsx("li", { children: "\u2705 Bates and \u201CPage X of Y\u201D stamping that continues across the merge queue" }), _jsx("li", { children: "\u2705 Header and footer templates with page, date, and title tokens plus odd/even layouts" }), _jsx("li", { children: "\u2705 Password protection with AES-256, AES-128, or RC4 and print/copy/modify permissions" }), _jsx("li", { children: "\u2705 Password prompts, activity log, and unit + E2E test coverage across all tools" }), _jsx("li", { children: "\u2705 Light/dark theming, responsive shell, and ESLint+Vitest+Playwright keeping it honest" })] })] }), _jsxs("article", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Next Tracks" }), _jsx("h2", { className: "mt-3 font-display text-3xl font-semibold text-slate-900 dark:text-white", children: "Upcoming tool drops" }), _jsx("div", { className: "mt-6 space-y-5", children: featuredUpcoming.length > 0 ? (featuredUpcoming.map((tool) => (_jsxs("div", { className: "rounded-2xl border border-slate-200/50 p-4 dark:border-white/10", children: [_jsxs("div", { className: "flex items-center justify-between text-xs uppercase tracking-[0.3em] text-slate-400", children: [_jsx("span", { children: tool.eta }), _jsx("span", { children: tool.version })] }), _jsx("p", { className: "mt-2 text-lg font-semibold text-slate-900 dark:text-white", children: tool.label }), _jsx("p", { className: "text-sm text-slate-600 dark:text-slate-300", children: tool.summary })] }, tool.id)))) : (_jsx("p", { className: "rounded-2xl border border-dashed border-slate-200/70 p-4 text-sm text-slate-500 dark:border-white/10 dark:text-slate-400", children: "Signatures completed the planned toolset. Next we\u2019re shifting focus to UX polish, accessibility, and documentation for the 1.0 release." })) })] })] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Workspace pulse" }), _jsx("h2", { className: "mt-2 font-display text-2xl font-semibold text-slate-900 dark:text-white", children: "Recent activity" })] }), _jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-4 hover:text-slate-900 hover:underline dark:text-slate-300", onClick: clearActivity, disabled: entries.length === 0, children: "Clear log" })] }), entries.length === 0 ? (_jsx("p", { className: "mt-6 text-sm text-slate-500 dark:text-slate-300", children: "Interact with the merge or split workspaces to populate this feed. We keep the last dozen actions locally, with a copy of each export to download again or re-run on another file." })) : (_jsx("ul", { className: "mt-6 space-y-4", children: entries.slice(0, 6).map((entry) => (_jsxs("li", { className: "rounded-2xl border border-slate-200/60 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:text-slate-200", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsx("span", { className: `inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${badgeStyles[entry.type]}`, children: badgeLabels[entry.type] }), _jsx("span", { className: "text-xs text-slate-400 dark:text-slate-500", children: formatActivityTime(entry.timestamp) })] }), _jsx("p", { className: "mt-2 text-base font-semibold text-slate-900 dark:text-white", children: entry.label }), entry.detail ? (_jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: entry.detail })) : null, _jsx(ActivityEntryActions, { entry: entry })] }, entry.id))) }))] }), _jsx("section", { className: "rounded-3xl border border-dashed border-slate-300/60 p-8 text-center text-sm text-slate-500 dark:border-white/20 dark:text-slate-400", children: _jsx("p", { children: "Your files never leave your device. PDF Workbench processes everything in-browser using pdf.js for rendering and pdf-lib for manipulation. No uploads, no server round-trips." }) })] }));
 };
 export default LandingPage;
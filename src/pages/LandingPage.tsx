@@ -1,7 +1,11 @@
-import { Link } from "react-router-dom";
+import { useCallback, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
 
+import ActivityEntryActions from "../components/ActivityEntryActions";
 import { toolRoutes } from "../data/toolRoutes";
+import type { SavedWorkspace, WorkspaceKey } from "../lib/sessionStore";
 import { useActivityLog, type ActivityCategory } from "../state/activityLog";
+import { useWorkspaceSession, workspaceLabel } from "../state/workspaceSession";
 
 const badgeStyles: Record<ActivityCategory, string> = {
   viewer: "bg-slate-100 text-slate-700 dark:bg-slate-800/40 dark:text-slate-200",
@@ -12,6 +16,13 @@ const badgeStyles: Record<ActivityCategory, string> = {
   "images-to-pdf": "bg-teal-50 text-teal-700 dark:bg-teal-500/10 dark:text-teal-200",
   compression: "bg-cyan-50 text-cyan-700 dark:bg-cyan-500/10 dark:text-cyan-100",
   signatures: "bg-rose-50 text-rose-700 dark:bg-rose-500/10 dark:text-rose-100",
+  metadata: "bg-violet-50 text-violet-700 dark:bg-violet-500/10 dark:text-violet-100",
+  forms: "bg-lime-50 text-lime-700 dark:bg-lime-500/10 dark:text-lime-100",
+  watermark: "bg-sky-50 text-sky-700 dark:bg-sky-500/10 dark:text-sky-100",
+  stamps: "bg-orange-50 text-orange-700 dark:bg-orange-500/10 dark:text-orange-100",
+  "header-footer": "bg-pink-50 text-pink-700 dark:bg-pink-500/10 dark:text-pink-100",
+  encrypt: "bg-yellow-50 text-yellow-700 dark:bg-yellow-500/10 dark:text-yellow-100",
+  recipe: "bg-stone-100 text-stone-700 dark:bg-stone-500/10 dark:text-stone-100",
 };
 
 const badgeLabels: Record<ActivityCategory, string> = {
@@ -23,6 +34,13 @@ const badgeLabels: Record<ActivityCategory, string> = {
   "images-to-pdf": "Images → PDF",
   compression: "Compression",
   signatures: "Signatures",
+  metadata: "Metadata",
+  forms: "Forms",
+  watermark: "Watermark",
+  stamps: "Page stamps",
+  "header-footer": "Headers & footers",
+  encrypt: "Encryption",
+  recipe: "Recipe",
 };
 
 const formatActivityTime = (timestamp: number) =>
@@ -31,12 +49,55 @@ const formatActivityTime = (timestamp: number) =>
     timeStyle: "short",
   }).format(timestamp);
 
+const formatBytes = (size: number) => {
+  if (size === 0) return "0 B";
+  const units = ["B", "KB", "MB", "GB"] as const;
+  const power = Math.min(Math.floor(Math.log(size) / Math.log(1024)), units.length - 1);
+  return `${(size / 1024 ** power).toFixed(power === 0 ? 0 : 1)} ${units[power]}`;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const describeSavedWorkspace = ({ snapshot, documentNames }: SavedWorkspace) => {
+  switch (snapshot.key) {
+    case "merge":
+      return `${plural(snapshot.documents.length, "file")} · ${documentNames.join(", ")}`;
+    case "editor":
+      return `${documentNames[0] ?? "Untitled"} · ${plural(snapshot.history.length, "undo step")}`;
+    case "split":
+      return `${documentNames[0] ?? "Untitled"} · ${plural(snapshot.selectedPages.length, "page")} selected`;
+  }
+};
+
 const LandingPage = () => {
+  const navigate = useNavigate();
   const entries = useActivityLog((state) => state.entries);
   const clearActivity = useActivityLog((state) => state.clear);
+  const savedWorkspaces = useWorkspaceSession((state) => state.saved);
+  const storageUsage = useWorkspaceSession((state) => state.usage);
+  const sessionError = useWorkspaceSession((state) => state.error);
+  const isRestoring = useWorkspaceSession((state) => state.isRestoring);
+  const refreshSession = useWorkspaceSession((state) => state.refresh);
+  const restoreSession = useWorkspaceSession((state) => state.restoreSession);
+  const clearSession = useWorkspaceSession((state) => state.clearSession);
   const upcomingTools = toolRoutes.filter((tool) => tool.status === "upcoming");
   const featuredUpcoming = upcomingTools.slice(0, 3);
 
+  useEffect(() => {
+    void refreshSession();
+  }, [refreshSession]);
+
+  // Stages the chosen workspaces and opens the first one; the others restore when visited.
+  const handleRestore = useCallback(
+    async (keys: WorkspaceKey[]) => {
+      const path = toolRoutes.find((route) => route.id === keys[0])?.path;
+      if ((await restoreSession(keys)) && path) {
+        navigate(`/${path}`);
+      }
+    },
+    [navigate, restoreSession],
+  );
+
   return (
     <div className="space-y-12">
       <section className="gradient-card overflow-hidden rounded-3xl border border-slate-200/70 bg-white/90 p-10 shadow-2xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70 dark:shadow-slate-900/50">
@@ -93,6 +154,83 @@ const LandingPage = () => {
         </dl>
       </section>
 
+      {savedWorkspaces.length > 0 || sessionError ? (
+        <section className="rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400">
+                Saved on this device
+              </p>
+              <h2 className="mt-2 font-display text-2xl font-semibold text-slate-900 dark:text-white">
+                Pick up where you left off
+              </h2>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              {savedWorkspaces.length > 0 ? (
+                <button
+                  type="button"
+                  className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900"
+                  onClick={() =>
+                    void handleRestore(savedWorkspaces.map((saved) => saved.snapshot.key))
+                  }
+                  disabled={isRestoring}
+                >
+                  {isRestoring ? "Restoring…" : "Restore previous session"}
+                </button>
+              ) : null}
+              <button
+                type="button"
+                className="text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-4 hover:text-slate-900 hover:underline dark:text-slate-300"
+                title="Deletes saved workspaces and the exports kept for downloading again"
+                onClick={() => void clearSession()}
+              >
+                Clear saved session
+              </button>
+            </div>
+          </div>
+          {sessionError ? (
+            <p className="mt-4 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+              {sessionError}
+            </p>
+          ) : null}
+          <ul className="mt-6 space-y-3">
+            {savedWorkspaces.map((saved) => (
+              <li
+                key={saved.snapshot.key}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200/60 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:text-slate-200"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-base font-semibold text-slate-900 dark:text-white">
+                    {workspaceLabel(saved.snapshot.key)}
+                  </p>
+                  <p className="break-all text-sm text-slate-500 dark:text-slate-300">
+                    {describeSavedWorkspace(saved)}
+                  </p>
+                  <p className="text-xs text-slate-400 dark:text-slate-500">
+                    Saved {formatActivityTime(saved.savedAt)} · {formatBytes(saved.size)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 px-4 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-40 dark:border-white/10 dark:text-slate-200 dark:hover:bg-slate-800"
+                  onClick={() => void handleRestore([saved.snapshot.key])}
+                  disabled={isRestoring}
+                >
+                  Open
+                </button>
+              </li>
+            ))}
+          </ul>
+          {storageUsage ? (
+            <p className="mt-4 text-xs text-slate-400 dark:text-slate-500">
+              Browser storage in use: {formatBytes(storageUsage.usage)} of{" "}
+              {formatBytes(storageUsage.quota)}. Password-protected files ask for their password
+              again after a restore.
+            </p>
+          ) : null}
+        </section>
+      ) : null}
+
       <section className="grid gap-6 lg:grid-cols-2">
         <article className="rounded-3xl border border-slate-200/70 bg-white/90 p-8 shadow-xl shadow-slate-200/40 dark:border-white/10 dark:bg-slate-900/70">
           <p className="text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400">
@@ -115,6 +253,25 @@ const LandingPage = () => {
               ✅ Compression with three quality presets (High/Balanced/Smallest) and real-time size
               reporting
             </li>
+            <li>
+              ✅ Signatures workspace to draw, type, or upload a signature and drag it onto any page
+            </li>
+            <li>✅ Metadata editor that syncs Info and XMP fields or strips them before sharing</li>
+            <li>
+              ✅ Forms tool to fill, flatten, and reuse AcroForm values via JSON import/export
+            </li>
+            <li>
+              ✅ Watermark tool that stamps tiled or centered text and images on selected pages
+            </li>
+            <li>
+              ✅ Bates and &ldquo;Page X of Y&rdquo; stamping that continues across the merge queue
+            </li>
+            <li>
+              ✅ Header and footer templates with page, date, and title tokens plus odd/even layouts
+            </li>
+            <li>
+              ✅ Password protection with AES-256, AES-128, or RC4 and print/copy/modify permissions
+            </li>
             <li>
               ✅ Password prompts, activity log, and unit + E2E test coverage across all tools
             </li>
@@ -150,8 +307,8 @@ const LandingPage = () => {
               ))
             ) : (
               <p className="rounded-2xl border border-dashed border-slate-200/70 p-4 text-sm text-slate-500 dark:border-white/10 dark:text-slate-400">
-                Signatures is the final planned tool. Once 0.7.0 ships, we&rsquo;ll shift focus to
-                UX polish, accessibility, and documentation for the 1.0 release.
+                Signatures completed the planned toolset. Next we&rsquo;re shifting focus to UX
+                polish, accessibility, and documentation for the 1.0 release.
               </p>
             )}
           </div>
@@ -180,7 +337,8 @@ const LandingPage = () => {
         {entries.length === 0 ? (
           <p className="mt-6 text-sm text-slate-500 dark:text-slate-300">
             Interact with the merge or split workspaces to populate this feed. We keep the last
-            dozen actions locally so you can see what shipped most recently.
+            dozen actions locally, with a copy of each export to download again or re-run on another
+            file.
           </p>
         ) : (
           <ul className="mt-6 space-y-4">
@@ -205,6 +363,7 @@ const LandingPage = () => {
                 {entry.detail ? (
                   <p className="text-sm text-slate-500 dark:text-slate-300">{entry.detail}</p>
                 ) : null}
+                <ActivityEntryActions entry={entry} />
               </li>
             ))}
           </ul>
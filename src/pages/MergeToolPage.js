@@ -1,12 +1,14 @@
 import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, } from "react";
 import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
 import PasswordPromptModal from "../components/PasswordPromptModal";
 import { triggerBlobDownload } from "../lib/downloads";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
 import { mergeLoadedPdfsToExportResult } from "../lib/pdfMerge";
 import { logExportResult } from "../state/activityLog";
 import { usePdfAssets } from "../state/pdfAssets";
+import { useWorkspaceSession } from "../state/workspaceSession";
 const formatBytes = (size) => {
     if (size === 0)
         return "0 B";
@@ -21,15 +23,20 @@ const formatTimestamp = (timestamp) => {
     }).format(timestamp);
 };
 const MergeToolPage = () => {
-    const { assets, isBusy, error, addAsset, removeAsset, reorderAssets, clearError } = usePdfAssets();
+    const { assets, isBusy, error, addAsset, addSource, removeAsset, reorderAssets, setAssetPageRange, clearError, } = usePdfAssets();
     const [isDragActive, setDragActive] = useState(false);
     const [isMerging, setIsMerging] = useState(false);
     const [mergeError, setMergeError] = useState(null);
     const [mergeSuccess, setMergeSuccess] = useState(null);
+    const [mergeWarnings, setMergeWarnings] = useState([]);
+    const [addBookmarks, setAddBookmarks] = useState(false);
+    const [bookmarkLabel, setBookmarkLabel] = useState("fileName");
+    const [keepSourceOutlines, setKeepSourceOutlines] = useState(true);
     const [passwordPrompt, setPasswordPrompt] = useState(null);
     const dismissMergeAlerts = useCallback(() => {
         setMergeError(null);
         setMergeSuccess(null);
+        setMergeWarnings([]);
     }, []);
     const requestPassword = useCallback((fileName) => (reason) => new Promise((resolve) => {
         setPasswordPrompt({ fileName, reason, resolve });
@@ -51,6 +58,33 @@ const MergeToolPage = () => {
             await addAsset(file, { requestPassword: requestPassword(file.name) });
         }
     }, [addAsset, dismissMergeAlerts, requestPassword]);
+    const ingestSource = useCallback(async (source) => {
+        dismissMergeAlerts();
+        await addSource(source, { requestPassword: requestPassword(source.name) });
+    }, [addSource, dismissMergeAlerts, requestPassword]);
+    const restoreQueue = useCallback(async ({ snapshot, sources }) => {
+        for (const document of snapshot.documents) {
+            const source = sources.find((entry) => entry.id === document.sourceId);
+            const findQueued = () => usePdfAssets.getState().assets.find((asset) => asset.source.id === document.sourceId);
+            if (!source || findQueued()) {
+                continue;
+            }
+            await ingestSource(source);
+            const asset = findQueued();
+            if (asset && document.pageRange) {
+                setAssetPageRange(asset.id, document.pageRange);
+            }
+        }
+    }, [ingestSource, setAssetPageRange]);
+    const restoreQueueRef = useRef(restoreQueue);
+    restoreQueueRef.current = restoreQueue;
+    // A session restored from the landing page rebuilds the queue on arrival.
+    useEffect(() => {
+        const restored = useWorkspaceSession.getState().takeRestore("merge");
+        if (restored) {
+            void restoreQueueRef.current(restored);
+        }
+    }, []);
     const handleInputChange = useCallback((event) => {
         const { files } = event.target;
         void ingestFiles(files);
@@ -79,9 +113,21 @@ const MergeToolPage = () => {
             const result = await mergeLoadedPdfsToExportResult(assets.map((asset) => asset.loaded), {
                 sources: assets.map((asset) => asset.source),
                 startedAt: Date.now(),
+                pageSelections: assets.some((asset) => asset.pageSelection)
+                    ? assets.map((asset) => asset.pageSelection)
+                    : undefined,
+                bookmarks: addBookmarks
+                    ? {
+                        titles: assets.map((asset) => bookmarkLabel === "title"
+                            ? asset.loaded.metadata.title?.trim() || asset.fileName
+                            : asset.fileName),
+                        includeSourceOutlines: keepSourceOutlines,
+                    }
+                    : undefined,
             });
             triggerBlobDownload(result.blob, result.downloadName);
             setMergeSuccess(`Merged stack downloaded as ${result.downloadName}`);
+            setMergeWarnings(result.warnings ?? []);
             logExportResult(result);
         }
         catch (mergeProblem) {
@@ -91,16 +137,26 @@ const MergeToolPage = () => {
         finally {
             setIsMerging(false);
         }
-    }, [assets, dismissMergeAlerts]);
+    }, [addBookmarks, assets, bookmarkLabel, dismissMergeAlerts, keepSourceOutlines]);
     const totals = useMemo(() => {
-        const totalPages = assets.reduce((sum, asset) => sum + asset.loaded.pageCount, 0);
+        const totalPages = assets.reduce((sum, asset) => sum + (asset.pageSelection?.length ?? asset.loaded.pageCount), 0);
+        const sourcePages = assets.reduce((sum, asset) => sum + asset.loaded.pageCount, 0);
         const totalBytes = assets.reduce((sum, asset) => sum + asset.loaded.size, 0);
-        return { totalPages, totalBytes };
+        return { totalPages, sourcePages, totalBytes };
     }, [assets]);
     const canMerge = assets.length >= 2 && !isBusy && !isMerging;
     return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-3xl border-2 border-dashed p-10 text-center transition-colors", isDragActive
                     ? "border-indigo-400 bg-indigo-50/70 dark:border-indigo-300 dark:bg-indigo-500/10"
-                    : "border-slate-300/70 bg-white/80 dark:border-white/10 dark:bg-slate-900/60"), children: _jsxs("div", { className: "mx-auto flex max-w-2xl flex-col gap-4", children: [_jsx("p", { className: "text-lg font-semibold text-slate-800 dark:text-white", children: "Start stacking PDFs" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Drop multiple files or select them manually. We keep the originals in-memory and preserve metadata for the future merge engine." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "merge-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: "Choose PDFs" }), _jsx("input", { id: "merge-upload", type: "file", accept: "application/pdf", multiple: true, className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" })] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: error }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: clearError, children: "Dismiss" })] }) })) : null, mergeError ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: mergeError }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: dismissMergeAlerts, children: "Dismiss" })] }) })) : null, mergeSuccess ? (_jsx("div", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-3 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: mergeSuccess }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: dismissMergeAlerts, children: "Hide" })] }) })) : null, _jsxs("div", { className: "grid gap-4 md:grid-cols-3", children: [_jsx("div", { className: "md:col-span-2 space-y-4", children: assets.length === 0 ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/60 p-6 text-center text-sm text-slate-500 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300", children: "No PDFs yet. Add at least two files to unlock the merge workflow preview." })) : (_jsx("ul", { className: "space-y-3", children: assets.map((asset, index) => (_jsx("li", { className: "rounded-2xl border border-slate-200/80 bg-white/90 p-4 shadow-sm dark:border-white/5 dark:bg-slate-900/70", children: _jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { className: "min-w-0 flex-1", children: [_jsx("p", { className: "text-base font-semibold text-slate-900 dark:text-white break-all", children: asset.fileName }), _jsxs("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: [asset.loaded.pageCount, " pages \u00B7 ", formatBytes(asset.loaded.size), " \u00B7 Added", " ", formatTimestamp(asset.addedAt)] }), asset.loaded.metadata.title ? (_jsxs("p", { className: "text-xs text-slate-400", children: ["Title: ", asset.loaded.metadata.title] })) : null] }), _jsxs("div", { className: "flex items-center gap-2 text-sm", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: () => {
+                    : "border-slate-300/70 bg-white/80 dark:border-white/10 dark:bg-slate-900/60"), children: _jsxs("div", { className: "mx-auto flex max-w-2xl flex-col gap-4", children: [_jsx("p", { className: "text-lg font-semibold text-slate-800 dark:text-white", children: "Start stacking PDFs" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Drop multiple files or select them manually. We keep the originals in-memory and preserve metadata for the future merge engine." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "merge-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: "Choose PDFs" }), _jsx("input", { id: "merge-upload", type: "file", accept: "application/pdf", multiple: true, className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: ingestSource, disabled: isBusy })] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: error }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: clearError, children: "Dismiss" })] }) })) : null, mergeError ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: mergeError }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: dismissMergeAlerts, children: "Dismiss" })] }) })) : null, mergeSuccess ? (_jsx("div", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-3 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: mergeSuccess }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: dismissMergeAlerts, children: "Hide" })] }) })) : null, mergeWarnings.length > 0 ? (_jsx("ul", { className: "space-y-1 rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-3 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50", children: mergeWarnings.map((warning) => (_jsx("li", { children: warning }, warning))) })) : null, _jsxs("div", { className: "grid gap-4 md:grid-cols-3", children: [_jsx("div", { className: "md:col-span-2 space-y-4", children: assets.length === 0 ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/60 p-6 text-center text-sm text-slate-500 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300", children: "No PDFs yet. Add at least two files to unlock the merge workflow preview." })) : (_jsx("ul", { className: "space-y-3", children: assets.map((asset, index) => (_jsx("li", { className: "rounded-2xl border border-slate-200/80 bg-white/90 p-4 shadow-sm dark:border-white/5 dark:bg-slate-900/70", children: _jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { className: "min-w-0 flex-1", children: [_jsx("p", { className: "text-base font-semibold text-slate-900 dark:text-white break-all", children: asset.fileName }), _jsxs("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: [asset.loaded.pageCount, " pages \u00B7 ", formatBytes(asset.loaded.size), " \u00B7 Added", " ", formatTimestamp(asset.addedAt)] }), asset.loaded.metadata.title ? (_jsxs("p", { className: "text-xs text-slate-400", children: ["Title: ", asset.loaded.metadata.title] })) : null, _jsxs("label", { className: "mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-300", children: ["Pages", _jsx("input", { type: "text", defaultValue: asset.pageRange ?? "", placeholder: "All pages (e.g. 2-5, 9)", className: "w-48 rounded-full border border-slate-200 bg-transparent px-3 py-1 font-mono text-xs text-slate-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:text-slate-100", onBlur: (event) => {
+                                                                dismissMergeAlerts();
+                                                                if (!setAssetPageRange(asset.id, event.currentTarget.value)) {
+                                                                    event.currentTarget.value = asset.pageRange ?? "";
+                                                                }
+                                                            }, onKeyDown: (event) => {
+                                                                if (event.key === "Enter") {
+                                                                    event.currentTarget.blur();
+                                                                }
+                                                            } }, asset.pageRange ?? "all"), asset.pageSelection ? (_jsxs("span", { children: [asset.pageSelection.length, " of ", asset.loaded.pageCount, " selected"] })) : null] })] }), _jsxs("div", { className: "flex items-center gap-2 text-sm", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: () => {
                                                         dismissMergeAlerts();
                                                         reorderAssets(index, Math.max(0, index - 1));
                                                     }, disabled: index === 0, children: "Move up" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: () => {
@@ -109,6 +165,8 @@ const MergeToolPage = () => {
                                                     }, disabled: index === assets.length - 1, children: "Move down" }), _jsx("button", { type: "button", className: "rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 dark:border-red-900/50 dark:text-red-200", onClick: () => {
                                                         dismissMergeAlerts();
                                                         removeAsset(asset.id);
-                                                    }, children: "Remove" })] })] }) }, asset.id))) })) }), _jsxs("aside", { className: "space-y-4 rounded-2xl border border-slate-200/80 bg-white/80 p-4 dark:border-white/5 dark:bg-slate-900/60", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold text-slate-600 uppercase tracking-wide dark:text-slate-300", children: "Summary" }), _jsxs("ul", { className: "mt-2 space-y-1 text-sm text-slate-600 dark:text-slate-200", children: [_jsxs("li", { children: ["Total files: ", assets.length] }), _jsxs("li", { children: ["Total pages: ", totals.totalPages] }), _jsxs("li", { children: ["Total size: ", formatBytes(totals.totalBytes)] })] })] }), _jsx("div", { className: "rounded-2xl border border-emerald-200/70 bg-emerald-50/70 px-4 py-3 text-sm text-emerald-900 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-100", children: "Merge output is live. Stack PDFs, reorder them, then download the compiled file in a single click. Large files may take a few seconds." }), _jsx("button", { type: "button", className: "w-full rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !canMerge, onClick: handleMerge, children: isMerging ? "Merging..." : "Merge & Download" })] })] }), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+                                                    }, children: "Remove" })] })] }) }, asset.id))) })) }), _jsxs("aside", { className: "space-y-4 rounded-2xl border border-slate-200/80 bg-white/80 p-4 dark:border-white/5 dark:bg-slate-900/60", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold text-slate-600 uppercase tracking-wide dark:text-slate-300", children: "Summary" }), _jsxs("ul", { className: "mt-2 space-y-1 text-sm text-slate-600 dark:text-slate-200", children: [_jsxs("li", { children: ["Total files: ", assets.length] }), _jsxs("li", { children: ["Total pages: ", totals.totalPages, totals.totalPages !== totals.sourcePages
+                                                        ? ` (of ${totals.sourcePages} across sources)`
+                                                        : ""] }), _jsxs("li", { children: ["Total size: ", formatBytes(totals.totalBytes)] })] })] }), _jsxs("fieldset", { className: "space-y-2 text-sm text-slate-600 dark:text-slate-200", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300", children: "Bookmarks" }), _jsxs("label", { className: "flex items-center gap-2", children: [_jsx("input", { type: "checkbox", checked: addBookmarks, onChange: (event) => setAddBookmarks(event.target.checked) }), "Add one bookmark per document"] }), _jsxs("label", { className: "flex items-center gap-2 pl-6", children: ["Label with", _jsxs("select", { value: bookmarkLabel, disabled: !addBookmarks, onChange: (event) => setBookmarkLabel(event.target.value), className: "rounded-full border border-slate-200 bg-transparent px-2 py-0.5 text-xs disabled:opacity-40 dark:border-white/10", children: [_jsx("option", { value: "fileName", children: "File name" }), _jsx("option", { value: "title", children: "Document title" })] })] }), _jsxs("label", { className: "flex items-center gap-2 pl-6", children: [_jsx("input", { type: "checkbox", checked: keepSourceOutlines, disabled: !addBookmarks, onChange: (event) => setKeepSourceOutlines(event.target.checked) }), "Nest each file's existing bookmarks"] })] }), _jsx("div", { className: "rounded-2xl border border-emerald-200/70 bg-emerald-50/70 px-4 py-3 text-sm text-emerald-900 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-100", children: "Merge output is live. Stack PDFs, reorder them, then download the compiled file in a single click. Large files may take a few seconds." }), _jsx("button", { type: "button", className: "w-full rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !canMerge, onClick: handleMerge, children: isMerging ? "Merging..." : "Merge & Download" })] })] }), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
 };
 export default MergeToolPage;
@@ -33,6 +33,53 @@ describe("MergeToolPage", () => {
     expect(screen.getByText(/No PDFs yet/i)).toBeInTheDocument();
   });
 
+  it("reflects per-document page ranges in the totals summary", () => {
+    const loaded = {
+      id: "gamma-id",
+      name: "gamma.pdf",
+      size: 1024,
+      lastModified: Date.now(),
+      pageCount: 5,
+      pdfVersion: "1.7",
+      data: new Uint8Array([1]),
+      metadata: {},
+      doc: { destroy: vi.fn() } as unknown as LoadedPdf["doc"],
+    };
+    usePdfAssets.setState({
+      assets: [
+        {
+          id: "asset-c",
+          fileName: "gamma.pdf",
+          source: {
+            id: "source-gamma",
+            origin: "upload",
+            name: "gamma.pdf",
+            size: 1024,
+            lastModified: Date.now(),
+            bytes: new Uint8Array([1]),
+            password: null,
+          },
+          loaded,
+          addedAt: Date.now(),
+        },
+      ],
+    });
+
+    expect(usePdfAssets.getState().setAssetPageRange("asset-c", "2-3, last")).toBe(true);
+    expect(usePdfAssets.getState().assets[0]?.pageSelection).toEqual([2, 3, 5]);
+
+    render(<MergeToolPage />);
+    expect(screen.getByText(/Total pages: 3 \(of 5 across sources\)/)).toBeInTheDocument();
+    expect(screen.getByDisplayValue("2-3, 5")).toBeInTheDocument();
+
+    let isValid = true;
+    act(() => {
+      isValid = usePdfAssets.getState().setAssetPageRange("asset-c", "7");
+    });
+    expect(isValid).toBe(false);
+    expect(usePdfAssets.getState().error).toMatch(/^gamma\.pdf: /);
+  });
+
   it("merges stacked PDFs when requested", async () => {
     const user = userEvent.setup();
     const mockBlob = new Blob([new Uint8Array([1, 2, 3])], { type: "application/pdf" });
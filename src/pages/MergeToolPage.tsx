@@ -1,13 +1,24 @@
-import { useCallback, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type DragEvent,
+} from "react";
 import clsx from "clsx";
 
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import type { PdfSource } from "../lib/documentPipeline";
 import { triggerBlobDownload } from "../lib/downloads";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
 import { mergeLoadedPdfsToExportResult } from "../lib/pdfMerge";
 import { type PdfPasswordReason } from "../lib/pdfLoader";
 import { logExportResult } from "../state/activityLog";
 import { usePdfAssets } from "../state/pdfAssets";
+import { useWorkspaceSession, type RestoredWorkspace } from "../state/workspaceSession";
 
 const formatBytes = (size: number) => {
   if (size === 0) return "0 B";
@@ -24,12 +35,25 @@ const formatTimestamp = (timestamp: number) => {
 };
 
 const MergeToolPage = () => {
-  const { assets, isBusy, error, addAsset, removeAsset, reorderAssets, clearError } =
-    usePdfAssets();
+  const {
+    assets,
+    isBusy,
+    error,
+    addAsset,
+    addSource,
+    removeAsset,
+    reorderAssets,
+    setAssetPageRange,
+    clearError,
+  } = usePdfAssets();
   const [isDragActive, setDragActive] = useState(false);
   const [isMerging, setIsMerging] = useState(false);
   const [mergeError, setMergeError] = useState<string | null>(null);
   const [mergeSuccess, setMergeSuccess] = useState<string | null>(null);
+  const [mergeWarnings, setMergeWarnings] = useState<string[]>([]);
+  const [addBookmarks, setAddBookmarks] = useState(false);
+  const [bookmarkLabel, setBookmarkLabel] = useState<"fileName" | "title">("fileName");
+  const [keepSourceOutlines, setKeepSourceOutlines] = useState(true);
   const [passwordPrompt, setPasswordPrompt] = useState<{
     fileName: string;
     reason: PdfPasswordReason;
@@ -39,6 +63,7 @@ const MergeToolPage = () => {
   const dismissMergeAlerts = useCallback(() => {
     setMergeError(null);
     setMergeSuccess(null);
+    setMergeWarnings([]);
   }, []);
 
   const requestPassword = useCallback(
@@ -76,6 +101,45 @@ const MergeToolPage = () => {
     [addAsset, dismissMergeAlerts, requestPassword],
   );
 
+  const ingestSource = useCallback(
+    async (source: PdfSource) => {
+      dismissMergeAlerts();
+      await addSource(source, { requestPassword: requestPassword(source.name) });
+    },
+    [addSource, dismissMergeAlerts, requestPassword],
+  );
+
+  const restoreQueue = useCallback(
+    async ({ snapshot, sources }: RestoredWorkspace<"merge">) => {
+      for (const document of snapshot.documents) {
+        const source = sources.find((entry) => entry.id === document.sourceId);
+        const findQueued = () =>
+          usePdfAssets.getState().assets.find((asset) => asset.source.id === document.sourceId);
+        if (!source || findQueued()) {
+          continue;
+        }
+
+        await ingestSource(source);
+        const asset = findQueued();
+        if (asset && document.pageRange) {
+          setAssetPageRange(asset.id, document.pageRange);
+        }
+      }
+    },
+    [ingestSource, setAssetPageRange],
+  );
+
+  const restoreQueueRef = useRef(restoreQueue);
+  restoreQueueRef.current = restoreQueue;
+
+  // A session restored from the landing page rebuilds the queue on arrival.
+  useEffect(() => {
+    const restored = useWorkspaceSession.getState().takeRestore("merge");
+    if (restored) {
+      void restoreQueueRef.current(restored);
+    }
+  }, []);
+
   const handleInputChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const { files } = event.target;
@@ -117,12 +181,26 @@ const MergeToolPage = () => {
         {
           sources: assets.map((asset) => asset.source),
           startedAt: Date.now(),
+          pageSelections: assets.some((asset) => asset.pageSelection)
+            ? assets.map((asset) => asset.pageSelection)
+            : undefined,
+          bookmarks: addBookmarks
+            ? {
+                titles: assets.map((asset) =>
+                  bookmarkLabel === "title"
+                    ? asset.loaded.metadata.title?.trim() || asset.fileName
+                    : asset.fileName,
+                ),
+                includeSourceOutlines: keepSourceOutlines,
+              }
+            : undefined,
         },
       );
 
       triggerBlobDownload(result.blob, result.downloadName);
 
       setMergeSuccess(`Merged stack downloaded as ${result.downloadName}`);
+      setMergeWarnings(result.warnings ?? []);
       logExportResult(result);
     } catch (mergeProblem) {
       console.error("Failed to merge PDFs", mergeProblem);
@@ -130,12 +208,16 @@ const MergeToolPage = () => {
     } finally {
       setIsMerging(false);
     }
-  }, [assets, dismissMergeAlerts]);
+  }, [addBookmarks, assets, bookmarkLabel, dismissMergeAlerts, keepSourceOutlines]);
 
   const totals = useMemo(() => {
-    const totalPages = assets.reduce((sum, asset) => sum + asset.loaded.pageCount, 0);
+    const totalPages = assets.reduce(
+      (sum, asset) => sum + (asset.pageSelection?.length ?? asset.loaded.pageCount),
+      0,
+    );
+    const sourcePages = assets.reduce((sum, asset) => sum + asset.loaded.pageCount, 0);
     const totalBytes = assets.reduce((sum, asset) => sum + asset.loaded.size, 0);
-    return { totalPages, totalBytes };
+    return { totalPages, sourcePages, totalBytes };
   }, [assets]);
 
   const canMerge = assets.length >= 2 && !isBusy && !isMerging;
@@ -179,6 +261,7 @@ const MergeToolPage = () => {
             <span className="text-xs uppercase tracking-wide text-slate-400">
               or drag anywhere in this panel
             </span>
+            <OpenFromUrlForm onSource={ingestSource} disabled={isBusy} />
           </div>
         </div>
       </div>
@@ -216,6 +299,14 @@ const MergeToolPage = () => {
         </div>
       ) : null}
 
+      {mergeWarnings.length > 0 ? (
+        <ul className="space-y-1 rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-3 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50">
+          {mergeWarnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      ) : null}
+
       <div className="grid gap-4 md:grid-cols-3">
         <div className="md:col-span-2 space-y-4">
           {assets.length === 0 ? (
@@ -243,6 +334,32 @@ const MergeToolPage = () => {
                           Title: {asset.loaded.metadata.title}
                         </p>
                       ) : null}
+                      <label className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-300">
+                        Pages
+                        <input
+                          key={asset.pageRange ?? "all"}
+                          type="text"
+                          defaultValue={asset.pageRange ?? ""}
+                          placeholder="All pages (e.g. 2-5, 9)"
+                          className="w-48 rounded-full border border-slate-200 bg-transparent px-3 py-1 font-mono text-xs text-slate-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:text-slate-100"
+                          onBlur={(event) => {
+                            dismissMergeAlerts();
+                            if (!setAssetPageRange(asset.id, event.currentTarget.value)) {
+                              event.currentTarget.value = asset.pageRange ?? "";
+                            }
+                          }}
+                          onKeyDown={(event) => {
+                            if (event.key === "Enter") {
+                              event.currentTarget.blur();
+                            }
+                          }}
+                        />
+                        {asset.pageSelection ? (
+                          <span>
+                            {asset.pageSelection.length} of {asset.loaded.pageCount} selected
+                          </span>
+                        ) : null}
+                      </label>
                     </div>
                     <div className="flex items-center gap-2 text-sm">
                       <button
@@ -292,10 +409,49 @@ const MergeToolPage = () => {
             </p>
             <ul className="mt-2 space-y-1 text-sm text-slate-600 dark:text-slate-200">
               <li>Total files: {assets.length}</li>
-              <li>Total pages: {totals.totalPages}</li>
+              <li>
+                Total pages: {totals.totalPages}
+                {totals.totalPages !== totals.sourcePages
+                  ? ` (of ${totals.sourcePages} across sources)`
+                  : ""}
+              </li>
               <li>Total size: {formatBytes(totals.totalBytes)}</li>
             </ul>
           </div>
+          <fieldset className="space-y-2 text-sm text-slate-600 dark:text-slate-200">
+            <legend className="text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300">
+              Bookmarks
+            </legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={addBookmarks}
+                onChange={(event) => setAddBookmarks(event.target.checked)}
+              />
+              Add one bookmark per document
+            </label>
+            <label className="flex items-center gap-2 pl-6">
+              Label with
+              <select
+                value={bookmarkLabel}
+                disabled={!addBookmarks}
+                onChange={(event) => setBookmarkLabel(event.target.value as "fileName" | "title")}
+                className="rounded-full border border-slate-200 bg-transparent px-2 py-0.5 text-xs disabled:opacity-40 dark:border-white/10"
+              >
+                <option value="fileName">File name</option>
+                <option value="title">Document title</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 pl-6">
+              <input
+                type="checkbox"
+                checked={keepSourceOutlines}
+                disabled={!addBookmarks}
+                onChange={(event) => setKeepSourceOutlines(event.target.checked)}
+              />
+              Nest each file&apos;s existing bookmarks
+            </label>
+          </fieldset>
           <div className="rounded-2xl border border-emerald-200/70 bg-emerald-50/70 px-4 py-3 text-sm text-emerald-900 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-100">
             Merge output is live. Stack PDFs, reorder them, then download the compiled file in a
             single click. Large files may take a few seconds.
@@ -0,0 +1,165 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { METADATA_TEXT_FIELDS, createEmptyMetadataDraft, createMetadataDraft, exportPdfMetadata, } from "../lib/pdfMetadata";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { logExportResult } from "../state/activityLog";
+const DATE_FIELDS = [
+    { id: "creationDate", label: "Created" },
+    { id: "modificationDate", label: "Modified" },
+];
+const modeExplainers = {
+    edit: "Writes the fields below to the Info dictionary and an XMP packet. Empty fields are removed.",
+    strip: "Removes the Info dictionary, every XMP stream, and private app data. Page content is untouched.",
+};
+const pad = (value) => String(value).padStart(2, "0");
+/** `datetime-local` inputs speak local wall-clock time without a zone suffix. */
+const toDateInputValue = (iso) => {
+    if (!iso) {
+        return "";
+    }
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime())) {
+        return "";
+    }
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+const fromDateInputValue = (value) => {
+    if (!value) {
+        return null;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+const MetadataToolPage = () => {
+    const [pdf, setPdf] = useState(null);
+    const [status, setStatus] = useState("idle");
+    const [error, setError] = useState(null);
+    const [isDragActive, setDragActive] = useState(false);
+    const [draft, setDraft] = useState(createEmptyMetadataDraft);
+    const [mode, setMode] = useState("edit");
+    const [exportError, setExportError] = useState(null);
+    const [exportSuccess, setExportSuccess] = useState(null);
+    const [isExporting, setExporting] = useState(false);
+    const [passwordPrompt, setPasswordPrompt] = useState(null);
+    useEffect(() => {
+        configurePdfWorker();
+    }, []);
+    useEffect(() => {
+        return () => {
+            pdf?.doc.destroy();
+        };
+    }, [pdf]);
+    const resetWorkspace = useCallback(() => {
+        pdf?.doc.destroy();
+        setPdf(null);
+        setStatus("idle");
+        setError(null);
+        setDraft(createEmptyMetadataDraft());
+        setMode("edit");
+        setExportError(null);
+        setExportSuccess(null);
+    }, [pdf]);
+    const handlePasswordSubmit = useCallback((password) => {
+        passwordPrompt?.resolve(password);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const handlePasswordCancel = useCallback(() => {
+        passwordPrompt?.resolve(null);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const loadFile = useCallback(async (file) => {
+        if (!file)
+            return;
+        setStatus("loading");
+        setError(null);
+        setExportError(null);
+        setExportSuccess(null);
+        try {
+            pdf?.doc.destroy();
+            const { loadPdfFromInput } = await import("../lib/pdfLoader");
+            const loaded = await loadPdfFromInput(file, {
+                requestPassword: (reason) => new Promise((resolve) => {
+                    setPasswordPrompt({ fileName: file.name, reason, resolve });
+                }),
+            });
+            setPdf(loaded);
+            setDraft(createMetadataDraft(loaded.metadata));
+            setStatus("ready");
+        }
+        catch (loadError) {
+            console.error(loadError);
+            setPdf(null);
+            setStatus("error");
+            setError(getFriendlyPdfError(loadError));
+        }
+    }, [pdf]);
+    const handleInputChange = useCallback((event) => {
+        const nextFile = event.target.files?.[0];
+        void loadFile(nextFile);
+        event.target.value = "";
+    }, [loadFile]);
+    const handleDrop = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+        const nextFile = event.dataTransfer.files?.[0];
+        void loadFile(nextFile);
+    }, [loadFile]);
+    const handleDragOver = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(true);
+    }, []);
+    const handleDragLeave = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+    }, []);
+    const updateDraft = useCallback((patch) => {
+        setDraft((current) => ({ ...current, ...patch }));
+        setExportSuccess(null);
+    }, []);
+    const handleRevert = useCallback(() => {
+        if (pdf) {
+            setDraft(createMetadataDraft(pdf.metadata));
+            setExportSuccess(null);
+        }
+    }, [pdf]);
+    const handleClearAll = useCallback(() => {
+        setDraft(createEmptyMetadataDraft());
+        setExportSuccess(null);
+    }, []);
+    const handleExport = useCallback(async () => {
+        if (!pdf) {
+            return;
+        }
+        setExportError(null);
+        setExportSuccess(null);
+        setExporting(true);
+        try {
+            const result = await exportPdfMetadata(pdf, draft, { mode, startedAt: Date.now() });
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setExportSuccess(mode === "strip"
+                ? `Saved a metadata-free copy as ${result.downloadName}.`
+                : `Saved updated metadata as ${result.downloadName}.`);
+        }
+        catch (exportProblem) {
+            console.error("Failed to write PDF metadata", exportProblem);
+            setExportError(getFriendlyPdfError(exportProblem));
+        }
+        finally {
+            setExporting(false);
+        }
+    }, [draft, mode, pdf]);
+    const isEditing = mode === "edit";
+    const canExport = Boolean(pdf) && !isExporting;
+    return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-[32px] border-2 border-dashed p-10 transition-colors", isDragActive
+                    ? "border-violet-400 bg-violet-50/70 dark:border-violet-300 dark:bg-violet-500/10"
+                    : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950"), children: _jsxs("div", { className: "mx-auto flex max-w-3xl flex-col gap-4 text-center", children: [_jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: pdf ? "Review document properties" : "Edit or strip PDF metadata" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: pdf
+                                ? "Adjust any field, clear the ones you don't want to share, then export a copy."
+                                : "Drop a PDF or choose a file to see its title, author, keywords, and dates. Nothing leaves your browser." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "metadata-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "metadata-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: loadFile }), pdf ? (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })) : null] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: error })) : null, status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[2fr,1fr]", children: [_jsxs("section", { className: clsx("rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", !isEditing && "opacity-50"), children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsxs("div", { children: [_jsx("p", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pdf.name }), _jsxs("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: [pdf.pageCount, " page", pdf.pageCount === 1 ? "" : "s", " \u00B7 PDF ", pdf.pdfVersion] })] }), _jsxs("div", { className: "flex items-center gap-2 text-xs font-semibold uppercase tracking-wide", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: handleRevert, disabled: !isEditing, children: "Revert" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: handleClearAll, disabled: !isEditing, children: "Clear all" })] })] }), _jsxs("div", { className: "mt-5 grid gap-4 sm:grid-cols-2", children: [METADATA_TEXT_FIELDS.map((field) => (_jsxs("div", { className: "flex flex-col gap-1 text-sm", children: [_jsxs("div", { className: "flex items-center justify-between", children: [_jsx("label", { htmlFor: `metadata-${field.id}`, className: "font-semibold text-slate-700 dark:text-slate-200", children: field.label }), draft[field.id] ? (_jsx("button", { type: "button", className: "text-xs text-slate-400 hover:text-slate-600 disabled:opacity-40 dark:hover:text-slate-200", onClick: () => updateDraft({ [field.id]: "" }), disabled: !isEditing, "aria-label": `Clear ${field.label}`, children: "Clear" })) : null] }), _jsx("input", { id: `metadata-${field.id}`, type: "text", value: draft[field.id], onChange: (event) => updateDraft({ [field.id]: event.target.value }), disabled: !isEditing, className: "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-slate-900 focus:border-violet-400 focus:outline-none disabled:cursor-not-allowed dark:border-white/10 dark:bg-slate-900 dark:text-white" })] }, field.id))), DATE_FIELDS.map((field) => (_jsxs("div", { className: "flex flex-col gap-1 text-sm", children: [_jsxs("div", { className: "flex items-center justify-between", children: [_jsx("label", { htmlFor: `metadata-${field.id}`, className: "font-semibold text-slate-700 dark:text-slate-200", children: field.label }), draft[field.id] ? (_jsx("button", { type: "button", className: "text-xs text-slate-400 hover:text-slate-600 disabled:opacity-40 dark:hover:text-slate-200", onClick: () => updateDraft({ [field.id]: null }), disabled: !isEditing, "aria-label": `Clear ${field.label}`, children: "Clear" })) : null] }), _jsx("input", { id: `metadata-${field.id}`, type: "datetime-local", value: toDateInputValue(draft[field.id]), onChange: (event) => updateDraft({ [field.id]: fromDateInputValue(event.target.value) }), disabled: !isEditing, className: "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-slate-900 focus:border-violet-400 focus:outline-none disabled:cursor-not-allowed dark:border-white/10 dark:bg-slate-900 dark:text-white" })] }, field.id)))] })] }), _jsxs("aside", { className: "flex flex-col gap-4 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("fieldset", { className: "space-y-2", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-400", children: "Export mode" }), _jsxs("label", { className: "flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200", children: [_jsx("input", { type: "radio", name: "metadata-mode", value: "edit", checked: mode === "edit", onChange: () => setMode("edit") }), "Save edited fields"] }), _jsxs("label", { className: "flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200", children: [_jsx("input", { type: "radio", name: "metadata-mode", value: "strip", checked: mode === "strip", onChange: () => setMode("strip") }), "Strip all metadata"] }), _jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: modeExplainers[mode] })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleExport, disabled: !canExport, children: isExporting ? "Saving..." : isEditing ? "Save & Download" : "Strip & Download" }), exportError ? (_jsx("p", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: exportError })) : null, exportSuccess ? (_jsx("p", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: exportSuccess })) : null] })] })) : null, _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+};
+export default MetadataToolPage;
@@ -0,0 +1,21 @@
+import { render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+import MetadataToolPage from "./MetadataToolPage";
+import { useActivityLog } from "../state/activityLog";
+
+describe("MetadataToolPage", () => {
+  beforeEach(() => {
+    useActivityLog.getState().reset();
+  });
+
+  it("renders the metadata hero with an upload entry point", () => {
+    render(<MetadataToolPage />);
+    expect(screen.getByText(/Edit or strip PDF metadata/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/Choose a PDF/i)).toBeInTheDocument();
+  });
+});
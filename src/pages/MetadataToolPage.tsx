@@ -0,0 +1,441 @@
+import { useCallback, useEffect, useState, type ChangeEvent, type DragEvent } from "react";
+import clsx from "clsx";
+
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import type { PdfSource } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
+import {
+  METADATA_TEXT_FIELDS,
+  createEmptyMetadataDraft,
+  createMetadataDraft,
+  exportPdfMetadata,
+  type MetadataDraft,
+  type MetadataExportMode,
+} from "../lib/pdfMetadata";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { logExportResult } from "../state/activityLog";
+
+const DATE_FIELDS = [
+  { id: "creationDate", label: "Created" },
+  { id: "modificationDate", label: "Modified" },
+] as const;
+
+const modeExplainers: Record<MetadataExportMode, string> = {
+  edit: "Writes the fields below to the Info dictionary and an XMP packet. Empty fields are removed.",
+  strip:
+    "Removes the Info dictionary, every XMP stream, and private app data. Page content is untouched.",
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** `datetime-local` inputs speak local wall-clock time without a zone suffix. */
+const toDateInputValue = (iso: string | null) => {
+  if (!iso) {
+    return "";
+  }
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours(),
+  )}:${pad(date.getMinutes())}`;
+};
+
+const fromDateInputValue = (value: string) => {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const MetadataToolPage = () => {
+  const [pdf, setPdf] = useState<LoadedPdf | null>(null);
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [isDragActive, setDragActive] = useState(false);
+  const [draft, setDraft] = useState<MetadataDraft>(createEmptyMetadataDraft);
+  const [mode, setMode] = useState<MetadataExportMode>("edit");
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [isExporting, setExporting] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    fileName: string;
+    reason: PdfPasswordReason;
+    resolve: (value: string | null) => void;
+  } | null>(null);
+
+  useEffect(() => {
+    configurePdfWorker();
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      pdf?.doc.destroy();
+    };
+  }, [pdf]);
+
+  const resetWorkspace = useCallback(() => {
+    pdf?.doc.destroy();
+    setPdf(null);
+    setStatus("idle");
+    setError(null);
+    setDraft(createEmptyMetadataDraft());
+    setMode("edit");
+    setExportError(null);
+    setExportSuccess(null);
+  }, [pdf]);
+
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      passwordPrompt?.resolve(password);
+      setPasswordPrompt(null);
+    },
+    [passwordPrompt],
+  );
+
+  const handlePasswordCancel = useCallback(() => {
+    passwordPrompt?.resolve(null);
+    setPasswordPrompt(null);
+  }, [passwordPrompt]);
+
+  const loadFile = useCallback(
+    async (file: File | PdfSource | null | undefined) => {
+      if (!file) return;
+      setStatus("loading");
+      setError(null);
+      setExportError(null);
+      setExportSuccess(null);
+
+      try {
+        pdf?.doc.destroy();
+        const { loadPdfFromInput } = await import("../lib/pdfLoader");
+        const loaded = await loadPdfFromInput(file, {
+          requestPassword: (reason) =>
+            new Promise<string | null>((resolve) => {
+              setPasswordPrompt({ fileName: file.name, reason, resolve });
+            }),
+        });
+        setPdf(loaded);
+        setDraft(createMetadataDraft(loaded.metadata));
+        setStatus("ready");
+      } catch (loadError) {
+        console.error(loadError);
+        setPdf(null);
+        setStatus("error");
+        setError(getFriendlyPdfError(loadError));
+      }
+    },
+    [pdf],
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const nextFile = event.target.files?.[0];
+      void loadFile(nextFile);
+      event.target.value = "";
+    },
+    [loadFile],
+  );
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setDragActive(false);
+      const nextFile = event.dataTransfer.files?.[0];
+      void loadFile(nextFile);
+    },
+    [loadFile],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+  }, []);
+
+  const updateDraft = useCallback((patch: Partial<MetadataDraft>) => {
+    setDraft((current) => ({ ...current, ...patch }));
+    setExportSuccess(null);
+  }, []);
+
+  const handleRevert = useCallback(() => {
+    if (pdf) {
+      setDraft(createMetadataDraft(pdf.metadata));
+      setExportSuccess(null);
+    }
+  }, [pdf]);
+
+  const handleClearAll = useCallback(() => {
+    setDraft(createEmptyMetadataDraft());
+    setExportSuccess(null);
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    if (!pdf) {
+      return;
+    }
+
+    setExportError(null);
+    setExportSuccess(null);
+    setExporting(true);
+
+    try {
+      const result = await exportPdfMetadata(pdf, draft, { mode, startedAt: Date.now() });
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setExportSuccess(
+        mode === "strip"
+          ? `Saved a metadata-free copy as ${result.downloadName}.`
+          : `Saved updated metadata as ${result.downloadName}.`,
+      );
+    } catch (exportProblem) {
+      console.error("Failed to write PDF metadata", exportProblem);
+      setExportError(getFriendlyPdfError(exportProblem));
+    } finally {
+      setExporting(false);
+    }
+  }, [draft, mode, pdf]);
+
+  const isEditing = mode === "edit";
+  const canExport = Boolean(pdf) && !isExporting;
+
+  return (
+    <div className="mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={clsx(
+          "rounded-[32px] border-2 border-dashed p-10 transition-colors",
+          isDragActive
+            ? "border-violet-400 bg-violet-50/70 dark:border-violet-300 dark:bg-violet-500/10"
+            : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950",
+        )}
+      >
+        <div className="mx-auto flex max-w-3xl flex-col gap-4 text-center">
+          <p className="text-2xl font-semibold text-slate-900 dark:text-white">
+            {pdf ? "Review document properties" : "Edit or strip PDF metadata"}
+          </p>
+          <p className="text-sm text-slate-500 dark:text-slate-300">
+            {pdf
+              ? "Adjust any field, clear the ones you don't want to share, then export a copy."
+              : "Drop a PDF or choose a file to see its title, author, keywords, and dates. Nothing leaves your browser."}
+          </p>
+          <div className="flex flex-col items-center gap-2">
+            <label
+              htmlFor="metadata-upload"
+              className="inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900"
+            >
+              {pdf ? "Replace PDF" : "Choose a PDF"}
+            </label>
+            <input
+              id="metadata-upload"
+              type="file"
+              accept="application/pdf"
+              className="sr-only"
+              onChange={handleInputChange}
+            />
+            <span className="text-xs uppercase tracking-wide text-slate-400">
+              or drag anywhere in this panel
+            </span>
+            <OpenFromUrlForm onSource={loadFile} />
+            {pdf ? (
+              <button
+                type="button"
+                className="text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300"
+                onClick={resetWorkspace}
+              >
+                Reset workspace
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+          {error}
+        </div>
+      ) : null}
+
+      {status === "loading" ? (
+        <div className="rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
+          Loading PDF...
+        </div>
+      ) : null}
+
+      {pdf ? (
+        <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
+          <section
+            className={clsx(
+              "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70",
+              !isEditing && "opacity-50",
+            )}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="text-base font-semibold text-slate-900 dark:text-white">{pdf.name}</p>
+                <p className="text-sm text-slate-500 dark:text-slate-300">
+                  {pdf.pageCount} page{pdf.pageCount === 1 ? "" : "s"} · PDF {pdf.pdfVersion}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide">
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                  onClick={handleRevert}
+                  disabled={!isEditing}
+                >
+                  Revert
+                </button>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                  onClick={handleClearAll}
+                  disabled={!isEditing}
+                >
+                  Clear all
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-5 grid gap-4 sm:grid-cols-2">
+              {METADATA_TEXT_FIELDS.map((field) => (
+                <div key={field.id} className="flex flex-col gap-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <label
+                      htmlFor={`metadata-${field.id}`}
+                      className="font-semibold text-slate-700 dark:text-slate-200"
+                    >
+                      {field.label}
+                    </label>
+                    {draft[field.id] ? (
+                      <button
+                        type="button"
+                        className="text-xs text-slate-400 hover:text-slate-600 disabled:opacity-40 dark:hover:text-slate-200"
+                        onClick={() => updateDraft({ [field.id]: "" })}
+                        disabled={!isEditing}
+                        aria-label={`Clear ${field.label}`}
+                      >
+                        Clear
+                      </button>
+                    ) : null}
+                  </div>
+                  <input
+                    id={`metadata-${field.id}`}
+                    type="text"
+                    value={draft[field.id]}
+                    onChange={(event) => updateDraft({ [field.id]: event.target.value })}
+                    disabled={!isEditing}
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-slate-900 focus:border-violet-400 focus:outline-none disabled:cursor-not-allowed dark:border-white/10 dark:bg-slate-900 dark:text-white"
+                  />
+                </div>
+              ))}
+              {DATE_FIELDS.map((field) => (
+                <div key={field.id} className="flex flex-col gap-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <label
+                      htmlFor={`metadata-${field.id}`}
+                      className="font-semibold text-slate-700 dark:text-slate-200"
+                    >
+                      {field.label}
+                    </label>
+                    {draft[field.id] ? (
+                      <button
+                        type="button"
+                        className="text-xs text-slate-400 hover:text-slate-600 disabled:opacity-40 dark:hover:text-slate-200"
+                        onClick={() => updateDraft({ [field.id]: null })}
+                        disabled={!isEditing}
+                        aria-label={`Clear ${field.label}`}
+                      >
+                        Clear
+                      </button>
+                    ) : null}
+                  </div>
+                  <input
+                    id={`metadata-${field.id}`}
+                    type="datetime-local"
+                    value={toDateInputValue(draft[field.id])}
+                    onChange={(event) =>
+                      updateDraft({ [field.id]: fromDateInputValue(event.target.value) })
+                    }
+                    disabled={!isEditing}
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-slate-900 focus:border-violet-400 focus:outline-none disabled:cursor-not-allowed dark:border-white/10 dark:bg-slate-900 dark:text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <aside className="flex flex-col gap-4 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+                Export mode
+              </legend>
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                <input
+                  type="radio"
+                  name="metadata-mode"
+                  value="edit"
+                  checked={mode === "edit"}
+                  onChange={() => setMode("edit")}
+                />
+                Save edited fields
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                <input
+                  type="radio"
+                  name="metadata-mode"
+                  value="strip"
+                  checked={mode === "strip"}
+                  onChange={() => setMode("strip")}
+                />
+                Strip all metadata
+              </label>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{modeExplainers[mode]}</p>
+            </fieldset>
+
+            <button
+              type="button"
+              className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900"
+              onClick={handleExport}
+              disabled={!canExport}
+            >
+              {isExporting ? "Saving..." : isEditing ? "Save & Download" : "Strip & Download"}
+            </button>
+
+            {exportError ? (
+              <p className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+                {exportError}
+              </p>
+            ) : null}
+            {exportSuccess ? (
+              <p className="rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+                {exportSuccess}
+              </p>
+            ) : null}
+          </aside>
+        </div>
+      ) : null}
+
+      <PasswordPromptModal
+        open={Boolean(passwordPrompt)}
+        fileName={passwordPrompt?.fileName ?? ""}
+        reason={passwordPrompt?.reason ?? "password-required"}
+        onSubmit={handlePasswordSubmit}
+        onCancel={handlePasswordCancel}
+      />
+    </div>
+  );
+};
+
+export default MetadataToolPage;
@@ -9,7 +9,9 @@ import {
 } from "react";
 import clsx from "clsx";
 
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import SendToToolMenu from "../components/SendToToolMenu";
 import { triggerBlobDownload } from "../lib/downloads";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
 import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
@@ -19,10 +21,13 @@ import {
   applyPageEdits,
   buildEditablePageId,
   buildEditablePages,
+  rebaseEditablePages,
   type EditablePage,
 } from "../lib/pdfEdit";
-import { type ExportResult } from "../lib/documentPipeline";
+import { type ExportResult, type PdfSource } from "../lib/documentPipeline";
 import { logExportResult } from "../state/activityLog";
+import { usePdfAssets, useToolHandoff } from "../state/pdfAssets";
+import { useWorkspaceSession, type RestoredWorkspace } from "../state/workspaceSession";
 
 const THUMBNAIL_SCALE = 0.22;
 const HISTORY_LIMIT = 20;
@@ -73,6 +78,8 @@ const PageEditorPage = () => {
   const [isFileDragActive, setFileDragActive] = useState(false);
   const [downloadError, setDownloadError] = useState<string | null>(null);
   const [downloadSuccess, setDownloadSuccess] = useState<string | null>(null);
+  const [resultDocumentId, setResultDocumentId] = useState<string | null>(null);
+  const [downloadWarnings, setDownloadWarnings] = useState<string[]>([]);
   const [isDownloading, setDownloading] = useState(false);
   const [passwordPrompt, setPasswordPrompt] = useState<{
     fileName: string;
@@ -81,6 +88,9 @@ const PageEditorPage = () => {
   } | null>(null);
 
   const dragSourceId = useRef<string | null>(null);
+  const restoredEditsRef = useRef<RestoredWorkspace<"editor">["snapshot"] | null>(null);
+  const openDocument = usePdfAssets((state) => state.openDocument);
+  const addExportedDocument = usePdfAssets((state) => state.addExportedDocument);
 
   useEffect(() => {
     configurePdfWorker();
@@ -100,11 +110,33 @@ const PageEditorPage = () => {
       return;
     }
 
-    setPages(buildEditablePages(pdf));
-    setHistory([]);
+    const restored =
+      restoredEditsRef.current?.sourceId === pdf.sourceId ? restoredEditsRef.current : null;
+    const restoredPages = restored ? rebaseEditablePages(restored.pages, pdf) : [];
+    setPages(restoredPages.length > 0 ? restoredPages : buildEditablePages(pdf));
+    setHistory(
+      restoredPages.length > 0 && restored
+        ? restored.history.map((snapshot) => rebaseEditablePages(snapshot, pdf))
+        : [],
+    );
     setThumbnails({});
   }, [pdf]);
 
+  useEffect(() => {
+    if (!pdf?.sourceId || pages.length === 0) {
+      return;
+    }
+
+    const source = usePdfAssets
+      .getState()
+      .openDocuments.find((document) => document.id === pdf.sourceId)?.source;
+    if (source) {
+      useWorkspaceSession
+        .getState()
+        .persistWorkspace({ key: "editor", sourceId: source.id, pages, history }, [source]);
+    }
+  }, [history, pages, pdf]);
+
   useEffect(() => {
     if (!pdf) {
       return;
@@ -171,6 +203,10 @@ const PageEditorPage = () => {
     setHistory([]);
     setDownloadError(null);
     setDownloadSuccess(null);
+    setResultDocumentId(null);
+    setDownloadWarnings([]);
+    restoredEditsRef.current = null;
+    useWorkspaceSession.getState().forgetWorkspace("editor");
   }, [pdf]);
 
   const handlePasswordSubmit = useCallback(
@@ -187,17 +223,21 @@ const PageEditorPage = () => {
   }, [passwordPrompt]);
 
   const loadFile = useCallback(
-    async (file: File | null | undefined) => {
+    async (file: File | PdfSource | null | undefined) => {
       if (!file) return;
       setStatus("loading");
       setError(null);
       setDownloadError(null);
       setDownloadSuccess(null);
+      setResultDocumentId(null);
+      setDownloadWarnings([]);
+      if (file instanceof File || file.id !== restoredEditsRef.current?.sourceId) {
+        restoredEditsRef.current = null;
+      }
 
       try {
         pdf?.doc.destroy();
-        const { loadPdfFromFile } = await import("../lib/pdfLoader");
-        const loaded = await loadPdfFromFile(file, {
+        const loaded = await openDocument(file, "editor", {
           requestPassword: (reason) =>
             new Promise<string | null>((resolve) => {
               setPasswordPrompt({ fileName: file.name, reason, resolve });
@@ -212,9 +252,24 @@ const PageEditorPage = () => {
         setError(getFriendlyPdfError(loadError));
       }
     },
-    [pdf],
+    [openDocument, pdf],
   );
 
+  const loadFileRef = useRef(loadFile);
+  loadFileRef.current = loadFile;
+
+  useToolHandoff("editor", loadFileRef);
+
+  // A session restored from the landing page reopens its document with the saved edits.
+  useEffect(() => {
+    const restored = useWorkspaceSession.getState().takeRestore("editor");
+    const source = restored?.sources[0];
+    if (restored && source) {
+      restoredEditsRef.current = restored.snapshot;
+      void loadFileRef.current(source);
+    }
+  }, []);
+
   const handleInputChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const { files } = event.target;
@@ -359,11 +414,13 @@ const PageEditorPage = () => {
 
     setDownloadError(null);
     setDownloadSuccess(null);
+    setResultDocumentId(null);
+    setDownloadWarnings([]);
     setDownloading(true);
     const startedAt = Date.now();
 
     try {
-      const bytes = await applyPageEdits(pdf, pages);
+      const { bytes, warnings } = await applyPageEdits(pdf, pages);
       const blob = new Blob([cloneBytesToArrayBuffer(bytes)], { type: "application/pdf" });
       const fileName = buildEditedPdfFileName(pdf.name);
       const kept = pages.filter((page) => !page.isDeleted).length;
@@ -374,7 +431,7 @@ const PageEditorPage = () => {
         size: blob.size,
         downloadName: fileName,
         durationMs: Math.max(0, Date.now() - startedAt),
-        warnings: undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
         activity: {
           tool: "editor",
           operation: `page-edit-${kept}-pages`,
@@ -386,13 +443,15 @@ const PageEditorPage = () => {
       triggerBlobDownload(result.blob, result.downloadName);
       logExportResult(result);
       setDownloadSuccess(`Exported ${kept} page${kept === 1 ? "" : "s"}.`);
+      setDownloadWarnings(warnings);
+      setResultDocumentId(await addExportedDocument(result));
     } catch (downloadProblem) {
       console.error(downloadProblem);
       setDownloadError(getFriendlyPdfError(downloadProblem));
     } finally {
       setDownloading(false);
     }
-  }, [pages, pdf]);
+  }, [addExportedDocument, pages, pdf]);
 
   const totalPages = pages.length;
   const activePages = useMemo(() => pages.filter((page) => !page.isDeleted), [pages]);
@@ -438,6 +497,8 @@ const PageEditorPage = () => {
             <span className="text-xs uppercase tracking-wide text-slate-400">
               or drag anywhere in this panel
             </span>
+            <OpenFromUrlForm onSource={loadFile} />
+            <SendToToolMenu from="editor" documentId={pdf?.sourceId} />
             {pdf ? (
               <button
                 type="button"
@@ -502,6 +563,22 @@ const PageEditorPage = () => {
                 {downloadSuccess}
               </p>
             ) : null}
+            {downloadSuccess ? (
+              <div className="mt-3">
+                <SendToToolMenu
+                  from="editor"
+                  documentId={resultDocumentId}
+                  label="Send result to"
+                />
+              </div>
+            ) : null}
+            {downloadWarnings.length > 0 ? (
+              <ul className="mt-3 space-y-1 rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-2 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50">
+                {downloadWarnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            ) : null}
           </div>
 
           <div className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
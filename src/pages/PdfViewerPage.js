@@ -1,10 +1,22 @@
-import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-runtime";
+import { jsx as _jsx, Fragment as _Fragment, jsxs as _jsxs } from "react/jsx-runtime";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import clsx from "clsx";
+import ContinuousPageView from "../components/ContinuousPageView";
+import DocumentOutlineTree from "../components/DocumentOutlineTree";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PageAnnotationLayer from "../components/PageAnnotationLayer";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import SendToToolMenu from "../components/SendToToolMenu";
 import { configurePdfWorker } from "../lib/pdfWorker";
-import { loadPdfFromFile } from "../lib/pdfLoader";
+import { createPdfSourceFromUrl, formatFetchProgress, } from "../lib/documentPipeline";
+import { createViewerLinkService, resolvePageAction, } from "../lib/pdfAnnotations";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { PERMISSION_LABELS } from "../lib/pdfEncryption";
+import { findPageByLabel, formatPageLabel, loadPageLabels, loadViewerOutline, resolveDestinationPage, } from "../lib/pdfNavigation";
+import { normalizeSelectedText, renderTextLayer } from "../lib/pdfTextLayer";
+import { MAX_SEARCH_HITS, buildTextIndex, computeHighlightRects, searchTextIndex, } from "../lib/pdfTextSearch";
+import { usePdfAssets, useToolHandoff } from "../state/pdfAssets";
 const formatBytes = (size) => {
     if (size === 0)
         return "0 B";
@@ -26,17 +38,15 @@ const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 2;
 const THUMBNAIL_SCALE = 0.25;
 const MAX_CACHE_ENTRIES = 12;
+const SIDEBAR_TABS = [
+    { id: "thumbnails", label: "Pages" },
+    { id: "outline", label: "Outline" },
+];
+const VIEW_MODES = [
+    { id: "single", label: "Single page" },
+    { id: "continuous", label: "Continuous" },
+];
 const POINTS_PER_INCH = 72;
-const PERMISSION_LABELS = {
-    0x04: "Print",
-    0x08: "Modify",
-    0x10: "Copy",
-    0x20: "Edit annotations",
-    0x100: "Fill forms",
-    0x200: "Copy for accessibility",
-    0x400: "Assemble",
-    0x800: "High-quality print",
-};
 const formatIsoDate = (iso) => {
     if (!iso) {
         return "Not available";
@@ -77,12 +87,33 @@ const PdfViewerPage = () => {
     const [pdf, setPdf] = useState(null);
     const [currentPage, setCurrentPage] = useState(1);
     const [zoom, setZoom] = useState(1);
+    const [viewMode, setViewMode] = useState("single");
+    const [sidebarTab, setSidebarTab] = useState("thumbnails");
+    const [outline, setOutline] = useState([]);
+    const [pageLabels, setPageLabels] = useState(null);
+    const [jumpValue, setJumpValue] = useState("");
+    const [isJumpInvalid, setJumpInvalid] = useState(false);
     const [isDragActive, setDragActive] = useState(false);
     const [thumbnails, setThumbnails] = useState([]);
     const [thumbnailStatus, setThumbnailStatus] = useState("idle");
     const [passwordPrompt, setPasswordPrompt] = useState(null);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [textIndex, setTextIndex] = useState(null);
+    const [indexStatus, setIndexStatus] = useState("idle");
+    const [indexProgress, setIndexProgress] = useState(0);
+    const [activeHitId, setActiveHitId] = useState(null);
+    const [renderedPage, setRenderedPage] = useState(null);
+    const [hasTextSelection, setHasTextSelection] = useState(false);
+    const [copyStatus, setCopyStatus] = useState("idle");
+    const [urlProgress, setUrlProgress] = useState(null);
+    const [searchParams] = useSearchParams();
+    const srcParam = searchParams.get("src");
     const canvasRef = useRef(null);
+    const textLayerRef = useRef(null);
+    const pageSurfaceRef = useRef(null);
+    const textLayerTaskRef = useRef(null);
     const pageCacheRef = useRef(new Map());
+    const openDocument = usePdfAssets((state) => state.openDocument);
     useEffect(() => {
         configurePdfWorker();
     }, []);
@@ -114,6 +145,24 @@ const PdfViewerPage = () => {
                     canvas.style.height = `${entry.height}px`;
                     context.clearRect(0, 0, canvas.width, canvas.height);
                     context.drawImage(entry.canvas, 0, 0);
+                    setRenderedPage({
+                        pageNumber: currentPage,
+                        page: entry.page,
+                        viewport: entry.viewport,
+                        annotations: entry.annotations,
+                    });
+                    textLayerTaskRef.current?.cancel();
+                    textLayerTaskRef.current = null;
+                    if (textLayerRef.current) {
+                        const task = renderTextLayer(textLayerRef.current, entry.textContent, entry.viewport);
+                        textLayerTaskRef.current = task;
+                        task.rendered.catch((textLayerError) => {
+                            // Cancelling a stale layer rejects its promise; only report real failures.
+                            if (textLayerTaskRef.current === task) {
+                                console.error(textLayerError);
+                            }
+                        });
+                    }
                 };
                 if (cached) {
                     drawFromCache(cached);
@@ -143,7 +192,11 @@ const PdfViewerPage = () => {
                     viewport,
                 };
                 const renderTask = page.render(renderContext);
-                await renderTask.promise;
+                const [, textContent, annotations] = await Promise.all([
+                    renderTask.promise,
+                    page.getTextContent(),
+                    page.getAnnotations(),
+                ]);
                 page.cleanup();
                 if (isCancelled) {
                     return;
@@ -152,6 +205,10 @@ const PdfViewerPage = () => {
                     canvas: tempCanvas,
                     width: displayWidth,
                     height: displayHeight,
+                    page,
+                    viewport,
+                    textContent,
+                    annotations,
                 };
                 if (pageCacheRef.current.size >= MAX_CACHE_ENTRIES) {
                     const firstKey = pageCacheRef.current.keys().next().value;
@@ -173,12 +230,38 @@ const PdfViewerPage = () => {
         return () => {
             isCancelled = true;
         };
-    }, [pdf, currentPage, zoom]);
+    }, [pdf, currentPage, zoom, viewMode]);
     useEffect(() => {
         if (pdf && currentPage > pdf.pageCount) {
             setCurrentPage(pdf.pageCount);
         }
     }, [pdf, currentPage]);
+    useEffect(() => {
+        setOutline([]);
+        setPageLabels(null);
+        if (!pdf) {
+            return;
+        }
+        let isCancelled = false;
+        Promise.all([loadViewerOutline(pdf.doc), loadPageLabels(pdf.doc)])
+            .then(([items, labels]) => {
+            if (!isCancelled) {
+                setOutline(items);
+                setPageLabels(labels);
+            }
+        })
+            .catch((navigationError) => {
+            // Navigation aids are optional; a broken outline shouldn't block viewing.
+            console.error(navigationError);
+        });
+        return () => {
+            isCancelled = true;
+        };
+    }, [pdf]);
+    useEffect(() => {
+        setJumpValue(formatPageLabel(pageLabels, currentPage));
+        setJumpInvalid(false);
+    }, [currentPage, pageLabels]);
     useEffect(() => {
         if (!pdf) {
             setThumbnails([]);
@@ -232,6 +315,163 @@ const PdfViewerPage = () => {
             isCancelled = true;
         };
     }, [pdf]);
+    useEffect(() => () => {
+        textLayerTaskRef.current?.cancel();
+    }, []);
+    useEffect(() => {
+        const surface = pageSurfaceRef.current;
+        if (!surface) {
+            return;
+        }
+        const handleSelectionChange = () => {
+            const selection = document.getSelection();
+            setHasTextSelection(Boolean(selection &&
+                !selection.isCollapsed &&
+                selection.anchorNode &&
+                surface.contains(selection.anchorNode)));
+        };
+        // pdf.js stretches its end-of-content marker while dragging so the selection doesn't
+        // jump back to the top of the page when the pointer leaves the last span.
+        const handlePointerUp = () => surface
+            .querySelectorAll(".textLayer.selecting")
+            .forEach((layer) => layer.classList.remove("selecting"));
+        document.addEventListener("selectionchange", handleSelectionChange);
+        window.addEventListener("pointerup", handlePointerUp);
+        return () => {
+            document.removeEventListener("selectionchange", handleSelectionChange);
+            window.removeEventListener("pointerup", handlePointerUp);
+        };
+    }, [pdf]);
+    useEffect(() => {
+        if (copyStatus === "idle") {
+            return;
+        }
+        const timeout = window.setTimeout(() => setCopyStatus("idle"), 2000);
+        return () => window.clearTimeout(timeout);
+    }, [copyStatus]);
+    const handleTextLayerCopy = useCallback((event) => {
+        const selected = document.getSelection()?.toString() ?? "";
+        if (!selected) {
+            return;
+        }
+        event.preventDefault();
+        event.clipboardData.setData("text/plain", normalizeSelectedText(selected));
+    }, []);
+    const copySelection = useCallback(async () => {
+        const selected = normalizeSelectedText(document.getSelection()?.toString() ?? "");
+        if (!selected) {
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(selected);
+            setCopyStatus("copied");
+        }
+        catch (clipboardError) {
+            console.error(clipboardError);
+            setCopyStatus("error");
+        }
+    }, []);
+    const wantsTextIndex = searchQuery.trim().length > 0;
+    useEffect(() => {
+        if (!pdf || !wantsTextIndex || textIndex) {
+            return;
+        }
+        const controller = new AbortController();
+        setIndexStatus("indexing");
+        setIndexProgress(0);
+        buildTextIndex(pdf.doc, {
+            signal: controller.signal,
+            onPage: (indexed) => {
+                if (!controller.signal.aborted) {
+                    setIndexProgress(indexed);
+                }
+            },
+        })
+            .then((pages) => {
+            if (!controller.signal.aborted) {
+                setTextIndex(pages);
+                setIndexStatus("ready");
+            }
+        })
+            .catch((indexError) => {
+            console.error(indexError);
+            if (!controller.signal.aborted) {
+                setIndexStatus("error");
+            }
+        });
+        return () => {
+            controller.abort();
+        };
+    }, [pdf, wantsTextIndex, textIndex]);
+    const searchHits = useMemo(() => (textIndex ? searchTextIndex(textIndex, searchQuery) : []), [searchQuery, textIndex]);
+    const activeHitIndex = searchHits.findIndex((hit) => hit.id === activeHitId);
+    const renderHighlights = useCallback((pageNumber, transform) => {
+        const page = textIndex?.[pageNumber - 1];
+        if (!page) {
+            return null;
+        }
+        return searchHits
+            .filter((hit) => hit.pageNumber === pageNumber)
+            .flatMap((hit) => computeHighlightRects(page, hit.ranges, transform).map((rect, index) => (_jsx("span", { "aria-hidden": "true", className: clsx("pointer-events-none absolute rounded-sm mix-blend-multiply", hit.id === activeHitId
+                ? "bg-amber-400/70 ring-2 ring-amber-500"
+                : "bg-yellow-300/60"), style: { left: rect.left, top: rect.top, width: rect.width, height: rect.height } }, `${hit.id}-${index}`))));
+    }, [activeHitId, searchHits, textIndex]);
+    const navigateToDest = useCallback((dest) => {
+        if (!pdf) {
+            return;
+        }
+        resolveDestinationPage(pdf.doc, dest)
+            .then((pageNumber) => {
+            if (pageNumber !== null) {
+                setCurrentPage(pageNumber);
+            }
+        })
+            .catch((destinationError) => console.error(destinationError));
+    }, [pdf]);
+    const runPageAction = useCallback((action) => {
+        if (pdf) {
+            setCurrentPage((previous) => resolvePageAction(action, previous, pdf.pageCount));
+        }
+    }, [pdf]);
+    const linkService = useMemo(() => pdf
+        ? createViewerLinkService({
+            pageCount: pdf.pageCount,
+            onNavigateToDest: navigateToDest,
+            onGoToPage: setCurrentPage,
+            onPageAction: runPageAction,
+        })
+        : null, [navigateToDest, pdf, runPageAction]);
+    const renderAnnotations = useCallback((page, viewport, annotations) => linkService ? (_jsx(PageAnnotationLayer, { page: page, viewport: viewport, annotations: annotations, linkService: linkService })) : null, [linkService]);
+    const renderContinuousOverlay = useCallback((pageNumber, viewport, annotations, page) => (_jsxs(_Fragment, { children: [renderHighlights(pageNumber, viewport.transform), renderAnnotations(page, viewport, annotations)] })), [renderAnnotations, renderHighlights]);
+    const resetSearch = useCallback(() => {
+        setSearchQuery("");
+        setTextIndex(null);
+        setIndexStatus("idle");
+        setIndexProgress(0);
+        setActiveHitId(null);
+        setRenderedPage(null);
+    }, []);
+    const goToHit = useCallback((index) => {
+        const hit = searchHits[index];
+        if (!hit) {
+            return;
+        }
+        setActiveHitId(hit.id);
+        setCurrentPage(hit.pageNumber);
+    }, [searchHits]);
+    const stepHit = useCallback((direction) => {
+        if (searchHits.length === 0) {
+            return;
+        }
+        const from = activeHitIndex === -1 ? (direction === 1 ? -1 : 0) : activeHitIndex;
+        goToHit((from + direction + searchHits.length) % searchHits.length);
+    }, [activeHitIndex, goToHit, searchHits.length]);
+    const handleSearchKeyDown = useCallback((event) => {
+        if (event.key === "Enter") {
+            event.preventDefault();
+            stepHit(event.shiftKey ? -1 : 1);
+        }
+    }, [stepHit]);
     const reset = useCallback(() => {
         pdf?.doc.destroy();
         setPdf(null);
@@ -241,12 +481,13 @@ const PdfViewerPage = () => {
         setError(null);
         setThumbnails([]);
         setThumbnailStatus("idle");
+        resetSearch();
         pageCacheRef.current.clear();
-    }, [pdf]);
+    }, [pdf, resetSearch]);
     const loadFile = useCallback(async (file) => {
         if (!file)
             return;
-        if (!isPdf(file)) {
+        if (file instanceof File && !isPdf(file)) {
             setStatus("error");
             setError("Please choose a valid PDF file.");
             return;
@@ -255,11 +496,12 @@ const PdfViewerPage = () => {
         setError(null);
         try {
             pdf?.doc.destroy();
-            const loaded = await loadPdfFromFile(file, {
+            const loaded = await openDocument(file, "viewer", {
                 requestPassword: (reason) => new Promise((resolve) => {
                     setPasswordPrompt({ fileName: file.name, reason, resolve });
                 }),
             });
+            resetSearch();
             setPdf(loaded);
             setCurrentPage(1);
             setZoom(1);
@@ -271,7 +513,34 @@ const PdfViewerPage = () => {
             setPdf(null);
             setError(getFriendlyPdfError(loadError));
         }
-    }, [pdf]);
+    }, [openDocument, pdf, resetSearch]);
+    const loadFileRef = useRef(loadFile);
+    loadFileRef.current = loadFile;
+    // `?src=` opens a linked PDF on arrival, which makes viewer links shareable.
+    useEffect(() => {
+        if (!srcParam) {
+            return;
+        }
+        const controller = new AbortController();
+        setStatus("loading");
+        setError(null);
+        createPdfSourceFromUrl(srcParam, { signal: controller.signal, onProgress: setUrlProgress })
+            .then((source) => {
+            setUrlProgress(null);
+            return loadFileRef.current(source);
+        })
+            .catch((fetchError) => {
+            if (controller.signal.aborted) {
+                return;
+            }
+            console.error(fetchError);
+            setUrlProgress(null);
+            setStatus("error");
+            setError(getFriendlyPdfError(fetchError));
+        });
+        return () => controller.abort();
+    }, [srcParam]);
+    useToolHandoff("viewer", loadFileRef);
     const handlePasswordSubmit = useCallback((password) => {
         passwordPrompt?.resolve(password);
         setPasswordPrompt(null);
@@ -302,6 +571,19 @@ const PdfViewerPage = () => {
     const handleThumbnailSelect = useCallback((pageNumber) => {
         setCurrentPage(pageNumber);
     }, []);
+    const handleJumpSubmit = useCallback((event) => {
+        event.preventDefault();
+        if (!pdf) {
+            return;
+        }
+        const target = findPageByLabel(pageLabels, jumpValue, pdf.pageCount);
+        if (target === null) {
+            setJumpInvalid(true);
+            return;
+        }
+        setJumpInvalid(false);
+        setCurrentPage(target);
+    }, [jumpValue, pageLabels, pdf]);
     const pageDetail = useMemo(() => {
         if (!pdf)
             return null;
@@ -332,12 +614,46 @@ const PdfViewerPage = () => {
     const canGoNext = pdf ? currentPage < pdf.pageCount : false;
     return (_jsxs("div", { className: "space-y-8", children: [_jsxs("header", { className: "rounded-3xl border border-slate-200/70 bg-white/80 p-8 shadow-lg dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "0.2.0" }), _jsx("h1", { className: "mt-3 font-display text-4xl font-semibold text-slate-900 dark:text-white", children: "PDF Viewer MVP" }), _jsx("p", { className: "mt-4 max-w-2xl text-base text-slate-600 dark:text-slate-300", children: "Load a PDF entirely in your browser, render crisp pages via pdf.js, and prime the layout for thumbnails, metadata, and downstream editing flows." })] }), _jsxs("section", { className: "grid gap-6 lg:grid-cols-[320px_minmax(0,1fr)]", children: [_jsxs("div", { className: "rounded-3xl border border-slate-200/70 bg-white/90 p-6 shadow-md dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: clsx("flex flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed p-6 text-center transition", isDragActive
                                     ? "border-emerald-400 bg-emerald-50/40 text-emerald-600"
-                                    : "border-slate-300/80 bg-slate-50/40 text-slate-500 dark:border-white/15 dark:bg-slate-800/40 dark:text-slate-300"), onDragOver: handleDragOver, onDragLeave: handleDragLeave, onDrop: handleDrop, children: [_jsx("input", { type: "file", accept: "application/pdf", className: "sr-only", id: "viewer-upload", onChange: handleInputChange }), _jsxs("label", { htmlFor: "viewer-upload", className: "flex flex-col items-center gap-1", children: [_jsx("span", { className: "text-sm font-semibold tracking-wide text-slate-700 dark:text-slate-200", children: "Bring your PDF" }), _jsx("span", { className: "text-xs text-slate-500 dark:text-slate-400", children: "Drop a file or click to browse. Everything stays on-device." })] }), _jsx("p", { className: "text-xs uppercase tracking-[0.3em] text-slate-400", children: status === "loading" ? "Loading…" : "Idle" })] }), error && (_jsx("p", { className: "mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700 dark:border-rose-900/60 dark:bg-rose-950/60 dark:text-rose-200", children: error })), pdf && pageDetail && (_jsxs("dl", { className: "mt-6 space-y-3 text-sm text-slate-600 dark:text-slate-300", children: [_jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "File" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white break-all", children: pdf.name })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Pages" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pdf.pageCount })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Size" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pageDetail.size })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Updated" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pageDetail.updatedAt })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "pdf.js" }), _jsxs("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: ["v", pdf.pdfVersion] })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Created" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.created ?? "Not available" })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Modified" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.modified ?? "Not available" })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Page Size" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.pageSizeLabel ?? "Not available" })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Permissions" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.permissions ?? "Not available" })] }), _jsx("button", { type: "button", className: "w-full rounded-2xl border border-slate-300/60 px-3 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-400 hover:text-slate-900 dark:border-white/20 dark:text-slate-200", onClick: reset, children: "Clear file" })] }))] }), _jsx("div", { className: "flex flex-col rounded-3xl border border-slate-200/70 bg-slate-900/5 p-4 backdrop-blur dark:border-white/10 dark:bg-white/5", children: pdf ? (_jsxs(_Fragment, { children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3 rounded-2xl bg-white/80 px-4 py-3 text-sm font-semibold text-slate-700 shadow-sm dark:bg-slate-900/70 dark:text-slate-200", children: [_jsxs("div", { children: ["Page ", currentPage, " / ", pdf.pageCount] }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-3 py-1 disabled:opacity-40 dark:border-white/20", onClick: () => setCurrentPage((prev) => Math.max(1, prev - 1)), disabled: !canGoPrev, children: "\u2190 Prev" }), _jsx("input", { type: "range", min: 1, max: pdf.pageCount, value: currentPage, onChange: (event) => setCurrentPage(Number(event.target.value)) }), _jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-3 py-1 disabled:opacity-40 dark:border-white/20", onClick: () => setCurrentPage((prev) => Math.min(pdf.pageCount, prev + 1)), disabled: !canGoNext, children: "Next \u2192" })] }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-2 py-1 text-lg leading-none disabled:opacity-40 dark:border-white/20", onClick: () => setZoom((prev) => Math.max(MIN_ZOOM, Number((prev - ZOOM_STEP).toFixed(2)))), disabled: zoom <= MIN_ZOOM, children: "\u2212" }), _jsxs("span", { className: "w-20 text-center text-xs uppercase tracking-[0.3em] text-slate-500", children: [Math.round(zoom * 100), "%"] }), _jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-2 py-1 text-lg leading-none disabled:opacity-40 dark:border-white/20", onClick: () => setZoom((prev) => Math.min(MAX_ZOOM, Number((prev + ZOOM_STEP).toFixed(2)))), disabled: zoom >= MAX_ZOOM, children: "+" })] })] }), _jsxs("div", { className: "mt-4 flex flex-1 flex-col gap-4 lg:flex-row", children: [_jsxs("aside", { className: "rounded-2xl border border-slate-200/80 bg-white/80 p-3 text-sm shadow-sm dark:border-white/10 dark:bg-slate-900/70 lg:w-60", children: [_jsxs("div", { className: "flex items-center justify-between", children: [_jsx("p", { className: "text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400", children: "Thumbnails" }), _jsx("span", { className: "text-[10px] font-semibold uppercase tracking-[0.3em] text-slate-400", children: thumbnailStatus === "rendering"
+                                    : "border-slate-300/80 bg-slate-50/40 text-slate-500 dark:border-white/15 dark:bg-slate-800/40 dark:text-slate-300"), onDragOver: handleDragOver, onDragLeave: handleDragLeave, onDrop: handleDrop, children: [_jsx("input", { type: "file", accept: "application/pdf", className: "sr-only", id: "viewer-upload", onChange: handleInputChange }), _jsxs("label", { htmlFor: "viewer-upload", className: "flex flex-col items-center gap-1", children: [_jsx("span", { className: "text-sm font-semibold tracking-wide text-slate-700 dark:text-slate-200", children: "Bring your PDF" }), _jsx("span", { className: "text-xs text-slate-500 dark:text-slate-400", children: "Drop a file or click to browse. Everything stays on-device." })] }), _jsx(OpenFromUrlForm, { onSource: loadFile }), _jsx("p", { className: "text-xs uppercase tracking-[0.3em] text-slate-400", children: urlProgress
+                                            ? `Downloading ${formatFetchProgress(urlProgress)}`
+                                            : status === "loading"
+                                                ? "Loading…"
+                                                : "Idle" })] }), error && (_jsx("p", { className: "mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700 dark:border-rose-900/60 dark:bg-rose-950/60 dark:text-rose-200", children: error })), pdf && (_jsxs("div", { className: "mt-6 space-y-3", children: [_jsx("label", { htmlFor: "viewer-search", className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Search text" }), _jsx("input", { id: "viewer-search", type: "search", value: searchQuery, placeholder: "Find in document", onChange: (event) => {
+                                            setSearchQuery(event.target.value);
+                                            setActiveHitId(null);
+                                        }, onKeyDown: handleSearchKeyDown, className: "w-full rounded-2xl border border-slate-300/70 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-400 focus:outline-none dark:border-white/15 dark:bg-slate-900 dark:text-white" }), wantsTextIndex ? (_jsxs("div", { className: "flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400", children: [_jsx("span", { "aria-live": "polite", children: indexStatus === "indexing"
+                                                    ? `Indexing ${indexProgress}/${pdf.pageCount} pages…`
+                                                    : indexStatus === "error"
+                                                        ? "Couldn't read this PDF's text."
+                                                        : textIndex?.every((page) => page.text.trim() === "")
+                                                            ? "No selectable text. This PDF may be a scan."
+                                                            : `${searchHits.length}${searchHits.length >= MAX_SEARCH_HITS ? "+" : ""} match${searchHits.length === 1 ? "" : "es"}` }), _jsxs("div", { className: "flex items-center gap-1", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-2 py-0.5 disabled:opacity-40 dark:border-white/20", onClick: () => stepHit(-1), disabled: searchHits.length === 0, "aria-label": "Previous match", children: "\u2191" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-2 py-0.5 disabled:opacity-40 dark:border-white/20", onClick: () => stepHit(1), disabled: searchHits.length === 0, "aria-label": "Next match", children: "\u2193" })] })] })) : null, searchHits.length > 0 ? (_jsx("ol", { className: "max-h-64 space-y-1 overflow-y-auto pr-1", children: searchHits.map((hit, index) => (_jsx("li", { children: _jsxs("button", { type: "button", onClick: () => goToHit(index), className: clsx("w-full rounded-xl px-2 py-1.5 text-left text-xs transition", hit.id === activeHitId
+                                                    ? "bg-amber-100 text-amber-900 dark:bg-amber-500/20 dark:text-amber-50"
+                                                    : "text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800/60"), children: [_jsxs("span", { className: "mr-2 font-semibold uppercase tracking-wide text-slate-400", children: ["p. ", formatPageLabel(pageLabels, hit.pageNumber)] }), "\u2026", hit.before, _jsx("mark", { className: "rounded bg-yellow-200 px-0.5 text-slate-900 dark:bg-yellow-400/70", children: hit.match }), hit.after, "\u2026"] }) }, hit.id))) })) : null] })), pdf && pageDetail && (_jsxs("dl", { className: "mt-6 space-y-3 text-sm text-slate-600 dark:text-slate-300", children: [_jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "File" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white break-all", children: pdf.name })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Pages" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pdf.pageCount })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Size" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pageDetail.size })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Updated" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pageDetail.updatedAt })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "pdf.js" }), _jsxs("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: ["v", pdf.pdfVersion] })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Created" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.created ?? "Not available" })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Modified" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.modified ?? "Not available" })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Page Size" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.pageSizeLabel ?? "Not available" })] }), _jsxs("div", { className: "rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60", children: [_jsx("dt", { className: "text-xs uppercase tracking-[0.3em] text-slate-500", children: "Permissions" }), _jsx("dd", { className: "text-base font-semibold text-slate-900 dark:text-white", children: docInfo?.permissions ?? "Not available" })] }), _jsx(SendToToolMenu, { from: "viewer", documentId: pdf.sourceId }), _jsx("button", { type: "button", className: "w-full rounded-2xl border border-slate-300/60 px-3 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-400 hover:text-slate-900 dark:border-white/20 dark:text-slate-200", onClick: reset, children: "Clear file" })] }))] }), _jsx("div", { className: "flex flex-col rounded-3xl border border-slate-200/70 bg-slate-900/5 p-4 backdrop-blur dark:border-white/10 dark:bg-white/5", children: pdf ? (_jsxs(_Fragment, { children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3 rounded-2xl bg-white/80 px-4 py-3 text-sm font-semibold text-slate-700 shadow-sm dark:bg-slate-900/70 dark:text-slate-200", children: [_jsx("div", { children: pageLabels
+                                                ? `Page ${formatPageLabel(pageLabels, currentPage)} (${currentPage} / ${pdf.pageCount})`
+                                                : `Page ${currentPage} / ${pdf.pageCount}` }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-3 py-1 disabled:opacity-40 dark:border-white/20", onClick: () => setCurrentPage((prev) => Math.max(1, prev - 1)), disabled: !canGoPrev, children: "\u2190 Prev" }), _jsx("input", { type: "range", min: 1, max: pdf.pageCount, value: currentPage, onChange: (event) => setCurrentPage(Number(event.target.value)) }), _jsx("form", { onSubmit: handleJumpSubmit, children: _jsx("input", { type: "text", value: jumpValue, onChange: (event) => {
+                                                            setJumpValue(event.target.value);
+                                                            setJumpInvalid(false);
+                                                        }, "aria-label": "Go to page", "aria-invalid": isJumpInvalid, title: pageLabels ? "Enter a page label or number" : "Enter a page number", className: clsx("w-16 rounded-full border bg-transparent px-2 py-1 text-center text-xs focus:outline-none", isJumpInvalid
+                                                            ? "border-red-400 text-red-600 dark:border-red-400/70 dark:text-red-200"
+                                                            : "border-slate-300 focus:border-emerald-400 dark:border-white/20") }) }), _jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-3 py-1 disabled:opacity-40 dark:border-white/20", onClick: () => setCurrentPage((prev) => Math.min(pdf.pageCount, prev + 1)), disabled: !canGoNext, children: "Next \u2192" })] }), _jsx("div", { role: "group", "aria-label": "Page layout", className: "flex items-center rounded-full border border-slate-300 p-0.5 text-xs dark:border-white/20", children: VIEW_MODES.map((mode) => (_jsx("button", { type: "button", "aria-pressed": viewMode === mode.id, className: clsx("rounded-full px-3 py-1 transition", viewMode === mode.id
+                                                    ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900"
+                                                    : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white"), onClick: () => setViewMode(mode.id), children: mode.label }, mode.id))) }), _jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-3 py-1 disabled:opacity-40 dark:border-white/20", onClick: copySelection, disabled: !hasTextSelection, "aria-live": "polite", children: copyStatus === "copied"
+                                                ? "Copied"
+                                                : copyStatus === "error"
+                                                    ? "Copy failed"
+                                                    : "Copy selection" }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-2 py-1 text-lg leading-none disabled:opacity-40 dark:border-white/20", onClick: () => setZoom((prev) => Math.max(MIN_ZOOM, Number((prev - ZOOM_STEP).toFixed(2)))), disabled: zoom <= MIN_ZOOM, children: "\u2212" }), _jsxs("span", { className: "w-20 text-center text-xs uppercase tracking-[0.3em] text-slate-500", children: [Math.round(zoom * 100), "%"] }), _jsx("button", { type: "button", className: "rounded-full border border-slate-300 px-2 py-1 text-lg leading-none disabled:opacity-40 dark:border-white/20", onClick: () => setZoom((prev) => Math.min(MAX_ZOOM, Number((prev + ZOOM_STEP).toFixed(2)))), disabled: zoom >= MAX_ZOOM, children: "+" })] })] }), _jsxs("div", { className: "mt-4 flex flex-1 flex-col gap-4 lg:flex-row", children: [_jsxs("aside", { className: "rounded-2xl border border-slate-200/80 bg-white/80 p-3 text-sm shadow-sm dark:border-white/10 dark:bg-slate-900/70 lg:w-60", children: [_jsxs("div", { className: "flex items-center justify-between", children: [_jsx("div", { role: "tablist", "aria-label": "Sidebar", className: "flex gap-3", children: SIDEBAR_TABS.map((tab) => (_jsx("button", { type: "button", role: "tab", "aria-selected": sidebarTab === tab.id, onClick: () => setSidebarTab(tab.id), className: clsx("text-xs uppercase tracking-[0.3em] transition", sidebarTab === tab.id
+                                                                    ? "text-slate-900 dark:text-white"
+                                                                    : "text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"), children: tab.label }, tab.id))) }), sidebarTab === "thumbnails" ? (_jsx("span", { className: "text-[10px] font-semibold uppercase tracking-[0.3em] text-slate-400", children: thumbnailStatus === "rendering"
                                                                 ? "Rendering"
-                                                                : `${thumbnails.length}/${pdf.pageCount}` })] }), _jsx("div", { className: "mt-3 max-h-[420px] overflow-y-auto pr-2", children: thumbnails.length > 0 ? (_jsx("ol", { className: "space-y-3", children: thumbnails.map((thumb) => (_jsx("li", { children: _jsxs("button", { type: "button", onClick: () => handleThumbnailSelect(thumb.pageNumber), className: clsx("group w-full rounded-2xl border px-2 pb-2 pt-2 transition", thumb.pageNumber === currentPage
+                                                                : `${thumbnails.length}/${pdf.pageCount}` })) : null] }), _jsx("div", { className: "mt-3 max-h-[420px] overflow-y-auto pr-2", children: sidebarTab === "outline" ? (outline.length > 0 ? (_jsx(DocumentOutlineTree, { items: outline, currentPage: currentPage, onNavigate: setCurrentPage })) : (_jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: "This PDF has no bookmarks." }))) : thumbnails.length > 0 ? (_jsx("ol", { className: "space-y-3", children: thumbnails.map((thumb) => (_jsx("li", { children: _jsxs("button", { type: "button", onClick: () => handleThumbnailSelect(thumb.pageNumber), className: clsx("group w-full rounded-2xl border px-2 pb-2 pt-2 transition", thumb.pageNumber === currentPage
                                                                     ? "border-emerald-400 bg-emerald-50/60 text-emerald-700 dark:border-emerald-300/60 dark:bg-emerald-900/30 dark:text-emerald-100"
-                                                                    : "border-slate-200 bg-white/70 text-slate-600 hover:border-slate-400 dark:border-white/10 dark:bg-slate-800/60 dark:text-slate-300"), children: [_jsx("div", { className: "overflow-hidden rounded-xl border border-slate-200/60 bg-slate-100 dark:border-white/10 dark:bg-slate-900/40", children: _jsx("img", { src: thumb.url, alt: `Page ${thumb.pageNumber} thumbnail`, loading: "lazy", className: "mx-auto block" }) }), _jsxs("span", { className: "mt-2 block text-xs font-semibold uppercase tracking-[0.3em]", children: ["Page ", thumb.pageNumber] })] }) }, thumb.pageNumber))) })) : (_jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: thumbnailStatus === "rendering"
+                                                                    : "border-slate-200 bg-white/70 text-slate-600 hover:border-slate-400 dark:border-white/10 dark:bg-slate-800/60 dark:text-slate-300"), children: [_jsx("div", { className: "overflow-hidden rounded-xl border border-slate-200/60 bg-slate-100 dark:border-white/10 dark:bg-slate-900/40", children: _jsx("img", { src: thumb.url, alt: `Page ${thumb.pageNumber} thumbnail`, loading: "lazy", className: "mx-auto block" }) }), _jsxs("span", { className: "mt-2 block text-xs font-semibold uppercase tracking-[0.3em]", children: ["Page ", formatPageLabel(pageLabels, thumb.pageNumber)] })] }) }, thumb.pageNumber))) })) : (_jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: thumbnailStatus === "rendering"
                                                             ? "Rendering previews…"
-                                                            : "Load a PDF to see previews." })) })] }), _jsx("div", { className: "flex-1 overflow-auto rounded-2xl border border-dashed border-slate-300/70 bg-white/90 p-4 shadow-inner dark:border-white/10 dark:bg-slate-950/40", children: _jsx("canvas", { ref: canvasRef, className: "mx-auto shadow-2xl shadow-slate-900/10" }) })] })] })) : (_jsxs("div", { className: "flex flex-1 flex-col items-center justify-center rounded-2xl border border-dashed border-slate-300/70 bg-white/70 p-10 text-center text-slate-500 dark:border-white/20 dark:bg-slate-900/40 dark:text-slate-300", children: [_jsx("p", { className: "text-sm uppercase tracking-[0.4em]", children: "Awaiting file" }), _jsx("p", { className: "mt-2 font-display text-2xl text-slate-800 dark:text-white", children: "Drop a PDF to preview the first page." }), _jsx("p", { className: "mt-3 max-w-lg text-sm text-slate-500 dark:text-slate-400", children: "Once the viewer solidifies, this pane will host thumbnails, metadata, and editing affordances for the rest of the toolchain." })] })) })] }), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+                                                            : "Load a PDF to see previews." })) })] }), _jsx("div", { ref: pageSurfaceRef, className: "flex-1 overflow-auto rounded-2xl border border-dashed border-slate-300/70 bg-white/90 p-4 shadow-inner dark:border-white/10 dark:bg-slate-950/40", onCopy: handleTextLayerCopy, onPointerDown: (event) => event.target.closest(".textLayer")?.classList.add("selecting"), children: viewMode === "continuous" ? (_jsx(ContinuousPageView, { doc: pdf.doc, pageCount: pdf.pageCount, zoom: zoom, currentPage: currentPage, onVisiblePageChange: setCurrentPage, renderOverlay: renderContinuousOverlay })) : (_jsxs("div", { className: "relative mx-auto w-fit", children: [_jsx("canvas", { ref: canvasRef, className: "block shadow-2xl shadow-slate-900/10" }), renderedPage
+                                                        ? renderHighlights(renderedPage.pageNumber, renderedPage.viewport.transform)
+                                                        : null, _jsx("div", { ref: textLayerRef, className: "textLayer" }), renderedPage
+                                                        ? renderAnnotations(renderedPage.page, renderedPage.viewport, renderedPage.annotations)
+                                                        : null] })) })] })] })) : (_jsxs("div", { className: "flex flex-1 flex-col items-center justify-center rounded-2xl border border-dashed border-slate-300/70 bg-white/70 p-10 text-center text-slate-500 dark:border-white/20 dark:bg-slate-900/40 dark:text-slate-300", children: [_jsx("p", { className: "text-sm uppercase tracking-[0.4em]", children: "Awaiting file" }), _jsx("p", { className: "mt-2 font-display text-2xl text-slate-800 dark:text-white", children: "Drop a PDF to preview the first page." }), _jsx("p", { className: "mt-3 max-w-lg text-sm text-slate-500 dark:text-slate-400", children: "Once the viewer solidifies, this pane will host thumbnails, metadata, and editing affordances for the rest of the toolchain." })] })) })] }), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
 };
 export default PdfViewerPage;
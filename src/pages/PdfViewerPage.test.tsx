@@ -1,5 +1,6 @@
 import { render, screen } from "@testing-library/react";
-import { describe, expect, it, vi } from "vitest";
+import { MemoryRouter } from "react-router-dom";
+import { afterEach, describe, expect, it, vi } from "vitest";
 
 import PdfViewerPage from "./PdfViewerPage";
 
@@ -8,13 +9,45 @@ vi.mock("../lib/pdfWorker", () => ({
 }));
 
 vi.mock("../lib/pdfLoader", () => ({
-  loadPdfFromFile: vi.fn(),
+  loadPdfFromSource: vi.fn(),
+}));
+
+vi.mock("../lib/pdfTextLayer", () => ({
+  renderTextLayer: vi.fn(),
+  normalizeSelectedText: (text: string) => text,
+}));
+
+vi.mock("../lib/pdfAnnotationLayer", () => ({
+  renderAnnotationLayer: vi.fn(),
 }));
 
 describe("PdfViewerPage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
   it("renders the upload instructions", () => {
-    render(<PdfViewerPage />);
+    render(
+      <MemoryRouter>
+        <PdfViewerPage />
+      </MemoryRouter>,
+    );
     expect(screen.getByText(/Bring your PDF/i)).toBeInTheDocument();
     expect(screen.getByText(/Drop a file or click to browse/i)).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Open from URL/i })).toBeInTheDocument();
+  });
+
+  it("fetches the ?src= link and reports a missing file", async () => {
+    const fetchMock = vi.fn(async () => new Response("missing", { status: 404 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    render(
+      <MemoryRouter initialEntries={["/viewer?src=https%3A%2F%2Fexample.com%2Fgone.pdf"]}>
+        <PdfViewerPage />
+      </MemoryRouter>,
+    );
+
+    expect(await screen.findByText(/No PDF was found at that link/i)).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("https://example.com/gone.pdf", expect.anything());
   });
 });
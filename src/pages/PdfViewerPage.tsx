@@ -1,11 +1,50 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { ChangeEvent, DragEvent } from "react";
+import type { ChangeEvent, ClipboardEvent, DragEvent, FormEvent, KeyboardEvent } from "react";
+import { useSearchParams } from "react-router-dom";
 import clsx from "clsx";
+import type { PDFPageProxy, TextContent } from "pdfjs-dist/types/src/display/api";
+import type { PageViewport } from "pdfjs-dist/types/src/display/display_utils";
 
+import ContinuousPageView from "../components/ContinuousPageView";
+import DocumentOutlineTree from "../components/DocumentOutlineTree";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PageAnnotationLayer from "../components/PageAnnotationLayer";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import SendToToolMenu from "../components/SendToToolMenu";
 import { configurePdfWorker } from "../lib/pdfWorker";
-import { loadPdfFromFile, type LoadedPdf, type PdfPasswordReason } from "../lib/pdfLoader";
+import {
+  createPdfSourceFromUrl,
+  formatFetchProgress,
+  type FetchProgress,
+  type PdfSource,
+} from "../lib/documentPipeline";
+import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
+import {
+  createViewerLinkService,
+  resolvePageAction,
+  type NamedPageAction,
+  type PdfJsAnnotation,
+} from "../lib/pdfAnnotations";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { PERMISSION_LABELS } from "../lib/pdfEncryption";
+import {
+  findPageByLabel,
+  formatPageLabel,
+  loadPageLabels,
+  loadViewerOutline,
+  resolveDestinationPage,
+  type OutlineNode,
+  type ViewerOutlineItem,
+} from "../lib/pdfNavigation";
+import { normalizeSelectedText, renderTextLayer, type TextLayerHandle } from "../lib/pdfTextLayer";
+import {
+  MAX_SEARCH_HITS,
+  buildTextIndex,
+  computeHighlightRects,
+  searchTextIndex,
+  type PageTextIndex,
+} from "../lib/pdfTextSearch";
+import { usePdfAssets, useToolHandoff } from "../state/pdfAssets";
 
 const formatBytes = (size: number) => {
   if (size === 0) return "0 B";
@@ -30,17 +69,15 @@ const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 2;
 const THUMBNAIL_SCALE = 0.25;
 const MAX_CACHE_ENTRIES = 12;
+const SIDEBAR_TABS: { id: SidebarTab; label: string }[] = [
+  { id: "thumbnails", label: "Pages" },
+  { id: "outline", label: "Outline" },
+];
+const VIEW_MODES: { id: ViewMode; label: string }[] = [
+  { id: "single", label: "Single page" },
+  { id: "continuous", label: "Continuous" },
+];
 const POINTS_PER_INCH = 72;
-const PERMISSION_LABELS: Record<number, string> = {
-  0x04: "Print",
-  0x08: "Modify",
-  0x10: "Copy",
-  0x20: "Edit annotations",
-  0x100: "Fill forms",
-  0x200: "Copy for accessibility",
-  0x400: "Assemble",
-  0x800: "High-quality print",
-};
 
 const formatIsoDate = (iso?: string | null) => {
   if (!iso) {
@@ -91,6 +128,9 @@ const formatPermissions = (permissions?: number[] | null) => {
 };
 
 type ViewerStatus = "idle" | "loading" | "ready" | "error";
+type ViewMode = "single" | "continuous";
+type SidebarTab = "thumbnails" | "outline";
+type IndexStatus = "idle" | "indexing" | "ready" | "error";
 type ThumbnailStatus = "idle" | "rendering" | "ready";
 
 type Thumbnail = {
@@ -102,6 +142,17 @@ type CachedRender = {
   canvas: HTMLCanvasElement;
   width: number;
   height: number;
+  page: PDFPageProxy;
+  viewport: PageViewport;
+  textContent: TextContent;
+  annotations: PdfJsAnnotation[];
+};
+
+type RenderedPage = {
+  pageNumber: number;
+  page: PDFPageProxy;
+  viewport: PageViewport;
+  annotations: PdfJsAnnotation[];
 };
 
 const PdfViewerPage = () => {
@@ -110,6 +161,12 @@ const PdfViewerPage = () => {
   const [pdf, setPdf] = useState<LoadedPdf | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [zoom, setZoom] = useState(1);
+  const [viewMode, setViewMode] = useState<ViewMode>("single");
+  const [sidebarTab, setSidebarTab] = useState<SidebarTab>("thumbnails");
+  const [outline, setOutline] = useState<ViewerOutlineItem[]>([]);
+  const [pageLabels, setPageLabels] = useState<string[] | null>(null);
+  const [jumpValue, setJumpValue] = useState("");
+  const [isJumpInvalid, setJumpInvalid] = useState(false);
   const [isDragActive, setDragActive] = useState(false);
   const [thumbnails, setThumbnails] = useState<Thumbnail[]>([]);
   const [thumbnailStatus, setThumbnailStatus] = useState<ThumbnailStatus>("idle");
@@ -118,8 +175,23 @@ const PdfViewerPage = () => {
     reason: PdfPasswordReason;
     resolve: (value: string | null) => void;
   } | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [textIndex, setTextIndex] = useState<PageTextIndex[] | null>(null);
+  const [indexStatus, setIndexStatus] = useState<IndexStatus>("idle");
+  const [indexProgress, setIndexProgress] = useState(0);
+  const [activeHitId, setActiveHitId] = useState<string | null>(null);
+  const [renderedPage, setRenderedPage] = useState<RenderedPage | null>(null);
+  const [hasTextSelection, setHasTextSelection] = useState(false);
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "error">("idle");
+  const [urlProgress, setUrlProgress] = useState<FetchProgress | null>(null);
+  const [searchParams] = useSearchParams();
+  const srcParam = searchParams.get("src");
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const textLayerRef = useRef<HTMLDivElement | null>(null);
+  const pageSurfaceRef = useRef<HTMLDivElement | null>(null);
+  const textLayerTaskRef = useRef<TextLayerHandle | null>(null);
   const pageCacheRef = useRef<Map<string, CachedRender>>(new Map());
+  const openDocument = usePdfAssets((state) => state.openDocument);
 
   useEffect(() => {
     configurePdfWorker();
@@ -159,6 +231,25 @@ const PdfViewerPage = () => {
           canvas.style.height = `${entry.height}px`;
           context.clearRect(0, 0, canvas.width, canvas.height);
           context.drawImage(entry.canvas, 0, 0);
+          setRenderedPage({
+            pageNumber: currentPage,
+            page: entry.page,
+            viewport: entry.viewport,
+            annotations: entry.annotations,
+          });
+
+          textLayerTaskRef.current?.cancel();
+          textLayerTaskRef.current = null;
+          if (textLayerRef.current) {
+            const task = renderTextLayer(textLayerRef.current, entry.textContent, entry.viewport);
+            textLayerTaskRef.current = task;
+            task.rendered.catch((textLayerError) => {
+              // Cancelling a stale layer rejects its promise; only report real failures.
+              if (textLayerTaskRef.current === task) {
+                console.error(textLayerError);
+              }
+            });
+          }
         };
 
         if (cached) {
@@ -196,7 +287,11 @@ const PdfViewerPage = () => {
         };
 
         const renderTask = page.render(renderContext);
-        await renderTask.promise;
+        const [, textContent, annotations] = await Promise.all([
+          renderTask.promise,
+          page.getTextContent(),
+          page.getAnnotations(),
+        ]);
         page.cleanup();
 
         if (isCancelled) {
@@ -207,6 +302,10 @@ const PdfViewerPage = () => {
           canvas: tempCanvas,
           width: displayWidth,
           height: displayHeight,
+          page,
+          viewport,
+          textContent,
+          annotations,
         };
 
         if (pageCacheRef.current.size >= MAX_CACHE_ENTRIES) {
@@ -231,7 +330,7 @@ const PdfViewerPage = () => {
     return () => {
       isCancelled = true;
     };
-  }, [pdf, currentPage, zoom]);
+  }, [pdf, currentPage, zoom, viewMode]);
 
   useEffect(() => {
     if (pdf && currentPage > pdf.pageCount) {
@@ -239,6 +338,36 @@ const PdfViewerPage = () => {
     }
   }, [pdf, currentPage]);
 
+  useEffect(() => {
+    setOutline([]);
+    setPageLabels(null);
+    if (!pdf) {
+      return;
+    }
+
+    let isCancelled = false;
+    Promise.all([loadViewerOutline(pdf.doc), loadPageLabels(pdf.doc)])
+      .then(([items, labels]) => {
+        if (!isCancelled) {
+          setOutline(items);
+          setPageLabels(labels);
+        }
+      })
+      .catch((navigationError) => {
+        // Navigation aids are optional; a broken outline shouldn't block viewing.
+        console.error(navigationError);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [pdf]);
+
+  useEffect(() => {
+    setJumpValue(formatPageLabel(pageLabels, currentPage));
+    setJumpInvalid(false);
+  }, [currentPage, pageLabels]);
+
   useEffect(() => {
     if (!pdf) {
       setThumbnails([]);
@@ -303,6 +432,256 @@ const PdfViewerPage = () => {
     };
   }, [pdf]);
 
+  useEffect(
+    () => () => {
+      textLayerTaskRef.current?.cancel();
+    },
+    [],
+  );
+
+  useEffect(() => {
+    const surface = pageSurfaceRef.current;
+    if (!surface) {
+      return;
+    }
+
+    const handleSelectionChange = () => {
+      const selection = document.getSelection();
+      setHasTextSelection(
+        Boolean(
+          selection &&
+          !selection.isCollapsed &&
+          selection.anchorNode &&
+          surface.contains(selection.anchorNode),
+        ),
+      );
+    };
+    // pdf.js stretches its end-of-content marker while dragging so the selection doesn't
+    // jump back to the top of the page when the pointer leaves the last span.
+    const handlePointerUp = () =>
+      surface
+        .querySelectorAll(".textLayer.selecting")
+        .forEach((layer) => layer.classList.remove("selecting"));
+
+    document.addEventListener("selectionchange", handleSelectionChange);
+    window.addEventListener("pointerup", handlePointerUp);
+    return () => {
+      document.removeEventListener("selectionchange", handleSelectionChange);
+      window.removeEventListener("pointerup", handlePointerUp);
+    };
+  }, [pdf]);
+
+  useEffect(() => {
+    if (copyStatus === "idle") {
+      return;
+    }
+    const timeout = window.setTimeout(() => setCopyStatus("idle"), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [copyStatus]);
+
+  const handleTextLayerCopy = useCallback((event: ClipboardEvent<HTMLDivElement>) => {
+    const selected = document.getSelection()?.toString() ?? "";
+    if (!selected) {
+      return;
+    }
+    event.preventDefault();
+    event.clipboardData.setData("text/plain", normalizeSelectedText(selected));
+  }, []);
+
+  const copySelection = useCallback(async () => {
+    const selected = normalizeSelectedText(document.getSelection()?.toString() ?? "");
+    if (!selected) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(selected);
+      setCopyStatus("copied");
+    } catch (clipboardError) {
+      console.error(clipboardError);
+      setCopyStatus("error");
+    }
+  }, []);
+
+  const wantsTextIndex = searchQuery.trim().length > 0;
+
+  useEffect(() => {
+    if (!pdf || !wantsTextIndex || textIndex) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setIndexStatus("indexing");
+    setIndexProgress(0);
+
+    buildTextIndex(pdf.doc, {
+      signal: controller.signal,
+      onPage: (indexed) => {
+        if (!controller.signal.aborted) {
+          setIndexProgress(indexed);
+        }
+      },
+    })
+      .then((pages) => {
+        if (!controller.signal.aborted) {
+          setTextIndex(pages);
+          setIndexStatus("ready");
+        }
+      })
+      .catch((indexError) => {
+        console.error(indexError);
+        if (!controller.signal.aborted) {
+          setIndexStatus("error");
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [pdf, wantsTextIndex, textIndex]);
+
+  const searchHits = useMemo(
+    () => (textIndex ? searchTextIndex(textIndex, searchQuery) : []),
+    [searchQuery, textIndex],
+  );
+
+  const activeHitIndex = searchHits.findIndex((hit) => hit.id === activeHitId);
+
+  const renderHighlights = useCallback(
+    (pageNumber: number, transform: number[]) => {
+      const page = textIndex?.[pageNumber - 1];
+      if (!page) {
+        return null;
+      }
+
+      return searchHits
+        .filter((hit) => hit.pageNumber === pageNumber)
+        .flatMap((hit) =>
+          computeHighlightRects(page, hit.ranges, transform).map((rect, index) => (
+            <span
+              key={`${hit.id}-${index}`}
+              aria-hidden="true"
+              className={clsx(
+                "pointer-events-none absolute rounded-sm mix-blend-multiply",
+                hit.id === activeHitId
+                  ? "bg-amber-400/70 ring-2 ring-amber-500"
+                  : "bg-yellow-300/60",
+              )}
+              style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+            />
+          )),
+        );
+    },
+    [activeHitId, searchHits, textIndex],
+  );
+
+  const navigateToDest = useCallback(
+    (dest: OutlineNode["dest"]) => {
+      if (!pdf) {
+        return;
+      }
+      resolveDestinationPage(pdf.doc, dest)
+        .then((pageNumber) => {
+          if (pageNumber !== null) {
+            setCurrentPage(pageNumber);
+          }
+        })
+        .catch((destinationError) => console.error(destinationError));
+    },
+    [pdf],
+  );
+
+  const runPageAction = useCallback(
+    (action: NamedPageAction) => {
+      if (pdf) {
+        setCurrentPage((previous) => resolvePageAction(action, previous, pdf.pageCount));
+      }
+    },
+    [pdf],
+  );
+
+  const linkService = useMemo(
+    () =>
+      pdf
+        ? createViewerLinkService({
+            pageCount: pdf.pageCount,
+            onNavigateToDest: navigateToDest,
+            onGoToPage: setCurrentPage,
+            onPageAction: runPageAction,
+          })
+        : null,
+    [navigateToDest, pdf, runPageAction],
+  );
+
+  const renderAnnotations = useCallback(
+    (page: PDFPageProxy, viewport: PageViewport, annotations: PdfJsAnnotation[]) =>
+      linkService ? (
+        <PageAnnotationLayer
+          page={page}
+          viewport={viewport}
+          annotations={annotations}
+          linkService={linkService}
+        />
+      ) : null,
+    [linkService],
+  );
+
+  const renderContinuousOverlay = useCallback(
+    (
+      pageNumber: number,
+      viewport: PageViewport,
+      annotations: PdfJsAnnotation[],
+      page: PDFPageProxy,
+    ) => (
+      <>
+        {renderHighlights(pageNumber, viewport.transform)}
+        {renderAnnotations(page, viewport, annotations)}
+      </>
+    ),
+    [renderAnnotations, renderHighlights],
+  );
+
+  const resetSearch = useCallback(() => {
+    setSearchQuery("");
+    setTextIndex(null);
+    setIndexStatus("idle");
+    setIndexProgress(0);
+    setActiveHitId(null);
+    setRenderedPage(null);
+  }, []);
+
+  const goToHit = useCallback(
+    (index: number) => {
+      const hit = searchHits[index];
+      if (!hit) {
+        return;
+      }
+      setActiveHitId(hit.id);
+      setCurrentPage(hit.pageNumber);
+    },
+    [searchHits],
+  );
+
+  const stepHit = useCallback(
+    (direction: 1 | -1) => {
+      if (searchHits.length === 0) {
+        return;
+      }
+      const from = activeHitIndex === -1 ? (direction === 1 ? -1 : 0) : activeHitIndex;
+      goToHit((from + direction + searchHits.length) % searchHits.length);
+    },
+    [activeHitIndex, goToHit, searchHits.length],
+  );
+
+  const handleSearchKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        stepHit(event.shiftKey ? -1 : 1);
+      }
+    },
+    [stepHit],
+  );
+
   const reset = useCallback(() => {
     pdf?.doc.destroy();
     setPdf(null);
@@ -312,13 +691,14 @@ const PdfViewerPage = () => {
     setError(null);
     setThumbnails([]);
     setThumbnailStatus("idle");
+    resetSearch();
     pageCacheRef.current.clear();
-  }, [pdf]);
+  }, [pdf, resetSearch]);
 
   const loadFile = useCallback(
-    async (file: File | null | undefined) => {
+    async (file: File | PdfSource | null | undefined) => {
       if (!file) return;
-      if (!isPdf(file)) {
+      if (file instanceof File && !isPdf(file)) {
         setStatus("error");
         setError("Please choose a valid PDF file.");
         return;
@@ -329,12 +709,13 @@ const PdfViewerPage = () => {
 
       try {
         pdf?.doc.destroy();
-        const loaded = await loadPdfFromFile(file, {
+        const loaded = await openDocument(file, "viewer", {
           requestPassword: (reason) =>
             new Promise<string | null>((resolve) => {
               setPasswordPrompt({ fileName: file.name, reason, resolve });
             }),
         });
+        resetSearch();
         setPdf(loaded);
         setCurrentPage(1);
         setZoom(1);
@@ -346,9 +727,41 @@ const PdfViewerPage = () => {
         setError(getFriendlyPdfError(loadError));
       }
     },
-    [pdf],
+    [openDocument, pdf, resetSearch],
   );
 
+  const loadFileRef = useRef(loadFile);
+  loadFileRef.current = loadFile;
+
+  // `?src=` opens a linked PDF on arrival, which makes viewer links shareable.
+  useEffect(() => {
+    if (!srcParam) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setStatus("loading");
+    setError(null);
+    createPdfSourceFromUrl(srcParam, { signal: controller.signal, onProgress: setUrlProgress })
+      .then((source) => {
+        setUrlProgress(null);
+        return loadFileRef.current(source);
+      })
+      .catch((fetchError: unknown) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error(fetchError);
+        setUrlProgress(null);
+        setStatus("error");
+        setError(getFriendlyPdfError(fetchError));
+      });
+
+    return () => controller.abort();
+  }, [srcParam]);
+
+  useToolHandoff("viewer", loadFileRef);
+
   const handlePasswordSubmit = useCallback(
     (password: string) => {
       passwordPrompt?.resolve(password);
@@ -395,6 +808,23 @@ const PdfViewerPage = () => {
     setCurrentPage(pageNumber);
   }, []);
 
+  const handleJumpSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!pdf) {
+        return;
+      }
+      const target = findPageByLabel(pageLabels, jumpValue, pdf.pageCount);
+      if (target === null) {
+        setJumpInvalid(true);
+        return;
+      }
+      setJumpInvalid(false);
+      setCurrentPage(target);
+    },
+    [jumpValue, pageLabels, pdf],
+  );
+
   const pageDetail = useMemo(() => {
     if (!pdf) return null;
     return {
@@ -467,8 +897,13 @@ const PdfViewerPage = () => {
                 Drop a file or click to browse. Everything stays on-device.
               </span>
             </label>
+            <OpenFromUrlForm onSource={loadFile} />
             <p className="text-xs uppercase tracking-[0.3em] text-slate-400">
-              {status === "loading" ? "Loading…" : "Idle"}
+              {urlProgress
+                ? `Downloading ${formatFetchProgress(urlProgress)}`
+                : status === "loading"
+                  ? "Loading…"
+                  : "Idle"}
             </p>
           </div>
 
@@ -478,6 +913,91 @@ const PdfViewerPage = () => {
             </p>
           )}
 
+          {pdf && (
+            <div className="mt-6 space-y-3">
+              <label
+                htmlFor="viewer-search"
+                className="text-xs uppercase tracking-[0.3em] text-slate-500"
+              >
+                Search text
+              </label>
+              <input
+                id="viewer-search"
+                type="search"
+                value={searchQuery}
+                placeholder="Find in document"
+                onChange={(event) => {
+                  setSearchQuery(event.target.value);
+                  setActiveHitId(null);
+                }}
+                onKeyDown={handleSearchKeyDown}
+                className="w-full rounded-2xl border border-slate-300/70 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-400 focus:outline-none dark:border-white/15 dark:bg-slate-900 dark:text-white"
+              />
+              {wantsTextIndex ? (
+                <div className="flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+                  <span aria-live="polite">
+                    {indexStatus === "indexing"
+                      ? `Indexing ${indexProgress}/${pdf.pageCount} pages…`
+                      : indexStatus === "error"
+                        ? "Couldn't read this PDF's text."
+                        : textIndex?.every((page) => page.text.trim() === "")
+                          ? "No selectable text. This PDF may be a scan."
+                          : `${searchHits.length}${
+                              searchHits.length >= MAX_SEARCH_HITS ? "+" : ""
+                            } match${searchHits.length === 1 ? "" : "es"}`}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      className="rounded-full border border-slate-300 px-2 py-0.5 disabled:opacity-40 dark:border-white/20"
+                      onClick={() => stepHit(-1)}
+                      disabled={searchHits.length === 0}
+                      aria-label="Previous match"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded-full border border-slate-300 px-2 py-0.5 disabled:opacity-40 dark:border-white/20"
+                      onClick={() => stepHit(1)}
+                      disabled={searchHits.length === 0}
+                      aria-label="Next match"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+              {searchHits.length > 0 ? (
+                <ol className="max-h-64 space-y-1 overflow-y-auto pr-1">
+                  {searchHits.map((hit, index) => (
+                    <li key={hit.id}>
+                      <button
+                        type="button"
+                        onClick={() => goToHit(index)}
+                        className={clsx(
+                          "w-full rounded-xl px-2 py-1.5 text-left text-xs transition",
+                          hit.id === activeHitId
+                            ? "bg-amber-100 text-amber-900 dark:bg-amber-500/20 dark:text-amber-50"
+                            : "text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800/60",
+                        )}
+                      >
+                        <span className="mr-2 font-semibold uppercase tracking-wide text-slate-400">
+                          p. {formatPageLabel(pageLabels, hit.pageNumber)}
+                        </span>
+                        …{hit.before}
+                        <mark className="rounded bg-yellow-200 px-0.5 text-slate-900 dark:bg-yellow-400/70">
+                          {hit.match}
+                        </mark>
+                        {hit.after}…
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
+            </div>
+          )}
+
           {pdf && pageDetail && (
             <dl className="mt-6 space-y-3 text-sm text-slate-600 dark:text-slate-300">
               <div className="rounded-2xl bg-slate-100/60 p-3 dark:bg-slate-800/60">
@@ -534,6 +1054,7 @@ const PdfViewerPage = () => {
                   {docInfo?.permissions ?? "Not available"}
                 </dd>
               </div>
+              <SendToToolMenu from="viewer" documentId={pdf.sourceId} />
               <button
                 type="button"
                 className="w-full rounded-2xl border border-slate-300/60 px-3 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-400 hover:text-slate-900 dark:border-white/20 dark:text-slate-200"
@@ -550,7 +1071,9 @@ const PdfViewerPage = () => {
             <>
               <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl bg-white/80 px-4 py-3 text-sm font-semibold text-slate-700 shadow-sm dark:bg-slate-900/70 dark:text-slate-200">
                 <div>
-                  Page {currentPage} / {pdf.pageCount}
+                  {pageLabels
+                    ? `Page ${formatPageLabel(pageLabels, currentPage)} (${currentPage} / ${pdf.pageCount})`
+                    : `Page ${currentPage} / ${pdf.pageCount}`}
                 </div>
                 <div className="flex items-center gap-2">
                   <button
@@ -568,6 +1091,25 @@ const PdfViewerPage = () => {
                     value={currentPage}
                     onChange={(event) => setCurrentPage(Number(event.target.value))}
                   />
+                  <form onSubmit={handleJumpSubmit}>
+                    <input
+                      type="text"
+                      value={jumpValue}
+                      onChange={(event) => {
+                        setJumpValue(event.target.value);
+                        setJumpInvalid(false);
+                      }}
+                      aria-label="Go to page"
+                      aria-invalid={isJumpInvalid}
+                      title={pageLabels ? "Enter a page label or number" : "Enter a page number"}
+                      className={clsx(
+                        "w-16 rounded-full border bg-transparent px-2 py-1 text-center text-xs focus:outline-none",
+                        isJumpInvalid
+                          ? "border-red-400 text-red-600 dark:border-red-400/70 dark:text-red-200"
+                          : "border-slate-300 focus:border-emerald-400 dark:border-white/20",
+                      )}
+                    />
+                  </form>
                   <button
                     type="button"
                     className="rounded-full border border-slate-300 px-3 py-1 disabled:opacity-40 dark:border-white/20"
@@ -577,6 +1119,41 @@ const PdfViewerPage = () => {
                     Next →
                   </button>
                 </div>
+                <div
+                  role="group"
+                  aria-label="Page layout"
+                  className="flex items-center rounded-full border border-slate-300 p-0.5 text-xs dark:border-white/20"
+                >
+                  {VIEW_MODES.map((mode) => (
+                    <button
+                      key={mode.id}
+                      type="button"
+                      aria-pressed={viewMode === mode.id}
+                      className={clsx(
+                        "rounded-full px-3 py-1 transition",
+                        viewMode === mode.id
+                          ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900"
+                          : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white",
+                      )}
+                      onClick={() => setViewMode(mode.id)}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-300 px-3 py-1 disabled:opacity-40 dark:border-white/20"
+                  onClick={copySelection}
+                  disabled={!hasTextSelection}
+                  aria-live="polite"
+                >
+                  {copyStatus === "copied"
+                    ? "Copied"
+                    : copyStatus === "error"
+                      ? "Copy failed"
+                      : "Copy selection"}
+                </button>
                 <div className="flex items-center gap-2">
                   <button
                     type="button"
@@ -606,17 +1183,47 @@ const PdfViewerPage = () => {
               <div className="mt-4 flex flex-1 flex-col gap-4 lg:flex-row">
                 <aside className="rounded-2xl border border-slate-200/80 bg-white/80 p-3 text-sm shadow-sm dark:border-white/10 dark:bg-slate-900/70 lg:w-60">
                   <div className="flex items-center justify-between">
-                    <p className="text-xs uppercase tracking-[0.4em] text-slate-500 dark:text-slate-400">
-                      Thumbnails
-                    </p>
-                    <span className="text-[10px] font-semibold uppercase tracking-[0.3em] text-slate-400">
-                      {thumbnailStatus === "rendering"
-                        ? "Rendering"
-                        : `${thumbnails.length}/${pdf.pageCount}`}
-                    </span>
+                    <div role="tablist" aria-label="Sidebar" className="flex gap-3">
+                      {SIDEBAR_TABS.map((tab) => (
+                        <button
+                          key={tab.id}
+                          type="button"
+                          role="tab"
+                          aria-selected={sidebarTab === tab.id}
+                          onClick={() => setSidebarTab(tab.id)}
+                          className={clsx(
+                            "text-xs uppercase tracking-[0.3em] transition",
+                            sidebarTab === tab.id
+                              ? "text-slate-900 dark:text-white"
+                              : "text-slate-400 hover:text-slate-600 dark:hover:text-slate-200",
+                          )}
+                        >
+                          {tab.label}
+                        </button>
+                      ))}
+                    </div>
+                    {sidebarTab === "thumbnails" ? (
+                      <span className="text-[10px] font-semibold uppercase tracking-[0.3em] text-slate-400">
+                        {thumbnailStatus === "rendering"
+                          ? "Rendering"
+                          : `${thumbnails.length}/${pdf.pageCount}`}
+                      </span>
+                    ) : null}
                   </div>
                   <div className="mt-3 max-h-[420px] overflow-y-auto pr-2">
-                    {thumbnails.length > 0 ? (
+                    {sidebarTab === "outline" ? (
+                      outline.length > 0 ? (
+                        <DocumentOutlineTree
+                          items={outline}
+                          currentPage={currentPage}
+                          onNavigate={setCurrentPage}
+                        />
+                      ) : (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          This PDF has no bookmarks.
+                        </p>
+                      )
+                    ) : thumbnails.length > 0 ? (
                       <ol className="space-y-3">
                         {thumbnails.map((thumb) => (
                           <li key={thumb.pageNumber}>
@@ -639,7 +1246,7 @@ const PdfViewerPage = () => {
                                 />
                               </div>
                               <span className="mt-2 block text-xs font-semibold uppercase tracking-[0.3em]">
-                                Page {thumb.pageNumber}
+                                Page {formatPageLabel(pageLabels, thumb.pageNumber)}
                               </span>
                             </button>
                           </li>
@@ -655,8 +1262,39 @@ const PdfViewerPage = () => {
                   </div>
                 </aside>
 
-                <div className="flex-1 overflow-auto rounded-2xl border border-dashed border-slate-300/70 bg-white/90 p-4 shadow-inner dark:border-white/10 dark:bg-slate-950/40">
-                  <canvas ref={canvasRef} className="mx-auto shadow-2xl shadow-slate-900/10" />
+                <div
+                  ref={pageSurfaceRef}
+                  className="flex-1 overflow-auto rounded-2xl border border-dashed border-slate-300/70 bg-white/90 p-4 shadow-inner dark:border-white/10 dark:bg-slate-950/40"
+                  onCopy={handleTextLayerCopy}
+                  onPointerDown={(event) =>
+                    (event.target as Element).closest(".textLayer")?.classList.add("selecting")
+                  }
+                >
+                  {viewMode === "continuous" ? (
+                    <ContinuousPageView
+                      doc={pdf.doc}
+                      pageCount={pdf.pageCount}
+                      zoom={zoom}
+                      currentPage={currentPage}
+                      onVisiblePageChange={setCurrentPage}
+                      renderOverlay={renderContinuousOverlay}
+                    />
+                  ) : (
+                    <div className="relative mx-auto w-fit">
+                      <canvas ref={canvasRef} className="block shadow-2xl shadow-slate-900/10" />
+                      {renderedPage
+                        ? renderHighlights(renderedPage.pageNumber, renderedPage.viewport.transform)
+                        : null}
+                      <div ref={textLayerRef} className="textLayer" />
+                      {renderedPage
+                        ? renderAnnotations(
+                            renderedPage.page,
+                            renderedPage.viewport,
+                            renderedPage.annotations,
+                          )
+                        : null}
+                    </div>
+                  )}
                 </div>
               </div>
             </>
@@ -0,0 +1,208 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback, useMemo, useState } from "react";
+import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import { triggerBlobDownload } from "../lib/downloads";
+import { COMPRESSION_MODES, COMPRESSION_PRESETS } from "../lib/pdfCompression";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { PAGE_STAMP_ANCHORS } from "../lib/pdfPageStamps";
+import { RECIPE_STEP_OPTIONS, createRecipeStep, describeRecipeStep, findRecipeProblem, runRecipe, } from "../lib/pdfRecipes";
+import { logExportResult } from "../state/activityLog";
+import { usePdfAssets } from "../state/pdfAssets";
+import { createRecipeId, useRecipes } from "../state/recipes";
+const INPUT_CLASS = "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+const SMALL_BUTTON_CLASS = "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200";
+const ROTATIONS = [0, 90, 180, 270];
+// The chain we kept doing by hand across three tools.
+const defaultSteps = () => [
+    createRecipeStep("merge"),
+    createRecipeStep("page-numbers"),
+    createRecipeStep("compress"),
+];
+const RecipeStepFields = ({ step, disabled, onChange }) => {
+    switch (step.kind) {
+        case "merge":
+            return (_jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: "Combines every queued PDF in the order listed above." }));
+        case "extract":
+            return (_jsxs("label", { className: "flex flex-col gap-1", children: ["Pages to keep", _jsx("input", { type: "text", value: step.pages, disabled: disabled, placeholder: "1-3, last", onChange: (event) => onChange({ ...step, pages: event.target.value }), className: clsx(INPUT_CLASS, "font-mono") })] }));
+        case "edit":
+            return (_jsxs("div", { className: "grid grid-cols-2 gap-3", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Rotate every page", _jsx("select", { value: step.rotation, disabled: disabled, onChange: (event) => onChange({ ...step, rotation: Number(event.target.value) }), className: INPUT_CLASS, children: ROTATIONS.map((rotation) => (_jsx("option", { value: rotation, children: rotation === 0 ? "Keep orientation" : `${rotation}°` }, rotation))) })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Pages to delete", _jsx("input", { type: "text", value: step.deletePages, disabled: disabled, placeholder: "none", onChange: (event) => onChange({ ...step, deletePages: event.target.value }), className: clsx(INPUT_CLASS, "font-mono") })] })] }));
+        case "page-numbers":
+            return (_jsxs("div", { className: "grid grid-cols-2 gap-3", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Format", _jsxs("select", { value: step.settings.format, disabled: disabled, onChange: (event) => onChange({
+                                    ...step,
+                                    settings: {
+                                        ...step.settings,
+                                        format: event.target.value,
+                                    },
+                                }), className: INPUT_CLASS, children: [_jsx("option", { value: "page-of-total", children: "Page X of Y" }), _jsx("option", { value: "bates", children: "Bates number" })] })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Position", _jsx("select", { value: step.settings.anchor, disabled: disabled, onChange: (event) => onChange({
+                                    ...step,
+                                    settings: {
+                                        ...step.settings,
+                                        anchor: event.target.value,
+                                    },
+                                }), className: INPUT_CLASS, children: PAGE_STAMP_ANCHORS.map((option) => (_jsx("option", { value: option.id, children: option.label }, option.id))) })] }), step.settings.format === "bates" ? (_jsxs("label", { className: "col-span-2 flex flex-col gap-1", children: ["Prefix", _jsx("input", { type: "text", value: step.settings.prefix, disabled: disabled, placeholder: "ACME-", onChange: (event) => onChange({ ...step, settings: { ...step.settings, prefix: event.target.value } }), className: clsx(INPUT_CLASS, "font-mono") })] })) : null] }));
+        case "compress":
+            return (_jsxs("div", { className: "grid grid-cols-2 gap-3", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Preset", _jsx("select", { value: step.presetId, disabled: disabled, onChange: (event) => onChange({ ...step, presetId: event.target.value }), className: INPUT_CLASS, children: COMPRESSION_PRESETS.map((preset) => (_jsx("option", { value: preset.id, children: preset.label }, preset.id))) })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Method", _jsx("select", { value: step.mode, disabled: disabled, onChange: (event) => onChange({ ...step, mode: event.target.value }), className: INPUT_CLASS, children: COMPRESSION_MODES.map((mode) => (_jsx("option", { value: mode.id, children: mode.label }, mode.id))) })] })] }));
+    }
+};
+const RecipesToolPage = () => {
+    const { assets, isBusy, error, addAsset, addSource, removeAsset, reorderAssets, clearError } = usePdfAssets();
+    const { recipes, saveRecipe, deleteRecipe } = useRecipes();
+    const [isDragActive, setDragActive] = useState(false);
+    const [recipeId, setRecipeId] = useState(null);
+    const [name, setName] = useState("Merge, number, compress");
+    const [steps, setSteps] = useState(defaultSteps);
+    const [nextKind, setNextKind] = useState("extract");
+    const [progress, setProgress] = useState(null);
+    const [runError, setRunError] = useState(null);
+    const [runSuccess, setRunSuccess] = useState(null);
+    const [passwordPrompt, setPasswordPrompt] = useState(null);
+    const isRunning = progress !== null;
+    const dismissRunAlerts = useCallback(() => {
+        setRunError(null);
+        setRunSuccess(null);
+    }, []);
+    const requestPassword = useCallback((fileName) => (reason) => new Promise((resolve) => {
+        setPasswordPrompt({ fileName, reason, resolve });
+    }), []);
+    const handlePasswordSubmit = useCallback((password) => {
+        passwordPrompt?.resolve(password);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const handlePasswordCancel = useCallback(() => {
+        passwordPrompt?.resolve(null);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const ingestFiles = useCallback(async (files) => {
+        if (!files || files.length === 0) {
+            return;
+        }
+        dismissRunAlerts();
+        for (const file of Array.from(files)) {
+            await addAsset(file, { requestPassword: requestPassword(file.name) });
+        }
+    }, [addAsset, dismissRunAlerts, requestPassword]);
+    const ingestSource = useCallback(async (source) => {
+        dismissRunAlerts();
+        await addSource(source, { requestPassword: requestPassword(source.name) });
+    }, [addSource, dismissRunAlerts, requestPassword]);
+    const handleInputChange = useCallback((event) => {
+        const { files } = event.target;
+        void ingestFiles(files);
+        event.target.value = "";
+    }, [ingestFiles]);
+    const handleDrop = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+        void ingestFiles(event.dataTransfer.files);
+    }, [ingestFiles]);
+    const handleDragOver = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(true);
+    }, []);
+    const handleDragLeave = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+    }, []);
+    const updateStep = useCallback((index, step) => {
+        dismissRunAlerts();
+        setSteps((current) => current.map((existing, position) => (position === index ? step : existing)));
+    }, [dismissRunAlerts]);
+    const moveStep = useCallback((from, to) => {
+        dismissRunAlerts();
+        setSteps((current) => {
+            const next = [...current];
+            const [moved] = next.splice(from, 1);
+            if (moved) {
+                next.splice(to, 0, moved);
+            }
+            return next;
+        });
+    }, [dismissRunAlerts]);
+    const removeStep = useCallback((index) => {
+        dismissRunAlerts();
+        setSteps((current) => current.filter((_, position) => position !== index));
+    }, [dismissRunAlerts]);
+    const addStep = useCallback(() => {
+        dismissRunAlerts();
+        setSteps((current) => 
+        // Merge only makes sense on the raw inputs, so it always goes to the front.
+        nextKind === "merge"
+            ? [createRecipeStep("merge"), ...current]
+            : [...current, createRecipeStep(nextKind)]);
+    }, [dismissRunAlerts, nextKind]);
+    const handleSave = useCallback(() => {
+        const id = recipeId ?? createRecipeId();
+        saveRecipe({ id, name: name.trim() || "Untitled recipe", steps });
+        setRecipeId(id);
+        setRunError(null);
+        setRunSuccess(`Saved “${name.trim() || "Untitled recipe"}” on this device.`);
+    }, [name, recipeId, saveRecipe, steps]);
+    const handleNewRecipe = useCallback(() => {
+        dismissRunAlerts();
+        setRecipeId(null);
+        setName("Untitled recipe");
+        setSteps([]);
+    }, [dismissRunAlerts]);
+    const problem = useMemo(() => findRecipeProblem(steps, assets.length), [assets.length, steps]);
+    const handleRun = useCallback(async () => {
+        if (problem) {
+            return;
+        }
+        dismissRunAlerts();
+        setProgress({ stepIndex: 0, stepCount: steps.length, label: "" });
+        try {
+            const result = await runRecipe({ id: recipeId ?? "draft", name: name.trim() || "Untitled recipe", steps }, assets.map((asset) => asset.loaded), {
+                startedAt: Date.now(),
+                pageSelections: assets.map((asset) => asset.pageSelection),
+                onProgress: setProgress,
+            });
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setRunSuccess(`Ran ${steps.length} step${steps.length === 1 ? "" : "s"}. Saved ${result.downloadName}.`);
+        }
+        catch (runProblem) {
+            console.error("Failed to run recipe", runProblem);
+            setRunError(getFriendlyPdfError(runProblem));
+        }
+        finally {
+            setProgress(null);
+        }
+    }, [assets, dismissRunAlerts, name, problem, recipeId, steps]);
+    return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-3xl border-2 border-dashed p-10 text-center transition-colors", isDragActive
+                    ? "border-stone-400 bg-stone-50/70 dark:border-stone-300 dark:bg-stone-500/10"
+                    : "border-slate-300/70 bg-white/80 dark:border-white/10 dark:bg-slate-900/60"), children: _jsxs("div", { className: "mx-auto flex max-w-2xl flex-col gap-4", children: [_jsx("p", { className: "text-lg font-semibold text-slate-800 dark:text-white", children: "Operation recipes" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Chain tools into one reusable pipeline and run it on the PDFs you drop here. Files share the Merge queue, so they are merged in the same order and with the same page ranges." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "recipes-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: "Choose PDFs" }), _jsx("input", { id: "recipes-upload", type: "file", accept: "application/pdf", multiple: true, className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: ingestSource, disabled: isBusy })] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: error }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: clearError, children: "Dismiss" })] }) })) : null, isBusy ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, _jsxs("div", { className: "grid gap-4 md:grid-cols-3", children: [_jsxs("div", { className: "space-y-4 md:col-span-2", children: [assets.length === 0 ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/60 p-6 text-center text-sm text-slate-500 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300", children: "No PDFs yet. Add the files this recipe should run on." })) : (_jsx("ul", { className: "space-y-2", children: assets.map((asset, index) => (_jsxs("li", { className: "flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200/80 bg-white/90 px-4 py-3 shadow-sm dark:border-white/5 dark:bg-slate-900/70", children: [_jsxs("p", { className: "min-w-0 flex-1 break-all text-sm font-semibold text-slate-900 dark:text-white", children: [asset.fileName, _jsx("span", { className: "ml-2 font-normal text-slate-500 dark:text-slate-300", children: asset.pageRange
+                                                        ? `pages ${asset.pageRange} of ${asset.loaded.pageCount}`
+                                                        : `${asset.loaded.pageCount} pages` })] }), _jsxs("div", { className: "flex items-center gap-2 text-sm", children: [_jsx("button", { type: "button", className: SMALL_BUTTON_CLASS, onClick: () => reorderAssets(index, Math.max(0, index - 1)), disabled: index === 0 || isRunning, children: "Move up" }), _jsx("button", { type: "button", className: "rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 disabled:opacity-40 dark:border-red-900/50 dark:text-red-200", onClick: () => {
+                                                        dismissRunAlerts();
+                                                        removeAsset(asset.id);
+                                                    }, disabled: isRunning, children: "Remove" })] })] }, asset.id))) })), _jsxs("section", { className: "space-y-3 rounded-2xl border border-slate-200/80 bg-white/80 p-4 text-sm text-slate-600 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300", children: [_jsx("h2", { className: "text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300", children: "Steps" }), steps.length === 0 ? (_jsx("p", { className: "text-slate-500 dark:text-slate-400", children: "No steps yet. Add the first one below." })) : (_jsx("ol", { className: "space-y-3", children: steps.map((step, index) => {
+                                            const option = RECIPE_STEP_OPTIONS.find((entry) => entry.kind === step.kind);
+                                            const status = !progress
+                                                ? null
+                                                : index < progress.stepIndex
+                                                    ? "Done"
+                                                    : index === progress.stepIndex
+                                                        ? "Running…"
+                                                        : "Waiting";
+                                            return (_jsxs("li", { className: clsx("space-y-3 rounded-2xl border p-4", status === "Running…"
+                                                    ? "border-stone-400 bg-stone-50/70 dark:border-stone-300/60 dark:bg-stone-500/10"
+                                                    : "border-slate-200/80 bg-white/90 dark:border-white/5 dark:bg-slate-900/70"), children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsxs("p", { className: "font-semibold text-slate-900 dark:text-white", children: [index + 1, ". ", option?.label ?? step.kind, status ? (_jsx("span", { className: "ml-2 text-xs font-normal uppercase tracking-wide text-slate-500 dark:text-slate-400", children: status })) : null] }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("button", { type: "button", className: SMALL_BUTTON_CLASS, onClick: () => moveStep(index, index - 1), disabled: index === 0 || isRunning, children: "Move up" }), _jsx("button", { type: "button", className: SMALL_BUTTON_CLASS, onClick: () => moveStep(index, index + 1), disabled: index === steps.length - 1 || isRunning, children: "Move down" }), _jsx("button", { type: "button", className: "rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 disabled:opacity-40 dark:border-red-900/50 dark:text-red-200", onClick: () => removeStep(index), disabled: isRunning, children: "Remove" })] })] }), _jsx(RecipeStepFields, { step: step, disabled: isRunning, onChange: (next) => updateStep(index, next) })] }, `${index}-${step.kind}`));
+                                        }) })), _jsxs("div", { className: "flex flex-wrap items-end gap-2", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Step to add", _jsx("select", { value: nextKind, disabled: isRunning, onChange: (event) => setNextKind(event.target.value), className: INPUT_CLASS, children: RECIPE_STEP_OPTIONS.map((option) => (_jsxs("option", { value: option.kind, children: [option.label, " \u2014 ", option.hint] }, option.kind))) })] }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: addStep, disabled: isRunning || (nextKind === "merge" && steps[0]?.kind === "merge"), children: "Add step" })] })] })] }), _jsxs("aside", { className: "space-y-4 rounded-2xl border border-slate-200/80 bg-white/80 p-4 text-sm text-slate-600 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Recipe name", _jsx("input", { type: "text", value: name, onChange: (event) => setName(event.target.value), className: INPUT_CLASS })] }), _jsx("p", { className: "rounded-2xl border border-slate-200/80 bg-slate-50/80 px-3 py-2 text-xs dark:border-white/10 dark:bg-slate-950/40", children: steps.length > 0 ? steps.map(describeRecipeStep).join(" → ") : "No steps" }), _jsxs("div", { className: "flex gap-2", children: [_jsx("button", { type: "button", className: "flex-1 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: handleSave, disabled: steps.length === 0 || isRunning, children: "Save recipe" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: handleNewRecipe, disabled: isRunning, children: "New" })] }), _jsx("button", { type: "button", className: "w-full rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleRun, disabled: Boolean(problem) || isBusy || isRunning, children: progress
+                                    ? `Step ${progress.stepIndex + 1} of ${progress.stepCount}${progress.label ? `: ${progress.label}` : ""}`
+                                    : "Run & Download" }), problem && !isRunning ? (_jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: problem })) : null, runError ? (_jsx("p", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: runError })) : null, runSuccess ? (_jsx("p", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: runSuccess })) : null, _jsxs("section", { className: "space-y-2", children: [_jsx("h2", { className: "text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300", children: "Saved recipes" }), recipes.length === 0 ? (_jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: "Recipes you save are kept in this browser." })) : (_jsx("ul", { className: "space-y-2", children: recipes.map((recipe) => (_jsxs("li", { className: clsx("rounded-2xl border px-3 py-2", recipe.id === recipeId
+                                                ? "border-stone-400 dark:border-stone-300/60"
+                                                : "border-slate-200/80 dark:border-white/10"), children: [_jsx("p", { className: "font-semibold text-slate-900 dark:text-white", children: recipe.name }), _jsx("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: recipe.steps.map(describeRecipeStep).join(" → ") }), _jsxs("div", { className: "mt-2 flex gap-2 text-xs", children: [_jsx("button", { type: "button", className: SMALL_BUTTON_CLASS, onClick: () => {
+                                                                dismissRunAlerts();
+                                                                setRecipeId(recipe.id);
+                                                                setName(recipe.name);
+                                                                setSteps(recipe.steps);
+                                                            }, disabled: isRunning, children: "Load" }), _jsx("button", { type: "button", className: "rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 disabled:opacity-40 dark:border-red-900/50 dark:text-red-200", onClick: () => {
+                                                                deleteRecipe(recipe.id);
+                                                                if (recipe.id === recipeId) {
+                                                                    setRecipeId(null);
+                                                                }
+                                                            }, disabled: isRunning, children: "Delete" })] })] }, recipe.id))) }))] })] })] }), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+};
+export default RecipesToolPage;
@@ -0,0 +1,50 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+vi.mock("../lib/pdfLoader", () => ({
+  loadPdfFromSource: vi.fn(),
+}));
+
+import RecipesToolPage from "./RecipesToolPage";
+import { usePdfAssets } from "../state/pdfAssets";
+import { useRecipes } from "../state/recipes";
+
+describe("RecipesToolPage", () => {
+  beforeEach(() => {
+    usePdfAssets.getState().reset();
+    useRecipes.getState().reset();
+  });
+
+  it("starts from merge, page numbers, and compression and waits for files", () => {
+    render(<RecipesToolPage />);
+
+    expect(screen.getByText("Merge → Page numbers → Compress (Balanced)")).toBeInTheDocument();
+    expect(screen.getByText("Add at least one PDF to run the recipe on.")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Run & Download" })).toBeDisabled();
+  });
+
+  it("saves the edited recipe to the device", async () => {
+    render(<RecipesToolPage />);
+
+    // fireEvent goes through React Testing Library's act(); user-event resolves a different
+    // copy of @testing-library/dom here, so its events would update state outside act().
+    fireEvent.change(screen.getByLabelText("Step to add"), { target: { value: "extract" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add step" }));
+    fireEvent.change(screen.getByLabelText("Recipe name"), { target: { value: "Board pack" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save recipe" }));
+
+    const [saved] = useRecipes.getState().recipes;
+    expect(saved?.name).toBe("Board pack");
+    expect(saved?.steps.map((step) => step.kind)).toEqual([
+      "merge",
+      "page-numbers",
+      "compress",
+      "extract",
+    ]);
+    expect(await screen.findByRole("button", { name: "Load" })).toBeInTheDocument();
+  });
+});
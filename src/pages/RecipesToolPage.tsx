@@ -0,0 +1,729 @@
+import { useCallback, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import clsx from "clsx";
+
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import type { PdfSource } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import { COMPRESSION_MODES, COMPRESSION_PRESETS } from "../lib/pdfCompression";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { type PdfPasswordReason } from "../lib/pdfLoader";
+import { PAGE_STAMP_ANCHORS } from "../lib/pdfPageStamps";
+import {
+  RECIPE_STEP_OPTIONS,
+  createRecipeStep,
+  describeRecipeStep,
+  findRecipeProblem,
+  runRecipe,
+  type RecipeProgress,
+  type RecipeStep,
+  type RecipeStepKind,
+} from "../lib/pdfRecipes";
+import { logExportResult } from "../state/activityLog";
+import { usePdfAssets } from "../state/pdfAssets";
+import { createRecipeId, useRecipes } from "../state/recipes";
+
+const INPUT_CLASS =
+  "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+
+const SMALL_BUTTON_CLASS =
+  "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200";
+
+const ROTATIONS = [0, 90, 180, 270];
+
+// The chain we kept doing by hand across three tools.
+const defaultSteps = (): RecipeStep[] => [
+  createRecipeStep("merge"),
+  createRecipeStep("page-numbers"),
+  createRecipeStep("compress"),
+];
+
+type RecipeStepFieldsProps = {
+  step: RecipeStep;
+  disabled: boolean;
+  onChange: (step: RecipeStep) => void;
+};
+
+const RecipeStepFields = ({ step, disabled, onChange }: RecipeStepFieldsProps) => {
+  switch (step.kind) {
+    case "merge":
+      return (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Combines every queued PDF in the order listed above.
+        </p>
+      );
+    case "extract":
+      return (
+        <label className="flex flex-col gap-1">
+          Pages to keep
+          <input
+            type="text"
+            value={step.pages}
+            disabled={disabled}
+            placeholder="1-3, last"
+            onChange={(event) => onChange({ ...step, pages: event.target.value })}
+            className={clsx(INPUT_CLASS, "font-mono")}
+          />
+        </label>
+      );
+    case "edit":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1">
+            Rotate every page
+            <select
+              value={step.rotation}
+              disabled={disabled}
+              onChange={(event) => onChange({ ...step, rotation: Number(event.target.value) })}
+              className={INPUT_CLASS}
+            >
+              {ROTATIONS.map((rotation) => (
+                <option key={rotation} value={rotation}>
+                  {rotation === 0 ? "Keep orientation" : `${rotation}°`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Pages to delete
+            <input
+              type="text"
+              value={step.deletePages}
+              disabled={disabled}
+              placeholder="none"
+              onChange={(event) => onChange({ ...step, deletePages: event.target.value })}
+              className={clsx(INPUT_CLASS, "font-mono")}
+            />
+          </label>
+        </div>
+      );
+    case "page-numbers":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1">
+            Format
+            <select
+              value={step.settings.format}
+              disabled={disabled}
+              onChange={(event) =>
+                onChange({
+                  ...step,
+                  settings: {
+                    ...step.settings,
+                    format: event.target.value as typeof step.settings.format,
+                  },
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              <option value="page-of-total">Page X of Y</option>
+              <option value="bates">Bates number</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Position
+            <select
+              value={step.settings.anchor}
+              disabled={disabled}
+              onChange={(event) =>
+                onChange({
+                  ...step,
+                  settings: {
+                    ...step.settings,
+                    anchor: event.target.value as typeof step.settings.anchor,
+                  },
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              {PAGE_STAMP_ANCHORS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {step.settings.format === "bates" ? (
+            <label className="col-span-2 flex flex-col gap-1">
+              Prefix
+              <input
+                type="text"
+                value={step.settings.prefix}
+                disabled={disabled}
+                placeholder="ACME-"
+                onChange={(event) =>
+                  onChange({ ...step, settings: { ...step.settings, prefix: event.target.value } })
+                }
+                className={clsx(INPUT_CLASS, "font-mono")}
+              />
+            </label>
+          ) : null}
+        </div>
+      );
+    case "compress":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1">
+            Preset
+            <select
+              value={step.presetId}
+              disabled={disabled}
+              onChange={(event) =>
+                onChange({ ...step, presetId: event.target.value as typeof step.presetId })
+              }
+              className={INPUT_CLASS}
+            >
+              {COMPRESSION_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Method
+            <select
+              value={step.mode}
+              disabled={disabled}
+              onChange={(event) =>
+                onChange({ ...step, mode: event.target.value as typeof step.mode })
+              }
+              className={INPUT_CLASS}
+            >
+              {COMPRESSION_MODES.map((mode) => (
+                <option key={mode.id} value={mode.id}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      );
+  }
+};
+
+const RecipesToolPage = () => {
+  const { assets, isBusy, error, addAsset, addSource, removeAsset, reorderAssets, clearError } =
+    usePdfAssets();
+  const { recipes, saveRecipe, deleteRecipe } = useRecipes();
+  const [isDragActive, setDragActive] = useState(false);
+  const [recipeId, setRecipeId] = useState<string | null>(null);
+  const [name, setName] = useState("Merge, number, compress");
+  const [steps, setSteps] = useState<RecipeStep[]>(defaultSteps);
+  const [nextKind, setNextKind] = useState<RecipeStepKind>("extract");
+  const [progress, setProgress] = useState<RecipeProgress | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [runSuccess, setRunSuccess] = useState<string | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    fileName: string;
+    reason: PdfPasswordReason;
+    resolve: (value: string | null) => void;
+  } | null>(null);
+
+  const isRunning = progress !== null;
+
+  const dismissRunAlerts = useCallback(() => {
+    setRunError(null);
+    setRunSuccess(null);
+  }, []);
+
+  const requestPassword = useCallback(
+    (fileName: string) => (reason: PdfPasswordReason) =>
+      new Promise<string | null>((resolve) => {
+        setPasswordPrompt({ fileName, reason, resolve });
+      }),
+    [],
+  );
+
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      passwordPrompt?.resolve(password);
+      setPasswordPrompt(null);
+    },
+    [passwordPrompt],
+  );
+
+  const handlePasswordCancel = useCallback(() => {
+    passwordPrompt?.resolve(null);
+    setPasswordPrompt(null);
+  }, [passwordPrompt]);
+
+  const ingestFiles = useCallback(
+    async (files: FileList | null) => {
+      if (!files || files.length === 0) {
+        return;
+      }
+
+      dismissRunAlerts();
+      for (const file of Array.from(files)) {
+        await addAsset(file, { requestPassword: requestPassword(file.name) });
+      }
+    },
+    [addAsset, dismissRunAlerts, requestPassword],
+  );
+
+  const ingestSource = useCallback(
+    async (source: PdfSource) => {
+      dismissRunAlerts();
+      await addSource(source, { requestPassword: requestPassword(source.name) });
+    },
+    [addSource, dismissRunAlerts, requestPassword],
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const { files } = event.target;
+      void ingestFiles(files);
+      event.target.value = "";
+    },
+    [ingestFiles],
+  );
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setDragActive(false);
+      void ingestFiles(event.dataTransfer.files);
+    },
+    [ingestFiles],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+  }, []);
+
+  const updateStep = useCallback(
+    (index: number, step: RecipeStep) => {
+      dismissRunAlerts();
+      setSteps((current) =>
+        current.map((existing, position) => (position === index ? step : existing)),
+      );
+    },
+    [dismissRunAlerts],
+  );
+
+  const moveStep = useCallback(
+    (from: number, to: number) => {
+      dismissRunAlerts();
+      setSteps((current) => {
+        const next = [...current];
+        const [moved] = next.splice(from, 1);
+        if (moved) {
+          next.splice(to, 0, moved);
+        }
+        return next;
+      });
+    },
+    [dismissRunAlerts],
+  );
+
+  const removeStep = useCallback(
+    (index: number) => {
+      dismissRunAlerts();
+      setSteps((current) => current.filter((_, position) => position !== index));
+    },
+    [dismissRunAlerts],
+  );
+
+  const addStep = useCallback(() => {
+    dismissRunAlerts();
+    setSteps((current) =>
+      // Merge only makes sense on the raw inputs, so it always goes to the front.
+      nextKind === "merge"
+        ? [createRecipeStep("merge"), ...current]
+        : [...current, createRecipeStep(nextKind)],
+    );
+  }, [dismissRunAlerts, nextKind]);
+
+  const handleSave = useCallback(() => {
+    const id = recipeId ?? createRecipeId();
+    saveRecipe({ id, name: name.trim() || "Untitled recipe", steps });
+    setRecipeId(id);
+    setRunError(null);
+    setRunSuccess(`Saved “${name.trim() || "Untitled recipe"}” on this device.`);
+  }, [name, recipeId, saveRecipe, steps]);
+
+  const handleNewRecipe = useCallback(() => {
+    dismissRunAlerts();
+    setRecipeId(null);
+    setName("Untitled recipe");
+    setSteps([]);
+  }, [dismissRunAlerts]);
+
+  const problem = useMemo(() => findRecipeProblem(steps, assets.length), [assets.length, steps]);
+
+  const handleRun = useCallback(async () => {
+    if (problem) {
+      return;
+    }
+
+    dismissRunAlerts();
+    setProgress({ stepIndex: 0, stepCount: steps.length, label: "" });
+
+    try {
+      const result = await runRecipe(
+        { id: recipeId ?? "draft", name: name.trim() || "Untitled recipe", steps },
+        assets.map((asset) => asset.loaded),
+        {
+          startedAt: Date.now(),
+          pageSelections: assets.map((asset) => asset.pageSelection),
+          onProgress: setProgress,
+        },
+      );
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setRunSuccess(
+        `Ran ${steps.length} step${steps.length === 1 ? "" : "s"}. Saved ${result.downloadName}.`,
+      );
+    } catch (runProblem) {
+      console.error("Failed to run recipe", runProblem);
+      setRunError(getFriendlyPdfError(runProblem));
+    } finally {
+      setProgress(null);
+    }
+  }, [assets, dismissRunAlerts, name, problem, recipeId, steps]);
+
+  return (
+    <div className="mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={clsx(
+          "rounded-3xl border-2 border-dashed p-10 text-center transition-colors",
+          isDragActive
+            ? "border-stone-400 bg-stone-50/70 dark:border-stone-300 dark:bg-stone-500/10"
+            : "border-slate-300/70 bg-white/80 dark:border-white/10 dark:bg-slate-900/60",
+        )}
+      >
+        <div className="mx-auto flex max-w-2xl flex-col gap-4">
+          <p className="text-lg font-semibold text-slate-800 dark:text-white">Operation recipes</p>
+          <p className="text-sm text-slate-500 dark:text-slate-300">
+            Chain tools into one reusable pipeline and run it on the PDFs you drop here. Files share
+            the Merge queue, so they are merged in the same order and with the same page ranges.
+          </p>
+          <div className="flex flex-col items-center gap-2">
+            <label
+              htmlFor="recipes-upload"
+              className="inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900"
+            >
+              Choose PDFs
+            </label>
+            <input
+              id="recipes-upload"
+              type="file"
+              accept="application/pdf"
+              multiple
+              className="sr-only"
+              onChange={handleInputChange}
+            />
+            <span className="text-xs uppercase tracking-wide text-slate-400">
+              or drag anywhere in this panel
+            </span>
+            <OpenFromUrlForm onSource={ingestSource} disabled={isBusy} />
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+          <div className="flex items-start justify-between gap-4">
+            <p>{error}</p>
+            <button className="text-xs font-semibold uppercase" onClick={clearError}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {isBusy ? (
+        <div className="rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
+          Loading PDF...
+        </div>
+      ) : null}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-4 md:col-span-2">
+          {assets.length === 0 ? (
+            <div className="rounded-2xl border border-slate-200/80 bg-white/60 p-6 text-center text-sm text-slate-500 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300">
+              No PDFs yet. Add the files this recipe should run on.
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {assets.map((asset, index) => (
+                <li
+                  key={asset.id}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200/80 bg-white/90 px-4 py-3 shadow-sm dark:border-white/5 dark:bg-slate-900/70"
+                >
+                  <p className="min-w-0 flex-1 break-all text-sm font-semibold text-slate-900 dark:text-white">
+                    {asset.fileName}
+                    <span className="ml-2 font-normal text-slate-500 dark:text-slate-300">
+                      {asset.pageRange
+                        ? `pages ${asset.pageRange} of ${asset.loaded.pageCount}`
+                        : `${asset.loaded.pageCount} pages`}
+                    </span>
+                  </p>
+                  <div className="flex items-center gap-2 text-sm">
+                    <button
+                      type="button"
+                      className={SMALL_BUTTON_CLASS}
+                      onClick={() => reorderAssets(index, Math.max(0, index - 1))}
+                      disabled={index === 0 || isRunning}
+                    >
+                      Move up
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 disabled:opacity-40 dark:border-red-900/50 dark:text-red-200"
+                      onClick={() => {
+                        dismissRunAlerts();
+                        removeAsset(asset.id);
+                      }}
+                      disabled={isRunning}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <section className="space-y-3 rounded-2xl border border-slate-200/80 bg-white/80 p-4 text-sm text-slate-600 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300">
+              Steps
+            </h2>
+            {steps.length === 0 ? (
+              <p className="text-slate-500 dark:text-slate-400">
+                No steps yet. Add the first one below.
+              </p>
+            ) : (
+              <ol className="space-y-3">
+                {steps.map((step, index) => {
+                  const option = RECIPE_STEP_OPTIONS.find((entry) => entry.kind === step.kind);
+                  const status = !progress
+                    ? null
+                    : index < progress.stepIndex
+                      ? "Done"
+                      : index === progress.stepIndex
+                        ? "Running…"
+                        : "Waiting";
+                  return (
+                    <li
+                      key={`${index}-${step.kind}`}
+                      className={clsx(
+                        "space-y-3 rounded-2xl border p-4",
+                        status === "Running…"
+                          ? "border-stone-400 bg-stone-50/70 dark:border-stone-300/60 dark:bg-stone-500/10"
+                          : "border-slate-200/80 bg-white/90 dark:border-white/5 dark:bg-slate-900/70",
+                      )}
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className="font-semibold text-slate-900 dark:text-white">
+                          {index + 1}. {option?.label ?? step.kind}
+                          {status ? (
+                            <span className="ml-2 text-xs font-normal uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                              {status}
+                            </span>
+                          ) : null}
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            className={SMALL_BUTTON_CLASS}
+                            onClick={() => moveStep(index, index - 1)}
+                            disabled={index === 0 || isRunning}
+                          >
+                            Move up
+                          </button>
+                          <button
+                            type="button"
+                            className={SMALL_BUTTON_CLASS}
+                            onClick={() => moveStep(index, index + 1)}
+                            disabled={index === steps.length - 1 || isRunning}
+                          >
+                            Move down
+                          </button>
+                          <button
+                            type="button"
+                            className="rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 disabled:opacity-40 dark:border-red-900/50 dark:text-red-200"
+                            onClick={() => removeStep(index)}
+                            disabled={isRunning}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                      <RecipeStepFields
+                        step={step}
+                        disabled={isRunning}
+                        onChange={(next) => updateStep(index, next)}
+                      />
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+            <div className="flex flex-wrap items-end gap-2">
+              <label className="flex flex-col gap-1">
+                Step to add
+                <select
+                  value={nextKind}
+                  disabled={isRunning}
+                  onChange={(event) => setNextKind(event.target.value as RecipeStepKind)}
+                  className={INPUT_CLASS}
+                >
+                  {RECIPE_STEP_OPTIONS.map((option) => (
+                    <option key={option.kind} value={option.kind}>
+                      {option.label} — {option.hint}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                onClick={addStep}
+                disabled={isRunning || (nextKind === "merge" && steps[0]?.kind === "merge")}
+              >
+                Add step
+              </button>
+            </div>
+          </section>
+        </div>
+
+        <aside className="space-y-4 rounded-2xl border border-slate-200/80 bg-white/80 p-4 text-sm text-slate-600 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300">
+          <label className="flex flex-col gap-1">
+            Recipe name
+            <input
+              type="text"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <p className="rounded-2xl border border-slate-200/80 bg-slate-50/80 px-3 py-2 text-xs dark:border-white/10 dark:bg-slate-950/40">
+            {steps.length > 0 ? steps.map(describeRecipeStep).join(" → ") : "No steps"}
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="flex-1 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+              onClick={handleSave}
+              disabled={steps.length === 0 || isRunning}
+            >
+              Save recipe
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+              onClick={handleNewRecipe}
+              disabled={isRunning}
+            >
+              New
+            </button>
+          </div>
+
+          <button
+            type="button"
+            className="w-full rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900"
+            onClick={handleRun}
+            disabled={Boolean(problem) || isBusy || isRunning}
+          >
+            {progress
+              ? `Step ${progress.stepIndex + 1} of ${progress.stepCount}${progress.label ? `: ${progress.label}` : ""}`
+              : "Run & Download"}
+          </button>
+          {problem && !isRunning ? (
+            <p className="text-xs text-slate-500 dark:text-slate-400">{problem}</p>
+          ) : null}
+
+          {runError ? (
+            <p className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+              {runError}
+            </p>
+          ) : null}
+          {runSuccess ? (
+            <p className="rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+              {runSuccess}
+            </p>
+          ) : null}
+
+          <section className="space-y-2">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300">
+              Saved recipes
+            </h2>
+            {recipes.length === 0 ? (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Recipes you save are kept in this browser.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {recipes.map((recipe) => (
+                  <li
+                    key={recipe.id}
+                    className={clsx(
+                      "rounded-2xl border px-3 py-2",
+                      recipe.id === recipeId
+                        ? "border-stone-400 dark:border-stone-300/60"
+                        : "border-slate-200/80 dark:border-white/10",
+                    )}
+                  >
+                    <p className="font-semibold text-slate-900 dark:text-white">{recipe.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {recipe.steps.map(describeRecipeStep).join(" → ")}
+                    </p>
+                    <div className="mt-2 flex gap-2 text-xs">
+                      <button
+                        type="button"
+                        className={SMALL_BUTTON_CLASS}
+                        onClick={() => {
+                          dismissRunAlerts();
+                          setRecipeId(recipe.id);
+                          setName(recipe.name);
+                          setSteps(recipe.steps);
+                        }}
+                        disabled={isRunning}
+                      >
+                        Load
+                      </button>
+                      <button
+                        type="button"
+                        className="rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 disabled:opacity-40 dark:border-red-900/50 dark:text-red-200"
+                        onClick={() => {
+                          deleteRecipe(recipe.id);
+                          if (recipe.id === recipeId) {
+                            setRecipeId(null);
+                          }
+                        }}
+                        disabled={isRunning}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </aside>
+      </div>
+
+      <PasswordPromptModal
+        open={Boolean(passwordPrompt)}
+        fileName={passwordPrompt?.fileName ?? ""}
+        reason={passwordPrompt?.reason ?? "password-required"}
+        onSubmit={handlePasswordSubmit}
+        onCancel={handlePasswordCancel}
+      />
+    </div>
+  );
+};
+
+export default RecipesToolPage;
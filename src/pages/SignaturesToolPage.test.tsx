@@ -0,0 +1,24 @@
+import { render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+import SignaturesToolPage from "./SignaturesToolPage";
+import { useActivityLog } from "../state/activityLog";
+
+describe("SignaturesToolPage", () => {
+  beforeEach(() => {
+    useActivityLog.getState().reset();
+  });
+
+  it("renders the signing hero and sets expectations about visual stamping", () => {
+    render(<SignaturesToolPage />);
+    expect(screen.getByText(/Place signatures on any page/i)).toBeInTheDocument();
+    expect(
+      screen.getByText(/not a cryptographic or certified digital signature/i),
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText(/Choose a PDF/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,631 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type DragEvent,
+  type KeyboardEvent,
+  type PointerEvent,
+} from "react";
+import clsx from "clsx";
+
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import SignatureCapture from "../components/SignatureCapture";
+import type { PdfSource } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import {
+  clampPlacement,
+  createDefaultPlacement,
+  stampSignatureOnPdf,
+  type SignatureImage,
+  type SignaturePlacement,
+} from "../lib/signatures";
+import { logExportResult } from "../state/activityLog";
+
+const PREVIEW_SCALE = 1.25;
+const NUDGE_STEP = 0.01;
+
+type PagePreview = {
+  pageNumber: number;
+  url: string;
+  width: number;
+  height: number;
+};
+
+type DragState = {
+  id: string;
+  mode: "move" | "resize";
+  startX: number;
+  startY: number;
+  origin: SignaturePlacement;
+  bounds: DOMRect;
+};
+
+const createId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  return `placement-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+const SignaturesToolPage = () => {
+  const [pdf, setPdf] = useState<LoadedPdf | null>(null);
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [isDragActive, setDragActive] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [preview, setPreview] = useState<PagePreview | null>(null);
+  const [signature, setSignature] = useState<SignatureImage | null>(null);
+  const [placements, setPlacements] = useState<SignaturePlacement[]>([]);
+  const [activePlacementId, setActivePlacementId] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [isExporting, setExporting] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    fileName: string;
+    reason: PdfPasswordReason;
+    resolve: (value: string | null) => void;
+  } | null>(null);
+  const dragStateRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    configurePdfWorker();
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      pdf?.doc.destroy();
+    };
+  }, [pdf]);
+
+  useEffect(() => {
+    if (!pdf) {
+      setPreview(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const renderPreview = async () => {
+      try {
+        const page = await pdf.doc.getPage(currentPage);
+        const viewport = page.getViewport({ scale: PREVIEW_SCALE });
+        const canvas = document.createElement("canvas");
+        const context = canvas.getContext("2d");
+
+        if (!context) {
+          page.cleanup();
+          return;
+        }
+
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvas, canvasContext: context, viewport }).promise;
+        page.cleanup();
+
+        if (isCancelled) {
+          return;
+        }
+
+        setPreview({
+          pageNumber: currentPage,
+          url: canvas.toDataURL("image/png"),
+          width: viewport.width,
+          height: viewport.height,
+        });
+      } catch (previewError) {
+        console.error(previewError);
+        if (!isCancelled) {
+          setError("Unable to render this page. Try another file.");
+        }
+      }
+    };
+
+    void renderPreview();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [pdf, currentPage]);
+
+  const resetWorkspace = useCallback(() => {
+    pdf?.doc.destroy();
+    setPdf(null);
+    setStatus("idle");
+    setError(null);
+    setCurrentPage(1);
+    setPreview(null);
+    setPlacements([]);
+    setActivePlacementId(null);
+    setExportError(null);
+    setExportSuccess(null);
+  }, [pdf]);
+
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      passwordPrompt?.resolve(password);
+      setPasswordPrompt(null);
+    },
+    [passwordPrompt],
+  );
+
+  const handlePasswordCancel = useCallback(() => {
+    passwordPrompt?.resolve(null);
+    setPasswordPrompt(null);
+  }, [passwordPrompt]);
+
+  const loadFile = useCallback(
+    async (file: File | PdfSource | null | undefined) => {
+      if (!file) return;
+      setStatus("loading");
+      setError(null);
+      setExportError(null);
+      setExportSuccess(null);
+
+      try {
+        pdf?.doc.destroy();
+        const { loadPdfFromInput } = await import("../lib/pdfLoader");
+        const loaded = await loadPdfFromInput(file, {
+          requestPassword: (reason) =>
+            new Promise<string | null>((resolve) => {
+              setPasswordPrompt({ fileName: file.name, reason, resolve });
+            }),
+        });
+        setPdf(loaded);
+        setCurrentPage(1);
+        setPlacements([]);
+        setActivePlacementId(null);
+        setStatus("ready");
+      } catch (loadError) {
+        console.error(loadError);
+        setPdf(null);
+        setStatus("error");
+        setError(getFriendlyPdfError(loadError));
+      }
+    },
+    [pdf],
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const nextFile = event.target.files?.[0];
+      void loadFile(nextFile);
+      event.target.value = "";
+    },
+    [loadFile],
+  );
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setDragActive(false);
+      const nextFile = event.dataTransfer.files?.[0];
+      void loadFile(nextFile);
+    },
+    [loadFile],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+  }, []);
+
+  const handleCapture = useCallback((captured: SignatureImage) => {
+    setSignature(captured);
+    setExportError(null);
+    setExportSuccess(null);
+  }, []);
+
+  const handlePlaceOnPage = useCallback(() => {
+    if (!signature || !preview) {
+      return;
+    }
+
+    const placement = createDefaultPlacement(
+      createId(),
+      currentPage,
+      signature,
+      preview.width / preview.height,
+    );
+    setPlacements((current) => [...current, placement]);
+    setActivePlacementId(placement.id);
+    setExportSuccess(null);
+  }, [currentPage, preview, signature]);
+
+  const removePlacement = useCallback((id: string) => {
+    setPlacements((current) => current.filter((placement) => placement.id !== id));
+    setActivePlacementId((current) => (current === id ? null : current));
+  }, []);
+
+  const updatePlacement = useCallback(
+    (id: string, updater: (placement: SignaturePlacement) => SignaturePlacement) => {
+      setPlacements((current) =>
+        current.map((placement) =>
+          placement.id === id ? clampPlacement(updater(placement)) : placement,
+        ),
+      );
+    },
+    [],
+  );
+
+  const beginDrag = useCallback(
+    (event: PointerEvent<HTMLElement>, placement: SignaturePlacement, mode: DragState["mode"]) => {
+      const overlay = event.currentTarget.closest("[data-signature-overlay]");
+      if (!overlay) {
+        return;
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setActivePlacementId(placement.id);
+      dragStateRef.current = {
+        id: placement.id,
+        mode,
+        startX: event.clientX,
+        startY: event.clientY,
+        origin: placement,
+        bounds: overlay.getBoundingClientRect(),
+      };
+    },
+    [],
+  );
+
+  const handleOverlayPointerMove = useCallback(
+    (event: PointerEvent<HTMLDivElement>) => {
+      const drag = dragStateRef.current;
+      if (!drag || drag.bounds.width === 0 || drag.bounds.height === 0) {
+        return;
+      }
+
+      const deltaX = (event.clientX - drag.startX) / drag.bounds.width;
+      const deltaY = (event.clientY - drag.startY) / drag.bounds.height;
+      updatePlacement(drag.id, () =>
+        drag.mode === "move"
+          ? { ...drag.origin, x: drag.origin.x + deltaX, y: drag.origin.y + deltaY }
+          : {
+              ...drag.origin,
+              width: drag.origin.width + deltaX,
+              height: drag.origin.height + deltaY,
+            },
+      );
+    },
+    [updatePlacement],
+  );
+
+  const endDrag = useCallback(() => {
+    dragStateRef.current = null;
+  }, []);
+
+  const handlePlacementKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>, placement: SignaturePlacement) => {
+      const resize = event.shiftKey;
+      const offsets: Record<string, [number, number]> = {
+        ArrowLeft: [-NUDGE_STEP, 0],
+        ArrowRight: [NUDGE_STEP, 0],
+        ArrowUp: [0, -NUDGE_STEP],
+        ArrowDown: [0, NUDGE_STEP],
+      };
+
+      if (event.key === "Delete" || event.key === "Backspace") {
+        event.preventDefault();
+        removePlacement(placement.id);
+        return;
+      }
+
+      const offset = offsets[event.key];
+      if (!offset) {
+        return;
+      }
+
+      event.preventDefault();
+      updatePlacement(placement.id, (current) =>
+        resize
+          ? { ...current, width: current.width + offset[0], height: current.height + offset[1] }
+          : { ...current, x: current.x + offset[0], y: current.y + offset[1] },
+      );
+    },
+    [removePlacement, updatePlacement],
+  );
+
+  const handleExport = useCallback(async () => {
+    if (!pdf || !signature || placements.length === 0) {
+      return;
+    }
+
+    setExportError(null);
+    setExportSuccess(null);
+    setExporting(true);
+
+    try {
+      const result = await stampSignatureOnPdf(pdf, signature, placements, {
+        startedAt: Date.now(),
+      });
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setExportSuccess(`Saved as ${result.downloadName}.`);
+    } catch (exportProblem) {
+      console.error("Failed to stamp signature", exportProblem);
+      setExportError(getFriendlyPdfError(exportProblem));
+    } finally {
+      setExporting(false);
+    }
+  }, [pdf, placements, signature]);
+
+  const pagePlacements = useMemo(
+    () => placements.filter((placement) => placement.pageNumber === currentPage),
+    [currentPage, placements],
+  );
+
+  const canPlace = Boolean(signature && preview) && !isExporting;
+  const canExport = Boolean(pdf && signature) && placements.length > 0 && !isExporting;
+  const canGoPrev = pdf ? currentPage > 1 : false;
+  const canGoNext = pdf ? currentPage < pdf.pageCount : false;
+
+  return (
+    <div className="mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={clsx(
+          "rounded-[32px] border-2 border-dashed p-10 transition-colors",
+          isDragActive
+            ? "border-rose-400 bg-rose-50/70 dark:border-rose-300 dark:bg-rose-500/10"
+            : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950",
+        )}
+      >
+        <div className="mx-auto flex max-w-3xl flex-col gap-4 text-center">
+          <p className="text-2xl font-semibold text-slate-900 dark:text-white">
+            {pdf ? "Ready to sign" : "Place signatures on any page"}
+          </p>
+          <p className="text-sm text-slate-500 dark:text-slate-300">
+            {pdf
+              ? "Draw, type, or upload a signature, drop it on a page, then drag and resize it into position before exporting."
+              : "Drop a PDF or choose a file to preview its pages. Signatures are stamped as images; this is not a cryptographic or certified digital signature."}
+          </p>
+          <div className="flex flex-col items-center gap-2">
+            <label
+              htmlFor="signatures-upload"
+              className="inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900"
+            >
+              {pdf ? "Replace PDF" : "Choose a PDF"}
+            </label>
+            <input
+              id="signatures-upload"
+              type="file"
+              accept="application/pdf"
+              className="sr-only"
+              onChange={handleInputChange}
+            />
+            <span className="text-xs uppercase tracking-wide text-slate-400">
+              or drag anywhere in this panel
+            </span>
+            <OpenFromUrlForm onSource={loadFile} />
+            {pdf ? (
+              <button
+                type="button"
+                className="text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300"
+                onClick={resetWorkspace}
+              >
+                Reset workspace
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+          {error}
+        </div>
+      ) : null}
+
+      {status === "loading" ? (
+        <div className="rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
+          Loading PDF...
+        </div>
+      ) : null}
+
+      {pdf ? (
+        <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
+          <section className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="text-base font-semibold text-slate-900 dark:text-white">{pdf.name}</p>
+                <p className="text-sm text-slate-500 dark:text-slate-300">
+                  Page {currentPage} of {pdf.pageCount} · {pagePlacements.length} placement(s) here
+                </p>
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                  onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+                  disabled={!canGoPrev}
+                >
+                  ← Prev
+                </button>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                  onClick={() => setCurrentPage((prev) => Math.min(pdf.pageCount, prev + 1))}
+                  disabled={!canGoNext}
+                >
+                  Next →
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4 flex justify-center rounded-2xl border border-dashed border-slate-300/70 bg-slate-50/60 p-4 dark:border-white/10 dark:bg-slate-950/40">
+              {preview && preview.pageNumber === currentPage ? (
+                <div
+                  className="relative w-full max-w-2xl select-none"
+                  data-signature-overlay="true"
+                  onPointerMove={handleOverlayPointerMove}
+                  onPointerUp={endDrag}
+                  onPointerCancel={endDrag}
+                >
+                  <img
+                    src={preview.url}
+                    alt={`Page ${currentPage} preview`}
+                    className="block w-full shadow-2xl shadow-slate-900/10"
+                    draggable={false}
+                  />
+                  {signature
+                    ? pagePlacements.map((placement) => (
+                        <div
+                          key={placement.id}
+                          role="button"
+                          aria-label={`Signature placement on page ${placement.pageNumber}`}
+                          tabIndex={0}
+                          className={clsx(
+                            "absolute cursor-move touch-none border-2 focus:outline-none",
+                            placement.id === activePlacementId
+                              ? "border-rose-500 bg-rose-500/5"
+                              : "border-dashed border-slate-400/80",
+                          )}
+                          style={{
+                            left: `${placement.x * 100}%`,
+                            top: `${placement.y * 100}%`,
+                            width: `${placement.width * 100}%`,
+                            height: `${placement.height * 100}%`,
+                          }}
+                          onPointerDown={(event) => beginDrag(event, placement, "move")}
+                          onFocus={() => setActivePlacementId(placement.id)}
+                          onKeyDown={(event) => handlePlacementKeyDown(event, placement)}
+                        >
+                          <img
+                            src={signature.dataUrl}
+                            alt=""
+                            className="pointer-events-none h-full w-full object-fill"
+                            draggable={false}
+                          />
+                          <span
+                            aria-hidden="true"
+                            className="absolute -bottom-2 -right-2 h-4 w-4 cursor-se-resize rounded-full border-2 border-white bg-rose-500"
+                            onPointerDown={(event) => beginDrag(event, placement, "resize")}
+                          />
+                        </div>
+                      ))
+                    : null}
+                </div>
+              ) : (
+                <p className="py-20 text-sm text-slate-500 dark:text-slate-300">Rendering page…</p>
+              )}
+            </div>
+            <p className="mt-3 text-xs text-slate-400">
+              Drag a signature to move it, pull the corner handle to resize. Arrow keys nudge the
+              focused signature; hold Shift to resize; Delete removes it.
+            </p>
+          </section>
+
+          <aside className="space-y-4">
+            <div className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+              <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                Signature
+              </p>
+              <div className="mt-3">
+                <SignatureCapture onCapture={handleCapture} />
+              </div>
+              {signature ? (
+                <div className="mt-4 space-y-3">
+                  <div className="flex items-center justify-center rounded-2xl border border-slate-200/80 bg-white p-3 dark:border-white/10">
+                    <img src={signature.dataUrl} alt="Current signature" className="max-h-20" />
+                  </div>
+                  <button
+                    type="button"
+                    className="w-full rounded-full border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 disabled:opacity-40 dark:border-white/20 dark:text-slate-200"
+                    onClick={handlePlaceOnPage}
+                    disabled={!canPlace}
+                  >
+                    Place on page {currentPage}
+                  </button>
+                </div>
+              ) : null}
+            </div>
+
+            <div className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+              <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                Placements
+              </p>
+              {placements.length === 0 ? (
+                <p className="mt-3 text-sm text-slate-500 dark:text-slate-300">
+                  No signatures placed yet.
+                </p>
+              ) : (
+                <ul className="mt-3 space-y-2 text-sm text-slate-600 dark:text-slate-200">
+                  {placements.map((placement, index) => (
+                    <li key={placement.id} className="flex items-center justify-between gap-2">
+                      <button
+                        type="button"
+                        className="underline-offset-2 hover:underline"
+                        onClick={() => {
+                          setCurrentPage(placement.pageNumber);
+                          setActivePlacementId(placement.id);
+                        }}
+                      >
+                        #{index + 1} · Page {placement.pageNumber}
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs font-semibold uppercase text-rose-600 dark:text-rose-300"
+                        onClick={() => removePlacement(placement.id)}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button
+                type="button"
+                className="mt-4 w-full rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900"
+                onClick={handleExport}
+                disabled={!canExport}
+              >
+                {isExporting ? "Stamping..." : "Sign & Download"}
+              </button>
+              {exportError ? (
+                <p className="mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+                  {exportError}
+                </p>
+              ) : null}
+              {exportSuccess ? (
+                <p className="mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+                  {exportSuccess}
+                </p>
+              ) : null}
+            </div>
+          </aside>
+        </div>
+      ) : (
+        <section className="rounded-3xl border border-slate-200/80 bg-white/90 p-6 text-sm text-slate-500 dark:border-white/10 dark:bg-slate-900/70 dark:text-slate-300">
+          Drop a PDF to unlock page previews, signature capture, and placement controls.
+        </section>
+      )}
+
+      <PasswordPromptModal
+        open={Boolean(passwordPrompt)}
+        fileName={passwordPrompt?.fileName ?? ""}
+        reason={passwordPrompt?.reason ?? "password-required"}
+        onSubmit={handlePasswordSubmit}
+        onCancel={handlePasswordCancel}
+      />
+    </div>
+  );
+};
+
+export default SignaturesToolPage;
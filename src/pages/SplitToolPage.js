@@ -1,14 +1,20 @@
 import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, } from "react";
 import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import SendToToolMenu from "../components/SendToToolMenu";
 import { triggerBlobDownload } from "../lib/downloads";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
-import { buildSplitSelectionFileName, buildSplitSliceFileName, buildSplitZipFileName, } from "../lib/fileNames";
-import { buildZipFromEntries, extractPagesFromLoadedPdf, splitPdfByChunkSize, } from "../lib/pdfSplit";
+import { buildSplitOutlineFileName, buildSplitSliceFileName, buildSplitZipFileName, } from "../lib/fileNames";
+import { formatPageRanges, parsePageRanges } from "../lib/pageRanges";
+import { buildSeparatorRanges, buildZipFromEntries, collectChunkWarnings, exportPageSelection, findBlankPages, measurePageInkCoverage, resolveOutlineSections, splitPdfByChunkSize, splitPdfByMaxSize, splitPdfByRanges, } from "../lib/pdfSplit";
 import { configurePdfWorker } from "../lib/pdfWorker";
 import { logExportResult } from "../state/activityLog";
+import { usePdfAssets, useToolHandoff } from "../state/pdfAssets";
+import { useWorkspaceSession } from "../state/workspaceSession";
 const THUMBNAIL_SCALE = 0.22;
+const OUTLINE_DEPTHS = [1, 2, 3];
 const formatBytes = (size) => {
     if (size === 0)
         return "0 B";
@@ -16,11 +22,9 @@ const formatBytes = (size) => {
     const power = Math.min(Math.floor(Math.log(size) / Math.log(1024)), units.length - 1);
     return `${(size / 1024 ** power).toFixed(power === 0 ? 0 : 1)} ${units[power]}`;
 };
-const cloneBytesToArrayBuffer = (bytes) => {
-    const buffer = new ArrayBuffer(bytes.byteLength);
-    new Uint8Array(buffer).set(bytes);
-    return buffer;
-};
+const describeCopyWarnings = (warnings) => warnings.length === 0
+    ? ""
+    : ` ${warnings.length} link or form field warning${warnings.length === 1 ? " was" : "s were"} noted in the activity log.`;
 const SplitToolPage = () => {
     const [pdf, setPdf] = useState(null);
     const [status, setStatus] = useState("idle");
@@ -30,13 +34,35 @@ const SplitToolPage = () => {
     const [thumbnailStatus, setThumbnailStatus] = useState("idle");
     const [selectedPages, setSelectedPages] = useState(new Set());
     const [splitSize, setSplitSize] = useState(5);
+    const [rangeExpression, setRangeExpression] = useState("");
     const [selectionError, setSelectionError] = useState(null);
     const [selectionSuccess, setSelectionSuccess] = useState(null);
+    const [selectionDocumentId, setSelectionDocumentId] = useState(null);
     const [bundleError, setBundleError] = useState(null);
     const [bundleSuccess, setBundleSuccess] = useState(null);
     const [isSelectionDownloading, setSelectionDownloading] = useState(false);
     const [isBundleDownloading, setBundleDownloading] = useState(false);
+    const [maxSizeMb, setMaxSizeMb] = useState(10);
+    const [sizeError, setSizeError] = useState(null);
+    const [sizeSuccess, setSizeSuccess] = useState(null);
+    const [sizeWarnings, setSizeWarnings] = useState([]);
+    const [isSizeDownloading, setSizeDownloading] = useState(false);
+    const [blankCoverage, setBlankCoverage] = useState(null);
+    const [blankThreshold, setBlankThreshold] = useState(0.5);
+    const [isDetectingBlanks, setDetectingBlanks] = useState(false);
+    const [blankError, setBlankError] = useState(null);
+    const [blankSuccess, setBlankSuccess] = useState(null);
+    const [isBlankDownloading, setBlankDownloading] = useState(false);
+    const [outlineDepth, setOutlineDepth] = useState(1);
+    const [outlineSections, setOutlineSections] = useState([]);
+    const [outlineNotice, setOutlineNotice] = useState(null);
+    const [outlineError, setOutlineError] = useState(null);
+    const [outlineSuccess, setOutlineSuccess] = useState(null);
+    const [isOutlineDownloading, setOutlineDownloading] = useState(false);
     const [passwordPrompt, setPasswordPrompt] = useState(null);
+    const openDocument = usePdfAssets((state) => state.openDocument);
+    const addExportedDocument = usePdfAssets((state) => state.addExportedDocument);
+    const restoredSelectionRef = useRef(null);
     useEffect(() => {
         configurePdfWorker();
     }, []);
@@ -94,6 +120,28 @@ const SplitToolPage = () => {
             isCancelled = true;
         };
     }, [pdf]);
+    useEffect(() => {
+        setOutlineSections([]);
+        setOutlineNotice(null);
+        if (!pdf) {
+            return;
+        }
+        let isCancelled = false;
+        resolveOutlineSections(pdf, outlineDepth)
+            .then((sections) => {
+            if (!isCancelled) {
+                setOutlineSections(sections);
+            }
+        })
+            .catch((outlineProblem) => {
+            if (!isCancelled) {
+                setOutlineNotice(getFriendlyPdfError(outlineProblem));
+            }
+        });
+        return () => {
+            isCancelled = true;
+        };
+    }, [outlineDepth, pdf]);
     const allPages = useMemo(() => {
         if (!pdf) {
             return [];
@@ -106,12 +154,23 @@ const SplitToolPage = () => {
         setStatus("idle");
         setError(null);
         setSelectedPages(new Set());
+        setRangeExpression("");
         setThumbnails([]);
         setThumbnailStatus("idle");
         setSelectionError(null);
         setSelectionSuccess(null);
+        setSelectionDocumentId(null);
         setBundleError(null);
         setBundleSuccess(null);
+        setSizeError(null);
+        setSizeSuccess(null);
+        setSizeWarnings([]);
+        setBlankCoverage(null);
+        setBlankError(null);
+        setBlankSuccess(null);
+        setOutlineError(null);
+        setOutlineSuccess(null);
+        useWorkspaceSession.getState().forgetWorkspace("split");
     }, [pdf]);
     const handlePasswordSubmit = useCallback((password) => {
         passwordPrompt?.resolve(password);
@@ -128,18 +187,31 @@ const SplitToolPage = () => {
         setError(null);
         setSelectionError(null);
         setSelectionSuccess(null);
+        setSelectionDocumentId(null);
         setBundleError(null);
         setBundleSuccess(null);
+        setSizeError(null);
+        setSizeSuccess(null);
+        setSizeWarnings([]);
+        setBlankCoverage(null);
+        setBlankError(null);
+        setBlankSuccess(null);
+        setOutlineError(null);
+        setOutlineSuccess(null);
         try {
             pdf?.doc.destroy();
-            const { loadPdfFromFile } = await import("../lib/pdfLoader");
-            const loaded = await loadPdfFromFile(file, {
+            const loaded = await openDocument(file, "split", {
                 requestPassword: (reason) => new Promise((resolve) => {
                     setPasswordPrompt({ fileName: file.name, reason, resolve });
                 }),
             });
+            const restored = restoredSelectionRef.current?.sourceId === loaded.sourceId
+                ? restoredSelectionRef.current
+                : null;
+            restoredSelectionRef.current = null;
             setPdf(loaded);
-            setSelectedPages(new Set());
+            setSelectedPages(new Set(restored?.selectedPages.filter((page) => page <= loaded.pageCount) ?? []));
+            setRangeExpression(restored?.rangeExpression ?? "");
             setStatus("ready");
         }
         catch (loadError) {
@@ -148,7 +220,35 @@ const SplitToolPage = () => {
             setStatus("error");
             setError(getFriendlyPdfError(loadError));
         }
-    }, [pdf]);
+    }, [openDocument, pdf]);
+    const loadFileRef = useRef(loadFile);
+    loadFileRef.current = loadFile;
+    useToolHandoff("split", loadFileRef);
+    // A session restored from the landing page reopens its document with the saved selection.
+    useEffect(() => {
+        const restored = useWorkspaceSession.getState().takeRestore("split");
+        const source = restored?.sources[0];
+        if (restored && source) {
+            restoredSelectionRef.current = restored.snapshot;
+            void loadFileRef.current(source);
+        }
+    }, []);
+    useEffect(() => {
+        if (!pdf?.sourceId) {
+            return;
+        }
+        const source = usePdfAssets
+            .getState()
+            .openDocuments.find((document) => document.id === pdf.sourceId)?.source;
+        if (source) {
+            useWorkspaceSession.getState().persistWorkspace({
+                key: "split",
+                sourceId: source.id,
+                selectedPages: Array.from(selectedPages).sort((a, b) => a - b),
+                rangeExpression,
+            }, [source]);
+        }
+    }, [pdf, rangeExpression, selectedPages]);
     const handleInputChange = useCallback((event) => {
         const { files } = event.target;
         const nextFile = files?.[0];
@@ -203,36 +303,37 @@ const SplitToolPage = () => {
             }
         });
     }, [allPages, pdf]);
+    const handleRangeSubmit = useCallback((event) => {
+        event.preventDefault();
+        if (!pdf) {
+            return;
+        }
+        setSelectionSuccess(null);
+        setSelectionError(null);
+        try {
+            setSelectedPages(new Set(parsePageRanges(rangeExpression, pdf.pageCount)));
+        }
+        catch (rangeProblem) {
+            setSelectionError(getFriendlyPdfError(rangeProblem));
+        }
+    }, [pdf, rangeExpression]);
     const handleSelectionDownload = useCallback(async () => {
         if (!pdf || selectedPages.size === 0) {
             return;
         }
         setSelectionError(null);
         setSelectionSuccess(null);
+        setSelectionDocumentId(null);
         setSelectionDownloading(true);
         const startedAt = Date.now();
         try {
             const selection = Array.from(selectedPages).sort((a, b) => a - b);
-            const bytes = await extractPagesFromLoadedPdf(pdf, selection);
-            const blob = new Blob([cloneBytesToArrayBuffer(bytes)], { type: "application/pdf" });
-            const descriptor = `${selection.length}pages`;
-            const fileName = buildSplitSelectionFileName(pdf.name, descriptor);
-            const result = {
-                blob,
-                size: blob.size,
-                downloadName: fileName,
-                durationMs: Math.max(0, Date.now() - startedAt),
-                warnings: undefined,
-                activity: {
-                    tool: "split",
-                    operation: `split-selection-${selection.length}-pages`,
-                    sourceCount: 1,
-                    detail: `${pdf.name} · ${selection.length} selected page${selection.length === 1 ? "" : "s"}`,
-                },
-            };
+            const result = await exportPageSelection(pdf, selection, { startedAt });
+            const warnings = result.warnings ?? [];
             triggerBlobDownload(result.blob, result.downloadName);
             logExportResult(result);
-            setSelectionSuccess(`Downloaded ${selection.length} page(s).`);
+            setSelectionSuccess(`Downloaded ${selection.length} page(s).${describeCopyWarnings(warnings)}`);
+            setSelectionDocumentId(await addExportedDocument(result));
         }
         catch (selectionProblem) {
             console.error(selectionProblem);
@@ -241,7 +342,7 @@ const SplitToolPage = () => {
         finally {
             setSelectionDownloading(false);
         }
-    }, [pdf, selectedPages]);
+    }, [addExportedDocument, pdf, selectedPages]);
     const handlePresetDownload = useCallback(async () => {
         if (!pdf) {
             return;
@@ -252,6 +353,7 @@ const SplitToolPage = () => {
         const startedAt = Date.now();
         try {
             const chunks = await splitPdfByChunkSize(pdf, splitSize);
+            const warnings = collectChunkWarnings(chunks);
             const entries = chunks.map((chunk) => ({
                 fileName: buildSplitSliceFileName(pdf.name, chunk.startPage, chunk.endPage, chunk.index),
                 bytes: chunk.bytes,
@@ -264,7 +366,7 @@ const SplitToolPage = () => {
                 size: zipBlob.size,
                 downloadName: zipName,
                 durationMs: Math.max(0, Date.now() - startedAt),
-                warnings: undefined,
+                warnings: warnings.length > 0 ? warnings : undefined,
                 activity: {
                     tool: "split",
                     operation: `split-preset-${splitSize}-pages`,
@@ -274,7 +376,7 @@ const SplitToolPage = () => {
             };
             triggerBlobDownload(result.blob, result.downloadName);
             logExportResult(result);
-            setBundleSuccess(`Exported ${entries.length} slice(s) with ${splitSize}-page preset.`);
+            setBundleSuccess(`Exported ${entries.length} slice(s) with ${splitSize}-page preset.${describeCopyWarnings(warnings)}`);
         }
         catch (presetProblem) {
             console.error(presetProblem);
@@ -284,6 +386,172 @@ const SplitToolPage = () => {
             setBundleDownloading(false);
         }
     }, [pdf, splitSize]);
+    const handleSizeDownload = useCallback(async () => {
+        if (!pdf) {
+            return;
+        }
+        setSizeError(null);
+        setSizeSuccess(null);
+        setSizeWarnings([]);
+        setSizeDownloading(true);
+        const startedAt = Date.now();
+        try {
+            const { chunks, warnings } = await splitPdfByMaxSize(pdf, maxSizeMb * 1024 * 1024);
+            const entries = chunks.map((chunk) => ({
+                fileName: buildSplitSliceFileName(pdf.name, chunk.startPage, chunk.endPage, chunk.index),
+                bytes: chunk.bytes,
+            }));
+            const zipBytes = await buildZipFromEntries(entries);
+            const zipBlob = new Blob([zipBytes], { type: "application/zip" });
+            const result = {
+                blob: zipBlob,
+                size: zipBlob.size,
+                downloadName: buildSplitZipFileName(pdf.name),
+                durationMs: Math.max(0, Date.now() - startedAt),
+                warnings: warnings.length > 0 ? warnings : undefined,
+                activity: {
+                    tool: "split",
+                    operation: `split-size-${maxSizeMb}mb`,
+                    sourceCount: 1,
+                    detail: `${pdf.name} · ${entries.length} slice${entries.length === 1 ? "" : "s"} under ${maxSizeMb} MB`,
+                },
+            };
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setSizeWarnings(warnings);
+            setSizeSuccess(`Exported ${entries.length} slice(s) capped at ${maxSizeMb} MB each.`);
+        }
+        catch (sizeProblem) {
+            console.error(sizeProblem);
+            setSizeError(getFriendlyPdfError(sizeProblem));
+        }
+        finally {
+            setSizeDownloading(false);
+        }
+    }, [maxSizeMb, pdf]);
+    const handleMaxSizeChange = useCallback((event) => {
+        const nextValue = Number(event.target.value);
+        if (Number.isNaN(nextValue)) {
+            setMaxSizeMb(1);
+            return;
+        }
+        setMaxSizeMb(Math.max(0.1, Math.min(500, Math.round(nextValue * 10) / 10)));
+    }, []);
+    const blankPages = useMemo(() => (blankCoverage ? findBlankPages(blankCoverage, blankThreshold / 100) : []), [blankCoverage, blankThreshold]);
+    const separatorRanges = useMemo(() => {
+        if (!pdf || !blankCoverage || blankPages.length === 0) {
+            return [];
+        }
+        try {
+            return buildSeparatorRanges(blankPages, pdf.pageCount);
+        }
+        catch {
+            return [];
+        }
+    }, [blankCoverage, blankPages, pdf]);
+    const documentStarts = useMemo(() => new Map(separatorRanges.map((range, index) => [range.startPage, index + 1])), [separatorRanges]);
+    const handleDetectBlanks = useCallback(async () => {
+        if (!pdf) {
+            return;
+        }
+        setBlankError(null);
+        setBlankSuccess(null);
+        setDetectingBlanks(true);
+        try {
+            setBlankCoverage(await measurePageInkCoverage(pdf));
+        }
+        catch (detectProblem) {
+            console.error(detectProblem);
+            setBlankError(getFriendlyPdfError(detectProblem));
+        }
+        finally {
+            setDetectingBlanks(false);
+        }
+    }, [pdf]);
+    const handleBlankDownload = useCallback(async () => {
+        if (!pdf || separatorRanges.length === 0) {
+            return;
+        }
+        setBlankError(null);
+        setBlankSuccess(null);
+        setBlankDownloading(true);
+        const startedAt = Date.now();
+        try {
+            const chunks = await splitPdfByRanges(pdf, separatorRanges);
+            const warnings = collectChunkWarnings(chunks);
+            const entries = chunks.map((chunk) => ({
+                fileName: buildSplitSliceFileName(pdf.name, chunk.startPage, chunk.endPage, chunk.index),
+                bytes: chunk.bytes,
+            }));
+            const zipBytes = await buildZipFromEntries(entries);
+            const zipBlob = new Blob([zipBytes], { type: "application/zip" });
+            const result = {
+                blob: zipBlob,
+                size: zipBlob.size,
+                downloadName: buildSplitZipFileName(pdf.name),
+                durationMs: Math.max(0, Date.now() - startedAt),
+                warnings: warnings.length > 0 ? warnings : undefined,
+                activity: {
+                    tool: "split",
+                    operation: "split-blank-separators",
+                    sourceCount: 1,
+                    detail: `${pdf.name} · ${entries.length} document${entries.length === 1 ? "" : "s"} · ${blankPages.length} separator page${blankPages.length === 1 ? "" : "s"} dropped`,
+                },
+            };
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setBlankSuccess(`Exported ${entries.length} document(s) without the separator pages.${describeCopyWarnings(warnings)}`);
+        }
+        catch (blankProblem) {
+            console.error(blankProblem);
+            setBlankError(getFriendlyPdfError(blankProblem));
+        }
+        finally {
+            setBlankDownloading(false);
+        }
+    }, [blankPages.length, pdf, separatorRanges]);
+    const handleOutlineDownload = useCallback(async () => {
+        if (!pdf || outlineSections.length === 0) {
+            return;
+        }
+        setOutlineError(null);
+        setOutlineSuccess(null);
+        setOutlineDownloading(true);
+        const startedAt = Date.now();
+        try {
+            const chunks = await splitPdfByRanges(pdf, outlineSections);
+            const warnings = collectChunkWarnings(chunks);
+            const entries = chunks.map((chunk) => ({
+                fileName: buildSplitOutlineFileName(pdf.name, chunk.title ?? "section", chunk.index),
+                bytes: chunk.bytes,
+            }));
+            const zipBytes = await buildZipFromEntries(entries);
+            const zipBlob = new Blob([zipBytes], { type: "application/zip" });
+            const result = {
+                blob: zipBlob,
+                size: zipBlob.size,
+                downloadName: buildSplitZipFileName(pdf.name),
+                durationMs: Math.max(0, Date.now() - startedAt),
+                warnings: warnings.length > 0 ? warnings : undefined,
+                activity: {
+                    tool: "split",
+                    operation: `split-outline-depth-${outlineDepth}`,
+                    sourceCount: 1,
+                    detail: `${pdf.name} · ${entries.length} bookmark section${entries.length === 1 ? "" : "s"}`,
+                },
+            };
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setOutlineSuccess(`Exported ${entries.length} section(s) named after their bookmarks.${describeCopyWarnings(warnings)}`);
+        }
+        catch (outlineProblem) {
+            console.error(outlineProblem);
+            setOutlineError(getFriendlyPdfError(outlineProblem));
+        }
+        finally {
+            setOutlineDownloading(false);
+        }
+    }, [outlineDepth, outlineSections, pdf]);
     const handleSplitSizeChange = useCallback((event) => {
         const nextValue = Number(event.target.value);
         if (Number.isNaN(nextValue)) {
@@ -293,21 +561,37 @@ const SplitToolPage = () => {
         setSplitSize(Math.max(1, Math.min(200, Math.floor(nextValue))));
     }, []);
     const selectionCount = selectedPages.size;
+    const selectionSummary = useMemo(() => formatPageRanges(Array.from(selectedPages)), [selectedPages]);
     const canDownloadSelection = Boolean(pdf) && selectionCount > 0 && !isSelectionDownloading;
     const canPresetDownload = Boolean(pdf) && !isBundleDownloading && splitSize >= 1 && (pdf?.pageCount ?? 0) > 0;
     return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-[32px] border-2 border-dashed p-10 transition-colors", isDragActive
                     ? "border-cyan-400 bg-cyan-50/70 dark:border-cyan-300 dark:bg-cyan-500/10"
                     : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950"), children: _jsxs("div", { className: "mx-auto flex max-w-3xl flex-col gap-4 text-center", children: [_jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: pdf ? "Ready to split" : "Split PDFs with precision" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: pdf
                                 ? "Select pages, preview slices, and export either the highlighted set or a complete bundle every N pages."
-                                : "Drop a PDF or choose a file to render every page as a selectable tile. Build slices manually or generate presets before exporting." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "split-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "split-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), pdf ? (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })) : null] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: error })) : null, status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[2fr,1fr]", children: [_jsxs("div", { className: "space-y-4", children: [_jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsxs("div", { children: [_jsx("p", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pdf.name }), _jsxs("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: [pdf.pageCount, " pages - ", formatBytes(pdf.size)] })] }), _jsxs("div", { className: "text-xs text-slate-400 dark:text-slate-300", children: ["PDF v", pdf.pdfVersion] })] }), _jsxs("div", { className: "mt-4 flex flex-wrap gap-2 text-sm", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("all"), children: "Select all" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("none"), children: "Clear" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("odd"), children: "Odd pages" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("even"), children: "Even pages" })] }), _jsxs("p", { className: "mt-3 text-sm text-slate-500 dark:text-slate-300", children: ["Selection:", " ", _jsx("span", { className: "font-semibold text-slate-900 dark:text-white", children: selectionCount }), " ", "page(s)"] })] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Export selection" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Downloads a single PDF containing the highlighted pages." })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !canDownloadSelection, onClick: handleSelectionDownload, children: isSelectionDownloading
+                                : "Drop a PDF or choose a file to render every page as a selectable tile. Build slices manually or generate presets before exporting." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "split-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "split-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: loadFile }), _jsx(SendToToolMenu, { from: "split", documentId: pdf?.sourceId }), pdf ? (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })) : null] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: error })) : null, status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[2fr,1fr]", children: [_jsxs("div", { className: "space-y-4", children: [_jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-wrap items-center justify-between gap-3", children: [_jsxs("div", { children: [_jsx("p", { className: "text-base font-semibold text-slate-900 dark:text-white", children: pdf.name }), _jsxs("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: [pdf.pageCount, " pages - ", formatBytes(pdf.size)] })] }), _jsxs("div", { className: "text-xs text-slate-400 dark:text-slate-300", children: ["PDF v", pdf.pdfVersion] })] }), _jsxs("div", { className: "mt-4 flex flex-wrap gap-2 text-sm", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("all"), children: "Select all" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("none"), children: "Clear" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("odd"), children: "Odd pages" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection("even"), children: "Even pages" })] }), _jsxs("form", { className: "mt-4 flex flex-wrap items-end gap-2", onSubmit: handleRangeSubmit, children: [_jsxs("label", { className: "flex min-w-[16rem] flex-1 flex-col gap-1 text-sm text-slate-600 dark:text-slate-300", children: ["Page ranges", _jsx("input", { type: "text", value: rangeExpression, onChange: (event) => setRangeExpression(event.target.value), placeholder: "1-3, 7, 10-end, odd, last-2", className: "rounded-2xl border border-slate-200 bg-white px-3 py-2 font-mono text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white" })] }), _jsx("button", { type: "submit", className: "rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", disabled: rangeExpression.trim().length === 0, children: "Apply ranges" })] }), _jsxs("p", { className: "mt-3 text-sm text-slate-500 dark:text-slate-300", children: ["Selection:", " ", _jsx("span", { className: "font-semibold text-slate-900 dark:text-white", children: selectionCount }), " ", "page(s)", selectionSummary ? (_jsx("span", { className: "ml-2 font-mono text-xs text-slate-400", children: selectionSummary })) : null] })] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Export selection" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Downloads a single PDF containing the highlighted pages." })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !canDownloadSelection, onClick: handleSelectionDownload, children: isSelectionDownloading
                                                     ? "Preparing..."
                                                     : selectionCount === 0
                                                         ? "Select pages"
-                                                        : "Download selection" })] }), selectionError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: selectionError })) : null, selectionSuccess ? (_jsx("p", { className: "mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: selectionSuccess })) : null] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Split every N pages" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Auto-generate slices across the full document and download them as a zip bundle." })] }), _jsxs("div", { className: "flex flex-col gap-2 text-sm", children: [_jsx("label", { className: "text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300", htmlFor: "page-interval-input", children: "Page interval" }), _jsx("input", { type: "number", min: 1, max: 200, value: splitSize, onChange: handleSplitSizeChange, id: "page-interval-input", className: "w-32 rounded-2xl border border-slate-300/70 bg-transparent px-3 py-2 text-sm dark:border-white/20" })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !canPresetDownload, onClick: handlePresetDownload, children: isBundleDownloading ? "Bundling..." : `Create ${splitSize}-page slices` })] }), bundleError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: bundleError })) : null, bundleSuccess ? (_jsx("p", { className: "mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: bundleSuccess })) : null] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Page rail" }), thumbnailStatus === "rendering" ? (_jsx("p", { className: "mt-4 text-sm text-slate-500 dark:text-slate-300", children: "Rendering thumbnails..." })) : null, _jsx("div", { className: "mt-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-4", children: thumbnails.map((thumb) => {
+                                                        : "Download selection" })] }), selectionError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: selectionError })) : null, selectionSuccess ? (_jsx("p", { className: "mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: selectionSuccess })) : null, selectionSuccess ? (_jsx("div", { className: "mt-3", children: _jsx(SendToToolMenu, { from: "split", documentId: selectionDocumentId, label: "Send result to" }) })) : null] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Split every N pages" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Auto-generate slices across the full document and download them as a zip bundle." })] }), _jsxs("div", { className: "flex flex-col gap-2 text-sm", children: [_jsx("label", { className: "text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300", htmlFor: "page-interval-input", children: "Page interval" }), _jsx("input", { type: "number", min: 1, max: 200, value: splitSize, onChange: handleSplitSizeChange, id: "page-interval-input", className: "w-32 rounded-2xl border border-slate-300/70 bg-transparent px-3 py-2 text-sm dark:border-white/20" })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: !canPresetDownload, onClick: handlePresetDownload, children: isBundleDownloading ? "Bundling..." : `Create ${splitSize}-page slices` })] }), bundleError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: bundleError })) : null, bundleSuccess ? (_jsx("p", { className: "mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: bundleSuccess })) : null] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Split by file size" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Packs consecutive pages into slices that stay under an attachment limit." })] }), _jsxs("div", { className: "flex flex-col gap-2 text-sm", children: [_jsx("label", { className: "text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300", htmlFor: "max-size-input", children: "Max size (MB)" }), _jsx("input", { type: "number", min: 0.1, max: 500, step: 0.5, value: maxSizeMb, onChange: handleMaxSizeChange, id: "max-size-input", className: "w-32 rounded-2xl border border-slate-300/70 bg-transparent px-3 py-2 text-sm dark:border-white/20" })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: isSizeDownloading, onClick: handleSizeDownload, children: isSizeDownloading ? "Packing..." : `Create slices under ${maxSizeMb} MB` })] }), sizeError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: sizeError })) : null, sizeWarnings.length > 0 ? (_jsx("ul", { className: "mt-3 space-y-1 rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-2 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50", children: sizeWarnings.map((warning) => (_jsx("li", { children: warning }, warning))) })) : null, sizeSuccess ? (_jsx("p", { className: "mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: sizeSuccess })) : null] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Split on blank pages" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Finds separator sheets in batch scans and drops them between documents." })] }), _jsxs("div", { className: "flex flex-col gap-2 text-sm", children: [_jsxs("label", { className: "text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300", htmlFor: "blank-threshold-input", children: ["Max ink coverage: ", blankThreshold.toFixed(1), "%"] }), _jsx("input", { type: "range", min: 0.1, max: 5, step: 0.1, value: blankThreshold, onChange: (event) => setBlankThreshold(Number(event.target.value)), id: "blank-threshold-input", className: "w-40" })] }), _jsxs("div", { className: "flex flex-wrap gap-2", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", disabled: isDetectingBlanks, onClick: handleDetectBlanks, children: isDetectingBlanks
+                                                            ? "Scanning..."
+                                                            : blankCoverage
+                                                                ? "Re-scan pages"
+                                                                : "Detect blank pages" }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: separatorRanges.length === 0 || isBlankDownloading, onClick: handleBlankDownload, children: isBlankDownloading
+                                                            ? "Bundling..."
+                                                            : `Export ${separatorRanges.length} document${separatorRanges.length === 1 ? "" : "s"}` })] })] }), blankCoverage ? (_jsx("p", { className: "mt-3 text-sm text-slate-500 dark:text-slate-300", children: blankPages.length === 0
+                                            ? "No blank pages at this threshold. Raise it if separators still carry scanner noise."
+                                            : `${blankPages.length} separator page(s) found: ${blankPages.join(", ")}. Boundaries are marked on the page rail below.` })) : null, blankError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: blankError })) : null, blankSuccess ? (_jsx("p", { className: "mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: blankSuccess })) : null] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { className: "flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Split by bookmarks" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "One PDF per outline entry, named after the bookmark title." })] }), _jsxs("div", { className: "flex flex-col gap-2 text-sm", children: [_jsx("label", { className: "text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300", htmlFor: "outline-depth-select", children: "Bookmark depth" }), _jsx("select", { id: "outline-depth-select", value: outlineDepth, onChange: (event) => setOutlineDepth(Number(event.target.value)), className: "w-32 rounded-2xl border border-slate-300/70 bg-transparent px-3 py-2 text-sm dark:border-white/20", children: OUTLINE_DEPTHS.map((depth) => (_jsx("option", { value: depth, children: depth === 1 ? "Top level" : `${depth} levels` }, depth))) })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900", disabled: outlineSections.length === 0 || isOutlineDownloading, onClick: handleOutlineDownload, children: isOutlineDownloading
+                                                    ? "Bundling..."
+                                                    : `Export ${outlineSections.length} section${outlineSections.length === 1 ? "" : "s"}` })] }), outlineNotice ? (_jsx("p", { className: "mt-3 text-sm text-slate-500 dark:text-slate-300", children: outlineNotice })) : null, outlineSections.length > 0 ? (_jsx("ol", { className: "mt-3 max-h-48 space-y-1 overflow-y-auto text-sm text-slate-600 dark:text-slate-300", children: outlineSections.map((section) => (_jsxs("li", { className: "flex items-center justify-between gap-3", style: { paddingLeft: `${Math.max(0, section.depth - 1) * 0.75}rem` }, children: [_jsx("span", { className: "truncate", children: section.title }), _jsx("span", { className: "shrink-0 font-mono text-xs text-slate-400", children: section.startPage === section.endPage
+                                                        ? `p. ${section.startPage}`
+                                                        : `pp. ${section.startPage}-${section.endPage}` })] }, `${section.startPage}-${section.title}`))) })) : null, outlineError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: outlineError })) : null, outlineSuccess ? (_jsx("p", { className: "mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: outlineSuccess })) : null] }), _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Page rail" }), thumbnailStatus === "rendering" ? (_jsx("p", { className: "mt-4 text-sm text-slate-500 dark:text-slate-300", children: "Rendering thumbnails..." })) : null, _jsx("div", { className: "mt-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-4", children: thumbnails.map((thumb) => {
                                             const isSelected = selectedPages.has(thumb.pageNumber);
+                                            const isSeparator = blankPages.includes(thumb.pageNumber);
+                                            const documentIndex = documentStarts.get(thumb.pageNumber);
                                             return (_jsxs("button", { type: "button", onClick: () => togglePageSelection(thumb.pageNumber), className: clsx("group relative rounded-2xl border p-3 text-left transition", isSelected
                                                     ? "border-emerald-300 bg-emerald-50/70 dark:border-emerald-400/60 dark:bg-emerald-500/10"
-                                                    : "border-slate-200/80 bg-white/80 hover:border-slate-300 dark:border-white/10 dark:bg-slate-900/60"), children: [_jsx("img", { src: thumb.url, alt: `Page ${thumb.pageNumber}`, className: "h-48 w-full rounded-xl object-cover" }), _jsxs("div", { className: "mt-3 flex items-center justify-between text-xs font-semibold uppercase tracking-wide", children: [_jsxs("span", { className: "text-slate-500 dark:text-slate-300", children: ["Page ", thumb.pageNumber] }), _jsx("span", { className: clsx("rounded-full px-2 py-0.5", isSelected
+                                                    : "border-slate-200/80 bg-white/80 hover:border-slate-300 dark:border-white/10 dark:bg-slate-900/60", isSeparator &&
+                                                    "border-dashed border-rose-300 opacity-60 dark:border-rose-400/60"), children: [isSeparator || documentIndex ? (_jsx("span", { className: clsx("absolute left-5 top-5 rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white", isSeparator ? "bg-rose-500" : "bg-indigo-500"), children: isSeparator ? "Separator" : `Doc ${documentIndex}` })) : null, _jsx("img", { src: thumb.url, alt: `Page ${thumb.pageNumber}`, className: "h-48 w-full rounded-xl object-cover" }), _jsxs("div", { className: "mt-3 flex items-center justify-between text-xs font-semibold uppercase tracking-wide", children: [_jsxs("span", { className: "text-slate-500 dark:text-slate-300", children: ["Page ", thumb.pageNumber] }), _jsx("span", { className: clsx("rounded-full px-2 py-0.5", isSelected
                                                                     ? "bg-emerald-600 text-white"
                                                                     : "bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-300"), children: isSelected ? "Selected" : "Tap to add" })] })] }, thumb.pageNumber));
                                         }) }), thumbnails.length === 0 && thumbnailStatus !== "rendering" ? (_jsx("p", { className: "mt-4 text-sm text-slate-500 dark:text-slate-300", children: "Drop a PDF to see live thumbnails for selection." })) : null] })] }), _jsxs("aside", { className: "space-y-4 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsxs("div", { children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Quick stats" }), _jsxs("ul", { className: "mt-3 space-y-1 text-sm text-slate-600 dark:text-slate-200", children: [_jsxs("li", { children: ["Total pages: ", pdf.pageCount] }), _jsxs("li", { children: ["Selected pages: ", selectionCount] }), _jsxs("li", { children: ["Interval preset: every ", splitSize, " page(s)"] })] })] }), _jsxs("div", { className: "rounded-3xl border border-slate-900/10 bg-slate-900 p-4 text-sm text-white dark:border-white/10", children: [_jsx("p", { className: "font-semibold uppercase tracking-wide text-white/70", children: "Workflow tips" }), _jsxs("ul", { className: "mt-3 space-y-2 text-white/80", children: [_jsx("li", { children: "Use odd/even shortcuts for alternating pulls." }), _jsx("li", { children: "Re-run presets with a new interval to replace the previous bundle." }), _jsx("li", { children: "Selection export keeps thumbnail order even after multiple toggles." })] })] })] })] })) : (_jsx("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-6 text-sm text-slate-500 dark:border-white/10 dark:bg-slate-900/70 dark:text-slate-300", children: "Drop a PDF to unlock thumbnail previews, selection controls, and split presets." })), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
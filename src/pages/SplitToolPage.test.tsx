@@ -1,10 +1,15 @@
 import { render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 vi.mock("../lib/pdfWorker", () => ({
   configurePdfWorker: vi.fn(),
 }));
 
+vi.mock("../lib/pdfLoader", () => ({
+  loadPdfFromSource: vi.fn(),
+}));
+
 import SplitToolPage from "./SplitToolPage";
 import { useActivityLog } from "../state/activityLog";
 
@@ -14,7 +19,11 @@ describe("SplitToolPage", () => {
   });
 
   it("renders the split workspace hero messaging before a PDF is loaded", () => {
-    render(<SplitToolPage />);
+    render(
+      <MemoryRouter>
+        <SplitToolPage />
+      </MemoryRouter>,
+    );
     expect(screen.getByText(/Split PDFs with precision/i)).toBeInTheDocument();
     expect(
       screen.getByText(
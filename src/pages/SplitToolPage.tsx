@@ -1,26 +1,51 @@
-import { useCallback, useEffect, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type DragEvent,
+  type FormEvent,
+} from "react";
 import clsx from "clsx";
 
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
 import PasswordPromptModal from "../components/PasswordPromptModal";
+import SendToToolMenu from "../components/SendToToolMenu";
 import { triggerBlobDownload } from "../lib/downloads";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
 import {
-  buildSplitSelectionFileName,
+  buildSplitOutlineFileName,
   buildSplitSliceFileName,
   buildSplitZipFileName,
 } from "../lib/fileNames";
+import { formatPageRanges, parsePageRanges } from "../lib/pageRanges";
 import {
+  buildSeparatorRanges,
   buildZipFromEntries,
-  extractPagesFromLoadedPdf,
+  collectChunkWarnings,
+  exportPageSelection,
+  findBlankPages,
+  measurePageInkCoverage,
+  resolveOutlineSections,
   splitPdfByChunkSize,
+  splitPdfByMaxSize,
+  splitPdfByRanges,
+  type OutlineSection,
+  type SplitRange,
 } from "../lib/pdfSplit";
 import type { LoadedPdf, PdfPasswordReason } from "../lib/pdfLoader";
 import { configurePdfWorker } from "../lib/pdfWorker";
 import { logExportResult } from "../state/activityLog";
-import { type ExportResult } from "../lib/documentPipeline";
+import { usePdfAssets, useToolHandoff } from "../state/pdfAssets";
+import { useWorkspaceSession, type RestoredWorkspace } from "../state/workspaceSession";
+import { type ExportResult, type PdfSource } from "../lib/documentPipeline";
 
 const THUMBNAIL_SCALE = 0.22;
 
+const OUTLINE_DEPTHS = [1, 2, 3] as const;
+
 type ThumbnailStatus = "idle" | "rendering" | "ready";
 
 type Thumbnail = {
@@ -35,11 +60,12 @@ const formatBytes = (size: number) => {
   return `${(size / 1024 ** power).toFixed(power === 0 ? 0 : 1)} ${units[power]}`;
 };
 
-const cloneBytesToArrayBuffer = (bytes: Uint8Array): ArrayBuffer => {
-  const buffer = new ArrayBuffer(bytes.byteLength);
-  new Uint8Array(buffer).set(bytes);
-  return buffer;
-};
+const describeCopyWarnings = (warnings: string[]) =>
+  warnings.length === 0
+    ? ""
+    : ` ${warnings.length} link or form field warning${
+        warnings.length === 1 ? " was" : "s were"
+      } noted in the activity log.`;
 
 const SplitToolPage = () => {
   const [pdf, setPdf] = useState<LoadedPdf | null>(null);
@@ -50,17 +76,39 @@ const SplitToolPage = () => {
   const [thumbnailStatus, setThumbnailStatus] = useState<ThumbnailStatus>("idle");
   const [selectedPages, setSelectedPages] = useState<Set<number>>(new Set());
   const [splitSize, setSplitSize] = useState(5);
+  const [rangeExpression, setRangeExpression] = useState("");
   const [selectionError, setSelectionError] = useState<string | null>(null);
   const [selectionSuccess, setSelectionSuccess] = useState<string | null>(null);
+  const [selectionDocumentId, setSelectionDocumentId] = useState<string | null>(null);
   const [bundleError, setBundleError] = useState<string | null>(null);
   const [bundleSuccess, setBundleSuccess] = useState<string | null>(null);
   const [isSelectionDownloading, setSelectionDownloading] = useState(false);
   const [isBundleDownloading, setBundleDownloading] = useState(false);
+  const [maxSizeMb, setMaxSizeMb] = useState(10);
+  const [sizeError, setSizeError] = useState<string | null>(null);
+  const [sizeSuccess, setSizeSuccess] = useState<string | null>(null);
+  const [sizeWarnings, setSizeWarnings] = useState<string[]>([]);
+  const [isSizeDownloading, setSizeDownloading] = useState(false);
+  const [blankCoverage, setBlankCoverage] = useState<number[] | null>(null);
+  const [blankThreshold, setBlankThreshold] = useState(0.5);
+  const [isDetectingBlanks, setDetectingBlanks] = useState(false);
+  const [blankError, setBlankError] = useState<string | null>(null);
+  const [blankSuccess, setBlankSuccess] = useState<string | null>(null);
+  const [isBlankDownloading, setBlankDownloading] = useState(false);
+  const [outlineDepth, setOutlineDepth] = useState<number>(1);
+  const [outlineSections, setOutlineSections] = useState<OutlineSection[]>([]);
+  const [outlineNotice, setOutlineNotice] = useState<string | null>(null);
+  const [outlineError, setOutlineError] = useState<string | null>(null);
+  const [outlineSuccess, setOutlineSuccess] = useState<string | null>(null);
+  const [isOutlineDownloading, setOutlineDownloading] = useState(false);
   const [passwordPrompt, setPasswordPrompt] = useState<{
     fileName: string;
     reason: PdfPasswordReason;
     resolve: (value: string | null) => void;
   } | null>(null);
+  const openDocument = usePdfAssets((state) => state.openDocument);
+  const addExportedDocument = usePdfAssets((state) => state.addExportedDocument);
+  const restoredSelectionRef = useRef<RestoredWorkspace<"split">["snapshot"] | null>(null);
 
   useEffect(() => {
     configurePdfWorker();
@@ -131,6 +179,31 @@ const SplitToolPage = () => {
     };
   }, [pdf]);
 
+  useEffect(() => {
+    setOutlineSections([]);
+    setOutlineNotice(null);
+    if (!pdf) {
+      return;
+    }
+
+    let isCancelled = false;
+    resolveOutlineSections(pdf, outlineDepth)
+      .then((sections) => {
+        if (!isCancelled) {
+          setOutlineSections(sections);
+        }
+      })
+      .catch((outlineProblem) => {
+        if (!isCancelled) {
+          setOutlineNotice(getFriendlyPdfError(outlineProblem));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [outlineDepth, pdf]);
+
   const allPages = useMemo(() => {
     if (!pdf) {
       return [];
@@ -145,12 +218,23 @@ const SplitToolPage = () => {
     setStatus("idle");
     setError(null);
     setSelectedPages(new Set());
+    setRangeExpression("");
     setThumbnails([]);
     setThumbnailStatus("idle");
     setSelectionError(null);
     setSelectionSuccess(null);
+    setSelectionDocumentId(null);
     setBundleError(null);
     setBundleSuccess(null);
+    setSizeError(null);
+    setSizeSuccess(null);
+    setSizeWarnings([]);
+    setBlankCoverage(null);
+    setBlankError(null);
+    setBlankSuccess(null);
+    setOutlineError(null);
+    setOutlineSuccess(null);
+    useWorkspaceSession.getState().forgetWorkspace("split");
   }, [pdf]);
 
   const handlePasswordSubmit = useCallback(
@@ -167,26 +251,42 @@ const SplitToolPage = () => {
   }, [passwordPrompt]);
 
   const loadFile = useCallback(
-    async (file: File | null | undefined) => {
+    async (file: File | PdfSource | null | undefined) => {
       if (!file) return;
       setStatus("loading");
       setError(null);
       setSelectionError(null);
       setSelectionSuccess(null);
+      setSelectionDocumentId(null);
       setBundleError(null);
       setBundleSuccess(null);
+      setSizeError(null);
+      setSizeSuccess(null);
+      setSizeWarnings([]);
+      setBlankCoverage(null);
+      setBlankError(null);
+      setBlankSuccess(null);
+      setOutlineError(null);
+      setOutlineSuccess(null);
 
       try {
         pdf?.doc.destroy();
-        const { loadPdfFromFile } = await import("../lib/pdfLoader");
-        const loaded = await loadPdfFromFile(file, {
+        const loaded = await openDocument(file, "split", {
           requestPassword: (reason) =>
             new Promise<string | null>((resolve) => {
               setPasswordPrompt({ fileName: file.name, reason, resolve });
             }),
         });
+        const restored =
+          restoredSelectionRef.current?.sourceId === loaded.sourceId
+            ? restoredSelectionRef.current
+            : null;
+        restoredSelectionRef.current = null;
         setPdf(loaded);
-        setSelectedPages(new Set());
+        setSelectedPages(
+          new Set(restored?.selectedPages.filter((page) => page <= loaded.pageCount) ?? []),
+        );
+        setRangeExpression(restored?.rangeExpression ?? "");
         setStatus("ready");
       } catch (loadError) {
         console.error(loadError);
@@ -195,9 +295,45 @@ const SplitToolPage = () => {
         setError(getFriendlyPdfError(loadError));
       }
     },
-    [pdf],
+    [openDocument, pdf],
   );
 
+  const loadFileRef = useRef(loadFile);
+  loadFileRef.current = loadFile;
+
+  useToolHandoff("split", loadFileRef);
+
+  // A session restored from the landing page reopens its document with the saved selection.
+  useEffect(() => {
+    const restored = useWorkspaceSession.getState().takeRestore("split");
+    const source = restored?.sources[0];
+    if (restored && source) {
+      restoredSelectionRef.current = restored.snapshot;
+      void loadFileRef.current(source);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!pdf?.sourceId) {
+      return;
+    }
+
+    const source = usePdfAssets
+      .getState()
+      .openDocuments.find((document) => document.id === pdf.sourceId)?.source;
+    if (source) {
+      useWorkspaceSession.getState().persistWorkspace(
+        {
+          key: "split",
+          sourceId: source.id,
+          selectedPages: Array.from(selectedPages).sort((a, b) => a - b),
+          rangeExpression,
+        },
+        [source],
+      );
+    }
+  }, [pdf, rangeExpression, selectedPages]);
+
   const handleInputChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const { files } = event.target;
@@ -268,6 +404,25 @@ const SplitToolPage = () => {
     [allPages, pdf],
   );
 
+  const handleRangeSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!pdf) {
+        return;
+      }
+
+      setSelectionSuccess(null);
+      setSelectionError(null);
+
+      try {
+        setSelectedPages(new Set(parsePageRanges(rangeExpression, pdf.pageCount)));
+      } catch (rangeProblem) {
+        setSelectionError(getFriendlyPdfError(rangeProblem));
+      }
+    },
+    [pdf, rangeExpression],
+  );
+
   const handleSelectionDownload = useCallback(async () => {
     if (!pdf || selectedPages.size === 0) {
       return;
@@ -275,41 +430,28 @@ const SplitToolPage = () => {
 
     setSelectionError(null);
     setSelectionSuccess(null);
+    setSelectionDocumentId(null);
     setSelectionDownloading(true);
     const startedAt = Date.now();
 
     try {
       const selection = Array.from(selectedPages).sort((a, b) => a - b);
-      const bytes = await extractPagesFromLoadedPdf(pdf, selection);
-      const blob = new Blob([cloneBytesToArrayBuffer(bytes)], { type: "application/pdf" });
-      const descriptor = `${selection.length}pages`;
-      const fileName = buildSplitSelectionFileName(pdf.name, descriptor);
-      const result: ExportResult = {
-        blob,
-        size: blob.size,
-        downloadName: fileName,
-        durationMs: Math.max(0, Date.now() - startedAt),
-        warnings: undefined,
-        activity: {
-          tool: "split",
-          operation: `split-selection-${selection.length}-pages`,
-          sourceCount: 1,
-          detail: `${pdf.name} · ${selection.length} selected page${
-            selection.length === 1 ? "" : "s"
-          }`,
-        },
-      };
+      const result = await exportPageSelection(pdf, selection, { startedAt });
+      const warnings = result.warnings ?? [];
 
       triggerBlobDownload(result.blob, result.downloadName);
       logExportResult(result);
-      setSelectionSuccess(`Downloaded ${selection.length} page(s).`);
+      setSelectionSuccess(
+        `Downloaded ${selection.length} page(s).${describeCopyWarnings(warnings)}`,
+      );
+      setSelectionDocumentId(await addExportedDocument(result));
     } catch (selectionProblem) {
       console.error(selectionProblem);
       setSelectionError(getFriendlyPdfError(selectionProblem));
     } finally {
       setSelectionDownloading(false);
     }
-  }, [pdf, selectedPages]);
+  }, [addExportedDocument, pdf, selectedPages]);
 
   const handlePresetDownload = useCallback(async () => {
     if (!pdf) {
@@ -323,6 +465,7 @@ const SplitToolPage = () => {
 
     try {
       const chunks = await splitPdfByChunkSize(pdf, splitSize);
+      const warnings = collectChunkWarnings(chunks);
       const entries = chunks.map((chunk) => ({
         fileName: buildSplitSliceFileName(pdf.name, chunk.startPage, chunk.endPage, chunk.index),
         bytes: chunk.bytes,
@@ -335,7 +478,7 @@ const SplitToolPage = () => {
         size: zipBlob.size,
         downloadName: zipName,
         durationMs: Math.max(0, Date.now() - startedAt),
-        warnings: undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
         activity: {
           tool: "split",
           operation: `split-preset-${splitSize}-pages`,
@@ -346,7 +489,11 @@ const SplitToolPage = () => {
 
       triggerBlobDownload(result.blob, result.downloadName);
       logExportResult(result);
-      setBundleSuccess(`Exported ${entries.length} slice(s) with ${splitSize}-page preset.`);
+      setBundleSuccess(
+        `Exported ${entries.length} slice(s) with ${splitSize}-page preset.${describeCopyWarnings(
+          warnings,
+        )}`,
+      );
     } catch (presetProblem) {
       console.error(presetProblem);
       setBundleError(getFriendlyPdfError(presetProblem));
@@ -355,6 +502,204 @@ const SplitToolPage = () => {
     }
   }, [pdf, splitSize]);
 
+  const handleSizeDownload = useCallback(async () => {
+    if (!pdf) {
+      return;
+    }
+
+    setSizeError(null);
+    setSizeSuccess(null);
+    setSizeWarnings([]);
+    setSizeDownloading(true);
+    const startedAt = Date.now();
+
+    try {
+      const { chunks, warnings } = await splitPdfByMaxSize(pdf, maxSizeMb * 1024 * 1024);
+      const entries = chunks.map((chunk) => ({
+        fileName: buildSplitSliceFileName(pdf.name, chunk.startPage, chunk.endPage, chunk.index),
+        bytes: chunk.bytes,
+      }));
+      const zipBytes = await buildZipFromEntries(entries);
+      const zipBlob = new Blob([zipBytes], { type: "application/zip" });
+      const result: ExportResult = {
+        blob: zipBlob,
+        size: zipBlob.size,
+        downloadName: buildSplitZipFileName(pdf.name),
+        durationMs: Math.max(0, Date.now() - startedAt),
+        warnings: warnings.length > 0 ? warnings : undefined,
+        activity: {
+          tool: "split",
+          operation: `split-size-${maxSizeMb}mb`,
+          sourceCount: 1,
+          detail: `${pdf.name} · ${entries.length} slice${
+            entries.length === 1 ? "" : "s"
+          } under ${maxSizeMb} MB`,
+        },
+      };
+
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setSizeWarnings(warnings);
+      setSizeSuccess(`Exported ${entries.length} slice(s) capped at ${maxSizeMb} MB each.`);
+    } catch (sizeProblem) {
+      console.error(sizeProblem);
+      setSizeError(getFriendlyPdfError(sizeProblem));
+    } finally {
+      setSizeDownloading(false);
+    }
+  }, [maxSizeMb, pdf]);
+
+  const handleMaxSizeChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const nextValue = Number(event.target.value);
+    if (Number.isNaN(nextValue)) {
+      setMaxSizeMb(1);
+      return;
+    }
+
+    setMaxSizeMb(Math.max(0.1, Math.min(500, Math.round(nextValue * 10) / 10)));
+  }, []);
+
+  const blankPages = useMemo(
+    () => (blankCoverage ? findBlankPages(blankCoverage, blankThreshold / 100) : []),
+    [blankCoverage, blankThreshold],
+  );
+
+  const separatorRanges = useMemo<SplitRange[]>(() => {
+    if (!pdf || !blankCoverage || blankPages.length === 0) {
+      return [];
+    }
+
+    try {
+      return buildSeparatorRanges(blankPages, pdf.pageCount);
+    } catch {
+      return [];
+    }
+  }, [blankCoverage, blankPages, pdf]);
+
+  const documentStarts = useMemo(
+    () => new Map(separatorRanges.map((range, index) => [range.startPage, index + 1])),
+    [separatorRanges],
+  );
+
+  const handleDetectBlanks = useCallback(async () => {
+    if (!pdf) {
+      return;
+    }
+
+    setBlankError(null);
+    setBlankSuccess(null);
+    setDetectingBlanks(true);
+
+    try {
+      setBlankCoverage(await measurePageInkCoverage(pdf));
+    } catch (detectProblem) {
+      console.error(detectProblem);
+      setBlankError(getFriendlyPdfError(detectProblem));
+    } finally {
+      setDetectingBlanks(false);
+    }
+  }, [pdf]);
+
+  const handleBlankDownload = useCallback(async () => {
+    if (!pdf || separatorRanges.length === 0) {
+      return;
+    }
+
+    setBlankError(null);
+    setBlankSuccess(null);
+    setBlankDownloading(true);
+    const startedAt = Date.now();
+
+    try {
+      const chunks = await splitPdfByRanges(pdf, separatorRanges);
+      const warnings = collectChunkWarnings(chunks);
+      const entries = chunks.map((chunk) => ({
+        fileName: buildSplitSliceFileName(pdf.name, chunk.startPage, chunk.endPage, chunk.index),
+        bytes: chunk.bytes,
+      }));
+      const zipBytes = await buildZipFromEntries(entries);
+      const zipBlob = new Blob([zipBytes], { type: "application/zip" });
+      const result: ExportResult = {
+        blob: zipBlob,
+        size: zipBlob.size,
+        downloadName: buildSplitZipFileName(pdf.name),
+        durationMs: Math.max(0, Date.now() - startedAt),
+        warnings: warnings.length > 0 ? warnings : undefined,
+        activity: {
+          tool: "split",
+          operation: "split-blank-separators",
+          sourceCount: 1,
+          detail: `${pdf.name} · ${entries.length} document${
+            entries.length === 1 ? "" : "s"
+          } · ${blankPages.length} separator page${blankPages.length === 1 ? "" : "s"} dropped`,
+        },
+      };
+
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setBlankSuccess(
+        `Exported ${entries.length} document(s) without the separator pages.${describeCopyWarnings(
+          warnings,
+        )}`,
+      );
+    } catch (blankProblem) {
+      console.error(blankProblem);
+      setBlankError(getFriendlyPdfError(blankProblem));
+    } finally {
+      setBlankDownloading(false);
+    }
+  }, [blankPages.length, pdf, separatorRanges]);
+
+  const handleOutlineDownload = useCallback(async () => {
+    if (!pdf || outlineSections.length === 0) {
+      return;
+    }
+
+    setOutlineError(null);
+    setOutlineSuccess(null);
+    setOutlineDownloading(true);
+    const startedAt = Date.now();
+
+    try {
+      const chunks = await splitPdfByRanges(pdf, outlineSections);
+      const warnings = collectChunkWarnings(chunks);
+      const entries = chunks.map((chunk) => ({
+        fileName: buildSplitOutlineFileName(pdf.name, chunk.title ?? "section", chunk.index),
+        bytes: chunk.bytes,
+      }));
+      const zipBytes = await buildZipFromEntries(entries);
+      const zipBlob = new Blob([zipBytes], { type: "application/zip" });
+      const result: ExportResult = {
+        blob: zipBlob,
+        size: zipBlob.size,
+        downloadName: buildSplitZipFileName(pdf.name),
+        durationMs: Math.max(0, Date.now() - startedAt),
+        warnings: warnings.length > 0 ? warnings : undefined,
+        activity: {
+          tool: "split",
+          operation: `split-outline-depth-${outlineDepth}`,
+          sourceCount: 1,
+          detail: `${pdf.name} · ${entries.length} bookmark section${
+            entries.length === 1 ? "" : "s"
+          }`,
+        },
+      };
+
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setOutlineSuccess(
+        `Exported ${entries.length} section(s) named after their bookmarks.${describeCopyWarnings(
+          warnings,
+        )}`,
+      );
+    } catch (outlineProblem) {
+      console.error(outlineProblem);
+      setOutlineError(getFriendlyPdfError(outlineProblem));
+    } finally {
+      setOutlineDownloading(false);
+    }
+  }, [outlineDepth, outlineSections, pdf]);
+
   const handleSplitSizeChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
     const nextValue = Number(event.target.value);
     if (Number.isNaN(nextValue)) {
@@ -366,6 +711,10 @@ const SplitToolPage = () => {
   }, []);
 
   const selectionCount = selectedPages.size;
+  const selectionSummary = useMemo(
+    () => formatPageRanges(Array.from(selectedPages)),
+    [selectedPages],
+  );
   const canDownloadSelection = Boolean(pdf) && selectionCount > 0 && !isSelectionDownloading;
   const canPresetDownload =
     Boolean(pdf) && !isBundleDownloading && splitSize >= 1 && (pdf?.pageCount ?? 0) > 0;
@@ -409,6 +758,8 @@ const SplitToolPage = () => {
             <span className="text-xs uppercase tracking-wide text-slate-400">
               or drag anywhere in this panel
             </span>
+            <OpenFromUrlForm onSource={loadFile} />
+            <SendToToolMenu from="split" documentId={pdf?.sourceId} />
             {pdf ? (
               <button
                 type="button"
@@ -481,12 +832,34 @@ const SplitToolPage = () => {
                   Even pages
                 </button>
               </div>
+              <form className="mt-4 flex flex-wrap items-end gap-2" onSubmit={handleRangeSubmit}>
+                <label className="flex min-w-[16rem] flex-1 flex-col gap-1 text-sm text-slate-600 dark:text-slate-300">
+                  Page ranges
+                  <input
+                    type="text"
+                    value={rangeExpression}
+                    onChange={(event) => setRangeExpression(event.target.value)}
+                    placeholder="1-3, 7, 10-end, odd, last-2"
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 font-mono text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white"
+                  />
+                </label>
+                <button
+                  type="submit"
+                  className="rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                  disabled={rangeExpression.trim().length === 0}
+                >
+                  Apply ranges
+                </button>
+              </form>
               <p className="mt-3 text-sm text-slate-500 dark:text-slate-300">
                 Selection:{" "}
                 <span className="font-semibold text-slate-900 dark:text-white">
                   {selectionCount}
                 </span>{" "}
                 page(s)
+                {selectionSummary ? (
+                  <span className="ml-2 font-mono text-xs text-slate-400">{selectionSummary}</span>
+                ) : null}
               </p>
             </section>
 
@@ -523,6 +896,15 @@ const SplitToolPage = () => {
                   {selectionSuccess}
                 </p>
               ) : null}
+              {selectionSuccess ? (
+                <div className="mt-3">
+                  <SendToToolMenu
+                    from="split"
+                    documentId={selectionDocumentId}
+                    label="Send result to"
+                  />
+                </div>
+              ) : null}
             </section>
 
             <section className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
@@ -573,6 +955,208 @@ const SplitToolPage = () => {
               ) : null}
             </section>
 
+            <section className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+              <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+                <div>
+                  <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                    Split by file size
+                  </p>
+                  <p className="text-sm text-slate-500 dark:text-slate-300">
+                    Packs consecutive pages into slices that stay under an attachment limit.
+                  </p>
+                </div>
+                <div className="flex flex-col gap-2 text-sm">
+                  <label
+                    className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300"
+                    htmlFor="max-size-input"
+                  >
+                    Max size (MB)
+                  </label>
+                  <input
+                    type="number"
+                    min={0.1}
+                    max={500}
+                    step={0.5}
+                    value={maxSizeMb}
+                    onChange={handleMaxSizeChange}
+                    id="max-size-input"
+                    className="w-32 rounded-2xl border border-slate-300/70 bg-transparent px-3 py-2 text-sm dark:border-white/20"
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900"
+                  disabled={isSizeDownloading}
+                  onClick={handleSizeDownload}
+                >
+                  {isSizeDownloading ? "Packing..." : `Create slices under ${maxSizeMb} MB`}
+                </button>
+              </div>
+              {sizeError ? (
+                <p className="mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+                  {sizeError}
+                </p>
+              ) : null}
+              {sizeWarnings.length > 0 ? (
+                <ul className="mt-3 space-y-1 rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-2 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-50">
+                  {sizeWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              ) : null}
+              {sizeSuccess ? (
+                <p className="mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+                  {sizeSuccess}
+                </p>
+              ) : null}
+            </section>
+
+            <section className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+              <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+                <div>
+                  <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                    Split on blank pages
+                  </p>
+                  <p className="text-sm text-slate-500 dark:text-slate-300">
+                    Finds separator sheets in batch scans and drops them between documents.
+                  </p>
+                </div>
+                <div className="flex flex-col gap-2 text-sm">
+                  <label
+                    className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300"
+                    htmlFor="blank-threshold-input"
+                  >
+                    Max ink coverage: {blankThreshold.toFixed(1)}%
+                  </label>
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={5}
+                    step={0.1}
+                    value={blankThreshold}
+                    onChange={(event) => setBlankThreshold(Number(event.target.value))}
+                    id="blank-threshold-input"
+                    className="w-40"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    className="rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                    disabled={isDetectingBlanks}
+                    onClick={handleDetectBlanks}
+                  >
+                    {isDetectingBlanks
+                      ? "Scanning..."
+                      : blankCoverage
+                        ? "Re-scan pages"
+                        : "Detect blank pages"}
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900"
+                    disabled={separatorRanges.length === 0 || isBlankDownloading}
+                    onClick={handleBlankDownload}
+                  >
+                    {isBlankDownloading
+                      ? "Bundling..."
+                      : `Export ${separatorRanges.length} document${separatorRanges.length === 1 ? "" : "s"}`}
+                  </button>
+                </div>
+              </div>
+              {blankCoverage ? (
+                <p className="mt-3 text-sm text-slate-500 dark:text-slate-300">
+                  {blankPages.length === 0
+                    ? "No blank pages at this threshold. Raise it if separators still carry scanner noise."
+                    : `${blankPages.length} separator page(s) found: ${blankPages.join(", ")}. Boundaries are marked on the page rail below.`}
+                </p>
+              ) : null}
+              {blankError ? (
+                <p className="mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+                  {blankError}
+                </p>
+              ) : null}
+              {blankSuccess ? (
+                <p className="mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+                  {blankSuccess}
+                </p>
+              ) : null}
+            </section>
+
+            <section className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
+              <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+                <div>
+                  <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                    Split by bookmarks
+                  </p>
+                  <p className="text-sm text-slate-500 dark:text-slate-300">
+                    One PDF per outline entry, named after the bookmark title.
+                  </p>
+                </div>
+                <div className="flex flex-col gap-2 text-sm">
+                  <label
+                    className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-300"
+                    htmlFor="outline-depth-select"
+                  >
+                    Bookmark depth
+                  </label>
+                  <select
+                    id="outline-depth-select"
+                    value={outlineDepth}
+                    onChange={(event) => setOutlineDepth(Number(event.target.value))}
+                    className="w-32 rounded-2xl border border-slate-300/70 bg-transparent px-3 py-2 text-sm dark:border-white/20"
+                  >
+                    {OUTLINE_DEPTHS.map((depth) => (
+                      <option key={depth} value={depth}>
+                        {depth === 1 ? "Top level" : `${depth} levels`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  type="button"
+                  className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition disabled:opacity-40 dark:bg-white dark:text-slate-900"
+                  disabled={outlineSections.length === 0 || isOutlineDownloading}
+                  onClick={handleOutlineDownload}
+                >
+                  {isOutlineDownloading
+                    ? "Bundling..."
+                    : `Export ${outlineSections.length} section${outlineSections.length === 1 ? "" : "s"}`}
+                </button>
+              </div>
+              {outlineNotice ? (
+                <p className="mt-3 text-sm text-slate-500 dark:text-slate-300">{outlineNotice}</p>
+              ) : null}
+              {outlineSections.length > 0 ? (
+                <ol className="mt-3 max-h-48 space-y-1 overflow-y-auto text-sm text-slate-600 dark:text-slate-300">
+                  {outlineSections.map((section) => (
+                    <li
+                      key={`${section.startPage}-${section.title}`}
+                      className="flex items-center justify-between gap-3"
+                      style={{ paddingLeft: `${Math.max(0, section.depth - 1) * 0.75}rem` }}
+                    >
+                      <span className="truncate">{section.title}</span>
+                      <span className="shrink-0 font-mono text-xs text-slate-400">
+                        {section.startPage === section.endPage
+                          ? `p. ${section.startPage}`
+                          : `pp. ${section.startPage}-${section.endPage}`}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
+              {outlineError ? (
+                <p className="mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+                  {outlineError}
+                </p>
+              ) : null}
+              {outlineSuccess ? (
+                <p className="mt-3 rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+                  {outlineSuccess}
+                </p>
+              ) : null}
+            </section>
+
             <section className="rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70">
               <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
                 Page rail
@@ -585,6 +1169,8 @@ const SplitToolPage = () => {
               <div className="mt-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
                 {thumbnails.map((thumb) => {
                   const isSelected = selectedPages.has(thumb.pageNumber);
+                  const isSeparator = blankPages.includes(thumb.pageNumber);
+                  const documentIndex = documentStarts.get(thumb.pageNumber);
                   return (
                     <button
                       type="button"
@@ -595,8 +1181,20 @@ const SplitToolPage = () => {
                         isSelected
                           ? "border-emerald-300 bg-emerald-50/70 dark:border-emerald-400/60 dark:bg-emerald-500/10"
                           : "border-slate-200/80 bg-white/80 hover:border-slate-300 dark:border-white/10 dark:bg-slate-900/60",
+                        isSeparator &&
+                          "border-dashed border-rose-300 opacity-60 dark:border-rose-400/60",
                       )}
                     >
+                      {isSeparator || documentIndex ? (
+                        <span
+                          className={clsx(
+                            "absolute left-5 top-5 rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white",
+                            isSeparator ? "bg-rose-500" : "bg-indigo-500",
+                          )}
+                        >
+                          {isSeparator ? "Separator" : `Doc ${documentIndex}`}
+                        </span>
+                      ) : null}
                       <img
                         src={thumb.url}
                         alt={`Page ${thumb.pageNumber}`}
@@ -0,0 +1,166 @@
+import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-runtime";
+import { useCallback, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { PAGE_STAMP_ANCHORS, planPageStamps, stampPageNumbers, } from "../lib/pdfPageStamps";
+import { WATERMARK_FONTS } from "../lib/pdfWatermark";
+import { logExportResult } from "../state/activityLog";
+import { usePdfAssets } from "../state/pdfAssets";
+const FORMATS = [
+    {
+        id: "bates",
+        label: "Bates number",
+        hint: "Prefix plus a zero-padded sequence, e.g. ACME000123.",
+    },
+    { id: "page-of-total", label: "Page X of Y", hint: "Counts every page in the set." },
+];
+// "All documents" continues one sequence through the queue; otherwise a single asset id.
+const ALL_DOCUMENTS = "all";
+const INPUT_CLASS = "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+const parseWholeNumber = (value, fallback) => {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+const StampsToolPage = () => {
+    const { assets, isBusy, error, addAsset, addSource, removeAsset, reorderAssets, clearError } = usePdfAssets();
+    const [isDragActive, setDragActive] = useState(false);
+    const [scope, setScope] = useState(ALL_DOCUMENTS);
+    const [format, setFormat] = useState("bates");
+    const [prefix, setPrefix] = useState("");
+    const [startNumber, setStartNumber] = useState(1);
+    const [padding, setPadding] = useState(6);
+    const [anchor, setAnchor] = useState("bottom-right");
+    const [marginX, setMarginX] = useState(36);
+    const [marginY, setMarginY] = useState(24);
+    const [font, setFont] = useState("helvetica");
+    const [fontSize, setFontSize] = useState(10);
+    const [color, setColor] = useState("#000000");
+    const [isExporting, setExporting] = useState(false);
+    const [exportError, setExportError] = useState(null);
+    const [exportSuccess, setExportSuccess] = useState(null);
+    const [passwordPrompt, setPasswordPrompt] = useState(null);
+    const dismissExportAlerts = useCallback(() => {
+        setExportError(null);
+        setExportSuccess(null);
+    }, []);
+    const requestPassword = useCallback((fileName) => (reason) => new Promise((resolve) => {
+        setPasswordPrompt({ fileName, reason, resolve });
+    }), []);
+    const handlePasswordSubmit = useCallback((password) => {
+        passwordPrompt?.resolve(password);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const handlePasswordCancel = useCallback(() => {
+        passwordPrompt?.resolve(null);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const ingestFiles = useCallback(async (files) => {
+        if (!files || files.length === 0) {
+            return;
+        }
+        dismissExportAlerts();
+        for (const file of Array.from(files)) {
+            await addAsset(file, { requestPassword: requestPassword(file.name) });
+        }
+    }, [addAsset, dismissExportAlerts, requestPassword]);
+    const ingestSource = useCallback(async (source) => {
+        dismissExportAlerts();
+        await addSource(source, { requestPassword: requestPassword(source.name) });
+    }, [addSource, dismissExportAlerts, requestPassword]);
+    const handleInputChange = useCallback((event) => {
+        const { files } = event.target;
+        void ingestFiles(files);
+        event.target.value = "";
+    }, [ingestFiles]);
+    const handleDrop = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+        void ingestFiles(event.dataTransfer.files);
+    }, [ingestFiles]);
+    const handleDragOver = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(true);
+    }, []);
+    const handleDragLeave = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+    }, []);
+    const targetAssets = useMemo(() => {
+        if (scope === ALL_DOCUMENTS) {
+            return assets;
+        }
+        const selected = assets.find((asset) => asset.id === scope);
+        return selected ? [selected] : assets;
+    }, [assets, scope]);
+    const settings = useMemo(() => ({
+        format,
+        prefix,
+        startNumber,
+        padding,
+        anchor,
+        marginX,
+        marginY,
+        font,
+        fontSize,
+        color,
+    }), [anchor, color, font, fontSize, format, marginX, marginY, padding, prefix, startNumber]);
+    const plans = useMemo(() => planPageStamps(targetAssets.map((asset) => asset.loaded), settings), [settings, targetAssets]);
+    const handleExport = useCallback(async () => {
+        if (targetAssets.length === 0) {
+            return;
+        }
+        dismissExportAlerts();
+        setExporting(true);
+        try {
+            const result = await stampPageNumbers(targetAssets.map((asset) => asset.loaded), settings, { startedAt: Date.now() });
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setExportSuccess(`Stamped ${result.activity.detail}. Saved ${result.downloadName}.`);
+        }
+        catch (exportProblem) {
+            console.error("Failed to stamp page numbers", exportProblem);
+            setExportError(getFriendlyPdfError(exportProblem));
+        }
+        finally {
+            setExporting(false);
+        }
+    }, [dismissExportAlerts, settings, targetAssets]);
+    const isBates = format === "bates";
+    const isCentered = anchor.endsWith("center");
+    const firstPlan = plans[0];
+    const lastPlan = plans[plans.length - 1];
+    const canExport = targetAssets.length > 0 && !isBusy && !isExporting;
+    return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-3xl border-2 border-dashed p-10 text-center transition-colors", isDragActive
+                    ? "border-orange-400 bg-orange-50/70 dark:border-orange-300 dark:bg-orange-500/10"
+                    : "border-slate-300/70 bg-white/80 dark:border-white/10 dark:bg-slate-900/60"), children: _jsxs("div", { className: "mx-auto flex max-w-2xl flex-col gap-4", children: [_jsx("p", { className: "text-lg font-semibold text-slate-800 dark:text-white", children: "Bates numbers and page numbers" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: "Drop one PDF or a whole production set. Files share the Merge queue, so numbering continues through them in merge order." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "stamps-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: "Choose PDFs" }), _jsx("input", { id: "stamps-upload", type: "file", accept: "application/pdf", multiple: true, className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: ingestSource, disabled: isBusy })] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: _jsxs("div", { className: "flex items-start justify-between gap-4", children: [_jsx("p", { children: error }), _jsx("button", { className: "text-xs font-semibold uppercase", onClick: clearError, children: "Dismiss" })] }) })) : null, isBusy ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, _jsxs("div", { className: "grid gap-4 md:grid-cols-3", children: [_jsx("div", { className: "space-y-4 md:col-span-2", children: assets.length === 0 ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/60 p-6 text-center text-sm text-slate-500 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300", children: "No PDFs yet. Add a file to preview its number range." })) : (_jsxs(_Fragment, { children: [_jsxs("label", { className: "flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300", children: ["Number", _jsxs("select", { value: scope, onChange: (event) => {
+                                                dismissExportAlerts();
+                                                setScope(event.target.value);
+                                            }, className: INPUT_CLASS, children: [_jsxs("option", { value: ALL_DOCUMENTS, children: ["All ", assets.length, " document", assets.length === 1 ? "" : "s", " in merge order"] }), assets.map((asset) => (_jsxs("option", { value: asset.id, children: ["Only ", asset.fileName] }, asset.id)))] })] }), _jsx("ul", { className: "space-y-3", children: assets.map((asset, index) => {
+                                        const planIndex = targetAssets.indexOf(asset);
+                                        const plan = planIndex >= 0 ? plans[planIndex] : undefined;
+                                        return (_jsx("li", { className: clsx("rounded-2xl border border-slate-200/80 bg-white/90 p-4 shadow-sm dark:border-white/5 dark:bg-slate-900/70", !plan && "opacity-50"), children: _jsxs("div", { className: "flex flex-wrap items-center justify-between gap-4", children: [_jsxs("div", { className: "min-w-0 flex-1", children: [_jsx("p", { className: "break-all text-base font-semibold text-slate-900 dark:text-white", children: asset.fileName }), _jsxs("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: [asset.loaded.pageCount, " pages \u00B7", " ", plan ? (_jsxs("span", { className: "font-mono text-xs", children: [plan.firstLabel, " \u2013 ", plan.lastLabel] })) : ("Not numbered")] })] }), _jsxs("div", { className: "flex items-center gap-2 text-sm", children: [_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: () => {
+                                                                    dismissExportAlerts();
+                                                                    reorderAssets(index, Math.max(0, index - 1));
+                                                                }, disabled: index === 0, children: "Move up" }), _jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", onClick: () => {
+                                                                    dismissExportAlerts();
+                                                                    reorderAssets(index, Math.min(assets.length - 1, index + 1));
+                                                                }, disabled: index === assets.length - 1, children: "Move down" }), _jsx("button", { type: "button", className: "rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 dark:border-red-900/50 dark:text-red-200", onClick: () => {
+                                                                    dismissExportAlerts();
+                                                                    if (scope === asset.id) {
+                                                                        setScope(ALL_DOCUMENTS);
+                                                                    }
+                                                                    removeAsset(asset.id);
+                                                                }, children: "Remove" })] })] }) }, asset.id));
+                                    }) }), _jsxs("p", { className: "text-xs text-slate-500 dark:text-slate-400", children: ["Every page is numbered; page ranges set in the", " ", _jsx(Link, { to: "/merge", className: "underline underline-offset-2", children: "Merge workspace" }), " ", "only apply when merging."] })] })) }), _jsxs("aside", { className: "space-y-4 rounded-2xl border border-slate-200/80 bg-white/80 p-4 text-sm text-slate-600 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300", children: [_jsxs("fieldset", { className: "space-y-2", children: [_jsx("legend", { className: "text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300", children: "Format" }), FORMATS.map((option) => (_jsxs("label", { className: "flex items-start gap-2", children: [_jsx("input", { type: "radio", name: "stamps-format", className: "mt-1", checked: format === option.id, onChange: () => setFormat(option.id) }), _jsxs("span", { className: "font-semibold text-slate-800 dark:text-white", children: [option.label, _jsx("span", { className: "block text-xs font-normal text-slate-500 dark:text-slate-400", children: option.hint })] })] }, option.id)))] }), _jsxs("div", { className: "grid grid-cols-2 gap-3", children: [_jsxs("label", { className: "col-span-2 flex flex-col gap-1", children: ["Prefix", _jsx("input", { type: "text", value: prefix, disabled: !isBates, placeholder: "ACME-", onChange: (event) => setPrefix(event.target.value), className: clsx(INPUT_CLASS, "font-mono") })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Start at", _jsx("input", { type: "number", min: 0, value: startNumber, onChange: (event) => setStartNumber(parseWholeNumber(event.target.value, 1)), className: INPUT_CLASS })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Digits", _jsx("input", { type: "number", min: 0, max: 12, value: padding, disabled: !isBates, onChange: (event) => setPadding(Math.min(12, parseWholeNumber(event.target.value, 0))), className: INPUT_CLASS })] })] }), _jsxs("fieldset", { children: [_jsx("legend", { className: "mb-2 text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300", children: "Position" }), _jsx("div", { className: "grid grid-cols-3 gap-2", children: PAGE_STAMP_ANCHORS.map((option) => (_jsx("button", { type: "button", "aria-pressed": anchor === option.id, className: clsx("rounded-xl border px-2 py-1 text-xs font-semibold transition", anchor === option.id
+                                                ? "border-orange-300 bg-orange-50 text-orange-800 dark:border-orange-400/60 dark:bg-orange-500/10 dark:text-orange-100"
+                                                : "border-slate-200 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-200"), onClick: () => setAnchor(option.id), children: option.label }, option.id))) })] }), _jsxs("div", { className: "grid grid-cols-2 gap-3", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Side margin (pt)", _jsx("input", { type: "number", min: 0, value: marginX, disabled: isCentered, onChange: (event) => setMarginX(parseWholeNumber(event.target.value, 0)), className: INPUT_CLASS })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Edge margin (pt)", _jsx("input", { type: "number", min: 0, value: marginY, onChange: (event) => setMarginY(parseWholeNumber(event.target.value, 0)), className: INPUT_CLASS })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Font", _jsx("select", { value: font, onChange: (event) => setFont(event.target.value), className: INPUT_CLASS, children: WATERMARK_FONTS.map((option) => (_jsx("option", { value: option.id, children: option.label }, option.id))) })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Size (pt)", _jsx("input", { type: "number", min: 6, max: 48, value: fontSize, onChange: (event) => setFontSize(Math.max(6, Math.min(48, parseWholeNumber(event.target.value, 10)))), className: INPUT_CLASS })] }), _jsxs("label", { className: "col-span-2 flex items-center gap-2", children: ["Color", _jsx("input", { type: "color", value: color, onChange: (event) => setColor(event.target.value), className: "h-8 w-12 cursor-pointer rounded border border-slate-200 bg-white dark:border-white/10 dark:bg-slate-900" })] })] }), firstPlan && lastPlan ? (_jsxs("p", { className: "rounded-2xl border border-slate-200/80 bg-slate-50/80 px-3 py-2 dark:border-white/10 dark:bg-slate-950/40", children: ["Range:", " ", _jsxs("span", { className: "font-mono text-xs text-slate-900 dark:text-white", children: [firstPlan.firstLabel, " \u2013 ", lastPlan.lastLabel] })] })) : null, _jsx("button", { type: "button", className: "w-full rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleExport, disabled: !canExport, children: isExporting
+                                    ? "Stamping..."
+                                    : targetAssets.length > 1
+                                        ? `Stamp ${targetAssets.length} PDFs (ZIP)`
+                                        : "Stamp & Download" }), exportError ? (_jsx("p", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: exportError })) : null, exportSuccess ? (_jsx("p", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: exportSuccess })) : null] })] }), _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+};
+export default StampsToolPage;
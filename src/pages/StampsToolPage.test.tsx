@@ -0,0 +1,79 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+vi.mock("../lib/pdfLoader", () => ({
+  loadPdfFromSource: vi.fn(),
+}));
+
+import StampsToolPage from "./StampsToolPage";
+import type { LoadedPdf } from "../lib/pdfLoader";
+import { useActivityLog } from "../state/activityLog";
+import { usePdfAssets, type PdfAsset } from "../state/pdfAssets";
+
+const createAsset = (id: string, fileName: string, pageCount: number): PdfAsset => ({
+  id,
+  fileName,
+  source: {
+    id: `source-${id}`,
+    origin: "upload",
+    name: fileName,
+    size: 1024,
+    lastModified: Date.now(),
+    bytes: new Uint8Array([1]),
+    password: null,
+  },
+  loaded: {
+    id: `${id}-loaded`,
+    name: fileName,
+    size: 1024,
+    lastModified: Date.now(),
+    pageCount,
+    pdfVersion: "1.7",
+    data: new Uint8Array([1]),
+    metadata: {},
+    doc: { destroy: vi.fn() } as unknown as LoadedPdf["doc"],
+  },
+  addedAt: Date.now(),
+});
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <StampsToolPage />
+    </MemoryRouter>,
+  );
+
+describe("StampsToolPage", () => {
+  beforeEach(() => {
+    usePdfAssets.getState().reset();
+    useActivityLog.getState().reset();
+  });
+
+  it("renders the stamping hero with an upload entry point", () => {
+    renderPage();
+    expect(screen.getByText(/Bates numbers and page numbers/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/Choose PDFs/i)).toBeInTheDocument();
+  });
+
+  it("continues the Bates range through the queue in merge order", async () => {
+    usePdfAssets.setState({
+      assets: [createAsset("a", "alpha.pdf", 3), createAsset("b", "beta.pdf", 2)],
+    });
+    renderPage();
+
+    fireEvent.change(screen.getByLabelText("Prefix"), { target: { value: "ACME" } });
+
+    expect(await screen.findByText("ACME000001 – ACME000003")).toBeInTheDocument();
+    expect(screen.getByText("ACME000004 – ACME000005")).toBeInTheDocument();
+    expect(screen.getByText("ACME000001 – ACME000005")).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/^Number/i), { target: { value: "b" } });
+    expect(await screen.findAllByText("ACME000001 – ACME000002")).toHaveLength(2);
+    expect(screen.getAllByText(/Not numbered/)).toHaveLength(1);
+  });
+});
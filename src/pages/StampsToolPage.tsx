@@ -0,0 +1,569 @@
+import { useCallback, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import { Link } from "react-router-dom";
+import clsx from "clsx";
+
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import type { PdfSource } from "../lib/documentPipeline";
+import { triggerBlobDownload } from "../lib/downloads";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { type PdfPasswordReason } from "../lib/pdfLoader";
+import {
+  PAGE_STAMP_ANCHORS,
+  planPageStamps,
+  stampPageNumbers,
+  type PageStampAnchor,
+  type PageStampFormat,
+  type PageStampSettings,
+} from "../lib/pdfPageStamps";
+import { WATERMARK_FONTS, type WatermarkFont } from "../lib/pdfWatermark";
+import { logExportResult } from "../state/activityLog";
+import { usePdfAssets } from "../state/pdfAssets";
+
+const FORMATS: { id: PageStampFormat; label: string; hint: string }[] = [
+  {
+    id: "bates",
+    label: "Bates number",
+    hint: "Prefix plus a zero-padded sequence, e.g. ACME000123.",
+  },
+  { id: "page-of-total", label: "Page X of Y", hint: "Counts every page in the set." },
+];
+
+// "All documents" continues one sequence through the queue; otherwise a single asset id.
+const ALL_DOCUMENTS = "all";
+
+const INPUT_CLASS =
+  "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900 dark:text-white";
+
+const parseWholeNumber = (value: string, fallback: number) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const StampsToolPage = () => {
+  const { assets, isBusy, error, addAsset, addSource, removeAsset, reorderAssets, clearError } =
+    usePdfAssets();
+  const [isDragActive, setDragActive] = useState(false);
+  const [scope, setScope] = useState<string>(ALL_DOCUMENTS);
+  const [format, setFormat] = useState<PageStampFormat>("bates");
+  const [prefix, setPrefix] = useState("");
+  const [startNumber, setStartNumber] = useState(1);
+  const [padding, setPadding] = useState(6);
+  const [anchor, setAnchor] = useState<PageStampAnchor>("bottom-right");
+  const [marginX, setMarginX] = useState(36);
+  const [marginY, setMarginY] = useState(24);
+  const [font, setFont] = useState<WatermarkFont>("helvetica");
+  const [fontSize, setFontSize] = useState(10);
+  const [color, setColor] = useState("#000000");
+  const [isExporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    fileName: string;
+    reason: PdfPasswordReason;
+    resolve: (value: string | null) => void;
+  } | null>(null);
+
+  const dismissExportAlerts = useCallback(() => {
+    setExportError(null);
+    setExportSuccess(null);
+  }, []);
+
+  const requestPassword = useCallback(
+    (fileName: string) => (reason: PdfPasswordReason) =>
+      new Promise<string | null>((resolve) => {
+        setPasswordPrompt({ fileName, reason, resolve });
+      }),
+    [],
+  );
+
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      passwordPrompt?.resolve(password);
+      setPasswordPrompt(null);
+    },
+    [passwordPrompt],
+  );
+
+  const handlePasswordCancel = useCallback(() => {
+    passwordPrompt?.resolve(null);
+    setPasswordPrompt(null);
+  }, [passwordPrompt]);
+
+  const ingestFiles = useCallback(
+    async (files: FileList | null) => {
+      if (!files || files.length === 0) {
+        return;
+      }
+
+      dismissExportAlerts();
+      for (const file of Array.from(files)) {
+        await addAsset(file, { requestPassword: requestPassword(file.name) });
+      }
+    },
+    [addAsset, dismissExportAlerts, requestPassword],
+  );
+
+  const ingestSource = useCallback(
+    async (source: PdfSource) => {
+      dismissExportAlerts();
+      await addSource(source, { requestPassword: requestPassword(source.name) });
+    },
+    [addSource, dismissExportAlerts, requestPassword],
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const { files } = event.target;
+      void ingestFiles(files);
+      event.target.value = "";
+    },
+    [ingestFiles],
+  );
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setDragActive(false);
+      void ingestFiles(event.dataTransfer.files);
+    },
+    [ingestFiles],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+  }, []);
+
+  const targetAssets = useMemo(() => {
+    if (scope === ALL_DOCUMENTS) {
+      return assets;
+    }
+    const selected = assets.find((asset) => asset.id === scope);
+    return selected ? [selected] : assets;
+  }, [assets, scope]);
+
+  const settings = useMemo<PageStampSettings>(
+    () => ({
+      format,
+      prefix,
+      startNumber,
+      padding,
+      anchor,
+      marginX,
+      marginY,
+      font,
+      fontSize,
+      color,
+    }),
+    [anchor, color, font, fontSize, format, marginX, marginY, padding, prefix, startNumber],
+  );
+
+  const plans = useMemo(
+    () =>
+      planPageStamps(
+        targetAssets.map((asset) => asset.loaded),
+        settings,
+      ),
+    [settings, targetAssets],
+  );
+
+  const handleExport = useCallback(async () => {
+    if (targetAssets.length === 0) {
+      return;
+    }
+
+    dismissExportAlerts();
+    setExporting(true);
+
+    try {
+      const result = await stampPageNumbers(
+        targetAssets.map((asset) => asset.loaded),
+        settings,
+        { startedAt: Date.now() },
+      );
+      triggerBlobDownload(result.blob, result.downloadName);
+      logExportResult(result);
+      setExportSuccess(`Stamped ${result.activity.detail}. Saved ${result.downloadName}.`);
+    } catch (exportProblem) {
+      console.error("Failed to stamp page numbers", exportProblem);
+      setExportError(getFriendlyPdfError(exportProblem));
+    } finally {
+      setExporting(false);
+    }
+  }, [dismissExportAlerts, settings, targetAssets]);
+
+  const isBates = format === "bates";
+  const isCentered = anchor.endsWith("center");
+  const firstPlan = plans[0];
+  const lastPlan = plans[plans.length - 1];
+  const canExport = targetAssets.length > 0 && !isBusy && !isExporting;
+
+  return (
+    <div className="mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={clsx(
+          "rounded-3xl border-2 border-dashed p-10 text-center transition-colors",
+          isDragActive
+            ? "border-orange-400 bg-orange-50/70 dark:border-orange-300 dark:bg-orange-500/10"
+            : "border-slate-300/70 bg-white/80 dark:border-white/10 dark:bg-slate-900/60",
+        )}
+      >
+        <div className="mx-auto flex max-w-2xl flex-col gap-4">
+          <p className="text-lg font-semibold text-slate-800 dark:text-white">
+            Bates numbers and page numbers
+          </p>
+          <p className="text-sm text-slate-500 dark:text-slate-300">
+            Drop one PDF or a whole production set. Files share the Merge queue, so numbering
+            continues through them in merge order.
+          </p>
+          <div className="flex flex-col items-center gap-2">
+            <label
+              htmlFor="stamps-upload"
+              className="inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900"
+            >
+              Choose PDFs
+            </label>
+            <input
+              id="stamps-upload"
+              type="file"
+              accept="application/pdf"
+              multiple
+              className="sr-only"
+              onChange={handleInputChange}
+            />
+            <span className="text-xs uppercase tracking-wide text-slate-400">
+              or drag anywhere in this panel
+            </span>
+            <OpenFromUrlForm onSource={ingestSource} disabled={isBusy} />
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+          <div className="flex items-start justify-between gap-4">
+            <p>{error}</p>
+            <button className="text-xs font-semibold uppercase" onClick={clearError}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {isBusy ? (
+        <div className="rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
+          Loading PDF...
+        </div>
+      ) : null}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-4 md:col-span-2">
+          {assets.length === 0 ? (
+            <div className="rounded-2xl border border-slate-200/80 bg-white/60 p-6 text-center text-sm text-slate-500 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300">
+              No PDFs yet. Add a file to preview its number range.
+            </div>
+          ) : (
+            <>
+              <label className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                Number
+                <select
+                  value={scope}
+                  onChange={(event) => {
+                    dismissExportAlerts();
+                    setScope(event.target.value);
+                  }}
+                  className={INPUT_CLASS}
+                >
+                  <option value={ALL_DOCUMENTS}>
+                    All {assets.length} document{assets.length === 1 ? "" : "s"} in merge order
+                  </option>
+                  {assets.map((asset) => (
+                    <option key={asset.id} value={asset.id}>
+                      Only {asset.fileName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <ul className="space-y-3">
+                {assets.map((asset, index) => {
+                  const planIndex = targetAssets.indexOf(asset);
+                  const plan = planIndex >= 0 ? plans[planIndex] : undefined;
+                  return (
+                    <li
+                      key={asset.id}
+                      className={clsx(
+                        "rounded-2xl border border-slate-200/80 bg-white/90 p-4 shadow-sm dark:border-white/5 dark:bg-slate-900/70",
+                        !plan && "opacity-50",
+                      )}
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="min-w-0 flex-1">
+                          <p className="break-all text-base font-semibold text-slate-900 dark:text-white">
+                            {asset.fileName}
+                          </p>
+                          <p className="text-sm text-slate-500 dark:text-slate-300">
+                            {asset.loaded.pageCount} pages ·{" "}
+                            {plan ? (
+                              <span className="font-mono text-xs">
+                                {plan.firstLabel} – {plan.lastLabel}
+                              </span>
+                            ) : (
+                              "Not numbered"
+                            )}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                          <button
+                            type="button"
+                            className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                            onClick={() => {
+                              dismissExportAlerts();
+                              reorderAssets(index, Math.max(0, index - 1));
+                            }}
+                            disabled={index === 0}
+                          >
+                            Move up
+                          </button>
+                          <button
+                            type="button"
+                            className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200"
+                            onClick={() => {
+                              dismissExportAlerts();
+                              reorderAssets(index, Math.min(assets.length - 1, index + 1));
+                            }}
+                            disabled={index === assets.length - 1}
+                          >
+                            Move down
+                          </button>
+                          <button
+                            type="button"
+                            className="rounded-full border border-rose-100 px-3 py-1 text-rose-600 transition hover:border-rose-200 dark:border-red-900/50 dark:text-red-200"
+                            onClick={() => {
+                              dismissExportAlerts();
+                              if (scope === asset.id) {
+                                setScope(ALL_DOCUMENTS);
+                              }
+                              removeAsset(asset.id);
+                            }}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Every page is numbered; page ranges set in the{" "}
+                <Link to="/merge" className="underline underline-offset-2">
+                  Merge workspace
+                </Link>{" "}
+                only apply when merging.
+              </p>
+            </>
+          )}
+        </div>
+
+        <aside className="space-y-4 rounded-2xl border border-slate-200/80 bg-white/80 p-4 text-sm text-slate-600 dark:border-white/5 dark:bg-slate-900/60 dark:text-slate-300">
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300">
+              Format
+            </legend>
+            {FORMATS.map((option) => (
+              <label key={option.id} className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="stamps-format"
+                  className="mt-1"
+                  checked={format === option.id}
+                  onChange={() => setFormat(option.id)}
+                />
+                <span className="font-semibold text-slate-800 dark:text-white">
+                  {option.label}
+                  <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">
+                    {option.hint}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="col-span-2 flex flex-col gap-1">
+              Prefix
+              <input
+                type="text"
+                value={prefix}
+                disabled={!isBates}
+                placeholder="ACME-"
+                onChange={(event) => setPrefix(event.target.value)}
+                className={clsx(INPUT_CLASS, "font-mono")}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Start at
+              <input
+                type="number"
+                min={0}
+                value={startNumber}
+                onChange={(event) => setStartNumber(parseWholeNumber(event.target.value, 1))}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Digits
+              <input
+                type="number"
+                min={0}
+                max={12}
+                value={padding}
+                disabled={!isBates}
+                onChange={(event) =>
+                  setPadding(Math.min(12, parseWholeNumber(event.target.value, 0)))
+                }
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+
+          <fieldset>
+            <legend className="mb-2 text-sm font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300">
+              Position
+            </legend>
+            <div className="grid grid-cols-3 gap-2">
+              {PAGE_STAMP_ANCHORS.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  aria-pressed={anchor === option.id}
+                  className={clsx(
+                    "rounded-xl border px-2 py-1 text-xs font-semibold transition",
+                    anchor === option.id
+                      ? "border-orange-300 bg-orange-50 text-orange-800 dark:border-orange-400/60 dark:bg-orange-500/10 dark:text-orange-100"
+                      : "border-slate-200 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-200",
+                  )}
+                  onClick={() => setAnchor(option.id)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              Side margin (pt)
+              <input
+                type="number"
+                min={0}
+                value={marginX}
+                disabled={isCentered}
+                onChange={(event) => setMarginX(parseWholeNumber(event.target.value, 0))}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Edge margin (pt)
+              <input
+                type="number"
+                min={0}
+                value={marginY}
+                onChange={(event) => setMarginY(parseWholeNumber(event.target.value, 0))}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Font
+              <select
+                value={font}
+                onChange={(event) => setFont(event.target.value as WatermarkFont)}
+                className={INPUT_CLASS}
+              >
+                {WATERMARK_FONTS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Size (pt)
+              <input
+                type="number"
+                min={6}
+                max={48}
+                value={fontSize}
+                onChange={(event) =>
+                  setFontSize(Math.max(6, Math.min(48, parseWholeNumber(event.target.value, 10))))
+                }
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="col-span-2 flex items-center gap-2">
+              Color
+              <input
+                type="color"
+                value={color}
+                onChange={(event) => setColor(event.target.value)}
+                className="h-8 w-12 cursor-pointer rounded border border-slate-200 bg-white dark:border-white/10 dark:bg-slate-900"
+              />
+            </label>
+          </div>
+
+          {firstPlan && lastPlan ? (
+            <p className="rounded-2xl border border-slate-200/80 bg-slate-50/80 px-3 py-2 dark:border-white/10 dark:bg-slate-950/40">
+              Range:{" "}
+              <span className="font-mono text-xs text-slate-900 dark:text-white">
+                {firstPlan.firstLabel} – {lastPlan.lastLabel}
+              </span>
+            </p>
+          ) : null}
+
+          <button
+            type="button"
+            className="w-full rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900"
+            onClick={handleExport}
+            disabled={!canExport}
+          >
+            {isExporting
+              ? "Stamping..."
+              : targetAssets.length > 1
+                ? `Stamp ${targetAssets.length} PDFs (ZIP)`
+                : "Stamp & Download"}
+          </button>
+
+          {exportError ? (
+            <p className="rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100">
+              {exportError}
+            </p>
+          ) : null}
+          {exportSuccess ? (
+            <p className="rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+              {exportSuccess}
+            </p>
+          ) : null}
+        </aside>
+      </div>
+
+      <PasswordPromptModal
+        open={Boolean(passwordPrompt)}
+        fileName={passwordPrompt?.fileName ?? ""}
+        reason={passwordPrompt?.reason ?? "password-required"}
+        onSubmit={handlePasswordSubmit}
+        onCancel={handlePasswordCancel}
+      />
+    </div>
+  );
+};
+
+export default StampsToolPage;
@@ -0,0 +1,388 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback, useEffect, useMemo, useState, } from "react";
+import clsx from "clsx";
+import OpenFromUrlForm from "../components/OpenFromUrlForm";
+import PasswordPromptModal from "../components/PasswordPromptModal";
+import { triggerBlobDownload } from "../lib/downloads";
+import { formatPageRanges, parsePageRanges } from "../lib/pageRanges";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { WATERMARK_FONTS, layoutWatermark, measureTextWatermark, resolveImageStampSize, watermarkPdf, } from "../lib/pdfWatermark";
+import { configurePdfWorker } from "../lib/pdfWorker";
+import { hasPngSignature, isPngBytesComplete } from "../lib/pngIntegrity";
+import { logExportResult } from "../state/activityLog";
+const THUMBNAIL_SCALE = 0.3;
+const KINDS = [
+    { id: "text", label: "Text" },
+    { id: "image", label: "Image" },
+];
+// Browser fonts that approximate the PDF standard fonts in the preview.
+const PREVIEW_FAMILIES = {
+    helvetica: { family: "Helvetica, Arial, sans-serif", weight: 400 },
+    "helvetica-bold": { family: "Helvetica, Arial, sans-serif", weight: 700 },
+    "times-roman": { family: '"Times New Roman", Times, serif', weight: 400 },
+    courier: { family: '"Courier New", Courier, monospace', weight: 400 },
+};
+const dataUrlToBytes = (dataUrl) => {
+    const base64 = dataUrl.split(",")[1] ?? "";
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index += 1) {
+        bytes[index] = binary.charCodeAt(index);
+    }
+    return bytes;
+};
+const readFileAsDataUrl = (file) => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+});
+const loadImageElement = (dataUrl) => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load image"));
+    image.src = dataUrl;
+});
+const buildWatermarkImage = async (file) => {
+    const dataUrl = await readFileAsDataUrl(file);
+    const image = await loadImageElement(dataUrl);
+    const bytes = dataUrlToBytes(dataUrl);
+    const width = image.naturalWidth || image.width;
+    const height = image.naturalHeight || image.height;
+    const type = file.type.toLowerCase();
+    if ((type === "image/png" || hasPngSignature(bytes)) && isPngBytesComplete(bytes)) {
+        return { mimeType: "image/png", bytes, dataUrl, width, height };
+    }
+    if (type === "image/jpeg" || type === "image/jpg") {
+        return { mimeType: "image/jpeg", bytes, dataUrl, width, height };
+    }
+    // Anything else (WebP, GIF, damaged PNGs) is redrawn to a PNG pdf-lib can embed.
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) {
+        throw new Error("Canvas rendering context unavailable.");
+    }
+    context.drawImage(image, 0, 0, width, height);
+    const pngUrl = canvas.toDataURL("image/png");
+    return { mimeType: "image/png", bytes: dataUrlToBytes(pngUrl), dataUrl: pngUrl, width, height };
+};
+const WatermarkToolPage = () => {
+    const [pdf, setPdf] = useState(null);
+    const [status, setStatus] = useState("idle");
+    const [error, setError] = useState(null);
+    const [isDragActive, setDragActive] = useState(false);
+    const [thumbnails, setThumbnails] = useState([]);
+    const [thumbnailStatus, setThumbnailStatus] = useState("idle");
+    const [selectedPages, setSelectedPages] = useState(new Set());
+    const [rangeExpression, setRangeExpression] = useState("");
+    const [selectionError, setSelectionError] = useState(null);
+    const [kind, setKind] = useState("text");
+    const [text, setText] = useState("CONFIDENTIAL");
+    const [font, setFont] = useState("helvetica-bold");
+    const [fontSize, setFontSize] = useState(48);
+    const [color, setColor] = useState("#dc2626");
+    const [image, setImage] = useState(null);
+    const [imageError, setImageError] = useState(null);
+    const [imageWidthPercent, setImageWidthPercent] = useState(40);
+    const [opacityPercent, setOpacityPercent] = useState(25);
+    const [rotation, setRotation] = useState(45);
+    const [tiled, setTiled] = useState(false);
+    const [textStamp, setTextStamp] = useState(null);
+    const [exportError, setExportError] = useState(null);
+    const [exportSuccess, setExportSuccess] = useState(null);
+    const [isExporting, setExporting] = useState(false);
+    const [passwordPrompt, setPasswordPrompt] = useState(null);
+    useEffect(() => {
+        configurePdfWorker();
+    }, []);
+    useEffect(() => {
+        return () => {
+            pdf?.doc.destroy();
+        };
+    }, [pdf]);
+    useEffect(() => {
+        if (!pdf) {
+            setThumbnails([]);
+            setThumbnailStatus("idle");
+            return;
+        }
+        let isCancelled = false;
+        setThumbnails([]);
+        setThumbnailStatus("rendering");
+        const nextThumbnails = [];
+        const buildThumbnails = async () => {
+            for (let pageNumber = 1; pageNumber <= pdf.pageCount; pageNumber += 1) {
+                try {
+                    const page = await pdf.doc.getPage(pageNumber);
+                    const viewport = page.getViewport({ scale: THUMBNAIL_SCALE });
+                    const canvas = document.createElement("canvas");
+                    const context = canvas.getContext("2d");
+                    if (!context) {
+                        page.cleanup();
+                        continue;
+                    }
+                    canvas.width = viewport.width;
+                    canvas.height = viewport.height;
+                    const renderTask = page.render({ canvas, canvasContext: context, viewport });
+                    await renderTask.promise;
+                    page.cleanup();
+                    if (isCancelled) {
+                        return;
+                    }
+                    nextThumbnails.push({
+                        pageNumber,
+                        url: canvas.toDataURL("image/png"),
+                        width: viewport.width / THUMBNAIL_SCALE,
+                        height: viewport.height / THUMBNAIL_SCALE,
+                    });
+                    setThumbnails([...nextThumbnails]);
+                }
+                catch (thumbnailError) {
+                    console.error(thumbnailError);
+                    if (!isCancelled) {
+                        setThumbnailStatus("idle");
+                    }
+                    return;
+                }
+            }
+            if (!isCancelled) {
+                setThumbnailStatus("ready");
+            }
+        };
+        void buildThumbnails();
+        return () => {
+            isCancelled = true;
+        };
+    }, [pdf]);
+    useEffect(() => {
+        const trimmed = text.trim();
+        if (!trimmed) {
+            setTextStamp(null);
+            return;
+        }
+        let isCancelled = false;
+        measureTextWatermark(trimmed, font, fontSize)
+            .then((size) => {
+            if (!isCancelled) {
+                setTextStamp(size);
+            }
+        })
+            .catch(() => {
+            // Characters outside the standard fonts; the export explains this properly.
+            if (!isCancelled) {
+                setTextStamp(null);
+            }
+        });
+        return () => {
+            isCancelled = true;
+        };
+    }, [font, fontSize, text]);
+    const settings = useMemo(() => {
+        const base = { opacity: opacityPercent / 100, rotation, tiled };
+        if (kind === "image") {
+            return image ? { ...base, kind, image, widthFraction: imageWidthPercent / 100 } : null;
+        }
+        return text.trim() ? { ...base, kind, text, font, fontSize, color } : null;
+    }, [
+        color,
+        font,
+        fontSize,
+        image,
+        imageWidthPercent,
+        kind,
+        opacityPercent,
+        rotation,
+        text,
+        tiled,
+    ]);
+    const resetWorkspace = useCallback(() => {
+        pdf?.doc.destroy();
+        setPdf(null);
+        setStatus("idle");
+        setError(null);
+        setSelectedPages(new Set());
+        setRangeExpression("");
+        setSelectionError(null);
+        setExportError(null);
+        setExportSuccess(null);
+        setThumbnails([]);
+        setThumbnailStatus("idle");
+    }, [pdf]);
+    const handlePasswordSubmit = useCallback((password) => {
+        passwordPrompt?.resolve(password);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const handlePasswordCancel = useCallback(() => {
+        passwordPrompt?.resolve(null);
+        setPasswordPrompt(null);
+    }, [passwordPrompt]);
+    const loadFile = useCallback(async (file) => {
+        if (!file)
+            return;
+        setStatus("loading");
+        setError(null);
+        setSelectionError(null);
+        setExportError(null);
+        setExportSuccess(null);
+        try {
+            pdf?.doc.destroy();
+            const { loadPdfFromInput } = await import("../lib/pdfLoader");
+            const loaded = await loadPdfFromInput(file, {
+                requestPassword: (reason) => new Promise((resolve) => {
+                    setPasswordPrompt({ fileName: file.name, reason, resolve });
+                }),
+            });
+            setPdf(loaded);
+            setSelectedPages(new Set(Array.from({ length: loaded.pageCount }, (_, i) => i + 1)));
+            setRangeExpression("");
+            setStatus("ready");
+        }
+        catch (loadError) {
+            console.error(loadError);
+            setPdf(null);
+            setStatus("error");
+            setError(getFriendlyPdfError(loadError));
+        }
+    }, [pdf]);
+    const handleInputChange = useCallback((event) => {
+        const nextFile = event.target.files?.[0];
+        void loadFile(nextFile);
+        event.target.value = "";
+    }, [loadFile]);
+    const handleDrop = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+        const nextFile = event.dataTransfer.files?.[0];
+        void loadFile(nextFile);
+    }, [loadFile]);
+    const handleDragOver = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(true);
+    }, []);
+    const handleDragLeave = useCallback((event) => {
+        event.preventDefault();
+        setDragActive(false);
+    }, []);
+    const handleImageChange = useCallback(async (event) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) {
+            return;
+        }
+        if (!file.type.startsWith("image/")) {
+            setImageError("Choose a PNG or JPG image for the watermark.");
+            return;
+        }
+        try {
+            setImage(await buildWatermarkImage(file));
+            setImageError(null);
+            setExportSuccess(null);
+        }
+        catch (imageProblem) {
+            console.error("Failed to read watermark image", imageProblem);
+            setImageError("We couldn't read that image. Try a PNG with a transparent background.");
+        }
+    }, []);
+    const allPages = useMemo(() => (pdf ? Array.from({ length: pdf.pageCount }, (_, index) => index + 1) : []), [pdf]);
+    const applyQuickSelection = useCallback((mode) => {
+        setSelectionError(null);
+        setSelectedPages(() => {
+            switch (mode) {
+                case "all":
+                    return new Set(allPages);
+                case "odd":
+                    return new Set(allPages.filter((page) => page % 2 === 1));
+                case "even":
+                    return new Set(allPages.filter((page) => page % 2 === 0));
+                case "none":
+                default:
+                    return new Set();
+            }
+        });
+    }, [allPages]);
+    const togglePageSelection = useCallback((pageNumber) => {
+        setSelectionError(null);
+        setSelectedPages((current) => {
+            const next = new Set(current);
+            if (next.has(pageNumber)) {
+                next.delete(pageNumber);
+            }
+            else {
+                next.add(pageNumber);
+            }
+            return next;
+        });
+    }, []);
+    const handleRangeSubmit = useCallback((event) => {
+        event.preventDefault();
+        if (!pdf) {
+            return;
+        }
+        setSelectionError(null);
+        try {
+            setSelectedPages(new Set(parsePageRanges(rangeExpression, pdf.pageCount)));
+        }
+        catch (rangeProblem) {
+            setSelectionError(getFriendlyPdfError(rangeProblem));
+        }
+    }, [pdf, rangeExpression]);
+    const handleExport = useCallback(async () => {
+        if (!pdf || !settings) {
+            return;
+        }
+        setExportError(null);
+        setExportSuccess(null);
+        setExporting(true);
+        try {
+            const result = await watermarkPdf(pdf, settings, Array.from(selectedPages), {
+                startedAt: Date.now(),
+            });
+            triggerBlobDownload(result.blob, result.downloadName);
+            logExportResult(result);
+            setExportSuccess(`Watermarked ${selectedPages.size} page${selectedPages.size === 1 ? "" : "s"} and saved ${result.downloadName}.`);
+        }
+        catch (exportProblem) {
+            console.error("Failed to watermark PDF", exportProblem);
+            setExportError(getFriendlyPdfError(exportProblem));
+        }
+        finally {
+            setExporting(false);
+        }
+    }, [pdf, selectedPages, settings]);
+    const renderStampPreview = (thumb) => {
+        if (!settings) {
+            return null;
+        }
+        const stamp = settings.kind === "image" ? resolveImageStampSize(settings, thumb.width) : textStamp;
+        if (!stamp) {
+            return null;
+        }
+        const centers = layoutWatermark(thumb, stamp, settings.rotation, settings.tiled);
+        const preview = settings.kind === "text" ? PREVIEW_FAMILIES[settings.font] : null;
+        return (_jsx("svg", { "aria-hidden": "true", viewBox: `0 0 ${thumb.width} ${thumb.height}`, preserveAspectRatio: "none", className: "pointer-events-none absolute inset-0 h-full w-full", children: _jsx("g", { opacity: settings.opacity, children: centers.map((center, index) => (_jsx("g", { transform: `translate(${center.x} ${center.y}) rotate(${-settings.rotation})`, children: settings.kind === "text" ? (_jsx("text", { x: -stamp.width / 2, y: stamp.height / 2, textLength: stamp.width, lengthAdjust: "spacingAndGlyphs", fontSize: settings.fontSize, fontFamily: preview?.family, fontWeight: preview?.weight, fill: settings.color, children: settings.text.trim() })) : (_jsx("image", { href: settings.image.dataUrl, x: -stamp.width / 2, y: -stamp.height / 2, width: stamp.width, height: stamp.height, preserveAspectRatio: "none" })) }, index))) }) }));
+    };
+    const selectionSummary = useMemo(() => formatPageRanges(Array.from(selectedPages)), [selectedPages]);
+    const canExport = Boolean(pdf) && Boolean(settings) && selectedPages.size > 0 && !isExporting;
+    return (_jsxs("div", { className: "mx-auto flex max-w-6xl flex-col gap-6 px-4 py-8 lg:px-10", children: [_jsx("div", { onDrop: handleDrop, onDragOver: handleDragOver, onDragLeave: handleDragLeave, className: clsx("rounded-[32px] border-2 border-dashed p-10 transition-colors", isDragActive
+                    ? "border-sky-400 bg-sky-50/70 dark:border-sky-300 dark:bg-sky-500/10"
+                    : "border-slate-300/70 bg-gradient-to-br from-white via-slate-50 to-slate-100 dark:border-white/10 dark:from-slate-900 dark:via-slate-900 dark:to-slate-950"), children: _jsxs("div", { className: "mx-auto flex max-w-3xl flex-col gap-4 text-center", children: [_jsx("p", { className: "text-2xl font-semibold text-slate-900 dark:text-white", children: pdf ? "Style your watermark" : "Watermark PDF pages" }), _jsx("p", { className: "text-sm text-slate-500 dark:text-slate-300", children: pdf
+                                ? "Adjust the stamp on the right; selected thumbnails preview the result as you go."
+                                : "Drop a PDF or choose a file to stamp text or a logo on every page or a range. Nothing leaves your browser." }), _jsxs("div", { className: "flex flex-col items-center gap-2", children: [_jsx("label", { htmlFor: "watermark-upload", className: "inline-flex cursor-pointer items-center gap-2 rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:bg-white dark:text-slate-900", children: pdf ? "Replace PDF" : "Choose a PDF" }), _jsx("input", { id: "watermark-upload", type: "file", accept: "application/pdf", className: "sr-only", onChange: handleInputChange }), _jsx("span", { className: "text-xs uppercase tracking-wide text-slate-400", children: "or drag anywhere in this panel" }), _jsx(OpenFromUrlForm, { onSource: loadFile }), pdf ? (_jsx("button", { type: "button", className: "text-xs font-semibold uppercase tracking-wide text-slate-500 underline-offset-2 hover:underline dark:text-slate-300", onClick: resetWorkspace, children: "Reset workspace" })) : null] })] }) }), error ? (_jsx("div", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: error })) : null, status === "loading" ? (_jsx("div", { className: "rounded-2xl border border-slate-200/80 bg-white/80 px-4 py-3 text-sm text-slate-600 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: "Loading PDF..." })) : null, pdf ? (_jsxs("div", { className: "grid gap-6 lg:grid-cols-[1.6fr,1fr]", children: [_jsx("div", { className: "space-y-6", children: _jsxs("section", { className: "rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("p", { className: "text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300", children: "Pages" }), _jsx("div", { className: "mt-3 flex flex-wrap gap-2 text-sm", children: [
+                                        ["all", "All pages"],
+                                        ["none", "Clear"],
+                                        ["odd", "Odd pages"],
+                                        ["even", "Even pages"],
+                                    ].map(([mode, label]) => (_jsx("button", { type: "button", className: "rounded-full border border-slate-200 px-4 py-1 text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", onClick: () => applyQuickSelection(mode), children: label }, mode))) }), _jsxs("form", { className: "mt-4 flex flex-wrap items-end gap-2", onSubmit: handleRangeSubmit, children: [_jsxs("label", { className: "flex min-w-[16rem] flex-1 flex-col gap-1 text-sm text-slate-600 dark:text-slate-300", children: ["Page ranges", _jsx("input", { type: "text", value: rangeExpression, onChange: (event) => setRangeExpression(event.target.value), placeholder: "1-3, 7, 10-end, odd, last-2", className: "rounded-2xl border border-slate-200 bg-white px-3 py-2 font-mono text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white" })] }), _jsx("button", { type: "submit", className: "rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-600 transition hover:border-slate-300 disabled:opacity-40 dark:border-white/10 dark:text-slate-200", disabled: rangeExpression.trim().length === 0, children: "Apply ranges" })] }), selectionError ? (_jsx("p", { className: "mt-3 rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: selectionError })) : null, _jsxs("p", { className: "mt-3 text-sm text-slate-500 dark:text-slate-300", children: ["Watermarking", " ", _jsx("span", { className: "font-semibold text-slate-900 dark:text-white", children: selectedPages.size }), " ", "of ", pdf.pageCount, " page(s)", selectionSummary ? (_jsx("span", { className: "ml-2 font-mono text-xs text-slate-400", children: selectionSummary })) : null] }), thumbnailStatus === "rendering" ? (_jsx("p", { className: "mt-4 text-sm text-slate-500 dark:text-slate-300", children: "Rendering thumbnails..." })) : null, _jsx("div", { className: "mt-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-3", children: thumbnails.map((thumb) => {
+                                        const isSelected = selectedPages.has(thumb.pageNumber);
+                                        return (_jsxs("button", { type: "button", "aria-pressed": isSelected, onClick: () => togglePageSelection(thumb.pageNumber), className: clsx("rounded-2xl border p-3 text-left transition", isSelected
+                                                ? "border-sky-300 bg-sky-50/70 dark:border-sky-400/60 dark:bg-sky-500/10"
+                                                : "border-slate-200/80 bg-white/80 hover:border-slate-300 dark:border-white/10 dark:bg-slate-900/60"), children: [_jsxs("div", { className: "relative overflow-hidden rounded-xl", children: [_jsx("img", { src: thumb.url, alt: `Page ${thumb.pageNumber}`, className: "block h-auto w-full" }), isSelected ? renderStampPreview(thumb) : null] }), _jsxs("div", { className: "mt-3 flex items-center justify-between text-xs font-semibold uppercase tracking-wide", children: [_jsxs("span", { className: "text-slate-500 dark:text-slate-300", children: ["Page ", thumb.pageNumber] }), _jsx("span", { className: clsx("rounded-full px-2 py-0.5", isSelected
+                                                                ? "bg-sky-600 text-white"
+                                                                : "bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-300"), children: isSelected ? "Stamped" : "Skipped" })] })] }, thumb.pageNumber));
+                                    }) })] }) }), _jsxs("aside", { className: "flex flex-col gap-4 rounded-3xl border border-slate-200/80 bg-white/90 p-5 dark:border-white/10 dark:bg-slate-900/70", children: [_jsx("div", { className: "flex gap-2", role: "tablist", "aria-label": "Watermark type", children: KINDS.map((option) => (_jsx("button", { type: "button", role: "tab", "aria-selected": kind === option.id, className: clsx("rounded-full px-4 py-1 text-sm font-semibold transition", kind === option.id
+                                        ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900"
+                                        : "border border-slate-200 text-slate-600 hover:border-slate-300 dark:border-white/10 dark:text-slate-200"), onClick: () => setKind(option.id), children: option.label }, option.id))) }), kind === "text" ? (_jsxs("div", { className: "space-y-3 text-sm text-slate-600 dark:text-slate-300", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Text", _jsx("input", { type: "text", value: text, onChange: (event) => setText(event.target.value), className: "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-white/10 dark:bg-slate-900 dark:text-white" })] }), _jsxs("div", { className: "grid grid-cols-2 gap-3", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Font", _jsx("select", { value: font, onChange: (event) => setFont(event.target.value), className: "rounded-2xl border border-slate-200 bg-white px-3 py-2 text-slate-900 dark:border-white/10 dark:bg-slate-900 dark:text-white", children: WATERMARK_FONTS.map((option) => (_jsx("option", { value: option.id, children: option.label }, option.id))) })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Color", _jsx("input", { type: "color", value: color, onChange: (event) => setColor(event.target.value), className: "h-10 w-full cursor-pointer rounded-2xl border border-slate-200 bg-white px-1 dark:border-white/10 dark:bg-slate-900" })] })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Size \u00B7 ", fontSize, " pt", _jsx("input", { type: "range", min: 12, max: 160, value: fontSize, onChange: (event) => setFontSize(Number(event.target.value)) })] })] })) : (_jsxs("div", { className: "space-y-3 text-sm text-slate-600 dark:text-slate-300", children: [_jsxs("div", { className: "flex items-center gap-3", children: [_jsx("label", { htmlFor: "watermark-image-upload", className: "inline-flex cursor-pointer items-center rounded-full border border-slate-200 px-4 py-1 font-semibold text-slate-600 transition hover:border-slate-300 dark:border-white/10 dark:text-slate-200", children: image ? "Replace image" : "Choose an image" }), _jsx("input", { id: "watermark-image-upload", type: "file", accept: "image/png,image/jpeg,image/webp,image/gif", className: "sr-only", onChange: handleImageChange }), image ? (_jsx("img", { src: image.dataUrl, alt: "Selected watermark", className: "h-10 max-w-[8rem] rounded object-contain" })) : null] }), imageError ? (_jsx("p", { className: "text-sm text-red-700 dark:text-red-200", children: imageError })) : null, _jsxs("label", { className: "flex flex-col gap-1", children: ["Width \u00B7 ", imageWidthPercent, "% of the page", _jsx("input", { type: "range", min: 5, max: 100, value: imageWidthPercent, onChange: (event) => setImageWidthPercent(Number(event.target.value)) })] })] })), _jsxs("div", { className: "space-y-3 text-sm text-slate-600 dark:text-slate-300", children: [_jsxs("label", { className: "flex flex-col gap-1", children: ["Opacity \u00B7 ", opacityPercent, "%", _jsx("input", { type: "range", min: 5, max: 100, value: opacityPercent, onChange: (event) => setOpacityPercent(Number(event.target.value)) })] }), _jsxs("label", { className: "flex flex-col gap-1", children: ["Rotation \u00B7 ", rotation, "\u00B0", _jsx("input", { type: "range", min: -90, max: 90, step: 5, value: rotation, onChange: (event) => setRotation(Number(event.target.value)) })] }), _jsxs("label", { className: "flex items-center gap-2", children: [_jsx("input", { type: "checkbox", checked: tiled, onChange: (event) => setTiled(event.target.checked) }), "Tile across the page"] })] }), _jsx("button", { type: "button", className: "rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 dark:bg-white dark:text-slate-900", onClick: handleExport, disabled: !canExport, children: isExporting ? "Stamping..." : "Watermark & Download" }), exportError ? (_jsx("p", { className: "rounded-2xl border border-red-200 bg-red-50/80 px-4 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-100", children: exportError })) : null, exportSuccess ? (_jsx("p", { className: "rounded-2xl border border-emerald-200 bg-emerald-50/80 px-4 py-2 text-sm text-emerald-900 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100", children: exportSuccess })) : null] })] })) : null, _jsx(PasswordPromptModal, { open: Boolean(passwordPrompt), fileName: passwordPrompt?.fileName ?? "", reason: passwordPrompt?.reason ?? "password-required", onSubmit: handlePasswordSubmit, onCancel: handlePasswordCancel })] }));
+};
+export default WatermarkToolPage;
@@ -0,0 +1,21 @@
+import { render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+import WatermarkToolPage from "./WatermarkToolPage";
+import { useActivityLog } from "../state/activityLog";
+
+describe("WatermarkToolPage", () => {
+  beforeEach(() => {
+    useActivityLog.getState().reset();
+  });
+
+  it("renders the watermark hero with an upload entry point", () => {
+    render(<WatermarkToolPage />);
+    expect(screen.getByText(/Watermark PDF pages/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/Choose a PDF/i)).toBeInTheDocument();
+  });
+});
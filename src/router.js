@@ -12,6 +12,14 @@ const SplitToolPage = lazy(() => import("./pages/SplitToolPage"));
 const PageEditorPage = lazy(() => import("./pages/PageEditorPage"));
 const ImagesToPdfPage = lazy(() => import("./pages/ImagesToPdfPage"));
 const CompressionToolPage = lazy(() => import("./pages/CompressionToolPage"));
+const SignaturesToolPage = lazy(() => import("./pages/SignaturesToolPage"));
+const MetadataToolPage = lazy(() => import("./pages/MetadataToolPage"));
+const FormsToolPage = lazy(() => import("./pages/FormsToolPage"));
+const WatermarkToolPage = lazy(() => import("./pages/WatermarkToolPage"));
+const StampsToolPage = lazy(() => import("./pages/StampsToolPage"));
+const HeaderFooterToolPage = lazy(() => import("./pages/HeaderFooterToolPage"));
+const EncryptToolPage = lazy(() => import("./pages/EncryptToolPage"));
+const RecipesToolPage = lazy(() => import("./pages/RecipesToolPage"));
 const suspenseFallback = (label) => (_jsxs("div", { className: "rounded-3xl border border-dashed border-slate-300/70 bg-white/80 p-10 text-center text-sm text-slate-500 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300", children: ["Loading ", label, "..."] }));
 const viewerElement = (_jsx(Suspense, { fallback: suspenseFallback("viewer"), children: _jsx(PdfViewerPage, {}) }));
 const mergeElement = (_jsx(Suspense, { fallback: suspenseFallback("merge workspace"), children: _jsx(MergeToolPage, {}) }));
@@ -19,6 +27,14 @@ const splitElement = (_jsx(Suspense, { fallback: suspenseFallback("split workspa
 const editorElement = (_jsx(Suspense, { fallback: suspenseFallback("page editor"), children: _jsx(PageEditorPage, {}) }));
 const imagesElement = (_jsx(Suspense, { fallback: suspenseFallback("images workspace"), children: _jsx(ImagesToPdfPage, {}) }));
 const compressionElement = (_jsx(Suspense, { fallback: suspenseFallback("compression workspace"), children: _jsx(CompressionToolPage, {}) }));
+const signaturesElement = (_jsx(Suspense, { fallback: suspenseFallback("signatures workspace"), children: _jsx(SignaturesToolPage, {}) }));
+const metadataElement = (_jsx(Suspense, { fallback: suspenseFallback("metadata editor"), children: _jsx(MetadataToolPage, {}) }));
+const formsElement = (_jsx(Suspense, { fallback: suspenseFallback("forms workspace"), children: _jsx(FormsToolPage, {}) }));
+const watermarkElement = (_jsx(Suspense, { fallback: suspenseFallback("watermark workspace"), children: _jsx(WatermarkToolPage, {}) }));
+const stampsElement = (_jsx(Suspense, { fallback: suspenseFallback("stamping workspace"), children: _jsx(StampsToolPage, {}) }));
+const headerFooterElement = (_jsx(Suspense, { fallback: suspenseFallback("header and footer workspace"), children: _jsx(HeaderFooterToolPage, {}) }));
+const encryptElement = (_jsx(Suspense, { fallback: suspenseFallback("encryption workspace"), children: _jsx(EncryptToolPage, {}) }));
+const recipesElement = (_jsx(Suspense, { fallback: suspenseFallback("recipe builder"), children: _jsx(RecipesToolPage, {}) }));
 const router = createBrowserRouter([
     {
         path: "/",
@@ -29,7 +45,7 @@ const router = createBrowserRouter([
                 console.log("route mapping", tool.id);
                 return {
                     path: tool.path,
-                    element: tool.id === "viewer" ? (viewerElement) : tool.id === "merge" ? (mergeElement) : tool.id === "split" ? (splitElement) : tool.id === "editor" ? (editorElement) : tool.id === "images" ? (imagesElement) : tool.id === "compression" ? (compressionElement) : (_jsx(ToolPlaceholder, { tool: tool })),
+                    element: tool.id === "viewer" ? (viewerElement) : tool.id === "merge" ? (mergeElement) : tool.id === "split" ? (splitElement) : tool.id === "editor" ? (editorElement) : tool.id === "images" ? (imagesElement) : tool.id === "compression" ? (compressionElement) : tool.id === "signatures" ? (signaturesElement) : tool.id === "metadata" ? (metadataElement) : tool.id === "forms" ? (formsElement) : tool.id === "watermark" ? (watermarkElement) : tool.id === "stamps" ? (stampsElement) : tool.id === "header-footer" ? (headerFooterElement) : tool.id === "encrypt" ? (encryptElement) : tool.id === "recipes" ? (recipesElement) : (_jsx(ToolPlaceholder, { tool: tool })),
                 };
             }),
             { path: "*", element: _jsx(NotFoundPage, {}) },
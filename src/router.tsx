@@ -13,6 +13,14 @@ const SplitToolPage = lazy(() => import("./pages/SplitToolPage"));
 const PageEditorPage = lazy(() => import("./pages/PageEditorPage"));
 const ImagesToPdfPage = lazy(() => import("./pages/ImagesToPdfPage"));
 const CompressionToolPage = lazy(() => import("./pages/CompressionToolPage"));
+const SignaturesToolPage = lazy(() => import("./pages/SignaturesToolPage"));
+const MetadataToolPage = lazy(() => import("./pages/MetadataToolPage"));
+const FormsToolPage = lazy(() => import("./pages/FormsToolPage"));
+const WatermarkToolPage = lazy(() => import("./pages/WatermarkToolPage"));
+const StampsToolPage = lazy(() => import("./pages/StampsToolPage"));
+const HeaderFooterToolPage = lazy(() => import("./pages/HeaderFooterToolPage"));
+const EncryptToolPage = lazy(() => import("./pages/EncryptToolPage"));
+const RecipesToolPage = lazy(() => import("./pages/RecipesToolPage"));
 
 const suspenseFallback = (label: string) => (
   <div className="rounded-3xl border border-dashed border-slate-300/70 bg-white/80 p-10 text-center text-sm text-slate-500 dark:border-white/10 dark:bg-slate-900/60 dark:text-slate-300">
@@ -56,6 +64,54 @@ const compressionElement = (
   </Suspense>
 );
 
+const signaturesElement = (
+  <Suspense fallback={suspenseFallback("signatures workspace")}>
+    <SignaturesToolPage />
+  </Suspense>
+);
+
+const metadataElement = (
+  <Suspense fallback={suspenseFallback("metadata editor")}>
+    <MetadataToolPage />
+  </Suspense>
+);
+
+const formsElement = (
+  <Suspense fallback={suspenseFallback("forms workspace")}>
+    <FormsToolPage />
+  </Suspense>
+);
+
+const watermarkElement = (
+  <Suspense fallback={suspenseFallback("watermark workspace")}>
+    <WatermarkToolPage />
+  </Suspense>
+);
+
+const stampsElement = (
+  <Suspense fallback={suspenseFallback("stamping workspace")}>
+    <StampsToolPage />
+  </Suspense>
+);
+
+const headerFooterElement = (
+  <Suspense fallback={suspenseFallback("header and footer workspace")}>
+    <HeaderFooterToolPage />
+  </Suspense>
+);
+
+const encryptElement = (
+  <Suspense fallback={suspenseFallback("encryption workspace")}>
+    <EncryptToolPage />
+  </Suspense>
+);
+
+const recipesElement = (
+  <Suspense fallback={suspenseFallback("recipe builder")}>
+    <RecipesToolPage />
+  </Suspense>
+);
+
 const router = createBrowserRouter([
   {
     path: "/",
@@ -79,6 +135,22 @@ const router = createBrowserRouter([
               imagesElement
             ) : tool.id === "compression" ? (
               compressionElement
+            ) : tool.id === "signatures" ? (
+              signaturesElement
+            ) : tool.id === "metadata" ? (
+              metadataElement
+            ) : tool.id === "forms" ? (
+              formsElement
+            ) : tool.id === "watermark" ? (
+              watermarkElement
+            ) : tool.id === "stamps" ? (
+              stampsElement
+            ) : tool.id === "header-footer" ? (
+              headerFooterElement
+            ) : tool.id === "encrypt" ? (
+              encryptElement
+            ) : tool.id === "recipes" ? (
+              recipesElement
             ) : (
               <ToolPlaceholder tool={tool} />
             ),
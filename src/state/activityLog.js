@@ -1,5 +1,10 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { isSessionStorageAvailable, pruneExportBlobs, saveExportBlob } from "../lib/sessionStore";
+/** Larger exports are logged without a copy to download again. */
+export const MAX_STORED_EXPORT_BYTES = 25 * 1024 * 1024;
+/** Older stored exports are dropped once the newest ones add up to this. */
+export const MAX_STORED_EXPORTS_TOTAL_BYTES = 100 * 1024 * 1024;
 const createId = () => {
     if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
         return crypto.randomUUID();
@@ -8,18 +13,30 @@ const createId = () => {
 };
 export const useActivityLog = create()(persist((set) => ({
     entries: [],
-    addEntry: (payload) => set((state) => {
+    addEntry: (payload) => {
         const entry = {
             id: createId(),
             timestamp: payload.timestamp ?? Date.now(),
             type: payload.type,
             label: payload.label,
             detail: payload.detail,
+            download: payload.download,
+            replay: payload.replay,
         };
-        const entries = [entry, ...state.entries].slice(0, 12);
-        return { entries };
-    }),
-    clear: () => set({ entries: [] }),
+        set((state) => ({ entries: [entry, ...state.entries].slice(0, 12) }));
+        return entry;
+    },
+    markDownloadUnavailable: (id) => set((state) => ({
+        entries: state.entries.map((entry) => entry.id === id && entry.download
+            ? { ...entry, download: { ...entry.download, stored: false } }
+            : entry),
+    })),
+    clear: () => {
+        set({ entries: [] });
+        if (isSessionStorageAvailable()) {
+            pruneExportBlobs([]).catch((error) => console.error("Failed to delete stored exports", error));
+        }
+    },
     reset: () => set({ entries: [] }),
 }), {
     name: "pdf-workbench-activity",
@@ -61,6 +78,20 @@ const resolveActivityCategory = (result) => {
             return "compression";
         case "signatures":
             return "signatures";
+        case "metadata":
+            return "metadata";
+        case "forms":
+            return "forms";
+        case "watermark":
+            return "watermark";
+        case "stamps":
+            return "stamps";
+        case "header-footer":
+            return "header-footer";
+        case "encrypt":
+            return "encrypt";
+        case "recipes":
+            return "recipe";
         case "viewer":
         default:
             return "viewer";
@@ -72,6 +103,15 @@ const buildLabel = (result) => {
         case "merge":
             return `Merged ${pluralize(result.activity.sourceCount, "file")}`;
         case "split":
+            if (result.activity.operation.includes("outline")) {
+                return "Split PDF by bookmarks";
+            }
+            if (result.activity.operation.startsWith("split-size")) {
+                return "Split PDF by file size";
+            }
+            if (result.activity.operation.startsWith("split-blank")) {
+                return "Split PDF on blank pages";
+            }
             return result.activity.operation.includes("preset")
                 ? "Split PDF into preset bundles"
                 : `Split ${pluralize(result.activity.sourceCount, "PDF")}`;
@@ -80,11 +120,38 @@ const buildLabel = (result) => {
         case "images":
             return `Created PDF from ${pluralize(result.activity.sourceCount, "image")}`;
         case "compression": {
-            const preset = result.activity.operation.replace(/^compress-/, "").replace(/-/g, " ");
-            return `Compressed PDF (${preset || "balanced"})`;
+            const operation = result.activity.operation.replace(/^compress-/, "");
+            const preset = operation.replace(/^images-/, "").replace(/-/g, " ");
+            return operation.startsWith("images-")
+                ? `Compressed PDF images (${preset || "balanced"})`
+                : `Compressed PDF (${preset || "balanced"})`;
         }
         case "signatures":
             return `Stamped signature on ${pluralize(result.activity.sourceCount, "PDF")}`;
+        case "metadata":
+            return result.activity.operation === "metadata-strip"
+                ? "Stripped PDF metadata"
+                : "Updated PDF metadata";
+        case "forms":
+            return result.activity.operation === "forms-flatten"
+                ? "Filled and flattened PDF form"
+                : "Filled PDF form";
+        case "watermark":
+            return result.activity.operation.startsWith("watermark-image")
+                ? "Added image watermark"
+                : "Added text watermark";
+        case "stamps":
+            return result.activity.operation === "stamp-bates"
+                ? `Bates-numbered ${pluralize(result.activity.sourceCount, "PDF")}`
+                : `Numbered pages in ${pluralize(result.activity.sourceCount, "PDF")}`;
+        case "header-footer":
+            return result.activity.operation === "header-footer-odd-even"
+                ? "Added odd/even headers and footers"
+                : "Added headers and footers";
+        case "encrypt":
+            return "Password-protected PDF";
+        case "recipes":
+            return `Ran a recipe on ${pluralize(result.activity.sourceCount, "PDF")}`;
         case "viewer":
             return "Downloaded from viewer";
         default:
@@ -100,11 +167,43 @@ const buildDetail = (result) => {
     }
     return parts.filter(Boolean).join(" · ");
 };
+/**
+ * Keeps the newest stored exports within the total cap and deletes blobs whose entries have
+ * been trimmed from the log.
+ */
+const syncStoredExports = async () => {
+    const { entries, markDownloadUnavailable } = useActivityLog.getState();
+    const keep = [];
+    let total = 0;
+    entries.forEach((entry) => {
+        if (!entry.download?.stored) {
+            return;
+        }
+        if (total + entry.download.size > MAX_STORED_EXPORTS_TOTAL_BYTES) {
+            markDownloadUnavailable(entry.id);
+            return;
+        }
+        total += entry.download.size;
+        keep.push(entry.id);
+    });
+    await pruneExportBlobs(keep);
+};
 export const logExportResult = (result) => {
-    const addEntry = useActivityLog.getState().addEntry;
-    addEntry({
+    const { addEntry, markDownloadUnavailable } = useActivityLog.getState();
+    const canStore = isSessionStorageAvailable() && result.size <= MAX_STORED_EXPORT_BYTES;
+    const entry = addEntry({
         type: resolveActivityCategory(result),
         label: buildLabel(result),
         detail: buildDetail(result),
+        download: { name: result.downloadName, size: result.size, stored: canStore },
+        replay: result.activity.replay,
     });
+    if (canStore) {
+        saveExportBlob(entry.id, result.blob)
+            .then(syncStoredExports)
+            .catch((error) => {
+            console.error("Failed to store export for downloading again", error);
+            markDownloadUnavailable(entry.id);
+        });
+    }
 };
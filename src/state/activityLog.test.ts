@@ -1,11 +1,37 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 
-import { logExportResult, useActivityLog } from "./activityLog";
+vi.mock("../lib/sessionStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/sessionStore")>()),
+  isSessionStorageAvailable: vi.fn(() => false),
+  saveExportBlob: vi.fn(async () => {}),
+  pruneExportBlobs: vi.fn(async () => {}),
+}));
+
+import {
+  MAX_STORED_EXPORT_BYTES,
+  MAX_STORED_EXPORTS_TOTAL_BYTES,
+  logExportResult,
+  useActivityLog,
+} from "./activityLog";
 import { type ExportResult } from "../lib/documentPipeline";
+import { isSessionStorageAvailable, pruneExportBlobs, saveExportBlob } from "../lib/sessionStore";
+
+const MB = 1024 * 1024;
+
+const createSplitResult = (downloadName: string, size: number): ExportResult => ({
+  blob: new Blob(["split"], { type: "application/pdf" }),
+  size,
+  downloadName,
+  durationMs: 5,
+  activity: { tool: "split", operation: "split-selection-1-pages", sourceCount: 1 },
+});
 
 describe("useActivityLog", () => {
   beforeEach(() => {
     useActivityLog.getState().reset();
+    vi.mocked(isSessionStorageAvailable).mockReturnValue(false);
+    vi.mocked(saveExportBlob).mockReset().mockResolvedValue();
+    vi.mocked(pruneExportBlobs).mockReset().mockResolvedValue();
     if (typeof window !== "undefined") {
       window.localStorage?.clear();
     }
@@ -80,4 +106,74 @@ describe("useActivityLog", () => {
     expect(entry.type).toBe("images-to-pdf");
     expect(entry.detail).toBe("Custom preset detail · Downscaled images");
   });
+
+  it("keeps the download name and replay settings for later re-runs", () => {
+    const blob = new Blob(["split"], { type: "application/pdf" });
+    const result: ExportResult = {
+      blob,
+      size: blob.size,
+      downloadName: "report-pages-1-2.pdf",
+      durationMs: 5,
+      activity: {
+        tool: "split",
+        operation: "split-selection-2-pages",
+        sourceCount: 1,
+        replay: { tool: "split", pages: [1, 2] },
+      },
+    };
+
+    logExportResult(result);
+
+    const entry = useActivityLog.getState().entries[0]!;
+    // jsdom has no IndexedDB, so the blob itself is never stored.
+    expect(entry.download).toEqual({ name: "report-pages-1-2.pdf", size: 5, stored: false });
+    expect(entry.replay).toEqual({ tool: "split", pages: [1, 2] });
+  });
+
+  it("stores exports up to the per-export cap for downloading again", async () => {
+    vi.mocked(isSessionStorageAvailable).mockReturnValue(true);
+    const small = createSplitResult("small.pdf", MAX_STORED_EXPORT_BYTES);
+
+    logExportResult(createSplitResult("huge.pdf", MAX_STORED_EXPORT_BYTES + 1));
+    logExportResult(small);
+
+    const [smallEntry, hugeEntry] = useActivityLog.getState().entries;
+    expect(hugeEntry?.download?.stored).toBe(false);
+    expect(smallEntry?.download?.stored).toBe(true);
+    expect(saveExportBlob).toHaveBeenCalledTimes(1);
+    expect(saveExportBlob).toHaveBeenCalledWith(smallEntry?.id, small.blob);
+    await vi.waitFor(() => expect(pruneExportBlobs).toHaveBeenCalledWith([smallEntry?.id]));
+  });
+
+  it("drops the oldest stored exports once they pass the total cap", async () => {
+    vi.mocked(isSessionStorageAvailable).mockReturnValue(true);
+    const size = 24 * MB;
+    const count = Math.floor(MAX_STORED_EXPORTS_TOTAL_BYTES / size) + 1;
+    for (let index = 0; index < count; index += 1) {
+      logExportResult(createSplitResult(`part-${index}.pdf`, size));
+    }
+
+    await vi.waitFor(() => expect(pruneExportBlobs).toHaveBeenCalledTimes(count));
+    const entries = useActivityLog.getState().entries;
+    const oldest = entries[count - 1]!;
+    expect(oldest.download?.stored).toBe(false);
+    expect(entries.slice(0, count - 1).every((entry) => entry.download?.stored)).toBe(true);
+    expect(pruneExportBlobs).toHaveBeenLastCalledWith(
+      entries.slice(0, count - 1).map((entry) => entry.id),
+    );
+  });
+
+  it("flags the entry when its export can't be stored", async () => {
+    vi.mocked(isSessionStorageAvailable).mockReturnValue(true);
+    vi.mocked(saveExportBlob).mockRejectedValue(new DOMException("full", "QuotaExceededError"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    logExportResult(createSplitResult("report.pdf", 5));
+
+    await vi.waitFor(() =>
+      expect(useActivityLog.getState().entries[0]?.download?.stored).toBe(false),
+    );
+    expect(pruneExportBlobs).toHaveBeenCalledTimes(0);
+    vi.mocked(console.error).mockRestore();
+  });
 });
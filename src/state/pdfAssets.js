@@ -1,8 +1,13 @@
+import { useEffect } from "react";
 import { create } from "zustand";
 import { configurePdfWorker } from "../lib/pdfWorker";
 import { loadPdfFromSource } from "../lib/pdfLoader";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
-import { createPdfSourceFromFile } from "../lib/documentPipeline";
+import { formatPageRanges, parsePageRanges } from "../lib/pageRanges";
+import { createPdfSourceFromBytes, createPdfSourceFromFile, } from "../lib/documentPipeline";
+import { useWorkspaceSession } from "./workspaceSession";
+/** Oldest documents drop off first; each one holds its full bytes in memory. */
+export const MAX_OPEN_DOCUMENTS = 6;
 const isPdf = (file) => file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
 const reorder = (list, fromIndex, toIndex) => {
     const result = [...list];
@@ -13,6 +18,10 @@ const reorder = (list, fromIndex, toIndex) => {
     result.splice(toIndex, 0, removed);
     return result;
 };
+const rememberDocument = (documents, source, openedIn) => [
+    { id: source.id, source, openedIn, openedAt: Date.now() },
+    ...documents.filter((document) => document.id !== source.id),
+].slice(0, MAX_OPEN_DOCUMENTS);
 const destroyAssetDoc = (asset) => {
     try {
         asset.loaded.doc.destroy();
@@ -25,15 +34,27 @@ export const usePdfAssets = create((set, get) => ({
     assets: [],
     isBusy: false,
     error: null,
+    openDocuments: [],
+    handoff: null,
     addAsset: async (file, options) => {
         try {
             if (!isPdf(file)) {
                 set({ error: "Please choose valid PDF files.", isBusy: false });
                 return;
             }
-            configurePdfWorker();
             set({ isBusy: true, error: null });
             const source = await createPdfSourceFromFile(file, "upload");
+            await get().addSource(source, options);
+        }
+        catch (error) {
+            console.error("Failed to add PDF asset", error);
+            set({ isBusy: false, error: getFriendlyPdfError(error) });
+        }
+    },
+    addSource: async (source, options) => {
+        try {
+            configurePdfWorker();
+            set({ isBusy: true, error: null });
             const loaded = await loadPdfFromSource(source, options);
             set((state) => ({
                 assets: [
@@ -77,10 +98,104 @@ export const usePdfAssets = create((set, get) => ({
             assets: reorder(state.assets, fromIndex, toIndex),
         };
     }),
+    setAssetPageRange: (id, expression) => {
+        const asset = get().assets.find((entry) => entry.id === id);
+        if (!asset) {
+            return false;
+        }
+        let pageSelection;
+        try {
+            pageSelection =
+                expression.trim().length > 0
+                    ? parsePageRanges(expression, asset.loaded.pageCount)
+                    : undefined;
+        }
+        catch (error) {
+            set({ error: `${asset.fileName}: ${getFriendlyPdfError(error)}` });
+            return false;
+        }
+        const coversAll = pageSelection?.length === asset.loaded.pageCount;
+        set((state) => ({
+            error: null,
+            assets: state.assets.map((entry) => entry.id === id
+                ? {
+                    ...entry,
+                    pageRange: pageSelection && !coversAll ? formatPageRanges(pageSelection) : undefined,
+                    pageSelection: pageSelection && !coversAll ? pageSelection : undefined,
+                }
+                : entry),
+        }));
+        return true;
+    },
     clearError: () => set({ error: null }),
+    openDocument: async (input, tool, options) => {
+        configurePdfWorker();
+        const source = input instanceof File ? await createPdfSourceFromFile(input, "upload") : input;
+        const loaded = await loadPdfFromSource(source, options);
+        set((state) => ({ openDocuments: rememberDocument(state.openDocuments, source, tool) }));
+        return loaded;
+    },
+    addExportedDocument: async (result) => {
+        const source = createPdfSourceFromBytes(new Uint8Array(await result.blob.arrayBuffer()), result.downloadName, "generated");
+        set((state) => ({
+            openDocuments: rememberDocument(state.openDocuments, source, result.activity.tool),
+        }));
+        return source.id;
+    },
+    sendToTool: (documentId, tool) => {
+        if (!get().openDocuments.some((document) => document.id === documentId)) {
+            return false;
+        }
+        set({ handoff: { documentId, tool } });
+        return true;
+    },
+    takeHandoff: (tool) => {
+        const { handoff, openDocuments } = get();
+        if (!handoff || handoff.tool !== tool) {
+            return null;
+        }
+        set({ handoff: null });
+        return openDocuments.find((document) => document.id === handoff.documentId)?.source ?? null;
+    },
+    closeDocument: (id) => set((state) => ({
+        openDocuments: state.openDocuments.filter((document) => document.id !== id),
+        handoff: state.handoff?.documentId === id ? null : state.handoff,
+    })),
     reset: () => {
         const { assets } = get();
         assets.forEach(destroyAssetDoc);
-        set({ assets: [], isBusy: false, error: null });
+        set({ assets: [], isBusy: false, error: null, openDocuments: [], handoff: null });
     },
 }));
+// The merge queue outlives the pages that edit it, so it saves itself whenever it changes.
+usePdfAssets.subscribe((state, previous) => {
+    if (state.assets === previous.assets) {
+        return;
+    }
+    const { forgetWorkspace, persistWorkspace } = useWorkspaceSession.getState();
+    if (state.assets.length === 0) {
+        if (previous.assets.length > 0) {
+            forgetWorkspace("merge");
+        }
+        return;
+    }
+    persistWorkspace({
+        key: "merge",
+        documents: state.assets.map((asset) => ({
+            sourceId: asset.source.id,
+            pageRange: asset.pageRange,
+        })),
+    }, state.assets.map((asset) => asset.source));
+});
+/**
+ * Opens a document sent over from another tool when the page mounts. `loadFileRef` keeps the
+ * page's latest loader, so the handoff is taken exactly once per visit.
+ */
+export const useToolHandoff = (tool, loadFileRef) => {
+    useEffect(() => {
+        const source = usePdfAssets.getState().takeHandoff(tool);
+        if (source) {
+            void loadFileRef.current(source);
+        }
+    }, [loadFileRef, tool]);
+};
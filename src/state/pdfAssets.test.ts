@@ -0,0 +1,87 @@
+import { renderHook } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/pdfWorker", () => ({
+  configurePdfWorker: vi.fn(),
+}));
+
+vi.mock("../lib/pdfLoader", () => ({
+  loadPdfFromSource: vi.fn(),
+}));
+
+import { MAX_OPEN_DOCUMENTS, usePdfAssets, useToolHandoff } from "./pdfAssets";
+import { type ExportResult } from "../lib/documentPipeline";
+
+const PDF_BYTES = new TextEncoder().encode("%PDF-1.7");
+
+const buildResult = (name: string): ExportResult => {
+  // jsdom's Blob has no arrayBuffer(), which the store reads exports through.
+  const blob = Object.assign(new Blob([PDF_BYTES], { type: "application/pdf" }), {
+    arrayBuffer: async () => PDF_BYTES.slice().buffer,
+  });
+  return {
+    blob,
+    size: blob.size,
+    downloadName: name,
+    durationMs: 5,
+    activity: { tool: "split", operation: "split-selection-1-pages", sourceCount: 1 },
+  };
+};
+
+describe("usePdfAssets handoffs", () => {
+  beforeEach(() => {
+    usePdfAssets.getState().reset();
+  });
+
+  it("hands an exported document to the requested tool once", async () => {
+    const { addExportedDocument, sendToTool, takeHandoff } = usePdfAssets.getState();
+    const id = await addExportedDocument(buildResult("slice.pdf"));
+
+    expect(usePdfAssets.getState().openDocuments[0]).toMatchObject({ id, openedIn: "split" });
+    expect(sendToTool(id, "compression")).toBe(true);
+    expect(takeHandoff("editor")).toBeNull();
+
+    const source = takeHandoff("compression");
+    expect(source?.name).toBe("slice.pdf");
+    expect(source?.origin).toBe("generated");
+    expect(Array.from(source?.bytes ?? [])).toEqual(
+      Array.from(new TextEncoder().encode("%PDF-1.7")),
+    );
+    expect(takeHandoff("compression")).toBeNull();
+  });
+
+  it("opens a handed-off document once when the tool page mounts", async () => {
+    const { addExportedDocument, sendToTool } = usePdfAssets.getState();
+    sendToTool(await addExportedDocument(buildResult("slice.pdf")), "editor");
+    const loadFileRef = { current: vi.fn(async () => {}) };
+
+    const { rerender } = renderHook(() => useToolHandoff("editor", loadFileRef));
+    rerender();
+
+    expect(loadFileRef.current).toHaveBeenCalledTimes(1);
+    expect(loadFileRef.current).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "slice.pdf", origin: "generated" }),
+    );
+    expect(usePdfAssets.getState().takeHandoff("editor")).toBeNull();
+  });
+
+  it("refuses handoffs for documents that are no longer open", async () => {
+    const { addExportedDocument, closeDocument, sendToTool } = usePdfAssets.getState();
+    const id = await addExportedDocument(buildResult("slice.pdf"));
+    closeDocument(id);
+
+    expect(sendToTool(id, "viewer")).toBe(false);
+    expect(usePdfAssets.getState().handoff).toBeNull();
+  });
+
+  it("keeps only the most recent documents", async () => {
+    const { addExportedDocument } = usePdfAssets.getState();
+    for (let index = 0; index < MAX_OPEN_DOCUMENTS + 2; index += 1) {
+      await addExportedDocument(buildResult(`part-${index}.pdf`));
+    }
+
+    const names = usePdfAssets.getState().openDocuments.map((document) => document.source.name);
+    expect(names).toHaveLength(MAX_OPEN_DOCUMENTS);
+    expect(names[0]).toBe(`part-${MAX_OPEN_DOCUMENTS + 1}.pdf`);
+  });
+});
@@ -1,9 +1,18 @@
+import { useEffect, type MutableRefObject } from "react";
 import { create } from "zustand";
 
 import { configurePdfWorker } from "../lib/pdfWorker";
 import { loadPdfFromSource, type LoadPdfOptions, type LoadedPdf } from "../lib/pdfLoader";
 import { getFriendlyPdfError } from "../lib/pdfErrors";
-import { createPdfSourceFromFile, type PdfSource } from "../lib/documentPipeline";
+import { formatPageRanges, parsePageRanges } from "../lib/pageRanges";
+import {
+  createPdfSourceFromBytes,
+  createPdfSourceFromFile,
+  type ExportResult,
+  type PdfSource,
+  type ToolId,
+} from "../lib/documentPipeline";
+import { useWorkspaceSession } from "./workspaceSession";
 
 export type PdfAsset = {
   id: string;
@@ -11,16 +20,59 @@ export type PdfAsset = {
   source: PdfSource;
   loaded: LoadedPdf;
   addedAt: number;
+  /** Normalized page-range expression; undefined means every page is included. */
+  pageRange?: string;
+  /** 1-based pages parsed from `pageRange`, in the order they will be copied. */
+  pageSelection?: number[];
 };
 
+/** Tools that can open a document handed over from another tool. */
+export type HandoffTool = Extract<ToolId, "viewer" | "split" | "editor" | "compression">;
+
+/**
+ * A document some tool has open or just produced. The source keeps the bytes and any password
+ * that unlocked them, so another tool can reopen it without a new upload or prompt.
+ */
+export type OpenDocument = {
+  id: string;
+  source: PdfSource;
+  /** The tool that loaded or produced the document. */
+  openedIn: ToolId;
+  openedAt: number;
+};
+
+/** Oldest documents drop off first; each one holds its full bytes in memory. */
+export const MAX_OPEN_DOCUMENTS = 6;
+
 type PdfAssetState = {
   assets: PdfAsset[];
   isBusy: boolean;
   error: string | null;
+  openDocuments: OpenDocument[];
+  handoff: { documentId: string; tool: HandoffTool } | null;
   addAsset: (file: File, options?: LoadPdfOptions) => Promise<void>;
+  /** Queues a source that was fetched elsewhere, e.g. opened from a URL. */
+  addSource: (source: PdfSource, options?: LoadPdfOptions) => Promise<void>;
   removeAsset: (id: string) => void;
   reorderAssets: (fromIndex: number, toIndex: number) => void;
+  setAssetPageRange: (id: string, expression: string) => boolean;
   clearError: () => void;
+  /**
+   * Loads a PDF for a single-document tool and remembers its source for handoffs. The caller
+   * owns the returned document and destroys it as before.
+   */
+  openDocument: (
+    input: File | PdfSource,
+    tool: ToolId,
+    options?: LoadPdfOptions,
+  ) => Promise<LoadedPdf>;
+  /** Keeps a PDF export in memory so it can be sent on to another tool; returns its id. */
+  addExportedDocument: (result: ExportResult) => Promise<string>;
+  /** Queues `documentId` for `tool` to open on arrival. */
+  sendToTool: (documentId: string, tool: HandoffTool) => boolean;
+  /** Returns and clears the document waiting for `tool`, if any. */
+  takeHandoff: (tool: HandoffTool) => PdfSource | null;
+  closeDocument: (id: string) => void;
   reset: () => void;
 };
 
@@ -39,6 +91,16 @@ const reorder = <T>(list: T[], fromIndex: number, toIndex: number): T[] => {
   return result;
 };
 
+const rememberDocument = (
+  documents: OpenDocument[],
+  source: PdfSource,
+  openedIn: ToolId,
+): OpenDocument[] =>
+  [
+    { id: source.id, source, openedIn, openedAt: Date.now() },
+    ...documents.filter((document) => document.id !== source.id),
+  ].slice(0, MAX_OPEN_DOCUMENTS);
+
 const destroyAssetDoc = (asset: PdfAsset) => {
   try {
     asset.loaded.doc.destroy();
@@ -51,6 +113,8 @@ export const usePdfAssets = create<PdfAssetState>((set, get) => ({
   assets: [],
   isBusy: false,
   error: null,
+  openDocuments: [],
+  handoff: null,
   addAsset: async (file: File, options?: LoadPdfOptions) => {
     try {
       if (!isPdf(file)) {
@@ -58,9 +122,18 @@ export const usePdfAssets = create<PdfAssetState>((set, get) => ({
         return;
       }
 
-      configurePdfWorker();
       set({ isBusy: true, error: null });
       const source = await createPdfSourceFromFile(file, "upload");
+      await get().addSource(source, options);
+    } catch (error) {
+      console.error("Failed to add PDF asset", error);
+      set({ isBusy: false, error: getFriendlyPdfError(error) });
+    }
+  },
+  addSource: async (source, options) => {
+    try {
+      configurePdfWorker();
+      set({ isBusy: true, error: null });
       const loaded = await loadPdfFromSource(source, options);
       set((state) => ({
         assets: [
@@ -110,10 +183,122 @@ export const usePdfAssets = create<PdfAssetState>((set, get) => ({
         assets: reorder(state.assets, fromIndex, toIndex),
       };
     }),
+  setAssetPageRange: (id, expression) => {
+    const asset = get().assets.find((entry) => entry.id === id);
+    if (!asset) {
+      return false;
+    }
+
+    let pageSelection: number[] | undefined;
+    try {
+      pageSelection =
+        expression.trim().length > 0
+          ? parsePageRanges(expression, asset.loaded.pageCount)
+          : undefined;
+    } catch (error) {
+      set({ error: `${asset.fileName}: ${getFriendlyPdfError(error)}` });
+      return false;
+    }
+
+    const coversAll = pageSelection?.length === asset.loaded.pageCount;
+    set((state) => ({
+      error: null,
+      assets: state.assets.map((entry) =>
+        entry.id === id
+          ? {
+              ...entry,
+              pageRange: pageSelection && !coversAll ? formatPageRanges(pageSelection) : undefined,
+              pageSelection: pageSelection && !coversAll ? pageSelection : undefined,
+            }
+          : entry,
+      ),
+    }));
+    return true;
+  },
   clearError: () => set({ error: null }),
+  openDocument: async (input, tool, options) => {
+    configurePdfWorker();
+    const source = input instanceof File ? await createPdfSourceFromFile(input, "upload") : input;
+    const loaded = await loadPdfFromSource(source, options);
+    set((state) => ({ openDocuments: rememberDocument(state.openDocuments, source, tool) }));
+    return loaded;
+  },
+  addExportedDocument: async (result) => {
+    const source = createPdfSourceFromBytes(
+      new Uint8Array(await result.blob.arrayBuffer()),
+      result.downloadName,
+      "generated",
+    );
+    set((state) => ({
+      openDocuments: rememberDocument(state.openDocuments, source, result.activity.tool),
+    }));
+    return source.id;
+  },
+  sendToTool: (documentId, tool) => {
+    if (!get().openDocuments.some((document) => document.id === documentId)) {
+      return false;
+    }
+    set({ handoff: { documentId, tool } });
+    return true;
+  },
+  takeHandoff: (tool) => {
+    const { handoff, openDocuments } = get();
+    if (!handoff || handoff.tool !== tool) {
+      return null;
+    }
+    set({ handoff: null });
+    return openDocuments.find((document) => document.id === handoff.documentId)?.source ?? null;
+  },
+  closeDocument: (id) =>
+    set((state) => ({
+      openDocuments: state.openDocuments.filter((document) => document.id !== id),
+      handoff: state.handoff?.documentId === id ? null : state.handoff,
+    })),
   reset: () => {
     const { assets } = get();
     assets.forEach(destroyAssetDoc);
-    set({ assets: [], isBusy: false, error: null });
+    set({ assets: [], isBusy: false, error: null, openDocuments: [], handoff: null });
   },
 }));
+
+// The merge queue outlives the pages that edit it, so it saves itself whenever it changes.
+usePdfAssets.subscribe((state, previous) => {
+  if (state.assets === previous.assets) {
+    return;
+  }
+
+  const { forgetWorkspace, persistWorkspace } = useWorkspaceSession.getState();
+  if (state.assets.length === 0) {
+    if (previous.assets.length > 0) {
+      forgetWorkspace("merge");
+    }
+    return;
+  }
+
+  persistWorkspace(
+    {
+      key: "merge",
+      documents: state.assets.map((asset) => ({
+        sourceId: asset.source.id,
+        pageRange: asset.pageRange,
+      })),
+    },
+    state.assets.map((asset) => asset.source),
+  );
+});
+
+/**
+ * Opens a document sent over from another tool when the page mounts. `loadFileRef` keeps the
+ * page's latest loader, so the handoff is taken exactly once per visit.
+ */
+export const useToolHandoff = (
+  tool: HandoffTool,
+  loadFileRef: MutableRefObject<(source: PdfSource) => Promise<unknown>>,
+) => {
+  useEffect(() => {
+    const source = usePdfAssets.getState().takeHandoff(tool);
+    if (source) {
+      void loadFileRef.current(source);
+    }
+  }, [loadFileRef, tool]);
+};
@@ -0,0 +1,43 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import type { Recipe } from "../lib/pdfRecipes";
+
+type RecipeState = {
+  recipes: Recipe[];
+  /** Adds `recipe`, or replaces the saved recipe with the same id. */
+  saveRecipe: (recipe: Recipe) => void;
+  deleteRecipe: (id: string) => void;
+  reset: () => void;
+};
+
+export const createRecipeId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  return `recipe-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+export const useRecipes = create<RecipeState>()(
+  persist(
+    (set) => ({
+      recipes: [],
+      saveRecipe: (recipe) =>
+        set((state) =>
+          state.recipes.some((saved) => saved.id === recipe.id)
+            ? {
+                recipes: state.recipes.map((saved) => (saved.id === recipe.id ? recipe : saved)),
+              }
+            : { recipes: [...state.recipes, recipe] },
+        ),
+      deleteRecipe: (id) =>
+        set((state) => ({ recipes: state.recipes.filter((recipe) => recipe.id !== id) })),
+      reset: () => set({ recipes: [] }),
+    }),
+    {
+      name: "pdf-workbench-recipes",
+      partialize: (state) => ({ recipes: state.recipes }),
+    },
+  ),
+);
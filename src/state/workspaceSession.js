@@ -0,0 +1,117 @@
+import { create } from "zustand";
+import { toolRoutes } from "../data/toolRoutes";
+import { getFriendlyPdfError } from "../lib/pdfErrors";
+import { clearSavedSession, deleteWorkspace, estimateStorageUsage, isQuotaExceededError, isSessionStorageAvailable, listSavedWorkspaces, loadSavedSources, saveWorkspace, snapshotSourceIds, } from "../lib/sessionStore";
+import { useActivityLog } from "./activityLog";
+const SAVE_DELAY_MS = 400;
+export const workspaceLabel = (key) => toolRoutes.find((route) => route.id === key)?.label ?? key;
+const saveTimers = new Map();
+const cancelSave = (key) => {
+    const timer = saveTimers.get(key);
+    if (timer !== undefined) {
+        clearTimeout(timer);
+        saveTimers.delete(key);
+    }
+};
+const describeStorageError = (key, reason) => isQuotaExceededError(reason)
+    ? `Browser storage is full, so recent ${workspaceLabel(key)} changes weren't saved. Clear the saved session or free up space to keep saving.`
+    : `Couldn't save the ${workspaceLabel(key)} workspace: ${getFriendlyPdfError(reason)}`;
+export const useWorkspaceSession = create((set, get) => ({
+    saved: [],
+    usage: null,
+    isRestoring: false,
+    error: null,
+    pending: {},
+    refresh: async () => {
+        if (!isSessionStorageAvailable()) {
+            return;
+        }
+        try {
+            const [saved, usage] = await Promise.all([listSavedWorkspaces(), estimateStorageUsage()]);
+            set({ saved, usage });
+        }
+        catch (error) {
+            console.error("Failed to read the saved session", error);
+            set({ error: getFriendlyPdfError(error) });
+        }
+    },
+    persistWorkspace: (snapshot, sources) => {
+        if (!isSessionStorageAvailable()) {
+            return;
+        }
+        cancelSave(snapshot.key);
+        saveTimers.set(snapshot.key, setTimeout(() => {
+            saveTimers.delete(snapshot.key);
+            saveWorkspace(snapshot, sources)
+                .then(() => {
+                if (get().error) {
+                    set({ error: null });
+                }
+            })
+                .catch((error) => {
+                console.error(`Failed to save the ${snapshot.key} workspace`, error);
+                set({ error: describeStorageError(snapshot.key, error) });
+            });
+        }, SAVE_DELAY_MS));
+    },
+    forgetWorkspace: (key) => {
+        cancelSave(key);
+        if (!isSessionStorageAvailable()) {
+            return;
+        }
+        deleteWorkspace(key)
+            .then(() => set((state) => ({ saved: state.saved.filter((entry) => entry.snapshot.key !== key) })))
+            .catch((error) => console.error(`Failed to forget the ${key} workspace`, error));
+    },
+    restoreSession: async (keys) => {
+        if (!isSessionStorageAvailable()) {
+            return false;
+        }
+        set({ isRestoring: true, error: null });
+        try {
+            const saved = (await listSavedWorkspaces()).filter((entry) => keys.includes(entry.snapshot.key));
+            const pending = { ...get().pending };
+            for (const entry of saved) {
+                const sources = await loadSavedSources(snapshotSourceIds(entry.snapshot));
+                Object.assign(pending, { [entry.snapshot.key]: { snapshot: entry.snapshot, sources } });
+            }
+            set({ pending, isRestoring: false });
+            return saved.length > 0;
+        }
+        catch (error) {
+            console.error("Failed to restore the saved session", error);
+            set({ isRestoring: false, error: getFriendlyPdfError(error) });
+            return false;
+        }
+    },
+    takeRestore: (key) => {
+        const restored = get().pending[key];
+        if (!restored) {
+            return null;
+        }
+        set((state) => ({ pending: { ...state.pending, [key]: undefined } }));
+        return restored;
+    },
+    clearSession: async () => {
+        saveTimers.forEach((timer) => clearTimeout(timer));
+        saveTimers.clear();
+        set({ pending: {}, error: null });
+        if (!isSessionStorageAvailable()) {
+            return;
+        }
+        try {
+            await clearSavedSession();
+            // Stored exports went with the session, so the log can no longer offer them.
+            const { entries, markDownloadUnavailable } = useActivityLog.getState();
+            entries
+                .filter((entry) => entry.download?.stored)
+                .forEach((entry) => markDownloadUnavailable(entry.id));
+            set({ saved: [], usage: await estimateStorageUsage() });
+        }
+        catch (error) {
+            console.error("Failed to clear the saved session", error);
+            set({ error: getFriendlyPdfError(error) });
+        }
+    },
+    clearError: () => set({ error: null }),
+}));
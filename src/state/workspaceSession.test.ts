@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/sessionStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/sessionStore")>()),
+  isSessionStorageAvailable: () => true,
+  saveWorkspace: vi.fn(),
+  listSavedWorkspaces: vi.fn(),
+  loadSavedSources: vi.fn(),
+  clearSavedSession: vi.fn(async () => {}),
+  estimateStorageUsage: vi.fn(async () => null),
+}));
+
+import { useActivityLog } from "./activityLog";
+import { useWorkspaceSession } from "./workspaceSession";
+import {
+  clearSavedSession,
+  listSavedWorkspaces,
+  loadSavedSources,
+  saveWorkspace,
+  type WorkspaceSnapshot,
+} from "../lib/sessionStore";
+import type { PdfSource } from "../lib/documentPipeline";
+
+const source: PdfSource = {
+  id: "source-a",
+  origin: "upload",
+  name: "report.pdf",
+  size: 4,
+  lastModified: null,
+  bytes: new Uint8Array([1, 2, 3, 4]),
+  password: null,
+};
+
+describe("useWorkspaceSession", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(saveWorkspace).mockReset();
+    useWorkspaceSession.setState({ saved: [], pending: {}, error: null, isRestoring: false });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("collapses rapid changes into one save of the latest snapshot", async () => {
+    vi.mocked(saveWorkspace).mockResolvedValue();
+    const { persistWorkspace } = useWorkspaceSession.getState();
+    const snapshot = { key: "split", sourceId: "source-a", rangeExpression: "" } as const;
+
+    persistWorkspace({ ...snapshot, selectedPages: [1] }, [source]);
+    persistWorkspace({ ...snapshot, selectedPages: [1, 2] }, [source]);
+    await vi.runAllTimersAsync();
+
+    expect(saveWorkspace).toHaveBeenCalledTimes(1);
+    expect(saveWorkspace).toHaveBeenCalledWith({ ...snapshot, selectedPages: [1, 2] }, [source]);
+  });
+
+  it("reports a full disk instead of failing silently", async () => {
+    vi.mocked(saveWorkspace).mockRejectedValue(new DOMException("full", "QuotaExceededError"));
+
+    useWorkspaceSession
+      .getState()
+      .persistWorkspace({ key: "merge", documents: [{ sourceId: "source-a" }] }, [source]);
+    await vi.runAllTimersAsync();
+
+    expect(useWorkspaceSession.getState().error).toMatch(/Browser storage is full/);
+  });
+
+  it("stages restored workspaces for their pages to take once", async () => {
+    const snapshot: WorkspaceSnapshot = {
+      key: "editor",
+      sourceId: "source-a",
+      pages: [],
+      history: [],
+    };
+    vi.mocked(listSavedWorkspaces).mockResolvedValue([
+      { snapshot, savedAt: 1, documentNames: ["report.pdf"], size: 4 },
+    ]);
+    vi.mocked(loadSavedSources).mockResolvedValue([source]);
+
+    expect(await useWorkspaceSession.getState().restoreSession(["editor"])).toBe(true);
+    expect(loadSavedSources).toHaveBeenCalledWith(["source-a"]);
+
+    const { takeRestore } = useWorkspaceSession.getState();
+    expect(takeRestore("split")).toBeNull();
+    expect(takeRestore("editor")).toEqual({ snapshot, sources: [source] });
+    expect(takeRestore("editor")).toBeNull();
+  });
+
+  it("stops offering stored exports once the session is cleared", async () => {
+    useActivityLog.getState().reset();
+    const kept = useActivityLog.getState().addEntry({
+      type: "merge",
+      label: "Merged 2 PDFs",
+      download: { name: "merged.pdf", size: 5, stored: true },
+    });
+
+    await useWorkspaceSession.getState().clearSession();
+
+    expect(clearSavedSession).toHaveBeenCalled();
+    expect(
+      useActivityLog.getState().entries.find((entry) => entry.id === kept.id)?.download,
+    ).toEqual({ name: "merged.pdf", size: 5, stored: false });
+  });
+});